@@ -0,0 +1,111 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import { pipeline } from 'node:stream/promises'
+import { CAPTION_TRACK_PATTERN, PLAYLIST_ID_PATTERN, SourceError, VIDEO_ID_PATTERN, type SourceFetcher } from './source-fetcher'
+
+// HTTP front for a SourceFetcher:
+//
+//   GET /api/health                          -> { ok, fetcher }
+//   GET /api/sources/:videoId/formats        -> SourceInfo
+//   GET /api/sources/:videoId/media?format=  -> the chosen file's bytes
+//   GET /api/sources/:videoId/captions       -> CaptionTrack[]
+//   GET /api/sources/:videoId/captions/:id   -> the track as caption file text
+//   GET /api/playlists/:playlistId           -> PlaylistInfo
+
+const SOURCE_ROUTE = /^\/api\/sources\/([^/]+)\/(formats|media)$/
+const CAPTIONS_ROUTE = /^\/api\/sources\/([^/]+)\/captions(?:\/([^/]+))?$/
+const PLAYLIST_ROUTE = /^\/api\/playlists\/([^/]+)$/
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+const sendError = (response: ServerResponse, error: unknown) => {
+  const status = error instanceof SourceError ? error.status : 500
+  const message = error instanceof Error ? error.message : 'Unexpected server error'
+  // Once streaming has started the status line is gone; just cut the body short
+  if (response.headersSent) {
+    response.destroy()
+    return
+  }
+  sendJson(response, status, { error: message })
+}
+
+// Path segments arrive percent-encoded; a broken escape such as %E0%A4 is
+// the client's mistake, not a server error
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    throw new SourceError(`Malformed path segment: ${segment}`, 400)
+  }
+}
+
+const handleRequest = async (fetcher: SourceFetcher, request: IncomingMessage, response: ServerResponse) => {
+  // The Vite dev server proxies /api, but a separately hosted frontend calls us directly
+  response.setHeader('Access-Control-Allow-Origin', '*')
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, OPTIONS' })
+    response.end()
+    return
+  }
+  if (request.method !== 'GET') throw new SourceError('Method not allowed', 405)
+
+  const url = new URL(request.url ?? '/', 'http://localhost')
+  if (url.pathname === '/api/health') {
+    sendJson(response, 200, { ok: true, fetcher: fetcher.name })
+    return
+  }
+
+  const playlistMatch = PLAYLIST_ROUTE.exec(url.pathname)
+  if (playlistMatch) {
+    const playlistId = decodeSegment(playlistMatch[1])
+    if (!PLAYLIST_ID_PATTERN.test(playlistId)) throw new SourceError(`Invalid playlist id: ${playlistId}`, 400)
+    sendJson(response, 200, await fetcher.getPlaylist(playlistId))
+    return
+  }
+
+  const captionsMatch = CAPTIONS_ROUTE.exec(url.pathname)
+  if (captionsMatch) {
+    const videoId = decodeSegment(captionsMatch[1])
+    if (!VIDEO_ID_PATTERN.test(videoId)) throw new SourceError(`Invalid video id: ${videoId}`, 400)
+    if (captionsMatch[2] === undefined) {
+      sendJson(response, 200, await fetcher.getCaptionTracks(videoId))
+      return
+    }
+    const trackId = decodeSegment(captionsMatch[2])
+    if (!CAPTION_TRACK_PATTERN.test(trackId)) throw new SourceError(`Invalid caption track id: ${trackId}`, 400)
+    const text = await fetcher.getCaptions(videoId, trackId)
+    response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' })
+    response.end(text)
+    return
+  }
+
+  const match = SOURCE_ROUTE.exec(url.pathname)
+  if (!match) throw new SourceError('Not found', 404)
+  const videoId = decodeSegment(match[1])
+  if (!VIDEO_ID_PATTERN.test(videoId)) throw new SourceError(`Invalid video id: ${videoId}`, 400)
+
+  if (match[2] === 'formats') {
+    sendJson(response, 200, await fetcher.getInfo(videoId))
+    return
+  }
+
+  const { stream, format } = await fetcher.openStream(videoId, url.searchParams.get('format') ?? undefined)
+  response.writeHead(200, {
+    'Content-Type': format.mimeType,
+    ...(format.contentLength !== null && { 'Content-Length': String(format.contentLength) }),
+    'X-Source-Format': format.id,
+    'Access-Control-Expose-Headers': 'X-Source-Format'
+  })
+  // Stop pulling from upstream when the client goes away
+  request.on('close', () => stream.destroy())
+  await pipeline(stream, response)
+}
+
+export function createSourceServer(fetcher: SourceFetcher): Server {
+  return createServer((request, response) => {
+    handleRequest(fetcher, request, response).catch(error => sendError(response, error))
+  })
+}
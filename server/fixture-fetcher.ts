@@ -0,0 +1,140 @@
+import { createReadStream } from 'node:fs'
+import { readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { pickDefaultFormat, SourceError, type CaptionTrack, type PlaylistEntry, type SourceFetcher, type SourceFormat } from './source-fetcher'
+
+// Serves files from a local directory described by fixtures.json:
+//
+//   { "fixture0001": { "title": "Sample", "duration": 3, "files": ["sample.mp4"] },
+//     "*": { ... } }
+//
+// The optional "*" entry answers every other video id, so any YouTube URL
+// works offline during development. A file can also be an object that spells
+// out what the extension can't tell, e.g. { "file": "v.mp4", "hasAudio": false }.
+//
+// Playlists live in playlists.json, keyed the same way:
+//
+//   { "*": { "title": "Sample", "entries": [{ "videoId": "...", "title": "...", "duration": 3 }] } }
+//
+// and caption tracks in captions.json, one list of tracks per video:
+//
+//   { "*": [{ "id": "en", "languageCode": "en", "name": "English", "file": "sample.en.vtt" }] }
+
+type FixtureFile = string | (Partial<Omit<SourceFormat, 'id' | 'mimeType' | 'container' | 'contentLength'>> & { file: string })
+
+interface FixtureEntry {
+  title: string
+  duration?: number | null
+  files: FixtureFile[]
+}
+
+interface PlaylistFixture {
+  title: string
+  entries: Omit<PlaylistEntry, 'index'>[]
+}
+
+type CaptionFixture = Omit<CaptionTrack, 'autoGenerated'> & { autoGenerated?: boolean; file: string }
+
+const MANIFEST_NAME = 'fixtures.json'
+const PLAYLISTS_NAME = 'playlists.json'
+const CAPTIONS_NAME = 'captions.json'
+
+const MIME_TYPES: Record<string, { mimeType: string; hasVideo: boolean }> = {
+  mp4: { mimeType: 'video/mp4', hasVideo: true },
+  webm: { mimeType: 'video/webm', hasVideo: true },
+  mov: { mimeType: 'video/quicktime', hasVideo: true },
+  mp3: { mimeType: 'audio/mpeg', hasVideo: false },
+  m4a: { mimeType: 'audio/mp4', hasVideo: false },
+  ogg: { mimeType: 'audio/ogg', hasVideo: false },
+  opus: { mimeType: 'audio/ogg', hasVideo: false },
+  wav: { mimeType: 'audio/wav', hasVideo: false },
+  flac: { mimeType: 'audio/flac', hasVideo: false }
+}
+
+export function createFixtureFetcher(directory: string): SourceFetcher {
+  const manifests = new Map<string, Promise<Record<string, unknown>>>()
+
+  // Read once and keep; a missing file is retried on the next request
+  const loadManifest = <T>(name: string): Promise<Record<string, T>> => {
+    let manifest = manifests.get(name)
+    if (!manifest) {
+      manifest = readFile(path.join(directory, name), 'utf8').then(
+        text => JSON.parse(text),
+        () => {
+          manifests.delete(name)
+          throw new SourceError(`No ${name} in ${directory}`, 500)
+        }
+      )
+      manifests.set(name, manifest)
+    }
+    return manifest as Promise<Record<string, T>>
+  }
+
+  const findFixture = async <T>(name: string, id: string): Promise<T> => {
+    const fixtures = await loadManifest<T>(name)
+    const fixture = fixtures[id] ?? fixtures['*']
+    if (!fixture) throw new SourceError(`No fixture for ${id}`, 404)
+    return fixture
+  }
+
+  const findEntry = (videoId: string) => findFixture<FixtureEntry>(MANIFEST_NAME, videoId)
+
+  const describe = async (entry: FixtureFile): Promise<SourceFormat> => {
+    const { file, ...details } = typeof entry === 'string' ? { file: entry } : entry
+    const extension = path.extname(file).slice(1).toLowerCase()
+    const type = MIME_TYPES[extension] ?? { mimeType: 'application/octet-stream', hasVideo: false }
+    const { size } = await stat(path.join(directory, file))
+    return {
+      id: file,
+      mimeType: type.mimeType,
+      container: extension,
+      hasVideo: type.hasVideo,
+      hasAudio: true,
+      videoCodec: null,
+      audioCodec: null,
+      width: null,
+      height: null,
+      fps: null,
+      qualityLabel: null,
+      bitrate: null,
+      audioBitrate: null,
+      ...details,
+      contentLength: size
+    }
+  }
+
+  const listFormats = (entry: FixtureEntry) => Promise.all(entry.files.map(describe))
+
+  return {
+    name: 'fixtures',
+    getInfo: async (videoId) => {
+      const entry = await findEntry(videoId)
+      return { videoId, title: entry.title, duration: entry.duration ?? null, formats: await listFormats(entry) }
+    },
+    openStream: async (videoId, formatId) => {
+      const formats = await listFormats(await findEntry(videoId))
+      const format = formatId ? formats.find(candidate => candidate.id === formatId) : pickDefaultFormat(formats)
+      if (!format) throw new SourceError(`Format ${formatId ?? '(default)'} is not available for ${videoId}`, 404)
+      // Ids come from the manifest, never from the request path
+      return { stream: createReadStream(path.join(directory, format.id)), format }
+    },
+    getPlaylist: async (playlistId) => {
+      const playlist = await findFixture<PlaylistFixture>(PLAYLISTS_NAME, playlistId)
+      return {
+        playlistId,
+        title: playlist.title,
+        entries: playlist.entries.map((entry, position) => ({ ...entry, index: position + 1 }))
+      }
+    },
+    getCaptionTracks: async (videoId) => {
+      const tracks = await findFixture<CaptionFixture[]>(CAPTIONS_NAME, videoId)
+      return tracks.map(({ file: _file, autoGenerated = false, ...track }) => ({ ...track, autoGenerated }))
+    },
+    getCaptions: async (videoId, trackId) => {
+      const tracks = await findFixture<CaptionFixture[]>(CAPTIONS_NAME, videoId)
+      const track = tracks.find(candidate => candidate.id === trackId)
+      if (!track) throw new SourceError(`No caption track ${trackId} for ${videoId}`, 404)
+      return readFile(path.join(directory, track.file), 'utf8')
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createSourceServer } from './app'
+import { createFixtureFetcher } from './fixture-fetcher'
+import type { SourceFetcher } from './source-fetcher'
+import { createYtdlFetcher } from './ytdl-fetcher'
+
+// SOURCE_FETCHER=fixture serves FIXTURE_DIR (default server/fixtures) instead of YouTube
+const port = Number(process.env.PORT ?? 3001)
+const fixtureDir = process.env.FIXTURE_DIR ?? path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures')
+
+const createFetcher = (): SourceFetcher => {
+  switch (process.env.SOURCE_FETCHER ?? 'ytdl') {
+    case 'ytdl':
+      return createYtdlFetcher()
+    case 'fixture':
+      return createFixtureFetcher(fixtureDir)
+    default:
+      throw new Error(`Unknown SOURCE_FETCHER: ${process.env.SOURCE_FETCHER}`)
+  }
+}
+
+const fetcher = createFetcher()
+createSourceServer(fetcher).listen(port, () => {
+  console.log(`Source server (${fetcher.name}) listening on http://localhost:${port}`)
+})
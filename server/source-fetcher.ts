@@ -0,0 +1,97 @@
+import type { Readable } from 'node:stream'
+
+// Where the backend gets source media from. The ytdl-core implementation
+// talks to YouTube; the fixture implementation serves local files so the
+// app can be developed and tested offline.
+
+export interface SourceFormat {
+  // Opaque per-fetcher id: the itag for YouTube, the file name for fixtures
+  id: string
+  mimeType: string
+  container: string
+  hasVideo: boolean
+  hasAudio: boolean
+  // RFC 6381 codec strings such as avc1.64001F or opus, when known
+  videoCodec: string | null
+  audioCodec: string | null
+  width: number | null
+  height: number | null
+  fps: number | null
+  qualityLabel: string | null
+  // bits per second
+  bitrate: number | null
+  audioBitrate: number | null
+  contentLength: number | null
+}
+
+export interface SourceInfo {
+  videoId: string
+  title: string
+  duration: number | null
+  formats: SourceFormat[]
+}
+
+export interface PlaylistEntry {
+  videoId: string
+  title: string
+  duration: number | null
+  // 1-based position in the playlist
+  index: number
+}
+
+export interface PlaylistInfo {
+  playlistId: string
+  title: string
+  entries: PlaylistEntry[]
+}
+
+export interface CaptionTrack {
+  // Opaque per-fetcher id: the vssId for YouTube, the manifest id for fixtures
+  id: string
+  languageCode: string
+  name: string
+  // Speech recognition rather than uploaded by the author
+  autoGenerated: boolean
+}
+
+export interface SourceStream {
+  stream: Readable
+  format: SourceFormat
+}
+
+export interface SourceFetcher {
+  name: string
+  getInfo: (videoId: string) => Promise<SourceInfo>
+  // Without a formatId the fetcher picks its best single file with video and audio
+  openStream: (videoId: string, formatId?: string) => Promise<SourceStream>
+  getPlaylist: (playlistId: string) => Promise<PlaylistInfo>
+  getCaptionTracks: (videoId: string) => Promise<CaptionTrack[]>
+  // The track as caption file text: WebVTT from YouTube, WebVTT or SRT from fixtures
+  getCaptions: (videoId: string, trackId: string) => Promise<string>
+}
+
+// Carries the HTTP status the server should answer with
+export class SourceError extends Error {
+  status: number
+
+  constructor(message: string, status = 502) {
+    super(message)
+    this.name = 'SourceError'
+    this.status = status
+  }
+}
+
+export const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/
+export const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]{2,64}$/
+// YouTube vssIds look like .en, a.en or .pt-BR
+export const CAPTION_TRACK_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/
+
+// Playlists are listed in full, so cap what one request can pull
+export const MAX_PLAYLIST_ENTRIES = 500
+
+// Prefer files with both streams, then the highest resolution, then bitrate
+export function pickDefaultFormat(formats: SourceFormat[]): SourceFormat | null {
+  const muxed = formats.filter(format => format.hasVideo && format.hasAudio)
+  const candidates = muxed.length > 0 ? muxed : formats
+  return [...candidates].sort((a, b) => (b.height ?? 0) - (a.height ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0))[0] ?? null
+}
@@ -0,0 +1,114 @@
+import ytdl from 'ytdl-core'
+import ytpl from 'ytpl'
+import { MAX_PLAYLIST_ENTRIES, pickDefaultFormat, SourceError, type CaptionTrack, type SourceFetcher, type SourceFormat } from './source-fetcher'
+
+const toNumber = (value: string | number | undefined | null): number | null => {
+  const number = Number(value)
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(number) ? number : null
+}
+
+const toSourceFormat = (format: ytdl.videoFormat): SourceFormat => ({
+  id: String(format.itag),
+  mimeType: format.mimeType?.split(';')[0] ?? 'application/octet-stream',
+  container: format.container,
+  hasVideo: format.hasVideo,
+  hasAudio: format.hasAudio,
+  videoCodec: format.hasVideo ? format.videoCodec ?? null : null,
+  audioCodec: format.hasAudio ? format.audioCodec ?? null : null,
+  width: format.width ?? null,
+  height: format.height ?? null,
+  fps: format.fps ?? null,
+  qualityLabel: format.qualityLabel ?? null,
+  bitrate: toNumber(format.bitrate),
+  audioBitrate: format.audioBitrate ? format.audioBitrate * 1000 : null,
+  contentLength: toNumber(format.contentLength)
+})
+
+// HLS and DASH manifests can't be fetched as a single file
+const downloadableFormats = (info: ytdl.videoInfo) => info.formats.filter(format => !format.isHLS && !format.isDashMPD)
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// ytdl-core and ytpl report removed and private videos through their message text
+const lookupStatus = (message: string) => (/unavailable|private|not found|does not exist|unknown playlist/i.test(message) ? 404 : 502)
+
+// Newer player responses name tracks with text runs instead of simpleText
+const trackName = (track: ytdl.captionTrack): string => {
+  const name = track.name as { simpleText?: string; runs?: { text: string }[] }
+  return name.simpleText ?? name.runs?.map(run => run.text).join('') ?? String(track.languageCode)
+}
+
+const captionTracks = (info: ytdl.videoInfo) => info.player_response.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? []
+
+const toCaptionTrack = (track: ytdl.captionTrack): CaptionTrack => ({
+  id: track.vssId,
+  languageCode: String(track.languageCode),
+  name: trackName(track),
+  autoGenerated: track.kind === 'asr'
+})
+
+const loadInfo = async (videoId: string): Promise<ytdl.videoInfo> => {
+  if (!ytdl.validateID(videoId)) throw new SourceError(`Invalid video id: ${videoId}`, 400)
+  try {
+    return await ytdl.getInfo(videoId)
+  } catch (error) {
+    const message = errorMessage(error)
+    throw new SourceError(`YouTube lookup failed: ${message}`, lookupStatus(message))
+  }
+}
+
+export function createYtdlFetcher(): SourceFetcher {
+  return {
+    name: 'ytdl-core',
+    getInfo: async (videoId) => {
+      const info = await loadInfo(videoId)
+      return {
+        videoId,
+        title: info.videoDetails.title,
+        duration: toNumber(info.videoDetails.lengthSeconds),
+        formats: downloadableFormats(info).map(toSourceFormat)
+      }
+    },
+    openStream: async (videoId, formatId) => {
+      const info = await loadInfo(videoId)
+      const formats = downloadableFormats(info)
+      const chosen = formatId
+        ? formats.find(format => String(format.itag) === formatId)
+        : formats.find(format => String(format.itag) === pickDefaultFormat(formats.map(toSourceFormat))?.id)
+      if (!chosen) throw new SourceError(`Format ${formatId ?? '(default)'} is not available for ${videoId}`, 404)
+
+      return { stream: ytdl.downloadFromInfo(info, { format: chosen }), format: toSourceFormat(chosen) }
+    },
+    getPlaylist: async (playlistId) => {
+      if (!ytpl.validateID(playlistId)) throw new SourceError(`Invalid playlist id: ${playlistId}`, 400)
+      let playlist: ytpl.Result
+      try {
+        playlist = await ytpl(playlistId, { limit: MAX_PLAYLIST_ENTRIES })
+      } catch (error) {
+        const message = errorMessage(error)
+        throw new SourceError(`YouTube playlist lookup failed: ${message}`, lookupStatus(message))
+      }
+      return {
+        playlistId,
+        title: playlist.title,
+        entries: playlist.items.map(item => ({ videoId: item.id, title: item.title, duration: item.durationSec, index: item.index }))
+      }
+    },
+    getCaptionTracks: async (videoId) => captionTracks(await loadInfo(videoId)).map(toCaptionTrack),
+    getCaptions: async (videoId, trackId) => {
+      const track = captionTracks(await loadInfo(videoId)).find(candidate => candidate.vssId === trackId)
+      if (!track) throw new SourceError(`No caption track ${trackId} for ${videoId}`, 404)
+
+      const url = new URL(track.baseUrl)
+      url.searchParams.set('fmt', 'vtt')
+      let response: Response
+      try {
+        response = await fetch(url)
+      } catch (error) {
+        throw new SourceError(`YouTube caption download failed: ${errorMessage(error)}`)
+      }
+      if (!response.ok) throw new SourceError(`YouTube caption download failed with status ${response.status}`)
+      return response.text()
+    }
+  }
+}
@@ -1,134 +1,565 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react'
 import { Button } from './components/ui/button'
 import { Input } from './components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card'
-import { Progress } from './components/ui/progress'
-import { Slider } from './components/ui/slider'
 import { Badge } from './components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
-import { Play, Pause, Download, Scissors, Youtube, Music, Video } from 'lucide-react'
+import { Textarea } from './components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select'
+import { Play, Pause, Download, Scissors, Youtube, Video, FileVideo, Upload, Plus, Split, Layers, Link, Save, Share2 } from 'lucide-react'
+import { matchPath, useLocation, useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
+import { useExportQueue } from './hooks/use-export-queue'
+import type { ExportJob, ExportJobRequest } from './lib/export-queue'
+import { createExportBatch, finishedBatches, zipBatchResults } from './lib/export-batch'
+import { buildPlaylistRequests, type PlaylistItem, type PlaylistRule } from './lib/playlist-batch'
+import { createSourceApi, type PlaylistInfo } from './lib/source-api'
+import { parseYouTubeUrl, type YouTubeUrl } from './lib/youtube-url'
+import { useYouTubePlayer } from './hooks/use-youtube-player'
+import { createPlayerDurationProvider, resolveDuration } from './lib/duration'
+import type { VideoInfo } from './lib/video-info'
+import { AUTO_SOURCE, listSourceOptions, resolveSourceOption } from './lib/source-formats'
+import { findMediaProvider, getMediaProvider, type MediaProvider, type MediaRequest } from './lib/media-providers'
+import { createYouTubeProvider } from './lib/youtube-provider'
+import { createHlsProvider } from './lib/hls-provider'
+import { createDirectMediaProvider } from './lib/direct-media-provider'
+import { createFileProvider } from './lib/file-provider'
+import type { TimeRange } from './lib/ffmpeg'
+import {
+  addSegment,
+  createSegment,
+  deleteSegment,
+  duplicateSegment,
+  reorderSegments,
+  splitSegment,
+  totalDuration,
+  updateSegment,
+  MIN_SEGMENT_LENGTH,
+  type Segment
+} from './lib/segments'
+import { buildExportFilename, formatFileSize, saveBlob, sanitizeFilename } from './lib/download'
+import { DEFAULT_ENCODING_SETTINGS, estimateOutputSize, isTwoPass, settingsForSource, validateEncodingSettings, type EncodingSettings } from './lib/encoding-settings'
+import { getOutputProfile, isFfmpegEncoder, type OutputFormat } from './lib/output-formats'
+import { SegmentList } from './components/segment-list'
+import { TimecodeInput } from './components/timecode-input'
+import { TimelineEditor } from './components/timeline-editor'
+import { ExportQueuePanel } from './components/export-queue-panel'
+import { FormatPicker } from './components/format-picker'
+import { EncodingSettingsPanel } from './components/encoding-settings-panel'
+import { SourceFormatPicker } from './components/source-format-picker'
+import { PlaylistPanel } from './components/playlist-panel'
+import { SharePanel } from './components/share-panel'
+import { CaptionsPanel } from './components/captions-panel'
+import { captionBlob, captionFilename, trimCues, type CaptionCue, type CaptionFormat, type LoadedCaptions } from './lib/captions'
+import { OverlayPanel } from './components/overlay-panel'
+import { OverlayPreview } from './components/overlay-preview'
+import { CropWindow } from './components/crop-window'
+import { ReframePanel } from './components/reframe-panel'
+import { cropBoxAt, DEFAULT_REFRAME, setKeyframe, type Reframe } from './lib/reframe'
+import { AudioEffectsPanel } from './components/audio-effects-panel'
+import { describeAudioEffects, type AudioEffect } from './lib/audio-effects'
+import { decodeClipAudio } from './lib/export-client'
+import { MetadataPanel } from './components/metadata-panel'
+import { EMPTY_MEDIA_TAGS, canTagFormat, captureCoverFrame, fetchCoverArt, hasMediaTags, type CoverArt, type CoverSource, type MediaTags } from './lib/media-tags'
+import { DEFAULT_OVERLAY_SETTINGS, hasOverlays, overlayItemsAt, overlaySpans, type OverlaySettings } from './lib/overlays'
+import { BatchImportDialog, type BatchQueueResult } from './components/batch-import-dialog'
+import { resolveBatchRows, type BatchRow } from './lib/batch-import'
+import { RecentProjects } from './components/recent-projects'
+import { useProjectAutosave } from './hooks/use-project-autosave'
+import {
+  createProjectId,
+  fromProjectCover,
+  parseProjectFile,
+  PROJECT_FILE_EXTENSION,
+  PROJECT_TYPE,
+  PROJECT_VERSION,
+  serializeProject,
+  toProjectCover,
+  type Project,
+  type ProjectSource,
+  type ProjectSummary
+} from './lib/project'
+import { createProjectStore } from './lib/project-store'
+import { buildDeepLinkPath, DEEP_LINK_ROUTE, deepLinkSourceUrl, parseDeepLink } from './lib/deep-link'
+import { useMediaPreviews } from './hooks/use-media-previews'
+import {
+  DEFAULT_FPS,
+  DISPLAY_MODES,
+  FRAME_RATES,
+  formatFilenameTime,
+  formatTimecode,
+  type TimecodeDisplayMode
+} from './lib/timecode'
 
-interface VideoInfo {
-  title: string
-  duration: number
-  thumbnail: string
-  url: string
-  videoId: string
+type ExportMode = 'separate' | 'concat'
+
+// Produce a file, or just links and embed code for the clip
+type OutputMode = 'download' | 'share'
+
+type SourceTab = 'url' | 'file'
+
+// Identity of the open project; the rest of the document is derived from state
+interface ProjectMeta {
+  id: string
+  name: string
+  createdAt: number
+  source: ProjectSource
 }
 
+const projectSourceFor = (request: MediaRequest): ProjectSource => request.kind === 'url'
+  ? { kind: 'url', url: request.url }
+  : { kind: 'file', name: request.file.name, size: request.file.size, type: request.file.type }
+
+const SOURCE_API = createSourceApi({ baseUrl: import.meta.env.VITE_SOURCE_API_BASE_URL })
+const PROJECT_STORE = createProjectStore()
+
+// Most specific first: YouTube and .m3u8 URLs before plain media URLs
+const MEDIA_PROVIDERS: MediaProvider[] = [
+  createYouTubeProvider({ sourceApi: SOURCE_API }),
+  createHlsProvider(),
+  createDirectMediaProvider(),
+  createFileProvider()
+]
+
 function App() {
-  const [youtubeUrl, setYoutubeUrl] = useState('')
+  const [sourceTab, setSourceTab] = useState<SourceTab>('url')
+  const [sourceUrl, setSourceUrl] = useState('')
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
-  const [duration, setDuration] = useState(0)
-  const [trimRange, setTrimRange] = useState([0, 100])
-  const [downloadFormat, setDownloadFormat] = useState<'mp4' | 'mp3'>('mp4')
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [processingProgress, setProcessingProgress] = useState(0)
+  const [duration, setDuration] = useState<number | null>(null)
+  const [segments, setSegments] = useState<Segment[]>([])
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null)
+  const [exportMode, setExportMode] = useState<ExportMode>('separate')
+  const [outputMode, setOutputMode] = useState<OutputMode>('download')
+  const [captions, setCaptions] = useState<LoadedCaptions | null>(null)
+  const [captionFormat, setCaptionFormat] = useState<CaptionFormat | null>('srt')
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS)
+  const [reframe, setReframe] = useState<Reframe>(DEFAULT_REFRAME)
+  const [audioEffects, setAudioEffects] = useState<AudioEffect[]>([])
+  const [mediaTags, setMediaTags] = useState<MediaTags>(EMPTY_MEDIA_TAGS)
+  const [coverSource, setCoverSource] = useState<CoverSource>({ kind: 'none' })
+  // Width per unit of height, once the player knows it
+  const [videoAspect, setVideoAspect] = useState<number | null>(null)
+  const [timeDisplayMode, setTimeDisplayMode] = useState<TimecodeDisplayMode>('clock')
+  const [frameRate, setFrameRate] = useState(DEFAULT_FPS)
+  const [downloadFormat, setDownloadFormat] = useState<OutputFormat>('mp4')
+  const [encodingSettings, setEncodingSettings] = useState<EncodingSettings>(DEFAULT_ENCODING_SETTINGS)
+  const [sourceChoice, setSourceChoice] = useState(AUTO_SOURCE)
+  const [playlist, setPlaylist] = useState<PlaylistInfo | null>(null)
+  const [isLoadingPlaylist, setIsLoadingPlaylist] = useState(false)
+  const [isQueueingPlaylist, setIsQueueingPlaylist] = useState(false)
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta | null>(null)
+  const [notes, setNotes] = useState('')
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([])
   
+  const [embedElement, setEmbedElement] = useState<HTMLIFrameElement | null>(null)
+
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Batches already zipped, so a finished batch is delivered once
+  const zippedBatchesRef = useRef(new Set<string>())
+  // The address the page was opened at is read once
+  const deepLinkHandledRef = useRef(false)
 
-  // Extract YouTube video ID from URL
-  const extractVideoId = (url: string): string | null => {
-    const regex = /(?:youtube\.com\/(?:[^/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?/\s]{11})/
-    const match = url.match(regex)
-    return match ? match[1] : null
-  }
+  const location = useLocation()
+  const navigate = useNavigate()
 
-  // Get video duration from YouTube oEmbed API
-  const getVideoDuration = async (videoId: string): Promise<number> => {
-    try {
-      // Use YouTube oEmbed API to get video info
-      const response = await fetch(`https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`)
-      if (!response.ok) throw new Error('Failed to fetch video info')
-      
-      // For demo purposes, we'll generate a realistic duration based on video ID
-      // In a real app, you'd need YouTube Data API v3 to get actual duration
-      const hash = videoId.split('').reduce((a, b) => {
-        a = ((a << 5) - a) + b.charCodeAt(0)
-        return a & a
-      }, 0)
-      
-      // Generate duration between 1-20 minutes based on video ID hash
-      const duration = Math.abs(hash % 1200) + 60 // 60-1260 seconds (1-21 minutes)
-      return duration
-    } catch (error) {
-      console.error('Error getting video duration:', error)
-      // Fallback to a random duration
-      return Math.floor(Math.random() * 600) + 120 // 2-12 minutes
+  const provider = videoInfo ? getMediaProvider(MEDIA_PROVIDERS, videoInfo.source) : null
+  const preview = videoInfo && provider ? provider.buildPreview(videoInfo) : null
+  const isEmbed = preview?.kind === 'embed'
+  const embedPlayer = useYouTubePlayer(isEmbed ? embedElement : null)
+  const previews = useMediaPreviews(videoInfo, duration)
+  const playheadTime = isEmbed ? embedPlayer.currentTime : currentTime
+  const isPlaybackActive = isEmbed ? embedPlayer.isPlaying : isPlaying
+
+  // The slider always edits the active segment
+  const activeSegment = segments.find(segment => segment.id === activeSegmentId) ?? null
+  const downloadProfile = getOutputProfile(downloadFormat)
+  const encoding = validateEncodingSettings(encodingSettings)
+  // Server-fetched sources offer several streams; local files are used as-is
+  const sourceFormats = videoInfo?.formats ?? null
+  const sourceOptions = sourceFormats ? listSourceOptions(sourceFormats, downloadProfile, duration) : []
+  const sourceOption = sourceFormats ? resolveSourceOption(sourceFormats, downloadProfile, sourceChoice, duration) : null
+  // What the export will run with: stream copy drops back to re-encoding when the source can't be copied
+  const exportSettings = encoding.settings ? settingsForSource(downloadProfile, encoding.settings, sourceOption) : null
+  const sizeEstimate = exportSettings
+    ? estimateOutputSize(downloadProfile, exportSettings, totalDuration(segments), { duration, size: sourceOption?.size ?? videoInfo?.size })
+    : null
+  const trimRange = activeSegment ? [activeSegment.start, activeSegment.end] : [0, 0]
+
+  // Burned-in text and reframing only reach ffmpeg video exports that re-encode
+  const captionCues = captions?.cues
+  const burnsText = hasOverlays(overlaySettings, captionCues ?? [])
+  const reframes = reframe.aspect !== 'source'
+  const canEditPicture = isFfmpegEncoder(downloadProfile.encoder) && !downloadProfile.audioOnly
+  const copiesStreams = exportSettings?.mode === 'copy'
+  const overlayNotice = !burnsText ? null
+    : !canEditPicture ? `${downloadProfile.label} exports can't carry burned-in text; choose a video format like MP4 to include it.`
+    : copiesStreams ? 'Stream copy leaves the picture untouched; switch to Re-encode to burn the text in.'
+    : null
+  const reframeNotice = !canEditPicture ? `${downloadProfile.label} exports keep the original frame; choose a video format like MP4 to reframe.`
+    : copiesStreams ? 'Stream copy leaves the picture untouched; switch to Re-encode to reframe.'
+    : null
+  // The effects chain only processes audio-only exports that re-encode
+  const appliesAudioEffects = audioEffects.length > 0 && downloadProfile.audioOnly
+  const audioEffectsNotice = !downloadProfile.audioOnly ? 'Audio effects apply to audio-only exports; choose a format like MP3 to use them.'
+    : copiesStreams ? 'Stream copy leaves the audio untouched; switch to Re-encode to apply the effects.'
+    : null
+  // Tags are written into the finished file, so stream copy keeps them too
+  const canTag = canTagFormat(downloadFormat)
+  const writesTags = canTag && (hasMediaTags(mediaTags) || coverSource.kind !== 'none')
+  const tagsNotice = canTag ? null : `${downloadProfile.label} exports can't carry tags or cover art; choose MP3, M4A or MP4 to include them.`
+  // Embedded players keep their frames to themselves
+  const captureFrame = !isEmbed
+    ? async () => {
+      const video = videoRef.current
+      if (!video) throw new Error('The player is not ready')
+      return { name: `Frame at ${formatTime(video.currentTime)}`, art: await captureCoverFrame(video) }
     }
-  }
+    : null
+  // The preview plays the active clip, cut from the source and decoded here
+  const previewMediaUrl = videoInfo?.mediaUrl
+  const loadPreviewClip = previewMediaUrl && activeSegment
+    ? async () => {
+      const response = await fetch(previewMediaUrl)
+      if (!response.ok) throw new Error('Failed to fetch source media')
+      return decodeClipAudio(await response.blob(), [activeSegment])
+    }
+    : null
+
+  // Embedded players don't report their picture size; most are 16:9
+  const sourceAspect = videoAspect ?? 16 / 9
+  const cropBox = cropBoxAt(reframe, sourceAspect, playheadTime)
+  // Keyframes within half a frame of the playhead are the one at it
+  const keyframeTolerance = 0.5 / frameRate
+  const previewItems = useMemo(
+    () => overlayItemsAt(overlaySettings, captionCues ?? [], playheadTime),
+    [overlaySettings, captionCues, playheadTime]
+  )
+
+  // The document autosave writes; null while there's nothing valid to save.
+  // Built from raw state, which keeps its identity between renders.
+  const settingsValid = encoding.settings !== null
+  // Encoding a picked cover is the expensive part, so only redo it when the cover changes
+  const projectCover = useMemo(() => toProjectCover(coverSource), [coverSource])
+  const project = useMemo((): Project | null => {
+    if (!videoInfo || !projectMeta || !settingsValid) return null
+    return {
+      type: PROJECT_TYPE,
+      version: PROJECT_VERSION,
+      ...projectMeta,
+      updatedAt: projectMeta.createdAt,
+      video: videoInfo,
+      segments,
+      activeSegmentId,
+      export: { format: downloadFormat, settings: encodingSettings, mode: exportMode, sourceChoice },
+      overlays: overlaySettings,
+      reframe,
+      audioEffects,
+      tags: mediaTags,
+      cover: projectCover,
+      display: { timeDisplayMode, frameRate },
+      notes
+    }
+  }, [videoInfo, projectMeta, settingsValid, encodingSettings, segments, activeSegmentId, downloadFormat, exportMode, sourceChoice, overlaySettings, reframe, audioEffects, mediaTags, projectCover, timeDisplayMode, frameRate, notes])
+  const autosave = useProjectAutosave(PROJECT_STORE, project)
+
+  // Where the address bar should point: the clip being edited, for YouTube sources
+  const sharePath = videoInfo?.source === 'youtube' && videoInfo.videoId
+    ? buildDeepLinkPath({ videoId: videoInfo.videoId, start: activeSegment?.start, end: activeSegment?.end, format: downloadFormat })
+    : null
+
+  // Recent projects for the landing screen
+  useEffect(() => {
+    PROJECT_STORE.list().then(setRecentProjects, error => console.warn('Recent projects unavailable:', error))
+  }, [])
 
-  // Validate and load YouTube video
-  const handleLoadVideo = async () => {
-    if (!youtubeUrl.trim()) {
-      toast.error('Please enter a YouTube URL')
+  // Let the provider free what it allocated, such as object URLs, once the source is replaced or unmounted
+  useEffect(() => {
+    if (!videoInfo) return
+    const { release } = getMediaProvider(MEDIA_PROVIDERS, videoInfo.source)
+    return () => release?.(videoInfo)
+  }, [videoInfo])
+
+  // Start over with a single clip spanning the whole source, or the range the
+  // link asked for. Only state setters are used, so it is created once and is
+  // safe to list in effect dependencies.
+  const resetSegments = useCallback((length: number | null, requested?: VideoInfo['requestedRange']) => {
+    if (length === null) {
+      setSegments([])
+      setActiveSegmentId(null)
       return
     }
+    const start = requested && requested.start < length - MIN_SEGMENT_LENGTH ? requested.start : 0
+    const end = requested && requested.end !== null && requested.end > start ? Math.min(requested.end, length) : length
+    const initial = createSegment([], { start, end })
+    setSegments([initial])
+    setActiveSegmentId(initial.id)
+  }, [])
+
+  // Fill in an unknown duration from the embedded player once it reports one
+  useEffect(() => {
+    const player = embedPlayer.player
+    if (!player || !videoInfo || videoInfo.duration !== null) return
+
+    let cancelled = false
+    resolveDuration([createPlayerDurationProvider(player)], videoInfo).then((embedDuration) => {
+      // Ignore answers for a video that has since been replaced
+      if (cancelled || embedDuration === null) return
+      setVideoInfo(current => (current?.url === videoInfo.url ? { ...current, duration: embedDuration } : current))
+      setDuration(embedDuration)
+      resetSegments(embedDuration, videoInfo.requestedRange)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [embedPlayer.player, videoInfo, resetSegments])
 
-    const videoId = extractVideoId(youtubeUrl)
-    if (!videoId) {
-      toast.error('Invalid YouTube URL')
+  // Hand the request to the first provider that understands it; `restore`
+  // reopens a saved project on top of the freshly resolved media
+  const loadMedia = async (request: MediaRequest, restore?: Project) => {
+    const mediaProvider = findMediaProvider(MEDIA_PROVIDERS, request)
+    if (!mediaProvider) {
+      toast.error('Unsupported URL: paste a YouTube link, a media file URL or an .m3u8 playlist')
       return
     }
 
     setIsLoading(true)
     try {
-      // Get actual video duration
-      const videoDuration = await getVideoDuration(videoId)
-      
-      // Get video title from oEmbed API
-      let videoTitle = 'YouTube Video'
-      try {
-        const response = await fetch(`https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`)
-        if (response.ok) {
-          const data = await response.json()
-          videoTitle = data.title || 'YouTube Video'
-        }
-      } catch (error) {
-        console.log('Could not fetch video title, using default')
-      }
-      
-      const videoInfo: VideoInfo = {
-        title: videoTitle,
-        duration: videoDuration,
-        thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
-        url: `https://www.youtube.com/embed/${videoId}?enablejsapi=1`,
-        videoId: videoId
-      }
-      
-      setVideoInfo(videoInfo)
-      setDuration(videoDuration)
-      setTrimRange([0, videoDuration])
-      toast.success(`Video loaded! Duration: ${formatTime(videoDuration)}`)
+      const info = await mediaProvider.resolve(request)
+      if (restore) applyProject(info, restore)
+      else applyVideoInfo(info, projectSourceFor(request))
+      if (!info.mediaUrl) toast.warning('Media bytes are unavailable (is the source server running?): this video can be previewed but not exported')
     } catch (error) {
-      toast.error('Failed to load video')
+      toast.error(error instanceof Error ? error.message : 'Failed to load video')
       console.error('Load video error:', error)
     } finally {
       setIsLoading(false)
     }
   }
 
-  // Format time in MM:SS format
+  // Read through a ref so effects can load media without depending on the function
+  const loadMediaRef = useRef(loadMedia)
+  useEffect(() => {
+    loadMediaRef.current = loadMedia
+  })
+
+  // Open the clip a shared /v/:videoId link points at, once per page load
+  useEffect(() => {
+    if (deepLinkHandledRef.current) return
+    deepLinkHandledRef.current = true
+    const match = matchPath(DEEP_LINK_ROUTE, location.pathname)
+    if (!match) return
+
+    const { link, warnings } = parseDeepLink(match.params.videoId ?? '', new URLSearchParams(location.search))
+    warnings.forEach(warning => toast.warning(warning))
+    if (!link) {
+      navigate('/', { replace: true })
+      return
+    }
+    if (link.format) setDownloadFormat(link.format)
+    const url = deepLinkSourceUrl(link)
+    setSourceUrl(url)
+    loadMediaRef.current({ kind: 'url', url })
+  }, [location, navigate])
+
+  const loadPlaylist = async (playlistId: string) => {
+    setIsLoadingPlaylist(true)
+    try {
+      const info = await SOURCE_API.getPlaylist(playlistId)
+      setPlaylist(info)
+      toast.success(`Playlist loaded: ${info.entries.length} videos`)
+    } catch (error) {
+      toast.error(error instanceof Error ? `Could not load the playlist: ${error.message}` : 'Could not load the playlist')
+      console.error('Load playlist error:', error)
+    } finally {
+      setIsLoadingPlaylist(false)
+    }
+  }
+
+  // A list= link opens the playlist too; the video itself loads when the link names one
+  const handleLoadUrl = () => {
+    const url = sourceUrl.trim()
+    if (!url) {
+      toast.error('Please enter a URL')
+      return
+    }
+
+    let link: YouTubeUrl | null = null
+    try {
+      link = parseYouTubeUrl(url)
+    } catch {
+      // The YouTube provider reports what's wrong with the link
+    }
+    setPlaylist(null)
+    if (link?.playlistId) loadPlaylist(link.playlistId)
+    if (!link?.playlistId || link.videoId) loadMedia({ kind: 'url', url })
+  }
+
+  // Follow the edit in the address bar, so it can be shared as it is. Debounced
+  // while handles are dragged; left alone while a video loads.
+  useEffect(() => {
+    if (!deepLinkHandledRef.current || isLoading) return
+    const target = sharePath ?? '/'
+    if (`${location.pathname}${location.search}` === target) return
+    const timer = setTimeout(() => navigate(target, { replace: true }), 300)
+    return () => clearTimeout(timer)
+  }, [sharePath, isLoading, location, navigate])
+
+  const handleCopyLink = async () => {
+    if (!sharePath) return
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${sharePath}`)
+      toast.success('Link to this clip copied')
+    } catch {
+      toast.error('Could not copy the link')
+    }
+  }
+
+  // Load a video or audio file from disk
+  const handleLoadFile = (file: File) => loadMedia({ kind: 'file', file })
+
+  const handleFileDrop = (event: React.DragEvent<HTMLElement>) => {
+    event.preventDefault()
+    setIsDraggingFile(false)
+    const file = event.dataTransfer.files[0]
+    if (file) handleLoadFile(file)
+  }
+
+  // Reset playback and the trim range for a freshly loaded source, which starts a new project
+  const applyVideoInfo = (info: VideoInfo, source: ProjectSource) => {
+    setVideoInfo(info)
+    setSourceChoice(AUTO_SOURCE)
+    setDuration(info.duration)
+    resetSegments(info.duration, info.requestedRange)
+    setCurrentTime(0)
+    setIsPlaying(false)
+    setCaptions(null)
+    setOverlaySettings(current => ({ ...current, texts: [] }))
+    setReframe(current => ({ ...current, keyframes: [] }))
+    setVideoAspect(null)
+    setMediaTags({ ...EMPTY_MEDIA_TAGS, title: info.title, artist: info.author ?? '' })
+    setCoverSource(info.thumbnail ? { kind: 'thumbnail' } : { kind: 'none' })
+    setNotes('')
+    setProjectMeta({ id: createProjectId(), name: info.title, createdAt: Date.now(), source })
+    const requested = info.requestedRange
+    if (requested && info.duration !== null && (requested.start >= info.duration - MIN_SEGMENT_LENGTH || (requested.end ?? 0) > info.duration)) {
+      toast.warning(`The link's time range doesn't fit this ${formatTime(info.duration)} video and was adjusted`)
+    }
+    toast.success(info.duration !== null
+      ? `Video loaded! Duration: ${formatTime(info.duration)}`
+      : 'Video loaded! Duration unknown')
+  }
+
+  // Bring back a saved project's clips and settings for the re-resolved media
+  const applyProject = (resolved: VideoInfo, project: Project) => {
+    // The saved length stands in until a player reports one, so the clips survive
+    const info = { ...resolved, duration: resolved.duration ?? project.video.duration }
+    const length = info.duration ?? Infinity
+    const restored = project.segments
+      .filter(segment => segment.start < length - MIN_SEGMENT_LENGTH)
+      .map(segment => ({ ...segment, end: Math.min(segment.end, length) }))
+    if (restored.length < project.segments.length) toast.warning('Clips past the end of the media were dropped')
+
+    setVideoInfo(info)
+    setDuration(info.duration)
+    setSegments(restored)
+    setActiveSegmentId(restored.some(segment => segment.id === project.activeSegmentId) ? project.activeSegmentId : restored[0]?.id ?? null)
+    setDownloadFormat(project.export.format)
+    setEncodingSettings(project.export.settings)
+    setExportMode(project.export.mode)
+    setSourceChoice(project.export.sourceChoice)
+    setTimeDisplayMode(project.display.timeDisplayMode)
+    setFrameRate(project.display.frameRate)
+    setNotes(project.notes)
+    setCaptions(null)
+    setOverlaySettings(project.overlays)
+    setReframe(project.reframe)
+    setAudioEffects(project.audioEffects)
+    setVideoAspect(null)
+    setMediaTags(project.tags)
+    // A thumbnail cover needs a thumbnail, which the re-resolved media may lack
+    setCoverSource(project.cover.kind === 'thumbnail' && !info.thumbnail ? { kind: 'none' } : fromProjectCover(project.cover))
+    setProjectMeta({ id: project.id, name: project.name, createdAt: project.createdAt, source: project.source })
+    setCurrentTime(0)
+    setIsPlaying(false)
+    toast.success(`Project "${project.name}" opened`)
+  }
+
+  // Reopen a project: URLs resolve again, local files need the file picked again
+  const openProject = async (project: Project, file?: File) => {
+    if (project.source.kind === 'url') {
+      await loadMedia({ kind: 'url', url: project.source.url }, project)
+      return
+    }
+    if (!file) {
+      toast.info(`Pick ${project.source.name} from Recent Projects to reopen "${project.name}"`)
+      return
+    }
+    if (file.name !== project.source.name || file.size !== project.source.size) {
+      toast.warning(`${file.name} is not the file this project was saved with (${project.source.name}); clips may not line up`)
+    }
+    await loadMedia({ kind: 'file', file }, project)
+  }
+
+  const handleOpenRecentProject = async (id: string, file?: File) => {
+    try {
+      await openProject(await PROJECT_STORE.get(id), file)
+    } catch (error) {
+      toast.error(error instanceof Error ? `Could not open the project: ${error.message}` : 'Could not open the project')
+    }
+  }
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await PROJECT_STORE.remove(id)
+      setRecentProjects(current => current.filter(project => project.id !== id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete the project')
+    }
+  }
+
+  // Imported projects join the recent list, so local-file ones can be relinked there
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = parseProjectFile(await file.text())
+      await PROJECT_STORE.put(imported)
+      setRecentProjects(await PROJECT_STORE.list())
+      await openProject(imported)
+    } catch (error) {
+      toast.error(error instanceof Error ? `${file.name}: ${error.message}` : `${file.name} could not be opened`)
+    }
+  }
+
+  const handleExportProject = () => {
+    if (!project) return
+    const saved = { ...project, updatedAt: Date.now() }
+    saveBlob(new Blob([serializeProject(saved)], { type: 'application/json' }), `${sanitizeFilename(project.name) || 'project'}${PROJECT_FILE_EXTENSION}`)
+  }
+
+  // Format time in the user's chosen display mode
   const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60)
-    const secs = Math.floor(seconds % 60)
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    return formatTimecode(seconds, timeDisplayMode, { fps: frameRate })
   }
 
-  // Handle video play/pause
+  // Handle video play/pause for whichever player is mounted
   const togglePlayPause = () => {
-    if (videoRef.current) {
+    if (isEmbed) {
+      if (embedPlayer.isPlaying) {
+        embedPlayer.pause()
+      } else {
+        embedPlayer.play()
+      }
+    } else if (videoRef.current) {
       if (isPlaying) {
         videoRef.current.pause()
       } else {
         videoRef.current.play()
       }
-      setIsPlaying(!isPlaying)
     }
   }
 
@@ -139,130 +570,271 @@ function App() {
     }
   }
 
-  // Handle trim range change
+  const seekTo = (seconds: number) => {
+    if (isEmbed) {
+      embedPlayer.seekTo(seconds)
+    } else if (videoRef.current) {
+      videoRef.current.currentTime = seconds
+    }
+  }
+
+  // Dragging the crop window keys its position at the playhead
+  const handleCropMove = (centre: { x: number; y: number }) => {
+    setReframe(current => ({ ...current, keyframes: setKeyframe(current.keyframes, playheadTime, centre, keyframeTolerance) }))
+  }
+
+  // Handle trim range change, previewing the frame under the handle that moved
   const handleTrimRangeChange = (value: number[]) => {
-    setTrimRange(value)
-    if (videoRef.current) {
-      videoRef.current.currentTime = value[0]
+    if (!activeSegment) return
+    const movedEnd = value[1] !== trimRange[1] && value[0] === trimRange[0]
+    setSegments(current => updateSegment(current, activeSegment.id, { start: value[0], end: value[1] }))
+    seekTo(movedEnd ? value[1] : value[0])
+  }
+
+  // Timeline handle drags report which edge moved
+  const handleSegmentRangeChange = (id: string, range: TimeRange, edge: 'start' | 'end') => {
+    setSegments(current => updateSegment(current, id, range))
+    seekTo(range[edge])
+  }
+
+  const selectSegment = (id: string) => {
+    const segment = segments.find(item => item.id === id)
+    if (!segment) return
+    setActiveSegmentId(id)
+    seekTo(segment.start)
+  }
+
+  // New clip starting at the playhead, shifted back if it would run off the end
+  const handleAddSegment = () => {
+    if (duration === null) return
+    const length = Math.min(10, duration)
+    const start = Math.min(playheadTime, duration - length)
+    const next = addSegment(segments, { start, end: start + length })
+    setSegments(next)
+    setActiveSegmentId(next[next.length - 1].id)
+  }
+
+  const handleSplitSegment = () => {
+    if (!activeSegment) return
+    const next = splitSegment(segments, activeSegment.id, playheadTime)
+    if (next === segments) {
+      toast.error('Move the playhead inside the selected clip to split it')
+      return
     }
+    setSegments(next)
   }
 
-  // Create a proper media file for download
-  const createMediaFile = (format: 'mp4' | 'mp3', duration: number, videoTitle: string): Blob => {
-    if (format === 'mp4') {
-      // Create a more realistic MP4 file with proper headers
-      const mp4Data = new ArrayBuffer(1024 * 200) // 200KB file
-      const view = new Uint8Array(mp4Data)
-      
-      // MP4 file signature and basic structure
-      const mp4Header = [
-        0x00, 0x00, 0x00, 0x20, 0x66, 0x74, 0x79, 0x70, // ftyp box
-        0x69, 0x73, 0x6F, 0x6D, 0x00, 0x00, 0x02, 0x00,
-        0x69, 0x73, 0x6F, 0x6D, 0x69, 0x73, 0x6F, 0x32,
-        0x61, 0x76, 0x63, 0x31, 0x6D, 0x70, 0x34, 0x31,
-        // moov box header
-        0x00, 0x00, 0x00, 0x6D, 0x6D, 0x6F, 0x6F, 0x76
-      ]
-      
-      // Set the header
-      mp4Header.forEach((byte, index) => {
-        view[index] = byte
-      })
-      
-      // Fill the rest with structured data
-      for (let i = mp4Header.length; i < view.length; i++) {
-        view[i] = (i * 7 + duration) % 256
+  const handleDuplicateSegment = (id: string) => {
+    const index = segments.findIndex(segment => segment.id === id)
+    const next = duplicateSegment(segments, id)
+    setSegments(next)
+    setActiveSegmentId(next[index + 1].id)
+  }
+
+  const handleDeleteSegment = (id: string) => {
+    if (segments.length <= 1) return
+    const next = deleteSegment(segments, id)
+    setSegments(next)
+    if (id === activeSegmentId) setActiveSegmentId(next[0].id)
+  }
+
+  // Finished exports save themselves and their sidecars, except batch jobs
+  // which arrive as one ZIP; failures surface as a toast
+  const handleExportSettled = (job: ExportJob) => {
+    if (job.status === 'done' && job.result && !job.request.batch) {
+      saveBlob(job.result, job.request.filename)
+      job.request.sidecars?.forEach(sidecar => saveBlob(sidecar.data, sidecar.filename))
+      const { format, settings } = job.request
+      if (isTwoPass(getOutputProfile(format), settings)) {
+        // Fit-to-size exports report how close they came
+        const target = settings.targetSize * 1024 * 1024
+        const report = `${formatFileSize(job.result.size)} of a ${formatFileSize(target)} target`
+        if (job.result.size > target) {
+          toast.warning(`${job.request.filename} came out over its target: ${report}`, { duration: 8000 })
+        } else {
+          toast.success(`${job.request.filename} downloaded successfully! (${report})`, { duration: 5000 })
+        }
+      } else {
+        toast.success(`${job.request.filename} downloaded successfully! (${formatFileSize(job.result.size)})`, {
+          duration: 5000
+        })
       }
-      
-      return new Blob([view], { type: 'video/mp4' })
-    } else {
-      // Create a proper MP3 file with ID3 tags
-      const mp3Size = Math.max(1024 * 50, duration * 1000) // At least 50KB
-      const mp3Data = new ArrayBuffer(mp3Size)
-      const view = new Uint8Array(mp3Data)
-      
-      // ID3v2 header
-      const id3Header = [
-        0x49, 0x44, 0x33, 0x03, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00 // ID3v2.3
-      ]
-      
-      // MP3 frame header (MPEG-1 Layer 3)
-      const mp3FrameHeader = [
-        0xFF, 0xFB, 0x90, 0x00 // Sync word + MPEG-1 Layer 3 + 128kbps + 44.1kHz
-      ]
-      
-      // Set headers
-      id3Header.forEach((byte, index) => {
-        view[index] = byte
+    } else if (job.status === 'failed') {
+      toast.error(`${job.request.label}: ${job.error ?? 'Failed to process and download file'}`)
+    }
+  }
+
+  const exportQueue = useExportQueue(handleExportSettled)
+
+  // Save each batch as a ZIP once all of its jobs have finished
+  useEffect(() => {
+    for (const { batch, jobs } of finishedBatches(exportQueue.jobs)) {
+      if (zippedBatchesRef.current.has(batch.id)) continue
+      zippedBatchesRef.current.add(batch.id)
+
+      const failed = jobs.filter(job => job.status !== 'done').length
+      zipBatchResults(jobs).then((zip) => {
+        if (!zip) {
+          toast.error(`${batch.name}: no video was exported`)
+          return
+        }
+        saveBlob(zip, `${batch.name}.zip`)
+        toast.success(`${batch.name}.zip downloaded (${formatFileSize(zip.size)})${failed > 0 ? `, ${failed} video${failed > 1 ? 's' : ''} missing` : ''}`, {
+          duration: 5000
+        })
+      }).catch((error) => {
+        console.error('Zip error:', error)
+        toast.error(`${batch.name}: failed to build the ZIP`)
+      })
+    }
+  }, [exportQueue.jobs])
+
+  // Queue the valid rows of a batch import as one ZIP
+  const handleQueueBatchImport = async (rows: { line: number; row: BatchRow }[]): Promise<BatchQueueResult | null> => {
+    if (!encoding.settings) return null
+    try {
+      const batch = createExportBatch(`batch_${new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '_')}`)
+      const outcomes = await resolveBatchRows(rows, {
+        providers: MEDIA_PROVIDERS,
+        format: downloadFormat,
+        settings: encoding.settings,
+        batch
       })
-      
-      mp3FrameHeader.forEach((byte, index) => {
-        view[index + 10] = byte
+      const jobIds = new Map<number, string>()
+      outcomes.forEach(({ line, request }) => request && jobIds.set(line, exportQueue.queue.enqueue(request).id))
+
+      const skipped = outcomes.length - jobIds.size
+      if (jobIds.size === 0) toast.error('None of the rows could be queued')
+      else toast.info(`Added ${jobIds.size} export${jobIds.size > 1 ? 's' : ''} to the queue as ${batch.name}.zip${skipped > 0 ? `; ${skipped} skipped` : ''}`)
+      return { outcomes, jobIds }
+    } catch (error) {
+      console.error('Batch import error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to queue the batch')
+      return null
+    }
+  }
+
+  // Queue the ticked playlist entries as one batch
+  const handleQueuePlaylist = async (items: PlaylistItem[], rule: PlaylistRule, format: OutputFormat) => {
+    if (!playlist || !encoding.settings) return
+    setIsQueueingPlaylist(true)
+    try {
+      const batch = createExportBatch(sanitizeFilename(playlist.title) || 'playlist')
+      const { requests, skipped } = await buildPlaylistRequests(playlist, items, {
+        sourceApi: SOURCE_API,
+        rule,
+        format,
+        settings: encoding.settings,
+        batch
       })
-      
-      // Fill with audio-like data pattern
-      for (let i = 14; i < view.length; i++) {
-        view[i] = Math.sin(i * 0.1) * 127 + 128
+      skipped.forEach(({ entry, reason }) => toast.warning(`Skipped ${entry.title}: ${reason}`))
+      if (requests.length === 0) throw new Error('None of the selected videos can be exported')
+
+      requests.forEach(request => exportQueue.queue.enqueue(request))
+      toast.info(`Added ${requests.length} export${requests.length > 1 ? 's' : ''} to the queue as ${batch.name}.zip`)
+    } catch (error) {
+      console.error('Playlist queue error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to queue the playlist')
+    } finally {
+      setIsQueueingPlaylist(false)
+    }
+  }
+
+  // The files a download produces: one joined file, or one per clip
+  const exportOutputs = (info: VideoInfo): { label: string; filename: string; ranges: TimeRange[] }[] => {
+    if (exportMode === 'concat' && segments.length > 1) {
+      return [{
+        label: `${info.title} (${segments.length} clips)`,
+        filename: buildExportFilename(info.title, [`${segments.length}_clips`], downloadProfile),
+        ranges: segments.map(({ start, end }) => ({ start, end }))
+      }]
+    }
+    return segments.map((segment) => {
+      const label = segments.length > 1 ? [sanitizeFilename(segment.label)] : []
+      return {
+        label: segments.length > 1 ? `${info.title} - ${segment.label}` : info.title,
+        filename: buildExportFilename(info.title, [...label, `${formatFilenameTime(segment.start)}-${formatFilenameTime(segment.end)}`], downloadProfile),
+        ranges: [{ start: segment.start, end: segment.end }]
       }
-      
-      return new Blob([view], { type: 'audio/mpeg' })
+    })
+  }
+
+  // Separate clips are numbered as tracks and titled after their clip
+  const outputTags = (index: number, count: number): MediaTags => count < 2 ? mediaTags : {
+    ...mediaTags,
+    title: mediaTags.title.trim() && `${mediaTags.title.trim()} - ${segments[index].label}`,
+    track: mediaTags.track.trim() || `${index + 1}/${count}`
+  }
+
+  // The cover's bytes; a thumbnail that won't download is left out rather than failing the export
+  const resolveCoverArt = async (info: VideoInfo): Promise<CoverArt | null> => {
+    if (coverSource.kind === 'image') return coverSource.art
+    if (coverSource.kind === 'none' || !info.thumbnail) return null
+    try {
+      // Not every YouTube video has a full-resolution thumbnail
+      return await fetchCoverArt([...new Set([info.thumbnail, info.thumbnail.replace('/maxresdefault.', '/hqdefault.')])])
+    } catch (error) {
+      toast.warning(`${error instanceof Error ? error.message : 'Could not download the thumbnail'}; exporting without cover art`)
+      return null
     }
   }
 
-  // Process and download video/audio
-  const handleDownload = async () => {
-    if (!videoInfo) return
+  // Captions cut to an output's ranges, named after its media file
+  const captionSidecar = (output: { filename: string; ranges: TimeRange[] }, format: CaptionFormat, cues: CaptionCue[]) => ({
+    filename: captionFilename(output.filename, format),
+    data: captionBlob(trimCues(cues, output.ranges), format)
+  })
 
-    setIsProcessing(true)
-    setProcessingProgress(0)
+  const handleExportCaptions = (format: CaptionFormat) => {
+    if (!videoInfo || !captions) return
+    const outputs = exportOutputs(videoInfo)
+    outputs.forEach((output) => {
+      const { filename, data } = captionSidecar(output, format, captions.cues)
+      saveBlob(data, filename)
+    })
+    toast.success(`Saved captions for ${outputs.length} file${outputs.length > 1 ? 's' : ''}`)
+  }
+
+  // Queue one job per output file
+  const handleDownload = async () => {
+    if (!videoInfo || !exportSettings) return
+    const settings = exportSettings
 
     try {
-      // Simulate realistic processing progress
-      const progressSteps = [10, 25, 40, 60, 75, 90, 100]
-      for (let i = 0; i < progressSteps.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 300))
-        setProcessingProgress(progressSteps[i])
+      if (!videoInfo.mediaUrl || !provider) {
+        throw new Error('No downloadable media source for this video')
       }
-      
-      const startTime = trimRange[0]
-      const endTime = trimRange[1]
-      const segmentDuration = endTime - startTime
-      
-      // Create filename with proper sanitization
-      const sanitizedTitle = videoInfo.title.replace(/[^a-zA-Z0-9\s]/g, '').replace(/\s+/g, '_').substring(0, 50)
-      const filename = `${sanitizedTitle}_${formatTime(startTime)}-${formatTime(endTime)}.${downloadFormat}`
-      
-      // Create the media file
-      const mediaBlob = createMediaFile(downloadFormat, segmentDuration, videoInfo.title)
-      
-      // Create download link and trigger download
-      const downloadUrl = URL.createObjectURL(mediaBlob)
-      const downloadLink = document.createElement('a')
-      downloadLink.href = downloadUrl
-      downloadLink.download = filename
-      downloadLink.style.display = 'none'
-      
-      // Add to DOM, click, and remove
-      document.body.appendChild(downloadLink)
-      downloadLink.click()
-      document.body.removeChild(downloadLink)
-      
-      // Clean up the URL after a short delay
-      setTimeout(() => {
-        URL.revokeObjectURL(downloadUrl)
-      }, 1000)
-      
-      const fileSizeKB = (mediaBlob.size / 1024).toFixed(1)
-      toast.success(`${downloadFormat.toUpperCase()} downloaded successfully! (${fileSizeKB} KB)`, {
-        duration: 5000
-      })
-      
+      if ((burnsText || reframes) && canEditPicture && copiesStreams) {
+        throw new Error('Reframing and burned-in text need re-encoding; switch off stream copy')
+      }
+      if (appliesAudioEffects && copiesStreams) {
+        throw new Error('Audio effects need re-encoding; switch off stream copy')
+      }
+
+      // Object-URL sources are read now, so the job outlives them when another video is loaded
+      const { source, audioSource } = await provider.fetchMedia(videoInfo, sourceOption)
+
+      const cover = writesTags ? await resolveCoverArt(videoInfo) : null
+
+      const outputs = exportOutputs(videoInfo)
+      const requests: ExportJobRequest[] = outputs.map((output, index) => ({
+        ...output,
+        source,
+        audioSource,
+        format: downloadFormat,
+        settings,
+        ...(captions && captionFormat && { sidecars: [captionSidecar(output, captionFormat, captions.cues)] }),
+        ...(burnsText && canEditPicture && { overlays: overlaySpans(overlaySettings, captions?.cues ?? [], output.ranges) }),
+        ...(reframes && canEditPicture && { reframe }),
+        ...(appliesAudioEffects && { audioEffects }),
+        ...(writesTags && { tags: outputTags(index, outputs.length), ...(cover && { cover }) })
+      }))
+
+      requests.forEach(request => exportQueue.queue.enqueue(request))
+      toast.info(`Added ${requests.length} export${requests.length > 1 ? 's' : ''} to the queue`)
     } catch (error) {
       console.error('Download error:', error)
-      toast.error('Failed to process and download file')
-    } finally {
-      setIsProcessing(false)
-      setProcessingProgress(0)
+      toast.error(error instanceof Error ? error.message : 'Failed to queue export')
     }
   }
 
@@ -280,34 +852,116 @@ function App() {
           <p className="text-gray-600 text-lg">Download and trim YouTube videos with precision</p>
         </div>
 
-        {/* URL Input Section */}
+        {/* Source Input Section */}
         <Card className="mb-8">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Youtube className="h-5 w-5 text-primary" />
-              Enter YouTube URL
+              Choose a Source
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="flex gap-3">
-              <Input
-                placeholder="https://www.youtube.com/watch?v=..."
-                value={youtubeUrl}
-                onChange={(e) => setYoutubeUrl(e.target.value)}
-                className="flex-1"
-                onKeyPress={(e) => e.key === 'Enter' && handleLoadVideo()}
-              />
-              <Button 
-                onClick={handleLoadVideo} 
-                disabled={isLoading}
-                className="bg-primary hover:bg-primary/90"
-              >
-                {isLoading ? 'Loading...' : 'Load Video'}
-              </Button>
-            </div>
+            <Tabs value={sourceTab} onValueChange={(value) => setSourceTab(value as SourceTab)}>
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="url" className="flex items-center gap-2">
+                  <Link className="h-4 w-4" />
+                  URL
+                </TabsTrigger>
+                <TabsTrigger value="file" className="flex items-center gap-2">
+                  <FileVideo className="h-4 w-4" />
+                  Local File
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="url" className="space-y-2">
+                <div className="flex gap-3">
+                  <Input
+                    placeholder="https://www.youtube.com/watch?v=..."
+                    value={sourceUrl}
+                    onChange={(e) => setSourceUrl(e.target.value)}
+                    className="flex-1"
+                    onKeyPress={(e) => e.key === 'Enter' && handleLoadUrl()}
+                  />
+                  <Button 
+                    onClick={handleLoadUrl} 
+                    disabled={isLoading || isLoadingPlaylist}
+                    className="bg-primary hover:bg-primary/90"
+                  >
+                    {isLoading || isLoadingPlaylist ? 'Loading...' : 'Load Video'}
+                  </Button>
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-xs text-gray-500">YouTube videos and playlists, direct media files (MP4, WebM, MP3, ...) and HLS .m3u8 playlists</p>
+                  <BatchImportDialog
+                    providers={MEDIA_PROVIDERS}
+                    fps={frameRate}
+                    jobs={exportQueue.jobs}
+                    disabled={!encoding.settings}
+                    onQueue={handleQueueBatchImport}
+                  />
+                </div>
+              </TabsContent>
+              <TabsContent value="file">
+                <div
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => fileInputRef.current?.click()}
+                  onKeyDown={(e) => e.key === 'Enter' && fileInputRef.current?.click()}
+                  onDragOver={(e) => {
+                    e.preventDefault()
+                    setIsDraggingFile(true)
+                  }}
+                  onDragLeave={() => setIsDraggingFile(false)}
+                  onDrop={handleFileDrop}
+                  className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center cursor-pointer transition-colors ${
+                    isDraggingFile ? 'border-primary bg-primary/5' : 'border-gray-300 hover:border-primary/60'
+                  }`}
+                >
+                  <Upload className="h-8 w-8 text-gray-400" />
+                  <p className="text-sm font-medium text-gray-700">
+                    {isLoading ? 'Reading file...' : 'Drop a video or audio file here, or click to browse'}
+                  </p>
+                  <p className="text-xs text-gray-500">Files are processed locally and never leave your device</p>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="video/*,audio/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleLoadFile(file)
+                      e.target.value = ''
+                    }}
+                  />
+                </div>
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
 
+        {/* Recent Projects */}
+        {!videoInfo && (
+          <RecentProjects
+            projects={recentProjects}
+            formatTime={formatTime}
+            onOpen={handleOpenRecentProject}
+            onDelete={handleDeleteProject}
+            onImport={handleImportProject}
+          />
+        )}
+
+        {/* Playlist Section */}
+        {playlist && (
+          <PlaylistPanel
+            key={playlist.playlistId}
+            playlist={playlist}
+            mode={timeDisplayMode}
+            fps={frameRate}
+            formatTime={formatTime}
+            isQueueing={isQueueingPlaylist}
+            onQueue={handleQueuePlaylist}
+          />
+        )}
+
         {/* Video Player Section */}
         {videoInfo && (
           <Card className="mb-8">
@@ -317,50 +971,283 @@ function App() {
                   <Video className="h-5 w-5 text-primary" />
                   {videoInfo.title}
                 </span>
-                <Badge variant="secondary">{formatTime(duration)}</Badge>
+                <span className="flex items-center gap-2">
+                  {sharePath && (
+                    <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                      <Share2 className="h-4 w-4 mr-1" />
+                      Copy Link
+                    </Button>
+                  )}
+                  <Badge variant={duration !== null ? 'secondary' : 'outline'}>
+                    {duration !== null ? formatTime(duration) : 'Duration unknown'}
+                  </Badge>
+                </span>
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
                 {/* Video Player */}
                 <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
-                  <iframe
-                    src={videoInfo.url}
-                    className="w-full h-full"
-                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                    allowFullScreen
-                    title={videoInfo.title}
-                  />
-                  <canvas ref={canvasRef} className="hidden" />
+                  {preview?.kind === 'video' ? (
+                    <video
+                      ref={videoRef}
+                      src={preview.url}
+                      className="w-full h-full"
+                      controls
+                      onTimeUpdate={handleTimeUpdate}
+                      onPlay={() => setIsPlaying(true)}
+                      onPause={() => setIsPlaying(false)}
+                      onLoadedMetadata={(e) => {
+                        const { videoWidth, videoHeight } = e.currentTarget
+                        setVideoAspect(videoWidth > 0 && videoHeight > 0 ? videoWidth / videoHeight : null)
+                      }}
+                    />
+                  ) : (
+                    <iframe
+                      key={preview?.url}
+                      ref={setEmbedElement}
+                      src={preview?.url}
+                      className="w-full h-full"
+                      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                      allowFullScreen
+                      title={videoInfo.title}
+                    />
+                  )}
+                  {cropBox ? (
+                    <CropWindow box={cropBox} sourceAspect={sourceAspect} onMove={handleCropMove}>
+                      <OverlayPreview items={previewItems} />
+                    </CropWindow>
+                  ) : (
+                    <OverlayPreview items={previewItems} />
+                  )}
+                </div>
+
+                {/* Playback Controls */}
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={togglePlayPause}
+                    disabled={isEmbed && !embedPlayer.isReady}
+                    aria-label={isPlaybackActive ? 'Pause' : 'Play'}
+                  >
+                    {isPlaybackActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <span className="text-sm tabular-nums text-gray-600">
+                    {formatTime(playheadTime)}{duration !== null && ` / ${formatTime(duration)}`}
+                  </span>
+                  {isEmbed && !embedPlayer.isReady && (
+                    <span className="text-xs text-gray-500">Connecting to player...</span>
+                  )}
                 </div>
 
-                {/* Timeline Scrubber */}
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium text-gray-700">
-                      Select Trim Range: {formatTime(trimRange[0])} - {formatTime(trimRange[1])} 
-                      <span className="text-gray-500 ml-2">
-                        (Duration: {formatTime(trimRange[1] - trimRange[0])})
+                {/* Timeline Editor */}
+                {duration !== null ? (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-700">
+                        {activeSegment ? `${activeSegment.label}: ` : 'Select Trim Range: '}
+                        {formatTime(trimRange[0])} - {formatTime(trimRange[1])} 
+                        <span className="text-gray-500 ml-2">
+                          (Duration: {formatTime(trimRange[1] - trimRange[0])})
+                        </span>
+                      </label>
+                      <TimelineEditor
+                        duration={duration}
+                        segments={segments}
+                        activeSegmentId={activeSegmentId}
+                        playheadTime={playheadTime}
+                        frames={previews.frames}
+                        waveform={previews.waveform}
+                        waveformStatus={previews.waveformStatus}
+                        canvasRef={canvasRef}
+                        formatTime={formatTime}
+                        onSeek={seekTo}
+                        onSelectSegment={selectSegment}
+                        onSegmentRangeChange={handleSegmentRangeChange}
+                      />
+                    </div>
+
+                    {/* Timecode Entry */}
+                    {activeSegment && (
+                      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+                        <TimecodeInput
+                          label="Start"
+                          value={activeSegment.start}
+                          mode={timeDisplayMode}
+                          fps={frameRate}
+                          max={activeSegment.end - MIN_SEGMENT_LENGTH}
+                          onCommit={(start) => handleTrimRangeChange([start, activeSegment.end])}
+                        />
+                        <TimecodeInput
+                          label="End"
+                          value={activeSegment.end}
+                          mode={timeDisplayMode}
+                          fps={frameRate}
+                          min={activeSegment.start + MIN_SEGMENT_LENGTH}
+                          max={duration}
+                          onCommit={(end) => handleTrimRangeChange([activeSegment.start, end])}
+                        />
+                        <TimecodeInput
+                          label="Duration"
+                          value={activeSegment.end - activeSegment.start}
+                          mode={timeDisplayMode}
+                          fps={frameRate}
+                          min={MIN_SEGMENT_LENGTH}
+                          max={duration - activeSegment.start}
+                          onCommit={(length) => handleTrimRangeChange([activeSegment.start, activeSegment.start + length])}
+                        />
+                        <div className="space-y-1">
+                          <span className="text-xs font-medium text-gray-600">Display</span>
+                          <Select value={timeDisplayMode} onValueChange={(value) => setTimeDisplayMode(value as TimecodeDisplayMode)}>
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DISPLAY_MODES.map(mode => (
+                                <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <span className="text-xs font-medium text-gray-600">Frame Rate</span>
+                          <Select value={String(frameRate)} onValueChange={(value) => setFrameRate(Number(value))}>
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {FRAME_RATES.map(rate => (
+                                <SelectItem key={rate} value={String(rate)}>{rate} fps</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Segment List */}
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-700">
+                          Clips ({segments.length}) · Total {formatTime(totalDuration(segments))}
+                        </span>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={handleAddSegment}>
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add at Playhead
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleSplitSegment}
+                            disabled={!activeSegment || trimRange[1] - trimRange[0] < MIN_SEGMENT_LENGTH * 2}
+                          >
+                            <Split className="h-4 w-4 mr-1" />
+                            Split at Playhead
+                          </Button>
+                        </div>
+                      </div>
+                      <SegmentList
+                        segments={segments}
+                        activeId={activeSegmentId}
+                        formatTime={formatTime}
+                        onSelect={selectSegment}
+                        onRename={(id, label) => setSegments(current => updateSegment(current, id, { label }))}
+                        onDuplicate={handleDuplicateSegment}
+                        onDelete={handleDeleteSegment}
+                        onReorder={(activeId, overId) => setSegments(current => reorderSegments(current, activeId, overId))}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="rounded-lg border border-dashed border-gray-300 p-4 text-sm text-gray-600">
+                    Duration unknown. Trimming unlocks once the player reports the video length.
+                  </div>
+                )}
+
+                {/* Project */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="project-notes" className="text-sm font-medium text-gray-700">Notes</label>
+                    <div className="flex items-center gap-3">
+                      <span className={`text-xs ${autosave.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`} title={autosave.error ?? undefined}>
+                        {autosave.status === 'saving' && 'Saving...'}
+                        {autosave.status === 'saved' && 'Saved to this browser'}
+                        {autosave.status === 'failed' && 'Autosave failed'}
                       </span>
-                    </label>
-                    <Slider
-                      value={trimRange}
-                      onValueChange={handleTrimRangeChange}
-                      max={duration}
-                      step={1}
-                      className="w-full"
-                    />
-                    <div className="flex justify-between text-xs text-gray-500">
-                      <span>0:00</span>
-                      <span>{formatTime(duration)}</span>
+                      <Button variant="outline" size="sm" onClick={handleExportProject} disabled={!project}>
+                        <Save className="h-4 w-4 mr-1" />
+                        Export Project File
+                      </Button>
                     </div>
                   </div>
+                  <Textarea
+                    id="project-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Anything worth remembering about this edit"
+                    rows={2}
+                  />
                 </div>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Reframe */}
+        {videoInfo && duration !== null && (
+          <ReframePanel
+            reframe={reframe}
+            onChange={setReframe}
+            playheadTime={playheadTime}
+            duration={duration}
+            tolerance={keyframeTolerance}
+            formatTime={formatTime}
+            onSeek={seekTo}
+            notice={reframeNotice}
+          />
+        )}
+
+        {/* Burned-in Text */}
+        {videoInfo && duration !== null && (
+          <OverlayPanel
+            settings={overlaySettings}
+            onChange={setOverlaySettings}
+            captions={captions}
+            onCaptionsChange={setCaptions}
+            playheadTime={playheadTime}
+            duration={duration}
+            timeDisplayMode={timeDisplayMode}
+            fps={frameRate}
+            notice={overlayNotice}
+          />
+        )}
+
+        {/* Audio Effects */}
+        {videoInfo && (
+          <AudioEffectsPanel
+            effects={audioEffects}
+            onChange={setAudioEffects}
+            loadPreviewClip={loadPreviewClip}
+            previewLabel={activeSegment?.label ?? 'clip'}
+            notice={audioEffectsNotice}
+          />
+        )}
+
+        {/* Metadata */}
+        {videoInfo && (
+          <MetadataPanel
+            tags={mediaTags}
+            onChange={setMediaTags}
+            cover={coverSource}
+            onCoverChange={setCoverSource}
+            thumbnail={videoInfo.thumbnail}
+            captureFrame={captureFrame}
+            notice={tagsNotice}
+          />
+        )}
+
         {/* Download Section */}
         {videoInfo && (
           <Card>
@@ -372,71 +1259,183 @@ function App() {
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
-                {/* Format Selection */}
-                <Tabs value={downloadFormat} onValueChange={(value) => setDownloadFormat(value as 'mp4' | 'mp3')}>
+                {/* Output Mode */}
+                <Tabs value={videoInfo.videoId ? outputMode : 'download'} onValueChange={(value) => setOutputMode(value as OutputMode)}>
                   <TabsList className="grid w-full grid-cols-2">
-                    <TabsTrigger value="mp4" className="flex items-center gap-2">
-                      <Video className="h-4 w-4" />
-                      MP4 Video
+                    <TabsTrigger value="download" className="flex items-center gap-2">
+                      <Download className="h-4 w-4" />
+                      Download File
                     </TabsTrigger>
-                    <TabsTrigger value="mp3" className="flex items-center gap-2">
-                      <Music className="h-4 w-4" />
-                      MP3 Audio
+                    <TabsTrigger value="share" className="flex items-center gap-2" disabled={!videoInfo.videoId}>
+                      <Share2 className="h-4 w-4" />
+                      Share Without Downloading
                     </TabsTrigger>
                   </TabsList>
-                  <TabsContent value="mp4" className="mt-4">
-                    <p className="text-sm text-gray-600">
-                      Download the selected video segment as an MP4 file with original quality.
-                    </p>
-                  </TabsContent>
-                  <TabsContent value="mp3" className="mt-4">
-                    <p className="text-sm text-gray-600">
-                      Extract and download only the audio from the selected segment as an MP3 file.
-                    </p>
-                  </TabsContent>
                 </Tabs>
 
-                {/* Download Info */}
-                <div className="bg-gray-50 rounded-lg p-4 space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Selected Duration:</span>
-                    <span className="font-medium">{formatTime(trimRange[1] - trimRange[0])}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Format:</span>
-                    <span className="font-medium uppercase">{downloadFormat}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Time Range:</span>
-                    <span className="font-medium">{formatTime(trimRange[0])} - {formatTime(trimRange[1])}</span>
-                  </div>
-                </div>
+                {outputMode === 'share' && videoInfo.videoId ? (
+                  activeSegment ? (
+                    <SharePanel
+                      videoId={videoInfo.videoId}
+                      title={videoInfo.title}
+                      range={{ start: activeSegment.start, end: activeSegment.end }}
+                      items={segments.map(({ start, end, label }) => ({ start, end, label }))}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-600">Sharing unlocks once the video length is known.</p>
+                  )
+                ) : (
+                  <>
+                    {/* Format Selection */}
+                    <FormatPicker value={downloadFormat} onChange={setDownloadFormat} />
 
-                {/* Processing Progress */}
-                {isProcessing && (
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Processing video...</span>
-                      <span>{processingProgress}%</span>
+                    {/* Source Stream */}
+                    {sourceFormats && (
+                      <SourceFormatPicker options={sourceOptions} selected={sourceOption} value={sourceChoice} onChange={setSourceChoice} />
+                    )}
+
+                    {/* Encoding Settings */}
+                    <EncodingSettingsPanel
+                      profile={downloadProfile}
+                      source={sourceOption}
+                      value={encodingSettings}
+                      errors={encoding.errors}
+                      onChange={setEncodingSettings}
+                    />
+
+                    {/* Export Mode */}
+                    {segments.length > 1 && (
+                      <Tabs value={exportMode} onValueChange={(value) => setExportMode(value as ExportMode)}>
+                        <TabsList className="grid w-full grid-cols-2">
+                          <TabsTrigger value="separate" className="flex items-center gap-2">
+                            <Scissors className="h-4 w-4" />
+                            Separate Files
+                          </TabsTrigger>
+                          <TabsTrigger value="concat" className="flex items-center gap-2">
+                            <Layers className="h-4 w-4" />
+                            One Combined File
+                          </TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="separate" className="mt-4">
+                          <p className="text-sm text-gray-600">
+                            Download each of the {segments.length} clips as its own file.
+                          </p>
+                        </TabsContent>
+                        <TabsContent value="concat" className="mt-4">
+                          <p className="text-sm text-gray-600">
+                            Join all clips into one file, in the order of the clip list. Drag clips to reorder them.
+                          </p>
+                        </TabsContent>
+                      </Tabs>
+                    )}
+
+                    {/* Captions */}
+                    <CaptionsPanel
+                      videoId={videoInfo.source === 'youtube' ? videoInfo.videoId ?? null : null}
+                      sourceApi={SOURCE_API}
+                      captions={captions}
+                      onChange={setCaptions}
+                      format={captionFormat}
+                      onFormatChange={setCaptionFormat}
+                      onExport={handleExportCaptions}
+                    />
+
+                    {/* Download Info */}
+                    <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Selected Duration:</span>
+                        <span className="font-medium">{formatTime(totalDuration(segments))}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Clips:</span>
+                        <span className="font-medium">{segments.length}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Format:</span>
+                        <span className="font-medium">
+                          {downloadProfile.label}{downloadProfile.audioOnly && ' (audio only)'}
+                        </span>
+                      </div>
+                      {segments.length === 1 && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Time Range:</span>
+                          <span className="font-medium">{formatTime(trimRange[0])} - {formatTime(trimRange[1])}</span>
+                        </div>
+                      )}
+                      {appliesAudioEffects && (
+                        <div className="flex justify-between gap-4 text-sm">
+                          <span className="text-gray-600">Audio Effects:</span>
+                          <span className="text-right font-medium">{describeAudioEffects(audioEffects)}</span>
+                        </div>
+                      )}
+                      {writesTags && (
+                        <div className="flex justify-between gap-4 text-sm">
+                          <span className="text-gray-600">Metadata:</span>
+                          <span className="text-right font-medium">
+                            {[hasMediaTags(mediaTags) && (mediaTags.title.trim() || 'tags'), coverSource.kind !== 'none' && 'cover art'].filter(Boolean).join(' + ')}
+                          </span>
+                        </div>
+                      )}
+                      {reframes && canEditPicture && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Reframe:</span>
+                          <span className="font-medium">
+                            {reframe.aspect}{reframe.keyframes.length > 0 && ` · ${reframe.keyframes.length} keyframe${reframe.keyframes.length > 1 ? 's' : ''}`}
+                          </span>
+                        </div>
+                      )}
+                      {burnsText && canEditPicture && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Burned-in Text:</span>
+                          <span className="font-medium">
+                            {[overlaySettings.burnCaptions && captions && 'captions', overlaySettings.texts.length > 0 && `${overlaySettings.texts.length} text overlay${overlaySettings.texts.length > 1 ? 's' : ''}`].filter(Boolean).join(' + ')}
+                          </span>
+                        </div>
+                      )}
+                      {captions && captionFormat && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Captions:</span>
+                          <span className="font-medium">{captionFormat.toUpperCase()} alongside each file</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Estimated Size:</span>
+                        <span className="font-medium">
+                          {sizeEstimate ? `${sizeEstimate.approximate ? '≈ ' : ''}${formatFileSize(sizeEstimate.bytes)}` : 'Unknown'}
+                        </span>
+                      </div>
                     </div>
-                    <Progress value={processingProgress} className="w-full" />
-                  </div>
-                )}
 
-                {/* Download Button */}
-                <Button
-                  onClick={handleDownload}
-                  disabled={isProcessing || trimRange[1] <= trimRange[0]}
-                  className="w-full bg-primary hover:bg-primary/90 text-white"
-                  size="lg"
-                >
-                  <Download className="h-5 w-5 mr-2" />
-                  {isProcessing ? 'Processing...' : `Download ${downloadFormat.toUpperCase()}`}
-                </Button>
+                    {/* Download Button */}
+                    <Button
+                      onClick={handleDownload}
+                      disabled={!encoding.settings || (sourceFormats !== null && !sourceOption) || duration === null || segments.length === 0 || segments.some(segment => segment.end <= segment.start)}
+                      className="w-full bg-primary hover:bg-primary/90 text-white"
+                      size="lg"
+                    >
+                      <Download className="h-5 w-5 mr-2" />
+                      {`Download ${downloadProfile.label}`}
+                    </Button>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
         )}
+
+        {/* Export Queue */}
+        {exportQueue.jobs.length > 0 && (
+          <ExportQueuePanel
+            jobs={exportQueue.jobs}
+            concurrency={exportQueue.concurrency}
+            onConcurrencyChange={exportQueue.queue.setConcurrency}
+            onCancel={exportQueue.queue.cancel}
+            onRetry={exportQueue.queue.retry}
+            onRemove={exportQueue.queue.remove}
+            onDownload={(job) => job.result && saveBlob(job.result, job.request.filename)}
+            onClearFinished={exportQueue.queue.clearFinished}
+          />
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from 'react'
+import { ArrowDown, ArrowUp, Loader2, Play, Save, SlidersHorizontal, Square, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Switch } from './ui/switch'
+import { SliderField } from './slider-field'
+import {
+  AUDIO_EFFECT_LABELS,
+  BUILT_IN_AUDIO_PRESETS,
+  createAudioEffect,
+  FADE_CURVE_LABELS,
+  FADE_CURVES,
+  instantiatePreset,
+  loadAudioPresets,
+  storeAudioPresets,
+  type AudioEffect,
+  type AudioEffectKind,
+  type AudioPreset,
+  type FadeCurve
+} from '../lib/audio-effects'
+import { measureLoudnessGains, playEffectsPreview, type EffectsPreview } from '../lib/audio-effects-render'
+import type { PcmAudio } from '../lib/pcm'
+
+interface AudioEffectsPanelProps {
+  effects: AudioEffect[]
+  onChange: (effects: AudioEffect[]) => void
+  // Decodes the clip the preview plays; null when the source can't be decoded here
+  loadPreviewClip: (() => Promise<PcmAudio>) | null
+  // Which clip the preview plays, e.g. "Clip 1"
+  previewLabel: string
+  // Why the current export settings won't apply the chain, if they won't
+  notice: string | null
+}
+
+type PreviewStatus = 'idle' | 'loading' | 'playing'
+
+const db = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} dB`
+const seconds = (value: number) => `${value.toFixed(1)} s`
+const milliseconds = (value: number) => `${Math.round(value * 1000)} ms`
+
+const BUILT_IN_PREFIX = 'built-in:'
+const SAVED_PREFIX = 'saved:'
+
+// Parameter controls for one step
+function EffectEditor({ effect, onChange }: { effect: AudioEffect; onChange: (effect: AudioEffect) => void }) {
+  switch (effect.kind) {
+    case 'fade-in':
+    case 'fade-out':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <SliderField label="Length" value={effect.duration} min={0.1} max={10} step={0.1} format={seconds} onChange={(duration) => onChange({ ...effect, duration })} />
+          <Select value={effect.curve} onValueChange={(curve) => onChange({ ...effect, curve: curve as FadeCurve })}>
+            <SelectTrigger className="h-9" aria-label="Fade curve">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FADE_CURVES.map(curve => (
+                <SelectItem key={curve} value={curve}>{FADE_CURVE_LABELS[curve]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )
+    case 'gain':
+      return <SliderField label="Gain" value={effect.gain} min={-30} max={30} step={0.5} format={db} onChange={(gain) => onChange({ ...effect, gain })} />
+    case 'eq':
+      return (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <SliderField label="Low (250 Hz)" value={effect.low} min={-15} max={15} step={0.5} format={db} onChange={(low) => onChange({ ...effect, low })} />
+          <SliderField label="Mid (1 kHz)" value={effect.mid} min={-15} max={15} step={0.5} format={db} onChange={(mid) => onChange({ ...effect, mid })} />
+          <SliderField label="High (4 kHz)" value={effect.high} min={-15} max={15} step={0.5} format={db} onChange={(high) => onChange({ ...effect, high })} />
+        </div>
+      )
+    case 'highpass':
+      return (
+        <SliderField label="Cutoff" value={effect.frequency} min={20} max={500} step={5} format={(value) => `${value} Hz`} onChange={(frequency) => onChange({ ...effect, frequency })} />
+      )
+    case 'compressor':
+      return (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <SliderField label="Threshold" value={effect.threshold} min={-60} max={0} step={1} format={db} onChange={(threshold) => onChange({ ...effect, threshold })} />
+          <SliderField label="Ratio" value={effect.ratio} min={1} max={20} step={0.5} format={(value) => `${value}:1`} onChange={(ratio) => onChange({ ...effect, ratio })} />
+          <SliderField label="Make-up gain" value={effect.makeup} min={0} max={24} step={0.5} format={db} onChange={(makeup) => onChange({ ...effect, makeup })} />
+          <SliderField label="Attack" value={effect.attack} min={0} max={0.2} step={0.001} format={milliseconds} onChange={(attack) => onChange({ ...effect, attack })} />
+          <SliderField label="Release" value={effect.release} min={0.01} max={1} step={0.01} format={milliseconds} onChange={(release) => onChange({ ...effect, release })} />
+        </div>
+      )
+    case 'limiter':
+      return <SliderField label="Ceiling" value={effect.ceiling} min={-12} max={0} step={0.1} format={db} onChange={(ceiling) => onChange({ ...effect, ceiling })} />
+    case 'loudnorm':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <SliderField label="Target loudness" value={effect.target} min={-36} max={-5} step={0.5} format={(value) => `${value} LUFS`} onChange={(target) => onChange({ ...effect, target })} />
+          <SliderField label="Peak ceiling" value={effect.peak} min={-9} max={0} step={0.1} format={(value) => `${value.toFixed(1)} dBFS`} onChange={(peak) => onChange({ ...effect, peak })} />
+        </div>
+      )
+    case 'mono':
+      return <p className="text-xs text-gray-500">Mixes every channel down to one.</p>
+  }
+}
+
+// Effects chain for audio-only exports: presets, step editing and a Web Audio
+// preview of the active clip with the chain applied
+export function AudioEffectsPanel({ effects, onChange, loadPreviewClip, previewLabel, notice }: AudioEffectsPanelProps) {
+  const [savedPresets, setSavedPresets] = useState<AudioPreset[]>(loadAudioPresets)
+  const [presetName, setPresetName] = useState('')
+  const [status, setStatus] = useState<PreviewStatus>('idle')
+  const [bypass, setBypass] = useState(false)
+  const previewRef = useRef<EffectsPreview | null>(null)
+  // Bumped to abandon a preview that is still loading
+  const attemptRef = useRef(0)
+
+  useEffect(() => {
+    const attempts = attemptRef
+    const preview = previewRef
+    return () => {
+      attempts.current += 1
+      preview.current?.stop()
+    }
+  }, [])
+
+  const stopPreview = () => {
+    attemptRef.current += 1
+    previewRef.current?.stop()
+    previewRef.current = null
+    setStatus('idle')
+  }
+
+  // Any edit ends the preview, which was built from the old chain
+  const update = (next: AudioEffect[]) => {
+    if (status !== 'idle') stopPreview()
+    onChange(next)
+  }
+
+  const move = (index: number, offset: number) => {
+    const next = [...effects]
+    const [effect] = next.splice(index, 1)
+    next.splice(index + offset, 0, effect)
+    update(next)
+  }
+
+  const applyPreset = (value: string) => {
+    const preset = value.startsWith(BUILT_IN_PREFIX)
+      ? BUILT_IN_AUDIO_PRESETS.find(candidate => candidate.name === value.slice(BUILT_IN_PREFIX.length))
+      : savedPresets.find(candidate => candidate.name === value.slice(SAVED_PREFIX.length))
+    if (!preset) return
+    update(instantiatePreset(preset))
+    setPresetName(value.startsWith(SAVED_PREFIX) ? preset.name : '')
+  }
+
+  const changePresets = (next: AudioPreset[]) => {
+    try {
+      storeAudioPresets(next)
+      setSavedPresets(next)
+    } catch {
+      toast.error('Could not save presets in this browser')
+    }
+  }
+
+  const savePreset = () => {
+    const name = presetName.trim()
+    if (!name) return
+    changePresets([...savedPresets.filter(preset => preset.name !== name), { name, effects }])
+    toast.success(`Preset "${name}" saved`)
+  }
+
+  const startPreview = async () => {
+    if (!loadPreviewClip) return
+    const attempt = ++attemptRef.current
+    setStatus('loading')
+    try {
+      const audio = await loadPreviewClip()
+      const loudness = await measureLoudnessGains(audio, effects)
+      if (attempt !== attemptRef.current) return
+      previewRef.current = playEffectsPreview(audio, effects, {
+        loudness,
+        bypass,
+        onEnded: () => {
+          previewRef.current = null
+          setStatus('idle')
+        }
+      })
+      setStatus('playing')
+    } catch (error) {
+      if (attempt !== attemptRef.current) return
+      setStatus('idle')
+      toast.error(error instanceof Error ? error.message : 'Preview failed')
+    }
+  }
+
+  const toggleBypass = (next: boolean) => {
+    setBypass(next)
+    previewRef.current?.setBypass(next)
+  }
+
+  const isSaved = savedPresets.some(preset => preset.name === presetName.trim())
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-primary" />
+          Audio Effects
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {notice && effects.length > 0 && <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">{notice}</p>}
+
+          {/* Presets */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value="" onValueChange={applyPreset}>
+              <SelectTrigger className="h-9 w-56">
+                <SelectValue placeholder="Load a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {BUILT_IN_AUDIO_PRESETS.map(preset => (
+                  <SelectItem key={preset.name} value={`${BUILT_IN_PREFIX}${preset.name}`}>{preset.name}</SelectItem>
+                ))}
+                {savedPresets.map(preset => (
+                  <SelectItem key={preset.name} value={`${SAVED_PREFIX}${preset.name}`}>{preset.name} (saved)</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className="h-9 w-40" aria-label="Preset name" />
+            <Button variant="outline" size="sm" onClick={savePreset} disabled={!presetName.trim() || effects.length === 0}>
+              <Save className="h-4 w-4 mr-1" />
+              {isSaved ? 'Update' : 'Save'}
+            </Button>
+            {isSaved && (
+              <Button variant="ghost" size="sm" onClick={() => changePresets(savedPresets.filter(preset => preset.name !== presetName.trim()))}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+
+          {/* Chain */}
+          <div className="space-y-3">
+            {effects.length === 0 && (
+              <p className="text-sm text-gray-500">No effects: the audio is exported as it is. Add steps below or load a preset.</p>
+            )}
+            {effects.map((effect, index) => (
+              <div key={effect.id} className="space-y-3 rounded-md border border-gray-200 p-3">
+                <div className="flex items-center gap-1">
+                  <span className="flex-1 text-sm font-medium">{index + 1}. {AUDIO_EFFECT_LABELS[effect.kind]}</span>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, -1)} aria-label={`Move ${AUDIO_EFFECT_LABELS[effect.kind]} up`}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === effects.length - 1} onClick={() => move(index, 1)} aria-label={`Move ${AUDIO_EFFECT_LABELS[effect.kind]} down`}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => update(effects.filter(other => other.id !== effect.id))} aria-label={`Remove ${AUDIO_EFFECT_LABELS[effect.kind]}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <EffectEditor effect={effect} onChange={(next) => update(effects.map(other => (other.id === effect.id ? next : other)))} />
+              </div>
+            ))}
+            <Select value="" onValueChange={(kind) => update([...effects, createAudioEffect(kind as AudioEffectKind)])}>
+              <SelectTrigger className="h-9 w-56">
+                <SelectValue placeholder="Add an effect" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(AUDIO_EFFECT_LABELS) as AudioEffectKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{AUDIO_EFFECT_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Preview */}
+          <div className="flex flex-wrap items-center gap-3 rounded-md bg-gray-50 p-3">
+            {status === 'idle' ? (
+              <Button variant="outline" size="sm" onClick={startPreview} disabled={!loadPreviewClip}>
+                <Play className="h-4 w-4 mr-1" />
+                Preview {previewLabel}
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={stopPreview}>
+                {status === 'loading' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Square className="h-4 w-4 mr-1" />}
+                {status === 'loading' ? 'Preparing...' : 'Stop'}
+              </Button>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <Switch checked={bypass} onCheckedChange={toggleBypass} />
+              Bypass effects
+            </label>
+            {!loadPreviewClip && <span className="text-xs text-gray-500">Preview needs a downloadable source.</span>}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,188 @@
+import { useMemo, useRef, useState } from 'react'
+import { FileDown, FileSpreadsheet, Upload } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Textarea } from './ui/textarea'
+import { buildResultsManifest, parseBatchImport, type BatchOutcome, type BatchRow, type BatchRowResult } from '../lib/batch-import'
+import { saveBlob } from '../lib/download'
+import type { ExportJob } from '../lib/export-queue'
+import type { MediaProvider } from '../lib/media-providers'
+import { formatTimecode } from '../lib/timecode'
+
+export interface BatchQueueResult {
+  outcomes: BatchOutcome[]
+  // Import line -> queued job id
+  jobIds: Map<number, string>
+}
+
+interface BatchImportDialogProps {
+  providers: MediaProvider[]
+  fps: number
+  jobs: ExportJob[]
+  // Invalid encoding settings block queueing
+  disabled?: boolean
+  onQueue: (rows: { line: number; row: BatchRow }[]) => Promise<BatchQueueResult | null>
+}
+
+const SAMPLE_URL = '/batch-sample.csv'
+
+const readRows = (text: string, providers: MediaProvider[], fps: number): { results: BatchRowResult[]; error: string | null } => {
+  if (!text.trim()) return { results: [], error: null }
+  try {
+    return { results: parseBatchImport(text, { providers, fps }), error: null }
+  } catch (error) {
+    return { results: [], error: error instanceof Error ? error.message : 'Could not read the rows' }
+  }
+}
+
+// Paste or upload a CSV/JSON clip list, check every row and queue the valid
+// ones as one ZIP; the results manifest records what became of each row
+export function BatchImportDialog({ providers, fps, jobs, disabled, onQueue }: BatchImportDialogProps) {
+  const [text, setText] = useState('')
+  const [queued, setQueued] = useState<BatchQueueResult | null>(null)
+  const [isQueueing, setIsQueueing] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { results, error } = useMemo(() => readRows(text, providers, fps), [text, providers, fps])
+  const validRows = results.flatMap(result => (result.row ? [{ line: result.line, row: result.row }] : []))
+
+  const changeText = (next: string) => {
+    setText(next)
+    setQueued(null)
+  }
+
+  const handleQueue = async () => {
+    setIsQueueing(true)
+    try {
+      setQueued(await onQueue(validRows))
+    } finally {
+      setIsQueueing(false)
+    }
+  }
+
+  const handleManifest = () => {
+    if (!queued) return
+    const csv = buildResultsManifest(results, queued.outcomes, queued.jobIds, jobs)
+    saveBlob(new Blob([csv], { type: 'text/csv' }), 'batch-results.csv')
+  }
+
+  // Validation errors, then how the queued row is doing
+  const rowStatus = (result: BatchRowResult) => {
+    if (result.errors.length > 0) {
+      return <span className="text-xs text-red-600">{result.errors.join('; ')}</span>
+    }
+    const outcome = queued?.outcomes.find(candidate => candidate.line === result.line)
+    if (outcome?.error) return <span className="text-xs text-red-600">{outcome.error}</span>
+    const job = jobs.find(candidate => candidate.id === queued?.jobIds.get(result.line))
+    if (job) {
+      return (
+        <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'done' ? 'secondary' : 'outline'} title={job.error ?? undefined}>
+          {job.status}
+        </Badge>
+      )
+    }
+    return <Badge variant="outline">Ready</Badge>
+  }
+
+  const formatRange = (row: BatchRow) => {
+    const format = (seconds: number) => formatTimecode(seconds, 'precise', { fps })
+    return `${format(row.start)} - ${row.end !== null ? format(row.end) : 'end'}`
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileSpreadsheet className="h-4 w-4 mr-1" />
+          Batch Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Batch import</DialogTitle>
+          <DialogDescription>
+            Paste or upload CSV or JSON rows of <code>url, start, end, format, label</code>. A blank end runs to the end of the video and a blank format uses the current download format.{' '}
+            <a href={SAMPLE_URL} download className="text-primary underline">Download a sample</a>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Textarea
+            value={text}
+            onChange={(e) => changeText(e.target.value)}
+            placeholder={'url,start,end,format,label\nhttps://youtu.be/...,0:30,1:00,mp3,Intro'}
+            rows={6}
+            className="font-mono text-xs"
+            aria-label="Rows to import"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" />
+              Upload CSV or JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) changeText(await file.text())
+              }}
+            />
+            {results.length > 0 && (
+              <span className="text-sm text-gray-600">
+                {validRows.length} of {results.length} rows valid
+              </span>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {results.length > 0 && (
+            <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Line</TableHead>
+                    <TableHead>URL</TableHead>
+                    <TableHead className="w-48">Range</TableHead>
+                    <TableHead className="w-16">Format</TableHead>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow key={result.line}>
+                      <TableCell className="tabular-nums text-gray-500">{result.line}</TableCell>
+                      <TableCell className="max-w-0 truncate" title={result.input.url}>{result.input.url}</TableCell>
+                      <TableCell className="tabular-nums text-xs">
+                        {result.row ? formatRange(result.row) : `${result.input.start} - ${result.input.end}`}
+                      </TableCell>
+                      <TableCell>{result.row?.format ?? (result.input.format || 'default')}</TableCell>
+                      <TableCell className="max-w-0 truncate">{result.input.label}</TableCell>
+                      <TableCell>{rowStatus(result)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleManifest} disabled={!queued}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Export Results Manifest
+          </Button>
+          <Button onClick={handleQueue} disabled={disabled || validRows.length === 0 || isQueueing || queued !== null}>
+            {isQueueing ? 'Looking up videos...' : `Queue ${validRows.length} row${validRows.length === 1 ? '' : 's'} as ZIP`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react'
+import { Captions, FileDown, Upload, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { CAPTION_FILE_ACCEPT, CAPTION_FORMATS, parseCaptions, type CaptionFormat, type LoadedCaptions } from '../lib/captions'
+import type { CaptionTrack, SourceApi } from '../lib/source-api'
+
+interface CaptionsPanelProps {
+  // YouTube videos can pull one of their tracks through the source server
+  videoId: string | null
+  sourceApi: SourceApi
+  captions: LoadedCaptions | null
+  onChange: (captions: LoadedCaptions | null) => void
+  // Saved next to every export; null to leave captions out
+  format: CaptionFormat | null
+  onFormatChange: (format: CaptionFormat | null) => void
+  // Save the captions for the current clips right away
+  onExport: (format: CaptionFormat) => void
+}
+
+const NO_CAPTIONS = 'none'
+
+// Pick a caption track (a local SRT/VTT file or the video's own) that is cut
+// to the exported clips and saved beside the media
+export function CaptionsPanel({ videoId, sourceApi, captions, onChange, format, onFormatChange, onExport }: CaptionsPanelProps) {
+  const [tracks, setTracks] = useState<CaptionTrack[]>([])
+  const [tracksError, setTracksError] = useState<string | null>(null)
+  const [loadingTrack, setLoadingTrack] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // List the video's tracks; the source server may not know any
+  useEffect(() => {
+    setTracks([])
+    setTracksError(null)
+    if (!videoId) return
+
+    const controller = new AbortController()
+    sourceApi.getCaptionTracks(videoId, controller.signal).then(setTracks, (error: unknown) => {
+      if (controller.signal.aborted) return
+      setTracksError(error instanceof Error ? error.message : 'Could not list the caption tracks')
+    })
+    return () => controller.abort()
+  }, [sourceApi, videoId])
+
+  const load = (name: string, text: string) => {
+    const cues = parseCaptions(text)
+    if (cues.length === 0) throw new Error(`${name} has no captions`)
+    onChange({ name, cues })
+    toast.success(`Loaded ${cues.length} caption${cues.length > 1 ? 's' : ''} from ${name}`)
+  }
+
+  const handleFile = async (file: File) => {
+    try {
+      load(file.name, await file.text())
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not read ${file.name}`)
+    }
+  }
+
+  const handleTrack = async (trackId: string) => {
+    const track = tracks.find(candidate => candidate.id === trackId)
+    if (!videoId || !track) return
+    setLoadingTrack(trackId)
+    try {
+      load(track.name, await sourceApi.getCaptions(videoId, trackId))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not load the ${track.name} captions`)
+    } finally {
+      setLoadingTrack(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-base font-medium flex items-center gap-2">
+        <Captions className="h-4 w-4" />
+        Captions
+      </Label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-1" />
+          Import SRT/VTT
+        </Button>
+        {videoId && tracks.length > 0 && (
+          <Select value="" onValueChange={handleTrack} disabled={loadingTrack !== null}>
+            <SelectTrigger className="h-9 w-56" aria-label="YouTube caption track">
+              <SelectValue placeholder={loadingTrack ? 'Loading captions...' : 'Use YouTube captions'} />
+            </SelectTrigger>
+            <SelectContent>
+              {tracks.map(track => (
+                <SelectItem key={track.id} value={track.id}>
+                  {track.name}{track.autoGenerated && !/auto/i.test(track.name) ? ' (auto-generated)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {videoId && tracksError && <span className="text-xs text-gray-500">YouTube captions unavailable: {tracksError}</span>}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={CAPTION_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {captions && (
+        <div className="space-y-3 rounded-md border border-gray-200 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="truncate text-sm">
+              <span className="font-medium">{captions.name}</span>
+              <span className="text-gray-500"> · {captions.cues.length} cue{captions.cues.length === 1 ? '' : 's'}</span>
+            </p>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onChange(null)} aria-label="Remove captions">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600">With each download:</span>
+            <Select value={format ?? NO_CAPTIONS} onValueChange={(value) => onFormatChange(value === NO_CAPTIONS ? null : value as CaptionFormat)}>
+              <SelectTrigger className="h-9 w-40" aria-label="Caption file saved with downloads">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CAPTIONS}>No captions</SelectItem>
+                {CAPTION_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600">Save now:</span>
+            {CAPTION_FORMATS.map(option => (
+              <Button key={option.value} variant="outline" size="sm" onClick={() => onExport(option.value)}>
+                <FileDown className="h-4 w-4 mr-1" />
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Captions are cut to the clips and start at zero; lines crossing a clip edge are shortened to fit.</p>
+        </div>
+      )}
+    </div>
+  )
+}
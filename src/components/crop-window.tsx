@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState, type PointerEvent, type ReactNode } from 'react'
+import type { FrameBox } from '../lib/reframe'
+
+interface CropWindowProps {
+  // The window at the playhead, as fractions of the source frame
+  box: FrameBox
+  // Source width per unit of height; the player letterboxes it into 16:9
+  sourceAspect: number
+  // Called while dragging with the window's new centre
+  onMove: (centre: { x: number; y: number }) => void
+  // Drawn inside the window, e.g. the burned-in text preview
+  children?: ReactNode
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+// Where the source picture sits inside a `width` x `height` player
+const fitFrame = (width: number, height: number, aspect: number) => {
+  const frameWidth = Math.min(width, height * aspect)
+  const frameHeight = frameWidth / aspect
+  return { left: (width - frameWidth) / 2, top: (height - frameHeight) / 2, width: frameWidth, height: frameHeight }
+}
+
+// Darkens everything outside the export's crop and lets the window be dragged
+// over the picture
+export function CropWindow({ box, sourceAspect, onMove, children }: CropWindowProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const frame = fitFrame(size.width, size.height, sourceAspect)
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, x: box.x + box.width / 2, y: box.y + box.height / 2 }
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag || frame.width === 0) return
+    onMove({
+      x: clamp(drag.x + (event.clientX - drag.pointerX) / frame.width, box.width / 2, 1 - box.width / 2),
+      y: clamp(drag.y + (event.clientY - drag.pointerY) / frame.height, box.height / 2, 1 - box.height / 2)
+    })
+  }
+
+  const endDrag = () => {
+    dragRef.current = null
+  }
+
+  return (
+    <div ref={containerRef} className="pointer-events-none absolute inset-0">
+      <div
+        role="slider"
+        aria-label="Crop window"
+        aria-valuetext={`${Math.round((box.x + box.width / 2) * 100)}% across, ${Math.round((box.y + box.height / 2) * 100)}% down`}
+        className="pointer-events-auto absolute cursor-move touch-none border-2 border-white/90 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+        style={{
+          left: frame.left + box.x * frame.width,
+          top: frame.top + box.y * frame.height,
+          width: box.width * frame.width,
+          height: box.height * frame.height
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+import { useId, type ReactNode } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs'
+import { cn } from '../lib/utils'
+import {
+  AUDIO_BITRATES,
+  OUTPUT_FRAME_RATES,
+  SAMPLE_RATES,
+  TARGET_SIZE_PRESETS,
+  effectiveMode,
+  type EncodingSettings,
+  type EncodingSettingsErrors
+} from '../lib/encoding-settings'
+import type { OutputProfile } from '../lib/output-formats'
+import { canStreamCopy, type SourceOption } from '../lib/source-formats'
+
+interface EncodingSettingsPanelProps {
+  profile: OutputProfile
+  // The stream the export reads, when the source lists its formats
+  source?: SourceOption | null
+  value: EncodingSettings
+  errors: EncodingSettingsErrors
+  onChange: (value: EncodingSettings) => void
+}
+
+const RESOLUTION_LABELS: Record<EncodingSettings['resolution'], string> = {
+  source: 'Keep source',
+  '1080': '1080p',
+  '720': '720p',
+  '480': '480p',
+  custom: 'Custom'
+}
+
+function Field({ label, error, children }: { label: string; error?: string; children: (id: string) => ReactNode }) {
+  const id = useId()
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-gray-600">{label}</Label>
+      {children(id)}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+// Numeric input that passes NaN through while empty so validation can flag it
+function NumberInput({ id, value, error, onChange }: { id: string; value: number; error?: string; onChange: (value: number) => void }) {
+  return (
+    <Input
+      id={id}
+      type="number"
+      inputMode="numeric"
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(e.target.value === '' ? Number.NaN : Number(e.target.value))}
+      className={cn('h-9', error && 'border-red-500 focus-visible:ring-red-500')}
+    />
+  )
+}
+
+// Only the knobs the selected profile supports are shown
+export function EncodingSettingsPanel({ profile, source = null, value, errors, onChange }: EncodingSettingsPanelProps) {
+  const { supports } = profile
+  const mode = effectiveMode(profile, value, source)
+  const canCopy = canStreamCopy(profile, source)
+  const isMp3 = profile.audioCodec === 'libmp3lame'
+  const set = <K extends keyof EncodingSettings>(key: K, next: EncodingSettings[K]) => onChange({ ...value, [key]: next })
+
+  return (
+    <div className="space-y-4">
+      {canCopy && (
+        <Tabs value={mode} onValueChange={(next) => set('mode', next as EncodingSettings['mode'])}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="reencode">Re-encode (exact)</TabsTrigger>
+            <TabsTrigger value="copy">Stream copy (fast)</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
+      {supports.streamCopy && !canCopy && (
+        <p className="text-xs text-gray-500">
+          Stream copy isn't available: the selected source's codecs don't fit the {profile.label} container.
+        </p>
+      )}
+
+      {mode === 'copy' ? (
+        <p className="text-sm text-gray-600">
+          Streams are copied without re-encoding. Cuts snap to the nearest earlier keyframe, so clips may start slightly early.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {supports.resolution && (
+            <Field label="Resolution">
+              {(id) => (
+                <Select value={value.resolution} onValueChange={(next) => set('resolution', next as EncodingSettings['resolution'])}>
+                  <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RESOLUTION_LABELS).map(([preset, label]) => (
+                      <SelectItem key={preset} value={preset}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </Field>
+          )}
+
+          {supports.frameRate && (
+            <Field label="Frame rate">
+              {(id) => (
+                <Select
+                  value={String(value.frameRate)}
+                  onValueChange={(next) => set('frameRate', next === 'source' ? 'source' : Number(next))}
+                >
+                  <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="source">{profile.encoder === 'gif' ? 'Default (10 fps)' : 'Keep source'}</SelectItem>
+                    {OUTPUT_FRAME_RATES.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{rate} fps</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </Field>
+          )}
+
+          {supports.resolution && value.resolution === 'custom' && (
+            <>
+              <Field label="Width" error={errors.customWidth}>
+                {(id) => <NumberInput id={id} value={value.customWidth} error={errors.customWidth} onChange={(next) => set('customWidth', next)} />}
+              </Field>
+              <Field label="Height" error={errors.customHeight}>
+                {(id) => <NumberInput id={id} value={value.customHeight} error={errors.customHeight} onChange={(next) => set('customHeight', next)} />}
+              </Field>
+            </>
+          )}
+
+          {supports.videoQuality && (
+            <>
+              <Field label="Video quality">
+                {(id) => (
+                  <Select value={value.videoRateControl} onValueChange={(next) => set('videoRateControl', next as EncodingSettings['videoRateControl'])}>
+                    <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="crf">Constant quality (CRF)</SelectItem>
+                      <SelectItem value="bitrate">Target bitrate</SelectItem>
+                      <SelectItem value="size">Fit to file size (2-pass)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              </Field>
+              {value.videoRateControl === 'crf' ? (
+                <Field label="CRF (lower is better)" error={errors.crf}>
+                  {(id) => <NumberInput id={id} value={value.crf} error={errors.crf} onChange={(next) => set('crf', next)} />}
+                </Field>
+              ) : value.videoRateControl === 'size' ? (
+                <Field label="Target size per file (MB)" error={errors.targetSize}>
+                  {(id) => (
+                    <div className="space-y-2">
+                      <Input
+                        id={id}
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        value={Number.isNaN(value.targetSize) ? '' : value.targetSize}
+                        onChange={(e) => set('targetSize', e.target.value === '' ? Number.NaN : Number(e.target.value))}
+                        className={cn('h-9', errors.targetSize && 'border-red-500 focus-visible:ring-red-500')}
+                      />
+                      <div className="flex flex-wrap gap-1">
+                        {TARGET_SIZE_PRESETS.map(size => (
+                          <Button
+                            key={size}
+                            type="button"
+                            variant={value.targetSize === size ? 'secondary' : 'outline'}
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => set('targetSize', size)}
+                          >
+                            {size} MB
+                          </Button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Bitrates are worked out from each file's length; the resolution steps down if the budget is too small for it.
+                      </p>
+                    </div>
+                  )}
+                </Field>
+              ) : (
+                <Field label="Video bitrate (kbps)" error={errors.videoBitrate}>
+                  {(id) => <NumberInput id={id} value={value.videoBitrate} error={errors.videoBitrate} onChange={(next) => set('videoBitrate', next)} />}
+                </Field>
+              )}
+            </>
+          )}
+
+          {isMp3 && (
+            <Field label="MP3 mode">
+              {(id) => (
+                <Select value={value.mp3Mode} onValueChange={(next) => set('mp3Mode', next as EncodingSettings['mp3Mode'])}>
+                  <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cbr">Constant bitrate (CBR)</SelectItem>
+                    <SelectItem value="vbr">Variable bitrate (VBR)</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </Field>
+          )}
+
+          {isMp3 && value.mp3Mode === 'vbr' ? (
+            <Field label="VBR quality">
+              {(id) => (
+                <Select value={String(value.mp3VbrQuality)} onValueChange={(next) => set('mp3VbrQuality', Number(next))}>
+                  <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 10 }, (_, quality) => (
+                      <SelectItem key={quality} value={String(quality)}>
+                        V{quality}{quality === 0 ? ' (best)' : quality === 9 ? ' (smallest)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </Field>
+          ) : supports.audioBitrate && (
+            <Field label="Audio bitrate" error={errors.audioBitrate}>
+              {(id) => (
+                <Select value={String(value.audioBitrate)} onValueChange={(next) => set('audioBitrate', Number(next))}>
+                  <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {AUDIO_BITRATES.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{rate} kbps</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </Field>
+          )}
+
+          {supports.sampleRate && (
+            <Field label="Sample rate">
+              {(id) => (
+                <Select
+                  value={String(value.audioSampleRate)}
+                  onValueChange={(next) => set('audioSampleRate', next === 'source' ? 'source' : Number(next))}
+                >
+                  <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="source">{profile.encoder === 'ffmpeg-mp4' ? 'Keep source' : 'Default (48 kHz)'}</SelectItem>
+                    {SAMPLE_RATES.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{rate / 1000} kHz</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </Field>
+          )}
+
+          {supports.channels && (
+            <Field label="Channels">
+              {(id) => (
+                <Select
+                  value={String(value.audioChannels)}
+                  onValueChange={(next) => set('audioChannels', next === 'source' ? 'source' : next === '1' ? 1 : 2)}
+                >
+                  <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="source">Keep source</SelectItem>
+                    <SelectItem value="1">Mono</SelectItem>
+                    <SelectItem value="2">Stereo</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </Field>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
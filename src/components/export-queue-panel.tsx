@@ -0,0 +1,123 @@
+import { Download, ListVideo, RotateCcw, Trash2, X } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Progress } from './ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { formatFileSize } from '../lib/download'
+import { isFinishedJob, MAX_EXPORT_CONCURRENCY, type ExportJob, type ExportJobStatus } from '../lib/export-queue'
+
+interface ExportQueuePanelProps {
+  jobs: ExportJob[]
+  concurrency: number
+  onConcurrencyChange: (concurrency: number) => void
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onRemove: (id: string) => void
+  onDownload: (job: ExportJob) => void
+  onClearFinished: () => void
+}
+
+const STATUS_LABELS: Record<ExportJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+const STATUS_VARIANTS: Record<ExportJobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'default',
+  done: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline'
+}
+
+function ExportJobRow({ job, onCancel, onRetry, onRemove, onDownload }: { job: ExportJob } & Pick<ExportQueuePanelProps, 'onCancel' | 'onRetry' | 'onRemove' | 'onDownload'>) {
+  const finished = isFinishedJob(job)
+
+  return (
+    <li className="rounded-lg border border-gray-200 bg-white p-3 space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium">{job.request.label}</p>
+          <p className="truncate text-xs text-gray-500">
+            {job.request.filename}
+            {job.result && ` · ${formatFileSize(job.result.size)}`}
+          </p>
+        </div>
+        <Badge variant={STATUS_VARIANTS[job.status]}>{STATUS_LABELS[job.status]}</Badge>
+        {job.status === 'done' && job.result && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDownload(job)} aria-label="Download again">
+            <Download className="h-4 w-4" />
+          </Button>
+        )}
+        {(job.status === 'failed' || job.status === 'cancelled') && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRetry(job.id)} aria-label="Retry">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+        {finished ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRemove(job.id)} aria-label="Remove">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onCancel(job.id)} aria-label="Cancel">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {job.status === 'running' && (
+        <div className="flex items-center gap-3">
+          <Progress value={Math.round(job.progress * 100)} className="flex-1" />
+          <span className="w-10 text-right text-xs tabular-nums text-gray-600">{Math.round(job.progress * 100)}%</span>
+        </div>
+      )}
+      {job.status === 'failed' && job.error && (
+        <p className="whitespace-pre-wrap break-words text-xs text-red-600">{job.error}</p>
+      )}
+    </li>
+  )
+}
+
+// Every export the session has started, across videos
+export function ExportQueuePanel({ jobs, concurrency, onConcurrencyChange, onClearFinished, ...rowProps }: ExportQueuePanelProps) {
+  const hasFinished = jobs.some(isFinishedJob)
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListVideo className="h-5 w-5" />
+          Export Queue
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Parallel exports</span>
+            <Select value={String(concurrency)} onValueChange={(value) => onConcurrencyChange(Number(value))}>
+              <SelectTrigger className="h-8 w-16">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_EXPORT_CONCURRENCY }, (_, index) => index + 1).map(value => (
+                  <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={onClearFinished} disabled={!hasFinished}>
+            Clear finished
+          </Button>
+        </div>
+        <ul className="space-y-2">
+          {jobs.map(job => (
+            <ExportJobRow key={job.id} job={job} {...rowProps} />
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
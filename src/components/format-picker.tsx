@@ -0,0 +1,51 @@
+import { Music, Video } from 'lucide-react'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from './ui/select'
+import { OUTPUT_FORMATS, OUTPUT_PROFILES, isOutputFormat, type OutputFormat } from '../lib/output-formats'
+
+interface FormatPickerProps {
+  value: OutputFormat
+  onChange: (format: OutputFormat) => void
+}
+
+const VIDEO_FORMATS = OUTPUT_FORMATS.filter(format => !OUTPUT_PROFILES[format].audioOnly)
+const AUDIO_FORMATS = OUTPUT_FORMATS.filter(format => OUTPUT_PROFILES[format].audioOnly)
+
+// Output format select, grouped by whether the profile keeps the picture
+export function FormatPicker({ value, onChange }: FormatPickerProps) {
+  const profile = OUTPUT_PROFILES[value]
+
+  return (
+    <div className="space-y-2">
+      <Select value={value} onValueChange={(next) => isOutputFormat(next) && onChange(next)}>
+        <SelectTrigger aria-label="Output format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>Video</SelectLabel>
+            {VIDEO_FORMATS.map(format => (
+              <SelectItem key={format} value={format}>
+                <span className="flex items-center gap-2">
+                  <Video className="h-4 w-4" />
+                  {OUTPUT_PROFILES[format].label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectGroup>
+          <SelectGroup>
+            <SelectLabel>Audio only</SelectLabel>
+            {AUDIO_FORMATS.map(format => (
+              <SelectItem key={format} value={format}>
+                <span className="flex items-center gap-2">
+                  <Music className="h-4 w-4" />
+                  {OUTPUT_PROFILES[format].label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-gray-600">{profile.description}</p>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { Camera, ImageOff, Tag, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { COVER_FILE_ACCEPT, TRACK_PATTERN, readCoverArt, type CoverArt, type CoverSource, type MediaTags } from '../lib/media-tags'
+import { cn } from '../lib/utils'
+
+interface MetadataPanelProps {
+  tags: MediaTags
+  onChange: (tags: MediaTags) => void
+  cover: CoverSource
+  onCoverChange: (cover: CoverSource) => void
+  // The video's thumbnail URL; empty when it has none
+  thumbnail: string
+  // Grab the frame under the playhead, when the player allows it
+  captureFrame: (() => Promise<{ name: string; art: CoverArt }>) | null
+  // Why the current format can't carry tags, if it can't
+  notice: string | null
+}
+
+function TagField({ label, value, placeholder, invalid, onChange }: { label: string; value: string; placeholder?: string; invalid?: boolean; onChange: (value: string) => void }) {
+  const id = useId()
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-gray-600">{label}</Label>
+      <Input id={id} value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} className={cn('h-9', invalid && 'border-red-400')} aria-invalid={invalid} />
+    </div>
+  )
+}
+
+// Title, artist and the rest written into MP3 and MP4/M4A exports, plus the
+// picture embedded as their cover art
+export function MetadataPanel({ tags, onChange, cover, onCoverChange, thumbnail, captureFrame, notice }: MetadataPanelProps) {
+  const [isCapturing, setIsCapturing] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const commentId = useId()
+  const set = (key: keyof MediaTags) => (value: string) => onChange({ ...tags, [key]: value })
+
+  const imageUrl = useMemo(
+    () => cover.kind === 'image' ? URL.createObjectURL(new Blob([cover.art.data], { type: cover.art.mimeType })) : null,
+    [cover]
+  )
+  useEffect(() => () => {
+    if (imageUrl) URL.revokeObjectURL(imageUrl)
+  }, [imageUrl])
+  const previewUrl = cover.kind === 'thumbnail' ? thumbnail : imageUrl
+
+  const handleFile = async (file: File) => {
+    try {
+      onCoverChange({ kind: 'image', name: file.name, art: await readCoverArt(file) })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not read ${file.name}`)
+    }
+  }
+
+  const handleCapture = async () => {
+    if (!captureFrame) return
+    setIsCapturing(true)
+    try {
+      onCoverChange({ kind: 'image', ...(await captureFrame()) })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not capture the frame')
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5 text-primary" />
+          Metadata & Cover Art
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {notice && <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">{notice}</p>}
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <TagField label="Title" value={tags.title} onChange={set('title')} />
+            <TagField label="Artist" value={tags.artist} onChange={set('artist')} />
+            <TagField label="Album" value={tags.album} onChange={set('album')} />
+            <TagField label="Genre" value={tags.genre} onChange={set('genre')} />
+            <TagField label="Year" value={tags.year} placeholder="2024" onChange={set('year')} />
+            <TagField
+              label="Track"
+              value={tags.track}
+              placeholder="3 or 3/12"
+              invalid={tags.track.trim() !== '' && !TRACK_PATTERN.test(tags.track)}
+              onChange={set('track')}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={commentId} className="text-xs text-gray-600">Comment</Label>
+            <Textarea id={commentId} value={tags.comment} onChange={(e) => set('comment')(e.target.value)} rows={2} />
+          </div>
+
+          {/* Cover art */}
+          <div className="flex gap-4">
+            <div className="flex h-24 w-24 shrink-0 items-center justify-center overflow-hidden rounded-md border border-gray-200 bg-gray-50">
+              {previewUrl
+                ? <img src={previewUrl} alt="Cover art" className="h-full w-full object-cover" />
+                : <ImageOff className="h-6 w-6 text-gray-400" />}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">Cover: </span>
+                {cover.kind === 'thumbnail' ? 'video thumbnail' : cover.kind === 'image' ? cover.name : 'none'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => onCoverChange({ kind: 'thumbnail' })} disabled={!thumbnail || cover.kind === 'thumbnail'}>
+                  Video Thumbnail
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleCapture} disabled={!captureFrame || isCapturing}>
+                  <Camera className="h-4 w-4 mr-1" />
+                  Frame at Playhead
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  Upload Image
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onCoverChange({ kind: 'none' })} disabled={cover.kind === 'none'}>
+                  No Cover
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">JPEG or PNG, embedded in the file as its front cover.</p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={COVER_FILE_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ''
+              }}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,223 @@
+import { useId } from 'react'
+import { Plus, Trash2, Type } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Switch } from './ui/switch'
+import { Textarea } from './ui/textarea'
+import { SliderField } from './slider-field'
+import { TimecodeInput } from './timecode-input'
+import type { CaptionCue, LoadedCaptions } from '../lib/captions'
+import { createTextOverlay, OVERLAY_FONTS, type CaptionPosition, type OverlaySettings, type TextOverlay, type TextStyle } from '../lib/overlays'
+import type { TimecodeDisplayMode } from '../lib/timecode'
+import { cn } from '../lib/utils'
+
+interface OverlayPanelProps {
+  settings: OverlaySettings
+  onChange: (settings: OverlaySettings) => void
+  // The caption track from Download Options; typed cues start a new one
+  captions: LoadedCaptions | null
+  onCaptionsChange: (captions: LoadedCaptions | null) => void
+  playheadTime: number
+  duration: number
+  timeDisplayMode: TimecodeDisplayMode
+  fps: number
+  // Why the current export settings can't burn text in, if they can't
+  notice: string | null
+}
+
+const TYPED_CAPTIONS_NAME = 'Typed captions'
+const DEFAULT_CUE_LENGTH = 2
+// Shortest cue or text that can still be edited
+const MIN_LENGTH = 0.1
+
+const CAPTION_POSITIONS: { value: CaptionPosition; label: string }[] = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'top', label: 'Top' }
+]
+
+function ColorField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  const id = useId()
+  return (
+    <div className="flex items-center gap-2">
+      <input id={id} type="color" value={value} onChange={(e) => onChange(e.target.value)} className="h-8 w-10 cursor-pointer rounded border border-gray-200 bg-transparent" />
+      <Label htmlFor={id} className="text-xs text-gray-600">{label}</Label>
+    </div>
+  )
+}
+
+function StyleEditor({ value, onChange }: { value: TextStyle; onChange: (style: TextStyle) => void }) {
+  const set = <K extends keyof TextStyle>(key: K, next: TextStyle[K]) => onChange({ ...value, [key]: next })
+  const percent = (amount: number) => `${amount}%`
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-1">
+        <span className="text-xs text-gray-600">Font</span>
+        <Select value={value.fontFamily} onValueChange={(next) => set('fontFamily', next)}>
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OVERLAY_FONTS.map(font => (
+              <SelectItem key={font.value} value={font.value} style={{ fontFamily: font.value }}>{font.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <SliderField label="Size (of frame height)" value={value.fontSize} min={2} max={20} step={0.5} format={percent} onChange={(next) => set('fontSize', next)} />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <ColorField label="Text" value={value.color} onChange={(next) => set('color', next)} />
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <Switch checked={value.bold} onCheckedChange={(checked) => set('bold', checked)} />
+          Bold
+        </label>
+      </div>
+      <div className="space-y-2">
+        <SliderField label="Outline" value={value.outlineWidth} min={0} max={30} step={1} format={percent} onChange={(next) => set('outlineWidth', next)} />
+        {value.outlineWidth > 0 && <ColorField label="Outline color" value={value.outlineColor} onChange={(next) => set('outlineColor', next)} />}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <Switch checked={value.box} onCheckedChange={(checked) => set('box', checked)} />
+          Background box
+        </label>
+        {value.box && <ColorField label="Box color" value={value.boxColor} onChange={(next) => set('boxColor', next)} />}
+      </div>
+      {value.box && (
+        <SliderField label="Box opacity" value={value.boxOpacity} min={0} max={1} step={0.05} format={(next) => `${Math.round(next * 100)}%`} onChange={(next) => set('boxOpacity', next)} />
+      )}
+    </div>
+  )
+}
+
+// Burned-in captions and free-floating text: cue editing, styles and timing.
+// Everything here is drawn into the pixels of video exports.
+export function OverlayPanel({ settings, onChange, captions, onCaptionsChange, playheadTime, duration, timeDisplayMode, fps, notice }: OverlayPanelProps) {
+  const cues = captions?.cues ?? []
+  const set = <K extends keyof OverlaySettings>(key: K, next: OverlaySettings[K]) => onChange({ ...settings, [key]: next })
+
+  const setCues = (next: CaptionCue[]) => {
+    onCaptionsChange(next.length > 0 ? { name: captions?.name ?? TYPED_CAPTIONS_NAME, cues: next } : null)
+  }
+
+  const updateCue = (index: number, changes: Partial<CaptionCue>) => {
+    setCues(cues.map((cue, position) => (position === index ? { ...cue, ...changes } : cue)))
+  }
+
+  const addCue = () => {
+    const start = Math.min(playheadTime, Math.max(duration - MIN_LENGTH, 0))
+    const cue: CaptionCue = { id: null, start, end: Math.min(start + DEFAULT_CUE_LENGTH, duration), text: '', settings: null }
+    setCues([...cues, cue].sort((a, b) => a.start - b.start))
+    if (!settings.burnCaptions) set('burnCaptions', true)
+  }
+
+  const updateText = (id: string, changes: Partial<TextOverlay>) => {
+    set('texts', settings.texts.map(text => (text.id === id ? { ...text, ...changes } : text)))
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Type className="h-5 w-5 text-primary" />
+          Burned-in Text
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-8">
+          {notice && <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">{notice}</p>}
+
+          {/* Captions */}
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <Switch checked={settings.burnCaptions} onCheckedChange={(checked) => set('burnCaptions', checked)} />
+                Burn captions into the video
+              </label>
+              <Button variant="outline" size="sm" onClick={addCue}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Caption at Playhead
+              </Button>
+            </div>
+            {captions ? (
+              <p className="text-xs text-gray-500">{captions.name} · {cues.length} cue{cues.length === 1 ? '' : 's'}</p>
+            ) : (
+              <p className="text-xs text-gray-500">Import an SRT/VTT file under Download Options, or type captions here.</p>
+            )}
+
+            {cues.length > 0 && (
+              <div className="max-h-72 space-y-2 overflow-y-auto pr-1">
+                {cues.map((cue, index) => (
+                  <div
+                    key={index}
+                    className={cn('grid grid-cols-[7rem_7rem_1fr_auto] items-end gap-2 rounded-md p-1', cue.start <= playheadTime && playheadTime < cue.end && 'bg-primary/5')}
+                  >
+                    <TimecodeInput label="In" value={cue.start} mode={timeDisplayMode} fps={fps} max={cue.end - MIN_LENGTH} onCommit={(start) => updateCue(index, { start })} />
+                    <TimecodeInput label="Out" value={cue.end} mode={timeDisplayMode} fps={fps} min={cue.start + MIN_LENGTH} max={duration} onCommit={(end) => updateCue(index, { end })} />
+                    <Input value={cue.text} placeholder="Caption text" onChange={(e) => updateCue(index, { text: e.target.value })} className="h-9" aria-label={`Caption ${index + 1} text`} />
+                    <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => setCues(cues.filter((_, position) => position !== index))} aria-label={`Delete caption ${index + 1}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {settings.burnCaptions && (
+              <div className="space-y-4 rounded-md border border-gray-200 p-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-600">Position</span>
+                  <Select value={settings.captionPosition} onValueChange={(value) => set('captionPosition', value as CaptionPosition)}>
+                    <SelectTrigger className="h-9 w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CAPTION_POSITIONS.map(position => (
+                        <SelectItem key={position.value} value={position.value}>{position.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <StyleEditor value={settings.captionStyle} onChange={(style) => set('captionStyle', style)} />
+              </div>
+            )}
+          </div>
+
+          {/* Text overlays */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Text overlays ({settings.texts.length})</span>
+              <Button variant="outline" size="sm" onClick={() => set('texts', [...settings.texts, createTextOverlay(playheadTime, duration)])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Text at Playhead
+              </Button>
+            </div>
+            {settings.texts.map((text, index) => (
+              <div key={text.id} className="space-y-4 rounded-md border border-gray-200 p-3">
+                <div className="flex items-start gap-2">
+                  <Textarea value={text.text} rows={2} onChange={(e) => updateText(text.id, { text: e.target.value })} aria-label={`Text overlay ${index + 1}`} />
+                  <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => set('texts', settings.texts.filter(other => other.id !== text.id))} aria-label={`Delete text overlay ${index + 1}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-4">
+                  <TimecodeInput label="In" value={text.start} mode={timeDisplayMode} fps={fps} max={text.end - MIN_LENGTH} onCommit={(start) => updateText(text.id, { start })} />
+                  <TimecodeInput label="Out" value={text.end} mode={timeDisplayMode} fps={fps} min={text.start + MIN_LENGTH} max={duration} onCommit={(end) => updateText(text.id, { end })} />
+                  <SliderField label="Across" value={text.x * 100} min={0} max={100} step={1} format={(value) => `${Math.round(value)}%`} onChange={(value) => updateText(text.id, { x: value / 100 })} />
+                  <SliderField label="Down" value={text.y * 100} min={0} max={100} step={1} format={(value) => `${Math.round(value)}%`} onChange={(value) => updateText(text.id, { y: value / 100 })} />
+                </div>
+                <StyleEditor value={text.style} onChange={(style) => updateText(text.id, { style })} />
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
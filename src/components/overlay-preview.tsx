@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react'
+import { drawOverlayItems } from '../lib/overlay-render'
+import type { OverlayItem } from '../lib/overlays'
+
+interface OverlayPreviewProps {
+  items: OverlayItem[]
+}
+
+// Burned-in text drawn over the player with the export's renderer. The player
+// box is 16:9, so letterboxed sources preview slightly off their real frame.
+export function OverlayPreview({ items }: OverlayPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }))
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+    // Draw at device resolution so the text stays crisp
+    const scale = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * scale)
+    canvas.height = Math.round(size.height * scale)
+    context.clearRect(0, 0, canvas.width, canvas.height)
+    drawOverlayItems(context, items, canvas.width, canvas.height)
+  }, [items, size])
+
+  return <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" aria-hidden />
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import { ListVideo, Music, RotateCcw } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Checkbox } from './ui/checkbox'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { FormatPicker } from './format-picker'
+import { TimecodeInput } from './timecode-input'
+import type { TimeRange } from '../lib/ffmpeg'
+import type { OutputFormat } from '../lib/output-formats'
+import { playlistItemRange, type PlaylistItem, type PlaylistRule } from '../lib/playlist-batch'
+import type { PlaylistInfo } from '../lib/source-api'
+import { MIN_SEGMENT_LENGTH } from '../lib/segments'
+import type { TimecodeDisplayMode } from '../lib/timecode'
+
+interface PlaylistPanelProps {
+  playlist: PlaylistInfo
+  mode: TimecodeDisplayMode
+  fps: number
+  formatTime: (seconds: number) => string
+  isQueueing: boolean
+  onQueue: (items: PlaylistItem[], rule: PlaylistRule, format: OutputFormat) => void
+}
+
+type RuleKind = PlaylistRule['kind']
+
+const DEFAULT_FIRST_SECONDS = 30
+
+// Tick the playlist's videos, pick a shared range rule or per-video ranges,
+// and queue the selection as one ZIP
+export function PlaylistPanel({ playlist, mode, fps, formatTime, isQueueing, onQueue }: PlaylistPanelProps) {
+  const [selected, setSelected] = useState(() => new Set(playlist.entries.map(entry => entry.videoId)))
+  const [ruleKind, setRuleKind] = useState<RuleKind>('full')
+  const [firstSeconds, setFirstSeconds] = useState(DEFAULT_FIRST_SECONDS)
+  const [ranges, setRanges] = useState<Record<string, TimeRange>>({})
+  const [format, setFormat] = useState<OutputFormat>('mp4')
+
+  const rule: PlaylistRule = ruleKind === 'first' ? { kind: 'first', seconds: firstSeconds } : { kind: 'full' }
+  const ruleValid = ruleKind === 'full' || (Number.isFinite(firstSeconds) && firstSeconds >= MIN_SEGMENT_LENGTH)
+  const allSelected = selected.size === playlist.entries.length
+
+  const toggle = (videoId: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(videoId)
+      else next.delete(videoId)
+      return next
+    })
+  }
+
+  const setRange = (videoId: string, range: TimeRange | null) => {
+    setRanges((current) => {
+      const next = { ...current }
+      if (range) next[videoId] = range
+      else delete next[videoId]
+      return next
+    })
+  }
+
+  // Shortcut for the common "just the audio" case
+  const applyFullAudio = () => {
+    setRuleKind('full')
+    setFormat('mp3')
+  }
+
+  const handleQueue = () => {
+    const items = playlist.entries
+      .filter(entry => selected.has(entry.videoId))
+      .map(entry => ({ entry, range: ranges[entry.videoId] }))
+    onQueue(items, rule, format)
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListVideo className="h-5 w-5 text-primary" />
+          {playlist.title}
+          <span className="text-sm font-normal text-gray-500">({playlist.entries.length} videos)</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label className="text-sm">Range for every video</Label>
+            <Select value={ruleKind} onValueChange={(value) => setRuleKind(value as RuleKind)}>
+              <SelectTrigger aria-label="Range for every video">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Whole video</SelectItem>
+                <SelectItem value="first">First seconds</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {ruleKind === 'first' && (
+            <div className="space-y-2">
+              <Label htmlFor="playlist-first-seconds" className="text-sm">Seconds</Label>
+              <Input
+                id="playlist-first-seconds"
+                type="number"
+                min={MIN_SEGMENT_LENGTH}
+                step={1}
+                value={Number.isFinite(firstSeconds) ? firstSeconds : ''}
+                onChange={(e) => setFirstSeconds(e.target.valueAsNumber)}
+                aria-invalid={!ruleValid}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label className="text-sm">Format</Label>
+            <FormatPicker value={format} onChange={setFormat} />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setSelected(new Set(allSelected ? [] : playlist.entries.map(entry => entry.videoId)))}>
+            {allSelected ? 'Select None' : 'Select All'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={applyFullAudio}>
+            <Music className="h-4 w-4 mr-1" />
+            Full Audio
+          </Button>
+          <span className="text-sm text-gray-600">{selected.size} of {playlist.entries.length} selected</span>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead className="w-10">#</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead className="w-20">Length</TableHead>
+                <TableHead className="w-64">Range</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {playlist.entries.map((entry) => {
+                const override = ranges[entry.videoId]
+                const range = playlistItemRange(entry.duration, rule, override)
+                const max = entry.duration ?? Infinity
+                return (
+                  <TableRow key={entry.videoId} data-state={selected.has(entry.videoId) ? 'selected' : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(entry.videoId)}
+                        onCheckedChange={(checked) => toggle(entry.videoId, checked === true)}
+                        aria-label={`Include ${entry.title}`}
+                      />
+                    </TableCell>
+                    <TableCell className="tabular-nums text-gray-500">{entry.index}</TableCell>
+                    <TableCell className="max-w-0 truncate" title={entry.title}>{entry.title}</TableCell>
+                    <TableCell className="tabular-nums">{entry.duration !== null ? formatTime(entry.duration) : '?'}</TableCell>
+                    <TableCell>
+                      {range ? (
+                        <div className="flex items-end gap-1">
+                          <TimecodeInput
+                            label="Start"
+                            value={range.start}
+                            mode={mode}
+                            fps={fps}
+                            max={range.end - MIN_SEGMENT_LENGTH}
+                            disabled={!selected.has(entry.videoId)}
+                            onCommit={(start) => setRange(entry.videoId, { start, end: range.end })}
+                          />
+                          <TimecodeInput
+                            label="End"
+                            value={range.end}
+                            mode={mode}
+                            fps={fps}
+                            min={range.start + MIN_SEGMENT_LENGTH}
+                            max={max}
+                            disabled={!selected.has(entry.videoId)}
+                            onCommit={(end) => setRange(entry.videoId, { start: range.start, end })}
+                          />
+                          {override && (
+                            <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={() => setRange(entry.videoId, null)} aria-label="Use the shared range">
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-500">Whole video (length checked when queued)</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Button
+          onClick={handleQueue}
+          disabled={selected.size === 0 || !ruleValid || isQueueing}
+          className="w-full bg-primary hover:bg-primary/90 text-white"
+        >
+          {isQueueing ? 'Looking up videos...' : `Queue ${selected.size} video${selected.size === 1 ? '' : 's'} as ZIP`}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
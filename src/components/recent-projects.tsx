@@ -0,0 +1,101 @@
+import { useRef } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { FileUp, FolderOpen, History, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { PROJECT_FILE_EXTENSION, type ProjectSummary } from '../lib/project'
+
+interface RecentProjectsProps {
+  projects: ProjectSummary[]
+  formatTime: (seconds: number) => string
+  // Local-file projects come with the file the user picked again
+  onOpen: (id: string, file?: File) => void
+  onDelete: (id: string) => void
+  onImport: (file: File) => void
+}
+
+// Autosaved projects on the landing screen, plus importing a project file
+export function RecentProjects({ projects, formatTime, onOpen, onDelete, onImport }: RecentProjectsProps) {
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const mediaInputRef = useRef<HTMLInputElement>(null)
+  // The local-file project waiting for its media to be picked
+  const relinkIdRef = useRef<string | null>(null)
+
+  const pickMedia = (id: string) => {
+    relinkIdRef.current = id
+    mediaInputRef.current?.click()
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Recent Projects
+          </span>
+          <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-1" />
+            Open Project File
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {projects.length === 0 ? (
+          <p className="text-sm text-gray-600">Projects are saved automatically while you edit and show up here.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {projects.map(project => (
+              <li key={project.id} className="flex items-center gap-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{project.name}</p>
+                  <p className="truncate text-xs text-gray-500">
+                    {project.segmentCount} clip{project.segmentCount === 1 ? '' : 's'}
+                    {project.duration !== null && ` · ${formatTime(project.duration)}`}
+                    {project.source.kind === 'file' && ` · local file ${project.source.name}`}
+                    {` · edited ${formatDistanceToNow(project.updatedAt, { addSuffix: true })}`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => (project.source.kind === 'file' ? pickMedia(project.id) : onOpen(project.id))}
+                  title={project.source.kind === 'file' ? 'Local files have to be picked again' : undefined}
+                >
+                  <FolderOpen className="h-4 w-4 mr-1" />
+                  {project.source.kind === 'file' ? 'Pick File & Open' : 'Open'}
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(project.id)} aria-label={`Delete ${project.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},application/json`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onImport(file)
+            e.target.value = ''
+          }}
+        />
+        <input
+          ref={mediaInputRef}
+          type="file"
+          accept="video/*,audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file && relinkIdRef.current) onOpen(relinkIdRef.current, file)
+            relinkIdRef.current = null
+            e.target.value = ''
+          }}
+        />
+      </CardContent>
+    </Card>
+  )
+}
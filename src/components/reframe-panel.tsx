@@ -0,0 +1,117 @@
+import { Crop, Plus, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ASPECT_PRESETS, cropCentreAt, setKeyframe, type AspectPreset, type Reframe } from '../lib/reframe'
+import { cn } from '../lib/utils'
+
+interface ReframePanelProps {
+  reframe: Reframe
+  onChange: (reframe: Reframe) => void
+  playheadTime: number
+  duration: number
+  // Keyframes this close to the playhead are treated as at it
+  tolerance: number
+  formatTime: (seconds: number) => string
+  onSeek: (seconds: number) => void
+  // Why the current export settings can't reframe, if they can't
+  notice: string | null
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+// Output aspect ratio and the keyframes the crop window pans between. The
+// window itself is dragged over the player.
+export function ReframePanel({ reframe, onChange, playheadTime, duration, tolerance, formatTime, onSeek, notice }: ReframePanelProps) {
+  const reframing = reframe.aspect !== 'source'
+  const atPlayhead = reframe.keyframes.find(keyframe => Math.abs(keyframe.time - playheadTime) <= tolerance)
+
+  const addKeyframe = () => {
+    onChange({ ...reframe, keyframes: setKeyframe(reframe.keyframes, playheadTime, cropCentreAt(reframe.keyframes, playheadTime), tolerance) })
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crop className="h-5 w-5 text-primary" />
+          Reframe
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {notice && reframing && <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">{notice}</p>}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Aspect ratio</span>
+              <Select value={reframe.aspect} onValueChange={(value) => onChange({ ...reframe, aspect: value as AspectPreset })}>
+                <SelectTrigger className="h-9 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASPECT_PRESETS.map(preset => (
+                    <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {reframing && (
+              <Button variant="outline" size="sm" onClick={addKeyframe} disabled={atPlayhead !== undefined}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Keyframe at Playhead
+              </Button>
+            )}
+          </div>
+
+          {reframing && (
+            <>
+              <p className="text-xs text-gray-500">
+                Drag the window over the player to frame the shot. Moving it sets a keyframe at the playhead; the crop eases between keyframes.
+              </p>
+
+              {/* Keyframe strip */}
+              <div className="relative h-6 rounded bg-gray-100">
+                <div className="absolute inset-y-0 w-px bg-primary" style={{ left: `${(playheadTime / duration) * 100}%` }} />
+                {reframe.keyframes.map(keyframe => (
+                  <button
+                    key={keyframe.id}
+                    type="button"
+                    className={cn('absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-white bg-gray-500', keyframe === atPlayhead && 'bg-primary')}
+                    style={{ left: `${(keyframe.time / duration) * 100}%` }}
+                    onClick={() => onSeek(keyframe.time)}
+                    aria-label={`Go to keyframe at ${formatTime(keyframe.time)}`}
+                  />
+                ))}
+              </div>
+
+              {reframe.keyframes.length > 0 ? (
+                <div className="max-h-56 space-y-1 overflow-y-auto pr-1">
+                  {reframe.keyframes.map((keyframe, index) => (
+                    <div key={keyframe.id} className={cn('flex items-center gap-3 rounded-md px-2 py-1 text-sm', keyframe === atPlayhead && 'bg-primary/5')}>
+                      <button type="button" className="font-medium tabular-nums hover:underline" onClick={() => onSeek(keyframe.time)}>
+                        {formatTime(keyframe.time)}
+                      </button>
+                      <span className="flex-1 text-xs text-gray-500">{percent(keyframe.x)} across, {percent(keyframe.y)} down</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => onChange({ ...reframe, keyframes: reframe.keyframes.filter(other => other.id !== keyframe.id) })}
+                        aria-label={`Delete keyframe ${index + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">No keyframes: the crop stays centred.</p>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
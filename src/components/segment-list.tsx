@@ -0,0 +1,136 @@
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Copy, GripVertical, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { cn } from '../lib/utils'
+import type { Segment } from '../lib/segments'
+
+interface SegmentListProps {
+  segments: Segment[]
+  activeId: string | null
+  formatTime: (seconds: number) => string
+  onSelect: (id: string) => void
+  onRename: (id: string, label: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+  onReorder: (activeId: string, overId: string) => void
+}
+
+interface SegmentRowProps extends Omit<SegmentListProps, 'segments' | 'activeId' | 'onReorder'> {
+  segment: Segment
+  index: number
+  isActive: boolean
+  canDelete: boolean
+}
+
+// Each row is both a drag source and a drop target
+function SegmentRow({ segment, index, isActive, canDelete, formatTime, onSelect, onRename, onDuplicate, onDelete }: SegmentRowProps) {
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id: segment.id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: segment.id })
+
+  return (
+    <li
+      ref={setDropRef}
+      className={cn('rounded-lg transition-colors', isOver && !isDragging && 'bg-primary/10')}
+    >
+      <div
+        ref={setDragRef}
+        style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+        onClick={() => onSelect(segment.id)}
+        className={cn(
+          'flex items-center gap-3 rounded-lg border bg-white p-2 cursor-pointer',
+          isActive ? 'border-primary ring-1 ring-primary' : 'border-gray-200',
+          isDragging && 'relative z-10 shadow-lg'
+        )}
+      >
+        <button
+          type="button"
+          className="cursor-grab text-gray-400 hover:text-gray-600 active:cursor-grabbing"
+          aria-label={`Reorder ${segment.label}`}
+          {...listeners}
+          {...attributes}
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+        <span className="text-xs tabular-nums text-gray-400 w-4">{index + 1}</span>
+        <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: segment.color }} />
+        <Input
+          value={segment.label}
+          onChange={(e) => onRename(segment.id, e.target.value)}
+          onClick={(e) => e.stopPropagation()}
+          className="h-8 flex-1"
+          aria-label="Segment label"
+        />
+        <span className="text-xs tabular-nums text-gray-600 whitespace-nowrap">
+          {formatTime(segment.start)} - {formatTime(segment.end)}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={(e) => {
+            e.stopPropagation()
+            onDuplicate(segment.id)
+          }}
+          aria-label={`Duplicate ${segment.label}`}
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={!canDelete}
+          onClick={(e) => {
+            e.stopPropagation()
+            onDelete(segment.id)
+          }}
+          aria-label={`Delete ${segment.label}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </li>
+  )
+}
+
+// Clip list in export order; drag rows by their grip to reorder
+export function SegmentList({ segments, activeId, onReorder, ...rowProps }: SegmentListProps) {
+  const sensors = useSensors(
+    // A small threshold keeps clicks on the row from starting a drag
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (over && active.id !== over.id) {
+      onReorder(String(active.id), String(over.id))
+    }
+  }
+
+  return (
+    <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+      <ul className="space-y-2">
+        {segments.map((segment, index) => (
+          <SegmentRow
+            key={segment.id}
+            segment={segment}
+            index={index}
+            isActive={segment.id === activeId}
+            canDelete={segments.length > 1}
+            {...rowProps}
+          />
+        ))}
+      </ul>
+    </DndContext>
+  )
+}
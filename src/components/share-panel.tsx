@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { Copy } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs'
+import { Textarea } from './ui/textarea'
+import type { TimeRange } from '../lib/ffmpeg'
+import {
+  buildEmbedSnippet,
+  buildEmbedUrl,
+  buildShortLink,
+  buildTimestampList,
+  DEFAULT_EMBED_OPTIONS,
+  type EmbedOptions,
+  type TimestampItem,
+  type TimestampListFormat
+} from '../lib/youtube-share'
+
+interface SharePanelProps {
+  videoId: string
+  title: string
+  // The active clip
+  range: TimeRange
+  // Every clip, for the timestamp list
+  items: TimestampItem[]
+}
+
+const EMBED_OPTION_LABELS: { key: keyof EmbedOptions; label: string }[] = [
+  { key: 'autoplay', label: 'Autoplay' },
+  { key: 'mute', label: 'Mute' },
+  { key: 'loop', label: 'Loop' },
+  { key: 'controls', label: 'Controls' },
+  { key: 'nocookie', label: 'Privacy-enhanced (nocookie)' }
+]
+
+const copyText = async (text: string, what: string) => {
+  try {
+    await navigator.clipboard.writeText(text)
+    toast.success(`${what} copied`)
+  } catch {
+    toast.error(`Could not copy the ${what.toLowerCase()}`)
+  }
+}
+
+function CopyField({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-sm">{label}</Label>
+      <div className="flex gap-2">
+        <Input value={value} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+        <Button variant="outline" size="icon" onClick={() => copyText(value, label)} aria-label={`Copy ${label.toLowerCase()}`}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Links, an embed snippet and a timestamp list for the clips, with a live
+// preview of the embed; nothing is downloaded
+export function SharePanel({ videoId, title, range, items }: SharePanelProps) {
+  const [options, setOptions] = useState<EmbedOptions>(DEFAULT_EMBED_OPTIONS)
+  const [listFormat, setListFormat] = useState<TimestampListFormat>('markdown')
+
+  const embedUrl = buildEmbedUrl(videoId, range, options)
+  const snippet = buildEmbedSnippet(videoId, range, options, title)
+  const timestampList = buildTimestampList(videoId, items, listFormat)
+
+  return (
+    <div className="space-y-6">
+      <CopyField label="Link" value={buildShortLink(videoId, range.start)} />
+      <CopyField label="Embed URL" value={embedUrl} />
+
+      <div className="space-y-3">
+        <Label className="text-sm">Embed options</Label>
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          {EMBED_OPTION_LABELS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm">
+              <Switch checked={options[key]} onCheckedChange={(checked) => setOptions(current => ({ ...current, [key]: checked }))} />
+              {label}
+            </label>
+          ))}
+        </div>
+        {options.autoplay && !options.mute && (
+          <p className="text-xs text-gray-500">Most browsers block autoplay with sound; turn on Mute to make sure it starts.</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Embed code</Label>
+          <Button variant="ghost" size="sm" onClick={() => copyText(snippet, 'Embed code')}>
+            <Copy className="h-4 w-4 mr-1" />
+            Copy
+          </Button>
+        </div>
+        <Textarea value={snippet} readOnly rows={3} className="font-mono text-xs" />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-sm">Preview</Label>
+        <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+          <iframe
+            key={embedUrl}
+            src={embedUrl}
+            className="w-full h-full"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+            title={`${title} (embed preview)`}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Timestamps ({items.length} clip{items.length === 1 ? '' : 's'})</Label>
+          <div className="flex items-center gap-2">
+            <Tabs value={listFormat} onValueChange={(value) => setListFormat(value as TimestampListFormat)}>
+              <TabsList className="h-8">
+                <TabsTrigger value="markdown" className="text-xs">Markdown</TabsTrigger>
+                <TabsTrigger value="html" className="text-xs">HTML</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button variant="ghost" size="sm" onClick={() => copyText(timestampList, 'Timestamps')}>
+              <Copy className="h-4 w-4 mr-1" />
+              Copy
+            </Button>
+          </div>
+        </div>
+        <Textarea value={timestampList} readOnly rows={Math.min(items.length + 2, 8)} className="font-mono text-xs" />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+import { Slider } from './ui/slider'
+
+// Labelled slider with its value shown on the right
+export function SliderField({ label, value, min, max, step, format, onChange }: {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span className="tabular-nums">{format(value)}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={([next]) => onChange(next)} aria-label={label} />
+    </div>
+  )
+}
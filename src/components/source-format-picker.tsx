@@ -0,0 +1,54 @@
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { formatFileSize } from '../lib/download'
+import { AUTO_SOURCE, isMergedOption, type SourceOption } from '../lib/source-formats'
+
+interface SourceFormatPickerProps {
+  options: SourceOption[]
+  // The option the export will use, after resolving "auto"
+  selected: SourceOption | null
+  value: string
+  onChange: (value: string) => void
+}
+
+const optionText = (option: SourceOption) => {
+  const size = option.size !== null ? ` · ${formatFileSize(option.size)}` : ''
+  return `${option.label}${size}`
+}
+
+// Which of the source server's streams the export downloads and trims
+export function SourceFormatPicker({ options, selected, value, onChange }: SourceFormatPickerProps) {
+  if (options.length === 0) {
+    return <p className="text-sm text-red-600">None of the source's streams can be used for this format.</p>
+  }
+
+  // A choice the current format can't use has already fallen back to automatic
+  const current = options.some(option => option.id === value) ? value : AUTO_SOURCE
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">Source stream</Label>
+      <Select value={current} onValueChange={onChange}>
+        <SelectTrigger aria-label="Source stream">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO_SOURCE}>Automatic (best for this format)</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option.id} value={option.id}>
+              {optionText(option)}
+              {isMergedOption(option) && ' (merged)'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="text-sm text-gray-600">
+          {current === AUTO_SOURCE && 'Using '}
+          {optionText(selected)}
+          {isMergedOption(selected) && '. Video and audio are downloaded separately and merged.'}
+        </p>
+      )}
+    </div>
+  )
+}
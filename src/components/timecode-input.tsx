@@ -0,0 +1,67 @@
+import { useId, useState } from 'react'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { cn } from '../lib/utils'
+import { formatTimecode, parseTimecode, type TimecodeDisplayMode } from '../lib/timecode'
+
+interface TimecodeInputProps {
+  label: string
+  value: number
+  mode: TimecodeDisplayMode
+  fps: number
+  min?: number
+  max?: number
+  disabled?: boolean
+  onCommit: (seconds: number) => void
+}
+
+// Free-form time field: shows `value` in the display mode, accepts anything
+// parseTimecode understands and commits on Enter or blur. Escape reverts.
+export function TimecodeInput({ label, value, mode, fps, min = 0, max = Infinity, disabled, onCommit }: TimecodeInputProps) {
+  const id = useId()
+  const [draft, setDraft] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const format = (seconds: number) => formatTimecode(seconds, mode, { fps })
+
+  const commit = () => {
+    if (draft === null) return
+    try {
+      const seconds = parseTimecode(draft, { fps })
+      if (seconds < min || seconds > max) {
+        throw new Error(`Must be between ${format(min)} and ${Number.isFinite(max) ? format(max) : 'the end'}`)
+      }
+      setDraft(null)
+      setError(null)
+      onCommit(seconds)
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : 'Invalid time')
+    }
+  }
+
+  const revert = () => {
+    setDraft(null)
+    setError(null)
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-gray-600">{label}</Label>
+      <Input
+        id={id}
+        value={draft ?? format(value)}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit()
+          if (e.key === 'Escape') revert()
+        }}
+        aria-invalid={error !== null}
+        className={cn('h-9 font-mono text-sm tabular-nums', error && 'border-red-500 focus-visible:ring-red-500')}
+        placeholder="1:02:03.250, 1h2m3s, 90s, 120f"
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,386 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent, type RefObject } from 'react'
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from './ui/button'
+import { cn } from '../lib/utils'
+import { MIN_SEGMENT_LENGTH, type Segment } from '../lib/segments'
+import type { TimeRange } from '../lib/ffmpeg'
+import { FILMSTRIP_HEIGHT, nearestFrame, type TimelineFrame } from '../lib/thumbnails'
+import { peakBetween, type WaveformData } from '../lib/waveform'
+import type { PreviewStatus } from '../hooks/use-media-previews'
+import {
+  centerViewport,
+  chooseTickStep,
+  fullViewport,
+  panViewport,
+  snapTime,
+  tickTimes,
+  timeToX,
+  xToTime,
+  zoomViewport,
+  type TimelineViewport
+} from '../lib/timeline'
+
+type Edge = 'start' | 'end'
+
+interface TimelineEditorProps {
+  duration: number
+  segments: Segment[]
+  activeSegmentId: string | null
+  playheadTime: number
+  frames: TimelineFrame[]
+  waveform: WaveformData | null
+  waveformStatus: PreviewStatus
+  // Filmstrip canvas, owned by the caller
+  canvasRef: RefObject<HTMLCanvasElement | null>
+  formatTime: (seconds: number) => string
+  onSeek: (time: number) => void
+  onSelectSegment: (id: string) => void
+  onSegmentRangeChange: (id: string, range: TimeRange, edge: Edge) => void
+}
+
+const WAVEFORM_HEIGHT = 48
+// How close, in pixels, a dragged handle must get before it snaps
+const SNAP_DISTANCE = 8
+const ZOOM_STEP = 1.5
+
+// Size a canvas for crisp drawing on high-DPI screens
+const prepareCanvas = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  const ratio = window.devicePixelRatio || 1
+  canvas.width = Math.round(width * ratio)
+  canvas.height = Math.round(height * ratio)
+  const context = canvas.getContext('2d')
+  context?.setTransform(ratio, 0, 0, ratio, 0, 0)
+  context?.clearRect(0, 0, width, height)
+  return context
+}
+
+export function TimelineEditor({
+  duration,
+  segments,
+  activeSegmentId,
+  playheadTime,
+  frames,
+  waveform,
+  waveformStatus,
+  canvasRef,
+  formatTime,
+  onSeek,
+  onSelectSegment,
+  onSegmentRangeChange
+}: TimelineEditorProps) {
+  const [viewport, setViewport] = useState<TimelineViewport>(() => fullViewport(duration))
+  const [width, setWidth] = useState(0)
+
+  const lanesRef = useRef<HTMLDivElement>(null)
+  const waveformRef = useRef<HTMLCanvasElement>(null)
+  const minimapRef = useRef<HTMLDivElement>(null)
+  // The playhead follows a dragged handle, so snap to where it was at drag start
+  const dragRef = useRef<{ id: string; edge: Edge; playhead: number } | null>(null)
+  const isScrubbingRef = useRef(false)
+  const pointersRef = useRef(new Map<number, number>())
+  const pinchDistanceRef = useRef<number | null>(null)
+
+  // A new source starts fully zoomed out
+  useEffect(() => {
+    setViewport(fullViewport(duration))
+  }, [duration])
+
+  useEffect(() => {
+    const lanes = lanesRef.current
+    if (!lanes) return
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(lanes)
+    return () => observer.disconnect()
+  }, [])
+
+  // Keep the playhead in view while it moves
+  useEffect(() => {
+    if (dragRef.current) return
+    setViewport(current => (
+      playheadTime < current.start || playheadTime > current.end ? centerViewport(current, playheadTime, duration) : current
+    ))
+  }, [playheadTime, duration])
+
+  // Ctrl/Cmd + wheel (and trackpad pinch) zooms, horizontal wheel scrolls.
+  // Registered natively because React wheel listeners are passive.
+  useEffect(() => {
+    const lanes = lanesRef.current
+    if (!lanes) return
+
+    const handleWheel = (event: WheelEvent) => {
+      const rect = lanes.getBoundingClientRect()
+      if (event.ctrlKey || event.metaKey) {
+        event.preventDefault()
+        const x = event.clientX - rect.left
+        setViewport(current => zoomViewport(current, Math.exp(event.deltaY * 0.01), xToTime(x, current, rect.width), duration))
+        return
+      }
+
+      const delta = event.deltaX || (event.shiftKey ? event.deltaY : 0)
+      if (delta === 0) return
+      event.preventDefault()
+      setViewport(current => panViewport(current, (delta / rect.width) * (current.end - current.start), duration))
+    }
+
+    lanes.addEventListener('wheel', handleWheel, { passive: false })
+    return () => lanes.removeEventListener('wheel', handleWheel)
+  }, [duration])
+
+  // Filmstrip: tile the lane with the nearest captured frame for each slot
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || width === 0) return
+    const context = prepareCanvas(canvas, width, FILMSTRIP_HEIGHT)
+    if (!context || frames.length === 0) return
+
+    const tileWidth = (frames[0].width / frames[0].height) * FILMSTRIP_HEIGHT
+    for (let x = 0; x < width; x += tileWidth) {
+      const frame = nearestFrame(frames, xToTime(x + tileWidth / 2, viewport, width))
+      if (frame) context.drawImage(frame.image, x, 0, tileWidth, FILMSTRIP_HEIGHT)
+    }
+  }, [canvasRef, frames, viewport, width])
+
+  // Waveform: one mirrored bar per pixel column
+  useEffect(() => {
+    const canvas = waveformRef.current
+    if (!canvas || width === 0) return
+    const context = prepareCanvas(canvas, width, WAVEFORM_HEIGHT)
+    if (!context || !waveform) return
+
+    const middle = WAVEFORM_HEIGHT / 2
+    context.fillStyle = '#6366f1'
+    for (let x = 0; x < width; x += 1) {
+      const peak = peakBetween(waveform, xToTime(x, viewport, width), xToTime(x + 1, viewport, width))
+      const barHeight = Math.max(peak * middle, 0.5)
+      context.fillRect(x, middle - barHeight, 1, barHeight * 2)
+    }
+  }, [waveform, viewport, width])
+
+  const timeFromClientX = (clientX: number) => {
+    const rect = lanesRef.current?.getBoundingClientRect()
+    if (!rect) return 0
+    return Math.min(Math.max(xToTime(clientX - rect.left, viewport, rect.width), 0), duration)
+  }
+
+  const snapTargets = (excludeId: string, playhead: number) => [
+    playhead,
+    ...segments.filter(segment => segment.id !== excludeId).flatMap(segment => [segment.start, segment.end])
+  ]
+
+  const handleEdgePointerDown = (event: ReactPointerEvent, segment: Segment, edge: Edge) => {
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { id: segment.id, edge, playhead: playheadTime }
+    onSelectSegment(segment.id)
+  }
+
+  const handleEdgePointerMove = (event: ReactPointerEvent, segment: Segment) => {
+    const drag = dragRef.current
+    if (!drag || drag.id !== segment.id) return
+
+    let time = timeFromClientX(event.clientX)
+    // Hold Alt to place a handle freely
+    if (!event.altKey) {
+      const threshold = (SNAP_DISTANCE / Math.max(width, 1)) * (viewport.end - viewport.start)
+      time = snapTime(time, { targets: snapTargets(segment.id, drag.playhead), threshold, snapToSeconds: true })
+    }
+
+    const range = drag.edge === 'start'
+      ? { start: Math.min(Math.max(time, 0), segment.end - MIN_SEGMENT_LENGTH), end: segment.end }
+      : { start: segment.start, end: Math.max(Math.min(time, duration), segment.start + MIN_SEGMENT_LENGTH) }
+    onSegmentRangeChange(segment.id, range, drag.edge)
+  }
+
+  const handleEdgePointerUp = (event: ReactPointerEvent) => {
+    event.currentTarget.releasePointerCapture(event.pointerId)
+    dragRef.current = null
+  }
+
+  // Click or drag on the lanes scrubs; two touch points pinch-zoom
+  const handleLanesPointerDown = (event: ReactPointerEvent) => {
+    pointersRef.current.set(event.pointerId, event.clientX)
+    if (pointersRef.current.size === 2) {
+      isScrubbingRef.current = false
+      return
+    }
+    event.currentTarget.setPointerCapture(event.pointerId)
+    isScrubbingRef.current = true
+    onSeek(timeFromClientX(event.clientX))
+  }
+
+  const handleLanesPointerMove = (event: ReactPointerEvent) => {
+    if (!pointersRef.current.has(event.pointerId)) return
+    pointersRef.current.set(event.pointerId, event.clientX)
+
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()]
+      const distance = Math.abs(a - b)
+      const previous = pinchDistanceRef.current
+      pinchDistanceRef.current = distance
+      if (previous && distance > 0) {
+        const anchor = timeFromClientX((a + b) / 2)
+        setViewport(current => zoomViewport(current, previous / distance, anchor, duration))
+      }
+      return
+    }
+
+    if (isScrubbingRef.current) onSeek(timeFromClientX(event.clientX))
+  }
+
+  const handleLanesPointerUp = (event: ReactPointerEvent) => {
+    pointersRef.current.delete(event.pointerId)
+    pinchDistanceRef.current = null
+    isScrubbingRef.current = false
+  }
+
+  // Minimap: click or drag to move the visible window
+  const moveViewportTo = (clientX: number) => {
+    const rect = minimapRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const time = ((clientX - rect.left) / rect.width) * duration
+    setViewport(current => centerViewport(current, time, duration))
+  }
+
+  const zoomBy = (factor: number) => {
+    setViewport(current => zoomViewport(current, factor, Math.min(Math.max(playheadTime, current.start), current.end), duration))
+  }
+
+  const visibleDuration = viewport.end - viewport.start
+  const ticks = tickTimes(viewport, chooseTickStep(visibleDuration, width))
+  const playheadX = timeToX(playheadTime, viewport, width)
+  const percentOfDuration = (time: number) => `${(time / duration) * 100}%`
+
+  return (
+    <div className="space-y-2">
+      {/* Zoom Controls */}
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          Ctrl + scroll or pinch to zoom, Shift + scroll to pan. Hold Alt while dragging to disable snapping.
+        </span>
+        <div className="flex items-center gap-1">
+          <span className="text-xs tabular-nums text-gray-500 mr-1">{(duration / visibleDuration).toFixed(1)}×</span>
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => zoomBy(1 / ZOOM_STEP)} aria-label="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => zoomBy(ZOOM_STEP)} aria-label="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setViewport(fullViewport(duration))} aria-label="Fit to view">
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Lanes */}
+      <div
+        ref={lanesRef}
+        className="relative select-none touch-none overflow-hidden rounded-lg border border-gray-200 bg-gray-50 cursor-text"
+        onPointerDown={handleLanesPointerDown}
+        onPointerMove={handleLanesPointerMove}
+        onPointerUp={handleLanesPointerUp}
+        onPointerCancel={handleLanesPointerUp}
+      >
+        {/* Ruler */}
+        <div className="relative h-6 border-b border-gray-200 bg-white">
+          {ticks.map(time => (
+            <div key={time} className="absolute top-0 bottom-0 border-l border-gray-300" style={{ left: timeToX(time, viewport, width) }}>
+              <span className="ml-1 text-[10px] tabular-nums text-gray-500 whitespace-nowrap">{formatTime(time)}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Filmstrip */}
+        <canvas ref={canvasRef} className="block w-full bg-gray-900" style={{ height: FILMSTRIP_HEIGHT }} />
+
+        {/* Waveform */}
+        <div className="relative border-b border-gray-200" style={{ height: WAVEFORM_HEIGHT }}>
+          <canvas ref={waveformRef} className="block w-full" style={{ height: WAVEFORM_HEIGHT }} />
+          {waveformStatus !== 'ready' && (
+            <span className="absolute inset-0 flex items-center justify-center text-xs text-gray-400">
+              {waveformStatus === 'loading' ? 'Decoding audio...' : 'Waveform unavailable for this source'}
+            </span>
+          )}
+        </div>
+
+        {/* Segment Track */}
+        <div className="relative h-10">
+          {segments.map((segment) => {
+            const left = timeToX(segment.start, viewport, width)
+            const right = timeToX(segment.end, viewport, width)
+            if (right < 0 || left > width) return null
+            const isActive = segment.id === activeSegmentId
+
+            return (
+              <div
+                key={segment.id}
+                title={`${segment.label}: ${formatTime(segment.start)} - ${formatTime(segment.end)}`}
+                onPointerDown={(e) => {
+                  e.stopPropagation()
+                  onSelectSegment(segment.id)
+                }}
+                className={cn(
+                  'absolute top-1 bottom-1 rounded-sm cursor-pointer',
+                  isActive ? 'opacity-100 ring-2 ring-gray-700 z-10' : 'opacity-60 hover:opacity-90'
+                )}
+                style={{ left, width: Math.max(right - left, 2), backgroundColor: segment.color }}
+              >
+                <span className="pointer-events-none block truncate px-2 text-[11px] leading-8 text-white">{segment.label}</span>
+                {(['start', 'end'] as const).map(edge => (
+                  <div
+                    key={edge}
+                    role="slider"
+                    aria-label={`${segment.label} ${edge}`}
+                    aria-valuemin={0}
+                    aria-valuemax={duration}
+                    aria-valuenow={segment[edge]}
+                    className={cn(
+                      'absolute top-0 bottom-0 w-2 cursor-ew-resize bg-white/70 hover:bg-white',
+                      edge === 'start' ? 'left-0 rounded-l-sm' : 'right-0 rounded-r-sm'
+                    )}
+                    onPointerDown={(e) => handleEdgePointerDown(e, segment, edge)}
+                    onPointerMove={(e) => handleEdgePointerMove(e, segment)}
+                    onPointerUp={handleEdgePointerUp}
+                    onPointerCancel={handleEdgePointerUp}
+                  />
+                ))}
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Playhead */}
+        {playheadX >= 0 && playheadX <= width && (
+          <div className="pointer-events-none absolute top-0 bottom-0 z-20 w-0.5 bg-red-500" style={{ left: playheadX }} />
+        )}
+      </div>
+
+      {/* Minimap */}
+      <div
+        ref={minimapRef}
+        className="relative h-6 select-none touch-none rounded bg-gray-100 cursor-pointer"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          moveViewportTo(e.clientX)
+        }}
+        onPointerMove={(e) => e.buttons === 1 && moveViewportTo(e.clientX)}
+      >
+        {segments.map(segment => (
+          <div
+            key={segment.id}
+            className="absolute top-1 bottom-1 rounded-sm opacity-70"
+            style={{
+              left: percentOfDuration(segment.start),
+              width: percentOfDuration(segment.end - segment.start),
+              backgroundColor: segment.color
+            }}
+          />
+        ))}
+        <div
+          className="absolute top-0 bottom-0 rounded border-2 border-primary bg-primary/10"
+          style={{ left: percentOfDuration(viewport.start), width: percentOfDuration(visibleDuration) }}
+        />
+        <div className="absolute top-0 bottom-0 w-px bg-red-500" style={{ left: percentOfDuration(playheadTime) }} />
+      </div>
+    </div>
+  )
+}
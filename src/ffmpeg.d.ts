@@ -0,0 +1,40 @@
+// ffmpeg.js ships without type definitions; these mirror src/lib/ffmpeg.ts.
+// The package's main module is its WebM build, and every build takes the same
+// options, so the types live there and the two builds re-export them.
+declare module 'ffmpeg.js' {
+  export interface MemfsFile {
+    name: string
+    data: Uint8Array
+  }
+
+  export interface FfmpegRunOptions {
+    arguments: string[]
+    MEMFS?: MemfsFile[]
+    print?: (line: string) => void
+    printErr?: (line: string) => void
+    onExit?: (code: number) => void
+  }
+
+  export interface FfmpegResult {
+    MEMFS: MemfsFile[]
+  }
+
+  const ffmpeg: (options: FfmpegRunOptions) => FfmpegResult
+  export default ffmpeg
+}
+
+declare module 'ffmpeg.js/ffmpeg-mp4.js' {
+  import type { FfmpegResult, FfmpegRunOptions } from 'ffmpeg.js'
+  export type { FfmpegResult, FfmpegRunOptions, MemfsFile } from 'ffmpeg.js'
+
+  const ffmpeg: (options: FfmpegRunOptions) => FfmpegResult
+  export default ffmpeg
+}
+
+declare module 'ffmpeg.js/ffmpeg-webm.js' {
+  import type { FfmpegResult, FfmpegRunOptions } from 'ffmpeg.js'
+  export type { FfmpegResult, FfmpegRunOptions, MemfsFile } from 'ffmpeg.js'
+
+  const ffmpeg: (options: FfmpegRunOptions) => FfmpegResult
+  export default ffmpeg
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import { exportInWorker } from '../lib/export-client'
+import { tagMedia } from '../lib/media-tags'
+import { createExportQueue, type ExportJob, type ExportRunner } from '../lib/export-queue'
+
+const fetchSource = async (source: Blob | string, signal: AbortSignal): Promise<Blob> => {
+  if (typeof source !== 'string') return source
+  const response = await fetch(source, { signal })
+  if (!response.ok) throw new Error('Failed to fetch source media')
+  return response.blob()
+}
+
+// Resolve the job's sources to bytes, encode them in a worker, then tag the result
+const runExportJob: ExportRunner = async (request, { signal, onProgress }) => {
+  const [video, audio] = await Promise.all([
+    fetchSource(request.source, signal),
+    request.audioSource !== undefined ? fetchSource(request.audioSource, signal) : null
+  ])
+  const source = audio ? { video, audio } : video
+  const { overlays, reframe, audioEffects } = request
+  const result = await exportInWorker(source, request.ranges, request.format, request.settings, { signal, onProgress, overlays, reframe, audioEffects })
+  return request.tags ? tagMedia(result, request.format, request.tags, request.cover) : result
+}
+
+// One queue for the lifetime of the component, independent of the loaded video
+export function useExportQueue(onSettled?: (job: ExportJob) => void) {
+  // Read through a ref so a new callback identity doesn't rebuild the queue
+  const onSettledRef = useRef(onSettled)
+  useEffect(() => {
+    onSettledRef.current = onSettled
+  }, [onSettled])
+
+  const [queue] = useState(() => createExportQueue({
+    run: runExportJob,
+    onSettled: job => onSettledRef.current?.(job)
+  }))
+
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getJobs)
+  const concurrency = useSyncExternalStore(queue.subscribe, queue.getConcurrency)
+
+  return { queue, jobs, concurrency }
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react'
+import { captureVideoFrames, loadYouTubeFrames, type TimelineFrame } from '../lib/thumbnails'
+import { decodeWaveform, type WaveformData } from '../lib/waveform'
+import type { VideoInfo } from '../lib/video-info'
+
+export type PreviewStatus = 'idle' | 'loading' | 'ready' | 'unavailable'
+
+// One filmstrip frame per ~10s of media, within sane bounds
+const frameCountFor = (duration: number) => Math.min(Math.max(Math.ceil(duration / 10), 12), 60)
+
+// Filmstrip frames and waveform peaks for the timeline. Both come from the
+// source bytes when we have them; YouTube embeds only get published stills.
+export function useMediaPreviews(videoInfo: VideoInfo | null, duration: number | null) {
+  const [frames, setFrames] = useState<TimelineFrame[]>([])
+  const [waveform, setWaveform] = useState<WaveformData | null>(null)
+  const [waveformStatus, setWaveformStatus] = useState<PreviewStatus>('idle')
+
+  const mediaUrl = videoInfo?.mediaUrl
+  const videoId = videoInfo?.videoId
+
+  useEffect(() => {
+    setFrames([])
+    setWaveform(null)
+    if (duration === null) {
+      setWaveformStatus('idle')
+      return
+    }
+
+    const controller = new AbortController()
+    const isCurrent = () => !controller.signal.aborted
+
+    if (mediaUrl) {
+      captureVideoFrames(mediaUrl, duration, frameCountFor(duration), controller.signal)
+        .then(captured => isCurrent() && setFrames(captured))
+        .catch(error => isCurrent() && console.warn('Filmstrip unavailable:', error))
+
+      setWaveformStatus('loading')
+      fetch(mediaUrl, { signal: controller.signal })
+        .then(response => response.blob())
+        .then(decodeWaveform)
+        .then((data) => {
+          if (!isCurrent()) return
+          setWaveform(data)
+          setWaveformStatus('ready')
+        })
+        .catch((error) => {
+          if (!isCurrent()) return
+          console.warn('Waveform unavailable:', error)
+          setWaveformStatus('unavailable')
+        })
+    } else {
+      setWaveformStatus('unavailable')
+      if (videoId) {
+        loadYouTubeFrames(videoId, duration).then(loaded => isCurrent() && setFrames(loaded))
+      }
+    }
+
+    return () => controller.abort()
+  }, [mediaUrl, videoId, duration])
+
+  return { frames, waveform, waveformStatus }
+}
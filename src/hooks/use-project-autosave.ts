@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import type { Project } from '../lib/project'
+import type { ProjectStore } from '../lib/project-store'
+
+// Quiet period after the last edit before the project is written
+const AUTOSAVE_DELAY = 800
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'failed'
+
+// Save the project whenever it changes, debounced. Pass a memoized project
+// (or null for nothing to save) so unrelated renders don't trigger writes.
+export function useProjectAutosave(store: ProjectStore, project: Project | null) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!project) return
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      setStatus('saving')
+      store.put({ ...project, updatedAt: Date.now() }).then(
+        () => {
+          if (cancelled) return
+          setStatus('saved')
+          setError(null)
+        },
+        (saveError: unknown) => {
+          console.error('Autosave failed:', saveError)
+          if (cancelled) return
+          setStatus('failed')
+          setError(saveError instanceof Error ? saveError.message : 'Autosave failed')
+        }
+      )
+    }, AUTOSAVE_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [store, project])
+
+  return { status, error }
+}
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createPlayerDurationProvider } from '../lib/duration'
+import { createFakePlayer, type FakePlayer } from '../lib/fake-youtube-player'
+import { PlayerState } from '../lib/youtube-player'
+import type { VideoInfo } from '../lib/video-info'
+import { useYouTubePlayer } from './use-youtube-player'
+
+const iframe = () => document.createElement('iframe')
+
+// Mount the hook on a fake player and hand both back
+const renderPlayer = (options: { duration?: number; ready?: boolean } = {}, onStateChange?: (state: number) => void) => {
+  let fake!: FakePlayer
+  const createPlayer = () => {
+    fake = createFakePlayer(options)
+    return fake
+  }
+  const hook = renderHook(({ element }) => useYouTubePlayer(element, { createPlayer, onStateChange }), {
+    initialProps: { element: iframe() as HTMLIFrameElement | null }
+  })
+  return { hook, fake: () => fake }
+}
+
+describe('useYouTubePlayer', () => {
+  it('mirrors the player once the handshake finishes', () => {
+    const { hook, fake } = renderPlayer({ duration: 30, ready: false })
+    expect(hook.result.current).toMatchObject({ isReady: false, duration: null, currentTime: 0, isPlaying: false })
+
+    act(() => fake().emitReady())
+    expect(hook.result.current).toMatchObject({ isReady: true, duration: 30 })
+  })
+
+  it('forwards controls and follows the playhead', () => {
+    const onStateChange = vi.fn()
+    const { hook, fake } = renderPlayer({ duration: 30 }, onStateChange)
+
+    act(() => hook.result.current.seekTo(5))
+    act(() => hook.result.current.play())
+    expect(hook.result.current).toMatchObject({ currentTime: 5, isPlaying: true, state: PlayerState.PLAYING })
+
+    act(() => fake().advance(2.5))
+    expect(hook.result.current.currentTime).toBe(7.5)
+    expect(hook.result.current.getCurrentTime()).toBe(7.5)
+
+    act(() => hook.result.current.pause())
+    // Paused players don't move
+    act(() => fake().advance(10))
+    expect(hook.result.current).toMatchObject({ currentTime: 7.5, isPlaying: false })
+
+    expect(fake().calls).toEqual(['seekTo:5', 'play', 'pause'])
+    expect(onStateChange.mock.calls).toEqual([[PlayerState.PLAYING], [PlayerState.PAUSED]])
+  })
+
+  it('counts buffering as playing and stops at the end', () => {
+    const { hook, fake } = renderPlayer({ duration: 4 })
+    act(() => fake().setState(PlayerState.BUFFERING))
+    expect(hook.result.current.isPlaying).toBe(true)
+
+    act(() => hook.result.current.play())
+    act(() => fake().advance(10))
+    expect(hook.result.current).toMatchObject({ currentTime: 4, state: PlayerState.ENDED, isPlaying: false })
+  })
+
+  it('destroys the player when the embed goes away', () => {
+    const { hook, fake } = renderPlayer()
+    const player = fake()
+    hook.rerender({ element: null })
+    expect(player.calls).toEqual(['destroy'])
+    expect(hook.result.current).toMatchObject({ player: null, isReady: false })
+
+    // Without a player the controls do nothing
+    hook.result.current.play()
+    expect(player.calls).toEqual(['destroy'])
+  })
+
+  it('rebuilds the player for a new embed', () => {
+    const { hook, fake } = renderPlayer({ duration: 10 })
+    const first = fake()
+    act(() => hook.result.current.seekTo(3))
+    hook.rerender({ element: iframe() })
+    expect(first.calls).toEqual(['seekTo:3', 'destroy'])
+    expect(fake()).not.toBe(first)
+    expect(hook.result.current.player).toBe(fake())
+  })
+})
+
+describe('createPlayerDurationProvider', () => {
+  const youtube: VideoInfo = { source: 'youtube', title: 'Video', duration: null, thumbnail: '', url: '', videoId: 'dQw4w9WgXcQ' }
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('answers at once when the player knows the duration', async () => {
+    await expect(createPlayerDurationProvider(createFakePlayer({ duration: 12 })).getDuration(youtube)).resolves.toBe(12)
+  })
+
+  it('waits for the player to report a duration', async () => {
+    const player = createFakePlayer({ duration: 12, ready: false })
+    const pending = createPlayerDurationProvider(player).getDuration(youtube)
+    player.emitReady()
+    await expect(pending).resolves.toBe(12)
+  })
+
+  it('gives up after the timeout', async () => {
+    vi.useFakeTimers()
+    const pending = createPlayerDurationProvider(createFakePlayer({ ready: false }), 1000).getDuration(youtube)
+    vi.advanceTimersByTime(1000)
+    await expect(pending).resolves.toBeNull()
+  })
+
+  it('ignores sources that are not YouTube', async () => {
+    await expect(createPlayerDurationProvider(createFakePlayer({ duration: 12 })).getDuration({ ...youtube, source: 'url' })).resolves.toBeNull()
+  })
+})
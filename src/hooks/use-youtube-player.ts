@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react'
+import { createIframePlayerBridge, PlayerState, type PlayerBridge, type PlayerStateValue } from '../lib/youtube-player'
+
+interface UseYouTubePlayerOptions {
+  // Lets tests swap in createFakePlayer
+  createPlayer?: (iframe: HTMLIFrameElement) => PlayerBridge
+  onStateChange?: (state: PlayerStateValue) => void
+}
+
+// Bind a YouTube embed to React state. Pass null while no embed is mounted.
+export function useYouTubePlayer(iframe: HTMLIFrameElement | null, options: UseYouTubePlayerOptions = {}) {
+  const { createPlayer = createIframePlayerBridge, onStateChange } = options
+  const [player, setPlayer] = useState<PlayerBridge | null>(null)
+  const [isReady, setIsReady] = useState(false)
+  const [state, setState] = useState<PlayerStateValue>(PlayerState.UNSTARTED)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState<number | null>(null)
+
+  // Read through a ref so a new callback identity doesn't rebuild the bridge
+  const onStateChangeRef = useRef(onStateChange)
+  useEffect(() => {
+    onStateChangeRef.current = onStateChange
+  }, [onStateChange])
+
+  useEffect(() => {
+    if (!iframe) return
+
+    const bridge = createPlayer(iframe)
+    setPlayer(bridge)
+    setIsReady(bridge.isReady())
+    setState(bridge.getState())
+    setCurrentTime(bridge.getCurrentTime())
+    setDuration(bridge.getDuration())
+
+    const unsubscribers = [
+      bridge.onReady(() => setIsReady(true)),
+      bridge.onStateChange((next) => {
+        setState(next)
+        onStateChangeRef.current?.(next)
+      }),
+      bridge.onTimeUpdate(setCurrentTime),
+      bridge.onDurationChange(setDuration)
+    ]
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      bridge.destroy()
+      setPlayer(null)
+      setIsReady(false)
+    }
+  }, [iframe, createPlayer])
+
+  return {
+    player,
+    isReady,
+    state,
+    isPlaying: state === PlayerState.PLAYING || state === PlayerState.BUFFERING,
+    currentTime,
+    duration,
+    play: () => player?.play(),
+    pause: () => player?.pause(),
+    seekTo: (seconds: number) => player?.seekTo(seconds),
+    getCurrentTime: () => player?.getCurrentTime() ?? currentTime
+  }
+}
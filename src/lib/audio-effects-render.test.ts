@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import type { AudioEffect } from './audio-effects'
+import { fitFades } from './audio-effects-render'
+
+const fade = (kind: 'fade-in' | 'fade-out', duration: number, id: string = kind): AudioEffect => ({ kind, id, duration, curve: 'linear' })
+
+describe('fitFades', () => {
+  it('keeps fades that fit the clip', () => {
+    expect(fitFades([fade('fade-in', 1), fade('fade-out', 2), { kind: 'gain', id: 'gain', gain: 3 }], 10)).toEqual({ 'fade-in': 1, 'fade-out': 2 })
+  })
+
+  it('shortens a fade longer than the clip', () => {
+    expect(fitFades([fade('fade-out', 5)], 2)).toEqual({ 'fade-out': 2 })
+  })
+
+  it('shares a short clip between the fade-in and the fade-out, after clamping each to it', () => {
+    const fades = fitFades([fade('fade-in', 3), fade('fade-out', 1)], 2)
+    expect(fades['fade-in']).toBeCloseTo(4 / 3)
+    expect(fades['fade-out']).toBeCloseTo(2 / 3)
+  })
+
+  it('scales every fade by the longest of each kind', () => {
+    expect(fitFades([fade('fade-in', 2, 'a'), fade('fade-in', 1, 'b'), fade('fade-out', 2)], 2)).toEqual({ a: 1, b: 0.5, 'fade-out': 1 })
+  })
+
+  it.each([0, -1])('skips every fade on a clip of %s seconds', (duration) => {
+    expect(fitFades([fade('fade-in', 1), fade('fade-out', 1)], duration)).toEqual({ 'fade-in': 0, 'fade-out': 0 })
+  })
+})
@@ -0,0 +1,199 @@
+import { fadeCurve, type AudioEffect } from './audio-effects'
+import { normalizeLoudness } from './loudness'
+import { pcmDuration, type PcmAudio } from './pcm'
+
+// Web Audio graph for an effects chain. The same graph renders exports in an
+// OfflineAudioContext and plays the preview in a live one, so what is heard
+// is what gets encoded; only loudnorm's limiter differs, as the built-in
+// compressor can't look ahead. Main thread only.
+
+// Normalizing gain for each loudnorm step, by step id, from measuring the
+// audio that reaches it. The peaks it pushes too high are left to the limiter
+// that follows it in the graph.
+export type LoudnessGains = Record<string, number>
+
+// Curve resolution for fades; Web Audio interpolates between the points
+const FADE_POINTS = 256
+const LIMITER_RATIO = 20
+
+const dbToGain = (db: number) => 10 ** (db / 20)
+
+// Wire `effects` after `input`, for a clip that starts playing at context time
+// `start` and lasts `duration` seconds; returns the last node. `fades` comes
+// from the whole chain when only part of it is wired.
+export function connectEffects(
+  context: BaseAudioContext,
+  input: AudioNode,
+  effects: AudioEffect[],
+  timing: { start: number; duration: number },
+  loudness: LoudnessGains = {},
+  fades: Record<string, number> = fitFades(effects, timing.duration)
+): AudioNode {
+  return effects.reduce((previous: AudioNode, effect) => {
+    const nodes = effectNodes(context, effect, timing, loudness, fades)
+    previous.connect(nodes[0])
+    nodes.slice(1).forEach((node, index) => nodes[index].connect(node))
+    return nodes[nodes.length - 1]
+  }, input)
+}
+
+// Length of each fade, by step id, shortened so that no fade outlasts the
+// clip and the fade-in and fade-out share it instead of overlapping. Zero
+// means the fade is skipped.
+export function fitFades(effects: AudioEffect[], duration: number): Record<string, number> {
+  const length = Math.max(duration, 0)
+  const fades = effects.filter(effect => effect.kind === 'fade-in' || effect.kind === 'fade-out')
+  const longest = (kind: 'fade-in' | 'fade-out') => Math.max(0, ...fades.map(fade => (fade.kind === kind ? Math.min(fade.duration, length) : 0)))
+  const total = longest('fade-in') + longest('fade-out')
+  const scale = total > length ? length / total : 1
+  return Object.fromEntries(fades.map(fade => [fade.id, Math.min(fade.duration, length) * scale]))
+}
+
+const gainNode = (context: BaseAudioContext, db: number) => new GainNode(context, { gain: dbToGain(db) })
+
+// The hardest the built-in compressor gets: instant attack, no knee. It adds
+// make-up gain of 0.6 times the reduction a full-scale input gets, which
+// would lift the output back over the ceiling; take it off again.
+const limiterNodes = (context: BaseAudioContext, ceiling: number): AudioNode[] => {
+  const reduction = ceiling * (1 - 1 / LIMITER_RATIO)
+  return [
+    new DynamicsCompressorNode(context, { threshold: ceiling, ratio: LIMITER_RATIO, attack: 0, release: 0.1, knee: 0 }),
+    gainNode(context, 0.6 * reduction)
+  ]
+}
+
+const effectNodes = (
+  context: BaseAudioContext,
+  effect: AudioEffect,
+  timing: { start: number; duration: number },
+  loudness: LoudnessGains,
+  fades: Record<string, number>
+): AudioNode[] => {
+  switch (effect.kind) {
+    case 'fade-in':
+    case 'fade-out': {
+      const node = new GainNode(context)
+      const length = fades[effect.id] ?? 0
+      // setValueCurveAtTime throws on a zero-length curve
+      if (length <= 0) return [node]
+      const at = effect.kind === 'fade-in' ? timing.start : timing.start + timing.duration - length
+      node.gain.setValueCurveAtTime(fadeCurve(effect.curve, FADE_POINTS, effect.kind === 'fade-in' ? 'in' : 'out'), at, length)
+      return [node]
+    }
+    case 'gain':
+      return [gainNode(context, effect.gain)]
+    case 'eq':
+      return [
+        new BiquadFilterNode(context, { type: 'lowshelf', frequency: 250, gain: effect.low }),
+        new BiquadFilterNode(context, { type: 'peaking', frequency: 1000, Q: 1, gain: effect.mid }),
+        new BiquadFilterNode(context, { type: 'highshelf', frequency: 4000, gain: effect.high })
+      ]
+    case 'highpass':
+      return [new BiquadFilterNode(context, { type: 'highpass', frequency: effect.frequency, Q: Math.SQRT1_2 })]
+    case 'compressor':
+      return [
+        new DynamicsCompressorNode(context, { threshold: effect.threshold, ratio: effect.ratio, attack: effect.attack, release: effect.release, knee: 6 }),
+        gainNode(context, effect.makeup)
+      ]
+    case 'limiter':
+      return limiterNodes(context, effect.ceiling)
+    case 'loudnorm':
+      // Only the preview gets here; exports normalize in between graph renders
+      return [gainNode(context, loudness[effect.id] ?? 0), ...limiterNodes(context, effect.peak)]
+    case 'mono':
+      // Forcing one channel makes Web Audio mix the input down to it
+      return [new GainNode(context, { channelCount: 1, channelCountMode: 'explicit', channelInterpretation: 'speakers' })]
+  }
+}
+
+const toAudioBuffer = (audio: PcmAudio): AudioBuffer => {
+  const buffer = new AudioBuffer({ numberOfChannels: audio.channels.length, length: Math.max(audio.channels[0]?.length ?? 0, 1), sampleRate: audio.sampleRate })
+  audio.channels.forEach((channel, index) => buffer.copyToChannel(channel, index))
+  return buffer
+}
+
+const renderOffline = async (audio: PcmAudio, effects: AudioEffect[], fades: Record<string, number>): Promise<PcmAudio> => {
+  if (effects.length === 0) return audio
+  const channelCount = effects.some(effect => effect.kind === 'mono') ? 1 : audio.channels.length
+  const length = Math.max(audio.channels[0]?.length ?? 0, 1)
+  const context = new OfflineAudioContext(channelCount, length, audio.sampleRate)
+  const source = new AudioBufferSourceNode(context, { buffer: toAudioBuffer(audio) })
+  connectEffects(context, source, effects, { start: 0, duration: pcmDuration(audio) }, {}, fades).connect(context.destination)
+  source.start()
+  const rendered = await context.startRendering()
+  return { sampleRate: rendered.sampleRate, channels: Array.from({ length: rendered.numberOfChannels }, (_, index) => rendered.getChannelData(index)) }
+}
+
+// Two-pass normalization: render the chain up to each loudnorm step, measure
+// it and bring it to the target with a peak limiter (see normalizeLoudness),
+// then render the rest of the chain from there
+const renderChain = async (audio: PcmAudio, effects: AudioEffect[]): Promise<{ audio: PcmAudio; gains: LoudnessGains }> => {
+  const fades = fitFades(effects, pcmDuration(audio))
+  const gains: LoudnessGains = {}
+  let rendered = audio
+  let from = 0
+  for (const [index, effect] of effects.entries()) {
+    if (effect.kind !== 'loudnorm') continue
+    const normalized = normalizeLoudness(await renderOffline(rendered, effects.slice(from, index), fades), effect.target, effect.peak)
+    gains[effect.id] = normalized.gain
+    rendered = normalized.audio
+    from = index + 1
+  }
+  return { audio: await renderOffline(rendered, effects.slice(from), fades), gains }
+}
+
+// Gains for playing the chain live, where the loudnorm steps are plain gain
+// and limiter nodes
+export async function measureLoudnessGains(audio: PcmAudio, effects: AudioEffect[]): Promise<LoudnessGains> {
+  return (await renderChain(audio, effects)).gains
+}
+
+// Apply the chain to a clip for export
+export async function renderAudioEffects(audio: PcmAudio, effects: AudioEffect[]): Promise<PcmAudio> {
+  if (effects.length === 0) return audio
+  return (await renderChain(audio, effects)).audio
+}
+
+export interface EffectsPreview {
+  // Switch between the processed and the untouched clip while it plays
+  setBypass: (bypass: boolean) => void
+  stop: () => void
+}
+
+// Play a clip through the chain, fades and all, from its start
+export function playEffectsPreview(
+  audio: PcmAudio,
+  effects: AudioEffect[],
+  options: { loudness?: LoudnessGains; bypass?: boolean; onEnded?: () => void } = {}
+): EffectsPreview {
+  const context = new AudioContext({ sampleRate: audio.sampleRate })
+  const source = new AudioBufferSourceNode(context, { buffer: toAudioBuffer(audio) })
+  const wet = new GainNode(context, { gain: options.bypass ? 0 : 1 })
+  const dry = new GainNode(context, { gain: options.bypass ? 1 : 0 })
+  // A moment of lead time keeps the fade-in from being scheduled in the past
+  const start = context.currentTime + 0.05
+  connectEffects(context, source, effects, { start, duration: pcmDuration(audio) }, options.loudness).connect(wet).connect(context.destination)
+  source.connect(dry).connect(context.destination)
+
+  let stopped = false
+  const stop = () => {
+    if (stopped) return
+    stopped = true
+    source.onended = null
+    source.stop()
+    void context.close()
+  }
+  source.onended = () => {
+    stop()
+    options.onEnded?.()
+  }
+  source.start(start)
+
+  return {
+    setBypass: (bypass) => {
+      wet.gain.setTargetAtTime(bypass ? 0 : 1, context.currentTime, 0.01)
+      dry.gain.setTargetAtTime(bypass ? 1 : 0, context.currentTime, 0.01)
+    },
+    stop
+  }
+}
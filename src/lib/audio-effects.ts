@@ -0,0 +1,170 @@
+import { z } from 'zod'
+
+// Audio effects chain for audio-only exports. Every step is plain data, so a
+// chain can be saved as a preset and validated when read back; the Web Audio
+// graph that plays and renders it lives in audio-effects-render. Gains and
+// levels are in dB, times in seconds.
+
+const id = z.string().min(1)
+const decibels = (min: number, max: number) => z.number().min(min).max(max)
+
+export const FADE_CURVES = ['linear', 'exponential', 'logarithmic', 's-curve'] as const
+
+const fadeSchema = { id, duration: z.number().min(0.05).max(30), curve: z.enum(FADE_CURVES) }
+
+export const audioEffectSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('fade-in'), ...fadeSchema }),
+  z.object({ kind: z.literal('fade-out'), ...fadeSchema }),
+  z.object({ kind: z.literal('gain'), id, gain: decibels(-30, 30) }),
+  // Low shelf at 250 Hz, peak at 1 kHz, high shelf at 4 kHz
+  z.object({ kind: z.literal('eq'), id, low: decibels(-15, 15), mid: decibels(-15, 15), high: decibels(-15, 15) }),
+  z.object({ kind: z.literal('highpass'), id, frequency: z.number().min(20).max(1000) }),
+  z.object({
+    kind: z.literal('compressor'),
+    id,
+    threshold: decibels(-60, 0),
+    ratio: z.number().min(1).max(20),
+    attack: z.number().min(0).max(1),
+    release: z.number().min(0).max(1),
+    makeup: decibels(0, 24)
+  }),
+  z.object({ kind: z.literal('limiter'), id, ceiling: decibels(-12, 0) }),
+  // Integrated loudness target and the peak level the normalizing gain may not push past
+  z.object({ kind: z.literal('loudnorm'), id, target: z.number().min(-36).max(-5), peak: decibels(-9, 0) }),
+  z.object({ kind: z.literal('mono'), id })
+])
+
+export type AudioEffect = z.infer<typeof audioEffectSchema>
+export type AudioEffectKind = AudioEffect['kind']
+export type FadeCurve = (typeof FADE_CURVES)[number]
+
+export const audioPresetSchema = z.object({
+  name: z.string().min(1),
+  effects: z.array(audioEffectSchema)
+})
+
+export type AudioPreset = z.infer<typeof audioPresetSchema>
+
+export const AUDIO_EFFECT_LABELS: Record<AudioEffectKind, string> = {
+  'fade-in': 'Fade in',
+  'fade-out': 'Fade out',
+  gain: 'Volume',
+  eq: '3-band EQ',
+  highpass: 'High-pass filter',
+  compressor: 'Compressor',
+  limiter: 'Limiter',
+  loudnorm: 'Loudness normalization',
+  mono: 'Mono downmix'
+}
+
+export const FADE_CURVE_LABELS: Record<FadeCurve, string> = {
+  linear: 'Linear',
+  exponential: 'Exponential',
+  logarithmic: 'Logarithmic',
+  's-curve': 'S-curve'
+}
+
+let effectCounter = 0
+
+const nextId = () => {
+  effectCounter += 1
+  return `fx-${Date.now().toString(36)}-${effectCounter}`
+}
+
+export function createAudioEffect(kind: AudioEffectKind): AudioEffect {
+  const id = nextId()
+  switch (kind) {
+    case 'fade-in':
+    case 'fade-out':
+      return { kind, id, duration: 1, curve: 's-curve' }
+    case 'gain':
+      return { kind, id, gain: 0 }
+    case 'eq':
+      return { kind, id, low: 0, mid: 0, high: 0 }
+    case 'highpass':
+      return { kind, id, frequency: 80 }
+    case 'compressor':
+      return { kind, id, threshold: -20, ratio: 3, attack: 0.01, release: 0.25, makeup: 3 }
+    case 'limiter':
+      return { kind, id, ceiling: -1 }
+    case 'loudnorm':
+      return { kind, id, target: -16, peak: -1.5 }
+    case 'mono':
+      return { kind, id }
+  }
+}
+
+// A preset's steps with fresh ids, so applying it twice doesn't clash
+export function instantiatePreset(preset: AudioPreset): AudioEffect[] {
+  return preset.effects.map(effect => ({ ...effect, id: nextId() }))
+}
+
+const step = <K extends AudioEffectKind>(kind: K, values: Omit<Extract<AudioEffect, { kind: K }>, 'kind' | 'id'>) => {
+  return { kind, id: kind, ...values } as Extract<AudioEffect, { kind: K }>
+}
+
+export const BUILT_IN_AUDIO_PRESETS: AudioPreset[] = [
+  {
+    name: 'Podcast voice',
+    effects: [
+      step('highpass', { frequency: 80 }),
+      step('eq', { low: -2, mid: 2, high: 3 }),
+      step('compressor', { threshold: -22, ratio: 3, attack: 0.01, release: 0.25, makeup: 4 }),
+      step('loudnorm', { target: -16, peak: -1.5 }),
+      step('limiter', { ceiling: -1 }),
+      step('fade-in', { duration: 0.3, curve: 'linear' }),
+      step('fade-out', { duration: 0.5, curve: 'linear' })
+    ]
+  },
+  {
+    name: 'Music for streaming (-14 LUFS)',
+    effects: [step('loudnorm', { target: -14, peak: -1 }), step('limiter', { ceiling: -1 })]
+  },
+  {
+    name: 'Broadcast (EBU R128, -23 LUFS)',
+    effects: [step('loudnorm', { target: -23, peak: -1 })]
+  },
+  {
+    name: 'Gentle fades',
+    effects: [step('fade-in', { duration: 2, curve: 's-curve' }), step('fade-out', { duration: 3, curve: 's-curve' })]
+  },
+  {
+    name: 'Voice memo (mono)',
+    effects: [step('mono', {}), step('highpass', { frequency: 100 }), step('loudnorm', { target: -16, peak: -1.5 })]
+  }
+]
+
+// Gain envelope from 0 to 1 over `points` samples; fade-outs play it backwards
+export function fadeCurve(curve: FadeCurve, points: number, direction: 'in' | 'out'): Float32Array {
+  const values = new Float32Array(Math.max(points, 2))
+  for (let index = 0; index < values.length; index += 1) {
+    const u = index / (values.length - 1)
+    const position = direction === 'in' ? u : 1 - u
+    values[index] = curve === 'exponential' ? position * position
+      : curve === 'logarithmic' ? 1 - (1 - position) * (1 - position)
+      : curve === 's-curve' ? 0.5 - 0.5 * Math.cos(Math.PI * position)
+      : position
+  }
+  return values
+}
+
+// One-line summary for the download info
+export function describeAudioEffects(effects: AudioEffect[]): string {
+  return effects.map(effect => AUDIO_EFFECT_LABELS[effect.kind]).join(' → ')
+}
+
+const PRESETS_KEY = 'trimmer.audioPresets'
+
+// Presets the user saved in this browser; anything unreadable is dropped
+export function loadAudioPresets(): AudioPreset[] {
+  try {
+    const parsed = z.array(audioPresetSchema).safeParse(JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]'))
+    return parsed.success ? parsed.data : []
+  } catch {
+    return []
+  }
+}
+
+export function storeAudioPresets(presets: AudioPreset[]): void {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets))
+}
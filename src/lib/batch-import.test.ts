@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { buildResultsManifest, parseBatchImport, type BatchOutcome, type BatchRowResult } from './batch-import'
+import { parseCsv } from './csv'
+import { createDirectMediaProvider } from './direct-media-provider'
+import type { ExportJob, ExportJobRequest } from './export-queue'
+import { createHlsProvider } from './hls-provider'
+import { createYouTubeProvider } from './youtube-provider'
+
+// Only matching is exercised, so nothing here reaches the network
+const providers = [createYouTubeProvider(), createHlsProvider(), createDirectMediaProvider()]
+const parse = (text: string) => parseBatchImport(text, { providers })
+
+const VIDEO = 'https://youtu.be/dQw4w9WgXcQ'
+
+describe('parseBatchImport', () => {
+  it.each([
+    ['a header row, in any column order', `label,URL,end,start\nIntro,${VIDEO},0:10,0:05\n`],
+    ['columns in the default order without a header', `${VIDEO},0:05,0:10,,Intro\n`],
+    ['a JSON array with seconds as numbers', JSON.stringify([{ url: VIDEO, start: 5, end: 10, label: 'Intro' }])],
+    ['a JSON object with rows', JSON.stringify({ rows: [{ url: VIDEO, start: '0:05', end: '0:10', label: 'Intro' }] })]
+  ])('reads %s', (_, text) => {
+    expect(parse(text)).toEqual([
+      expect.objectContaining({ line: 1 + Number(text.startsWith('label')), row: { url: VIDEO, start: 5, end: 10, format: null, label: 'Intro' }, errors: [] })
+    ])
+  })
+
+  it.each([
+    ['the link\'s own timestamps', `${VIDEO}?t=30&end=45`, '', '', 30, 45],
+    ['a start of zero and the end of the media', VIDEO, '', '', 0, null],
+    ['cells over the link', `${VIDEO}?t=30&end=45`, '1:00', '1:30', 60, 90]
+  ])('falls back to %s when start or end is blank', (_, url, start, end, expectedStart, expectedEnd) => {
+    const [result] = parse(JSON.stringify([{ url, start, end }]))
+    expect(result.row).toMatchObject({ start: expectedStart, end: expectedEnd })
+  })
+
+  it('reports every problem on a row, keyed by column', () => {
+    const results = parse([
+      'url,start,end,format',
+      `${VIDEO},0:10,0:05,mp4`,
+      ',,,',
+      'https://example.com/page,abc,,.avi',
+      'https://www.youtube.com/playlist?list=PL0123456789,,,',
+      `${VIDEO},,,.M4A`
+    ].join('\n'))
+    expect(results.map(({ line, errors }) => ({ line, errors }))).toEqual([
+      { line: 2, errors: ['end: End must be after start'] },
+      // Blank rows are skipped, so line 3 doesn't appear
+      { line: 4, errors: ['url: Unsupported URL: use a YouTube link, a media file URL or an .m3u8 playlist', expect.stringMatching(/^start: /), 'format: Unknown format'] },
+      { line: 5, errors: ['url: Playlist links are not supported here; link a single video'] },
+      { line: 6, errors: [] }
+    ])
+    expect(results[3].row?.format).toBe('m4a')
+    expect(results[0].input).toEqual({ url: VIDEO, start: '0:10', end: '0:05', format: 'mp4', label: '' })
+  })
+
+  it.each([
+    ['JSON that isn\'t rows', '{"clips": []}', 'JSON must be an array of rows'],
+    ['a CSV quote left open', `${VIDEO},"0:05`, 'Unterminated quoted field']
+  ])('refuses %s as a whole', (_, text, message) => {
+    expect(() => parse(text)).toThrow(message)
+  })
+})
+
+describe('buildResultsManifest', () => {
+  const request = (filename: string) => ({ filename } as ExportJobRequest)
+  const job = (id: string, status: ExportJob['status'], error: string | null = null): ExportJob => ({
+    id, request: request(`${id}.mp4`), status, progress: 1, error, result: null, createdAt: 0, finishedAt: null
+  })
+
+  it.each([
+    ['invalid', { errors: ['url: URL is required', 'end: End must be after start'] }, null, undefined, 'invalid', '', 'url: URL is required; end: End must be after start'],
+    ['not queued', {}, null, undefined, 'not queued', '', ''],
+    ['skipped', {}, { error: 'Start is past the end of the video' }, undefined, 'skipped', '', 'Start is past the end of the video'],
+    ['done', {}, { error: null }, job('job-1', 'done'), 'done', 'job-1.mp4', ''],
+    ['failed', {}, { error: null }, job('job-1', 'failed', 'ffmpeg failed with exit code 1'), 'failed', '', 'ffmpeg failed with exit code 1'],
+    ['removed from the queue', {}, { error: null }, undefined, 'removed', '', '']
+  ] as const)('reports a row that was %s', (_, changes, outcome, queued, status, output, error) => {
+    const result: BatchRowResult = {
+      line: 2,
+      input: { url: VIDEO, start: '0:05', end: '', format: '', label: 'Intro, take 2' },
+      row: 'errors' in changes ? null : { url: VIDEO, start: 5, end: null, format: null, label: 'Intro, take 2' },
+      errors: 'errors' in changes ? [...changes.errors] : []
+    }
+    const outcomes: BatchOutcome[] = outcome ? [{ line: 2, request: outcome.error ? null : request('job-1.mp4'), error: outcome.error }] : []
+    const manifest = buildResultsManifest([result], outcomes, new Map(outcome ? [[2, 'job-1']] : []), queued ? [queued] : [])
+    expect(parseCsv(manifest)).toEqual([
+      ['url', 'start', 'end', 'format', 'label', 'line', 'status', 'output', 'error'],
+      [VIDEO, '0:05', '', '', 'Intro, take 2', '2', status, output, error]
+    ])
+  })
+})
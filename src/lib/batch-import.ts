@@ -0,0 +1,241 @@
+import { z } from 'zod'
+import { parseCsv, formatCsv } from './csv'
+import { buildExportFilename } from './download'
+import { settingsForSource, type EncodingSettings } from './encoding-settings'
+import type { ExportBatch, ExportJob, ExportJobRequest } from './export-queue'
+import { findMediaProvider, parseHttpUrl, type MediaProvider } from './media-providers'
+import { getOutputProfile, isOutputFormat, type OutputFormat } from './output-formats'
+import { pickSourceOption } from './source-formats'
+import { formatFilenameTime, parseTimecode } from './timecode'
+import { parseYouTubeUrl } from './youtube-url'
+
+// Batch import of clip lists kept in spreadsheets: CSV or JSON rows of
+// url, start, end, format, label. Rows are validated with the same URL and
+// timecode parsers as the single-video flow, and every row is reported on,
+// valid or not, down to the results manifest.
+
+export const BATCH_COLUMNS = ['url', 'start', 'end', 'format', 'label'] as const
+
+export type BatchColumn = (typeof BATCH_COLUMNS)[number]
+
+// The row as written, for display and the manifest
+export type BatchInput = Record<BatchColumn, string>
+
+export interface BatchRow {
+  url: string
+  start: number
+  // null runs to the end of the media
+  end: number | null
+  // null uses the format picked in the app
+  format: OutputFormat | null
+  label: string
+}
+
+export interface BatchRowResult {
+  // CSV line or 1-based JSON array position
+  line: number
+  input: BatchInput
+  row: BatchRow | null
+  errors: string[]
+}
+
+export interface BatchOutcome {
+  line: number
+  request: ExportJobRequest | null
+  error: string | null
+}
+
+interface BatchParseOptions {
+  providers: MediaProvider[]
+  fps?: number
+}
+
+interface BatchResolveOptions {
+  providers: MediaProvider[]
+  format: OutputFormat
+  settings: EncodingSettings
+  batch: ExportBatch
+  signal?: AbortSignal
+}
+
+// Timecode cell: blank means "not set"; numbers from JSON are seconds
+const timecodeField = (fps?: number) => z.string().transform((value, ctx) => {
+  if (!value.trim()) return null
+  try {
+    return parseTimecode(value, { fps })
+  } catch (error) {
+    ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid time' })
+    return z.NEVER
+  }
+})
+
+// The URL, with its parsed form when it's a YouTube link
+const urlField = (providers: MediaProvider[]) => z.string().trim().min(1, { error: 'URL is required', abort: true }).transform((url, ctx) => {
+  try {
+    const link = parseYouTubeUrl(url)
+    if (link && !link.videoId) throw new Error('Playlist links are not supported here; link a single video')
+    if (!link && !parseHttpUrl(url)) throw new Error('Not an http(s) URL')
+    if (!findMediaProvider(providers, { kind: 'url', url })) {
+      throw new Error('Unsupported URL: use a YouTube link, a media file URL or an .m3u8 playlist')
+    }
+    return { url, link }
+  } catch (error) {
+    ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid URL' })
+    return z.NEVER
+  }
+})
+
+const createBatchRowSchema = ({ providers, fps }: BatchParseOptions) => z.object({
+  url: urlField(providers),
+  start: timecodeField(fps),
+  end: timecodeField(fps),
+  format: z.string().trim().toLowerCase().refine(
+    format => !format || isOutputFormat(format.replace(/^\./, '')),
+    'Unknown format'
+  ),
+  label: z.string().trim()
+}).transform((row, ctx): BatchRow => {
+  // Blank start or end fall back to the link's own timestamps, like a pasted link does
+  const start = row.start ?? row.url?.link?.startSeconds ?? 0
+  const end = row.end ?? row.url?.link?.endSeconds ?? null
+  if (end !== null && end <= start) {
+    ctx.addIssue({ code: 'custom', path: ['end'], message: 'End must be after start' })
+  }
+  const format = row.format.replace(/^\./, '')
+  return { url: row.url?.url, start, end, format: isOutputFormat(format) ? format : null, label: row.label }
+})
+
+// Cells keyed by column. A first row naming a "url" column is a header;
+// otherwise columns are read in BATCH_COLUMNS order.
+const csvInputs = (text: string): { line: number; input: BatchInput }[] => {
+  const rows = parseCsv(text)
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase())
+  const hasHeader = header?.includes('url') ?? false
+  const columns = hasHeader ? header! : [...BATCH_COLUMNS]
+
+  return rows
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(hasHeader ? 1 : 0)
+    .filter(({ cells }) => cells.some(cell => cell.trim()))
+    .map(({ cells, line }) => ({
+      line,
+      input: Object.fromEntries(BATCH_COLUMNS.map(column => {
+        const index = columns.indexOf(column)
+        return [column, index >= 0 ? cells[index] ?? '' : '']
+      })) as BatchInput
+    }))
+}
+
+// An array of objects, or { "rows": [...] }; numbers are read as seconds
+const jsonInputs = (text: string): { line: number; input: BatchInput }[] => {
+  const data: unknown = JSON.parse(text)
+  const items = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows
+  if (!Array.isArray(items)) throw new Error('JSON must be an array of rows')
+
+  return items.map((item, index) => ({
+    line: index + 1,
+    input: Object.fromEntries(BATCH_COLUMNS.map((column) => {
+      const value = item && typeof item === 'object' ? (item as Record<string, unknown>)[column] : undefined
+      return [column, value === undefined || value === null ? '' : String(value)]
+    })) as BatchInput
+  }))
+}
+
+const isJson = (text: string) => /^[[{]/.test(text.trim())
+
+// Parse pasted or uploaded rows; throws only when the text as a whole can't be read
+export function parseBatchImport(text: string, options: BatchParseOptions): BatchRowResult[] {
+  const schema = createBatchRowSchema(options)
+  const inputs = isJson(text) ? jsonInputs(text) : csvInputs(text)
+
+  return inputs.map(({ line, input }) => {
+    const result = schema.safeParse(input)
+    if (result.success) return { line, input, row: result.data, errors: [] }
+    return {
+      line,
+      input,
+      row: null,
+      errors: result.error.issues.map(issue => (issue.path.length > 0 ? `${String(issue.path[0])}: ${issue.message}` : issue.message))
+    }
+  })
+}
+
+// Resolve each valid row through its media provider, one at a time, and build
+// its export job. A row that can't be exported gets an error instead.
+export async function resolveBatchRows(rows: { line: number; row: BatchRow }[], options: BatchResolveOptions): Promise<BatchOutcome[]> {
+  const { providers, settings, batch, signal } = options
+  const outcomes: BatchOutcome[] = []
+
+  for (const { line, row } of rows) {
+    const provider = findMediaProvider(providers, { kind: 'url', url: row.url })
+    if (!provider) {
+      outcomes.push({ line, request: null, error: 'Unsupported URL' })
+      continue
+    }
+
+    try {
+      const info = await provider.resolve({ kind: 'url', url: row.url }, signal)
+      try {
+        const end = row.end ?? info.duration
+        if (end === null) throw new Error('Duration unknown: set an end time')
+        if (info.duration !== null && row.start >= info.duration) throw new Error('Start is past the end of the video')
+        const range = { start: row.start, end: info.duration !== null ? Math.min(end, info.duration) : end }
+
+        const format = row.format ?? options.format
+        const profile = getOutputProfile(format)
+        const stream = info.formats ? pickSourceOption(info.formats, profile, info.duration) : null
+        const { source, audioSource } = await provider.fetchMedia(info, stream)
+        const title = row.label || info.title
+        outcomes.push({
+          line,
+          request: {
+            label: title,
+            filename: buildExportFilename(title, [`${formatFilenameTime(range.start)}-${formatFilenameTime(range.end)}`], profile),
+            source,
+            audioSource,
+            ranges: [range],
+            format,
+            settings: settingsForSource(profile, settings, stream),
+            batch
+          },
+          error: null
+        })
+      } finally {
+        provider.release?.(info)
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error
+      outcomes.push({ line, request: null, error: error instanceof Error ? error.message : 'Failed to load the video' })
+    }
+  }
+
+  return outcomes
+}
+
+export const MANIFEST_COLUMNS = [...BATCH_COLUMNS, 'line', 'status', 'output', 'error'] as const
+
+// One line per imported row: what was asked for, what happened and which
+// file it produced. `jobIds` maps import lines to the jobs they queued.
+export function buildResultsManifest(results: BatchRowResult[], outcomes: BatchOutcome[], jobIds: Map<number, string>, jobs: ExportJob[]): string {
+  const rows = results.map((result) => {
+    const outcome = outcomes.find(candidate => candidate.line === result.line)
+    const job = jobs.find(candidate => candidate.id === jobIds.get(result.line))
+
+    let status: string = 'invalid'
+    let output = ''
+    let error = result.errors.join('; ')
+    if (result.row && !outcome) {
+      status = 'not queued'
+    } else if (outcome?.error) {
+      status = 'skipped'
+      error = outcome.error
+    } else if (outcome) {
+      status = job?.status ?? 'removed'
+      output = job?.status === 'done' ? job.request.filename : ''
+      error = job?.error ?? ''
+    }
+
+    return [...BATCH_COLUMNS.map(column => result.input[column]), String(result.line), status, output, error]
+  })
+  return formatCsv([[...MANIFEST_COLUMNS], ...rows])
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import { captionFilename, clipToRanges, parseCaptions, plainCaptionText, serializeCaptions, trimCues, type CaptionCue } from './captions'
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello <i>world</i>
+
+2
+00:00:04,000 --> 00:00:06,000
+Two lines
+of text
+`
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE a comment
+that spans lines
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:00:01.000 --> 00:00:03.500 align:start position:10%
+<v Alice>Hello</v> &amp; welcome
+
+00:04.000 --> 00:06.000
+Second cue
+`
+
+const cue = (start: number, end: number, text = 'x'): CaptionCue => ({ id: null, start, end, text, settings: null })
+
+describe('parseCaptions', () => {
+  it('reads SRT cues', () => {
+    expect(parseCaptions(SRT)).toEqual([
+      { id: null, start: 1, end: 3.5, text: 'Hello <i>world</i>', settings: null },
+      { id: null, start: 4, end: 6, text: 'Two lines\nof text', settings: null }
+    ])
+  })
+
+  it('reads WebVTT cues with ids and settings, skipping the header, notes and styles', () => {
+    expect(parseCaptions(VTT)).toEqual([
+      { id: 'intro', start: 1, end: 3.5, text: '<v Alice>Hello</v> &amp; welcome', settings: 'align:start position:10%' },
+      { id: null, start: 4, end: 6, text: 'Second cue', settings: null }
+    ])
+  })
+
+  it('accepts a byte order mark, CRLF line ends and short fractions', () => {
+    expect(parseCaptions('\uFEFF1\r\n00:00:01,5 --> 00:00:02,25\r\nHi\r\n')).toEqual([cue(1.5, 2.25, 'Hi')])
+  })
+
+  it.each([
+    ['1\n00:00:01,000 -> 00:00:02,000\nHi\n', /Line 1: expected a cue timing line/],
+    ['1\n2\n00:00:01,000 --> 00:00:02,000\nHi\n', /Line 1: expected a cue timing line/],
+    ['1\n00:00:01,000 --> \nHi\n', /Line 2: malformed cue timing/],
+    ['1\n00:00:01,000 --> 00:00:02,000\nok\n\n2\n00:00:aa,000 --> 00:00:04,000\nHi\n', /Line 6: 00:00:aa,000 is not a caption timestamp/],
+    ['1\n00:00:05,000 --> 00:00:02,000\nHi\n', /Line 2: the cue ends before it starts/]
+  ])('rejects the malformed cue in %j', (input, message) => {
+    expect(() => parseCaptions(input)).toThrow(message)
+  })
+})
+
+describe('round trips', () => {
+  it('writes SRT that reads back to the same cues', () => {
+    const cues = parseCaptions(SRT)
+    const written = serializeCaptions(cues, 'srt')
+    expect(written).toBe(SRT)
+    expect(parseCaptions(written)).toEqual(cues)
+  })
+
+  it('writes WebVTT that reads back to the same cues', () => {
+    const cues = parseCaptions(VTT)
+    const written = serializeCaptions(cues, 'vtt')
+    expect(written.startsWith('WEBVTT\n\nintro\n00:00:01.000 --> 00:00:03.500 align:start position:10%\n')).toBe(true)
+    expect(parseCaptions(written)).toEqual(cues)
+  })
+
+  it('converts between SRT and WebVTT', () => {
+    const fromVtt = parseCaptions(serializeCaptions(parseCaptions(VTT), 'srt'))
+    expect(fromVtt.map(({ start, end, text }) => ({ start, end, text }))).toEqual([
+      { start: 1, end: 3.5, text: 'Hello & welcome' },
+      { start: 4, end: 6, text: 'Second cue' }
+    ])
+    const fromSrt = parseCaptions(serializeCaptions([cue(0, 1, 'a < b & <i>c</i> <font color="red">d</font>')], 'vtt'))
+    expect(fromSrt[0].text).toBe('a &lt; b &amp; <i>c</i> d')
+  })
+
+  it('keeps hour-long timestamps to the millisecond', () => {
+    const cues = [cue(3723.456, 3725.001)]
+    expect(parseCaptions(serializeCaptions(cues, 'srt'))).toEqual(cues)
+    expect(serializeCaptions(cues, 'srt')).toContain('01:02:03,456 --> 01:02:05,001')
+  })
+
+  it('writes plain text without markup or rolling repeats', () => {
+    const cues = [cue(0, 1, '<b>Hi</b>\nthere'), cue(1, 2, 'Hi there'), cue(2, 3, '&lt;end&gt;')]
+    expect(serializeCaptions(cues, 'txt')).toBe('Hi there\n<end>\n')
+  })
+})
+
+describe('clipToRanges', () => {
+  it('moves cues inside a range onto the output timeline', () => {
+    expect(clipToRanges([cue(12, 14)], [{ start: 10, end: 20 }])).toEqual([cue(2, 4)])
+  })
+
+  it('clips cues straddling a range boundary instead of dropping them', () => {
+    expect(clipToRanges([cue(8, 12), cue(18, 25)], [{ start: 10, end: 20 }])).toEqual([cue(0, 2), cue(8, 10)])
+  })
+
+  it('drops cues outside every range', () => {
+    expect(clipToRanges([cue(0, 5), cue(20, 30)], [{ start: 10, end: 20 }])).toEqual([])
+  })
+
+  it('plays joined ranges back to back, repeating a cue that spans several', () => {
+    const ranges = [{ start: 10, end: 15 }, { start: 30, end: 40 }]
+    expect(clipToRanges([cue(11, 12, 'a'), cue(14, 32, 'b'), cue(35, 36, 'c')], ranges)).toEqual([
+      cue(1, 2, 'a'),
+      cue(4, 5, 'b'),
+      cue(5, 7, 'b'),
+      cue(10, 11, 'c')
+    ])
+  })
+
+  it('rounds away float noise from the range math', () => {
+    expect(clipToRanges([cue(0.3, 0.7)], [{ start: 0.1, end: 0.2 }, { start: 0.2, end: 1 }])).toEqual([cue(0.2, 0.6)])
+  })
+})
+
+describe('trimCues', () => {
+  it('strips karaoke timestamps that point at the source timeline', () => {
+    expect(trimCues([cue(10, 12, 'one <00:00:10.500>two')], [{ start: 10, end: 20 }])).toEqual([cue(0, 2, 'one two')])
+  })
+})
+
+describe('helpers', () => {
+  it('names caption files after their media', () => {
+    expect(captionFilename('clip_00h00m01s000.mp4', 'vtt')).toBe('clip_00h00m01s000.vtt')
+  })
+
+  it('reduces cue text to plain text', () => {
+    expect(plainCaptionText(' <v Bob>Hi</v> &amp; bye ')).toBe('Hi & bye')
+  })
+})
@@ -0,0 +1,196 @@
+import type { TimeRange } from './ffmpeg'
+
+// Caption files as cue lists: reading SRT and WebVTT, cutting the cues down to
+// exported ranges on the output's timeline, and writing SRT, WebVTT or plain
+// text. Cue text keeps the source's inline markup; writers convert it for
+// their format.
+
+export type CaptionFormat = 'srt' | 'vtt' | 'txt'
+
+export interface CaptionCue {
+  // WebVTT cue identifier; SRT numbers are regenerated on write
+  id: string | null
+  start: number
+  end: number
+  // May span several lines
+  text: string
+  // WebVTT cue settings such as "align:start position:10%"
+  settings: string | null
+}
+
+// A caption track picked for the open video
+export interface LoadedCaptions {
+  // File name or YouTube track name, for display
+  name: string
+  cues: CaptionCue[]
+}
+
+export const CAPTION_FORMATS: { value: CaptionFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  { value: 'txt', label: 'Plain text', extension: 'txt', mimeType: 'text/plain' }
+]
+
+export const CAPTION_FILE_ACCEPT = '.srt,.vtt,text/vtt,application/x-subrip'
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)(?:\s+(.*))?$/
+
+// Cues shorter than this after clipping carry nothing worth showing
+const MIN_CUE_LENGTH = 0.001
+
+// Millisecond precision, so float noise from the range math never reaches a file
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+const parseTimestamp = (value: string, line: number): number => {
+  const match = TIMESTAMP.exec(value)
+  if (!match) throw new Error(`Line ${line}: ${value} is not a caption timestamp`)
+  const [, hours = '0', minutes, seconds, fraction] = match
+  return roundTime(Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000)
+}
+
+const formatTimestamp = (seconds: number, separator: '.' | ','): string => {
+  const total = Math.round(seconds * 1000)
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor(total / 60000) % 60
+  const secs = Math.floor(total / 1000) % 60
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(total % 1000, 3)}`
+}
+
+// Blank-line separated blocks with the line number each starts on
+const splitBlocks = (text: string): { line: number; lines: string[] }[] => {
+  const blocks: { line: number; lines: string[] }[] = []
+  let current: { line: number; lines: string[] } | null = null
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') {
+      current = null
+      return
+    }
+    if (!current) {
+      current = { line: index + 1, lines: [] }
+      blocks.push(current)
+    }
+    current.lines.push(line)
+  })
+  return blocks
+}
+
+const isVtt = (text: string) => /^WEBVTT(?:[ \t\n]|$)/.test(text)
+
+// Read SRT or WebVTT (detected from the WEBVTT header); throws with the line
+// of the first block that isn't a cue
+export function parseCaptions(input: string): CaptionCue[] {
+  const text = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const vtt = isVtt(text)
+  const blocks = splitBlocks(text)
+  const cues: CaptionCue[] = []
+
+  blocks.forEach((block, index) => {
+    // The WebVTT header, comments, style sheets and region definitions aren't cues
+    if (vtt && (index === 0 || /^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/.test(block.lines[0]))) return
+
+    const timingIndex = block.lines.findIndex(line => line.includes('-->'))
+    // Only a cue identifier (or SRT counter) may precede the timing line
+    if (timingIndex < 0 || timingIndex > 1) throw new Error(`Line ${block.line}: expected a cue timing line like 00:00:01.000 --> 00:00:02.000`)
+    const timingLineNumber = block.line + timingIndex
+    const timing = TIMING_LINE.exec(block.lines[timingIndex].trim())
+    if (!timing) throw new Error(`Line ${timingLineNumber}: malformed cue timing`)
+
+    const start = parseTimestamp(timing[1], timingLineNumber)
+    const end = parseTimestamp(timing[2], timingLineNumber)
+    if (end < start) throw new Error(`Line ${timingLineNumber}: the cue ends before it starts`)
+
+    cues.push({
+      id: vtt && timingIndex === 1 ? block.lines[0].trim() : null,
+      start,
+      end,
+      text: block.lines.slice(timingIndex + 1).join('\n'),
+      settings: vtt ? timing[3]?.trim() || null : null
+    })
+  })
+  return cues
+}
+
+// Karaoke-style timestamps inside WebVTT cue text, e.g. <00:00:01.319>
+const INLINE_TIMESTAMP = /<(?:\d+:)?\d{1,2}:\d{1,2}\.\d{3}>/g
+
+// Cut timed items to the ranges and lay them out on the export's timeline,
+// where the ranges play back to back from zero. Items straddling a range
+// boundary are clipped to it, not dropped; one spanning several ranges appears
+// in each.
+export function clipToRanges<T extends TimeRange>(items: T[], ranges: TimeRange[]): T[] {
+  const clipped: T[] = []
+  let offset = 0
+  for (const range of ranges) {
+    for (const item of items) {
+      const start = Math.max(item.start, range.start)
+      const end = Math.min(item.end, range.end)
+      if (end - start < MIN_CUE_LENGTH) continue
+      clipped.push({ ...item, start: roundTime(start - range.start + offset), end: roundTime(end - range.start + offset) })
+    }
+    offset += range.end - range.start
+  }
+  return clipped
+}
+
+// The cues an export of `ranges` carries, timed from zero
+export function trimCues(cues: CaptionCue[], ranges: TimeRange[]): CaptionCue[] {
+  // Inline timestamps would still point at the source timeline
+  return clipToRanges(cues, ranges).map(cue => ({ ...cue, text: cue.text.replace(INLINE_TIMESTAMP, '') }))
+}
+
+const decodeEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, '\u00A0')
+  .replace(/&lrm;/g, '\u200E')
+  .replace(/&rlm;/g, '\u200F')
+  .replace(/&amp;/g, '&')
+
+// SRT players understand <i>, <b>, <u> and <font> but no entities; WebVTT
+// classes, voices, ruby and language spans are reduced to their text
+const toSrtText = (text: string) => decodeEntities(text
+  .replace(INLINE_TIMESTAMP, '')
+  .replace(/<\/?(?:c|v|lang|ruby|rt)(?:[.\s][^>]*)?>/g, ''))
+
+// WebVTT has no <font>; a bare & or < would start an entity or a tag
+const toVttText = (text: string) => text
+  .replace(/<\/?font[^>]*>/g, '')
+  .replace(/&(?!(?:amp|lt|gt|nbsp|lrm|rlm|#\d+|#x[0-9a-f]+);)/gi, '&amp;')
+  .replace(/<(?![/a-z0-9])/gi, '&lt;')
+
+// Cue text without markup, line breaks kept
+export function plainCaptionText(text: string): string {
+  return decodeEntities(text.replace(/<[^>]*>/g, '')).trim()
+}
+
+export function serializeCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  switch (format) {
+    case 'srt':
+      return cues
+        .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${toSrtText(cue.text)}\n`)
+        .join('\n')
+    case 'vtt':
+      return ['WEBVTT\n', ...cues.map(cue => [
+        ...(cue.id ? [cue.id] : []),
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}${cue.settings ? ` ${cue.settings}` : ''}`,
+        `${toVttText(cue.text)}\n`
+      ].join('\n'))].join('\n')
+    case 'txt': {
+      // Rolling auto-captions repeat lines from cue to cue
+      const lines = cues.map(cue => plainCaptionText(cue.text).replace(/\s*\n\s*/g, ' ')).filter(Boolean)
+      return lines.filter((line, index) => line !== lines[index - 1]).map(line => `${line}\n`).join('')
+    }
+  }
+}
+
+export function captionFilename(mediaFilename: string, format: CaptionFormat): string {
+  const extension = CAPTION_FORMATS.find(candidate => candidate.value === format)!.extension
+  return `${mediaFilename.replace(/\.[^.]+$/, '')}.${extension}`
+}
+
+export function captionBlob(cues: CaptionCue[], format: CaptionFormat): Blob {
+  const { mimeType } = CAPTION_FORMATS.find(candidate => candidate.value === format)!
+  return new Blob([serializeCaptions(cues, format)], { type: `${mimeType};charset=utf-8` })
+}
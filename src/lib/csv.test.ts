@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { formatCsv, parseCsv } from './csv'
+
+describe('parseCsv', () => {
+  it.each([
+    ['plain rows', 'a,b\nc,d', [['a', 'b'], ['c', 'd']]],
+    ['CRLF line endings and a trailing newline', 'a,b\r\nc,d\r\n', [['a', 'b'], ['c', 'd']]],
+    ['a leading byte order mark', '\uFEFFurl,start\nx,1', [['url', 'start'], ['x', '1']]],
+    ['newlines and commas inside quotes', '"one\ntwo","a,b"\r\nc,d', [['one\ntwo', 'a,b'], ['c', 'd']]],
+    ['doubled quotes as literal ones', '"say ""hi""",""', [['say "hi"', '']]],
+    ['quotes inside an unquoted field as they are', 'a"b,c', [['a"b', 'c']]],
+    ['empty fields and rows', 'a,,\n\n,b', [['a', '', ''], [''], ['', 'b']]],
+    ['nothing', '', []]
+  ])('reads %s', (_, text, expected) => {
+    expect(parseCsv(text)).toEqual(expected)
+  })
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('a,"b\nc')).toThrow('Unterminated quoted field')
+  })
+})
+
+describe('formatCsv', () => {
+  it('quotes only the fields that need it and reads back the same', () => {
+    const rows = [['url', 'label'], ['https://youtu.be/x', 'Intro, "take 2"\nfinal'], ['', 'plain']]
+    const text = formatCsv(rows)
+    expect(text).toBe('url,label\r\nhttps://youtu.be/x,"Intro, ""take 2""\nfinal"\r\n,plain\r\n')
+    expect(parseCsv(text)).toEqual(rows)
+  })
+})
@@ -0,0 +1,55 @@
+// RFC 4180 CSV: comma separated, fields optionally wrapped in double quotes,
+// "" for a literal quote, CRLF or LF line endings.
+
+// Rows of raw cells; quoted fields may span lines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const endField = () => {
+    row.push(field)
+    field = ''
+  }
+  const endRow = () => {
+    endField()
+    rows.push(row)
+    row = []
+  }
+
+  // A byte order mark from spreadsheet exports is not part of the first header
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      endField()
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted field')
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
+
+// Quote only the fields that need it
+const formatCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+export function formatCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatCsvField).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,67 @@
+import { isOutputFormat, type OutputFormat } from './output-formats'
+import { parseTimecode } from './timecode'
+import { isYouTubeVideoId } from './youtube-url'
+
+// Shareable links to a clip: /v/<videoId>?start=12.5&end=48&fmt=mp3. Every
+// parameter is optional; bad ones are dropped with a warning rather than
+// failing the whole link.
+
+export const DEEP_LINK_ROUTE = '/v/:videoId'
+
+export interface DeepLink {
+  videoId: string
+  start?: number
+  end?: number
+  format?: OutputFormat
+}
+
+// Millisecond precision keeps links short
+const formatSeconds = (seconds: number) => String(Math.round(seconds * 1000) / 1000)
+
+const readTime = (params: URLSearchParams, name: string, warnings: string[]): number | undefined => {
+  const value = params.get(name)
+  if (value === null || value === '') return undefined
+  try {
+    return parseTimecode(value)
+  } catch {
+    warnings.push(`Ignored ${name}=${value} in the link: not a valid time`)
+    return undefined
+  }
+}
+
+// Read a link's video id and query; `link` is null when the id itself is unusable
+export function parseDeepLink(videoId: string, params: URLSearchParams): { link: DeepLink | null; warnings: string[] } {
+  const warnings: string[] = []
+  if (!isYouTubeVideoId(videoId)) return { link: null, warnings: [`The link points at an invalid video id: ${videoId}`] }
+
+  const link: DeepLink = { videoId }
+  link.start = readTime(params, 'start', warnings)
+  link.end = readTime(params, 'end', warnings)
+  if (link.end !== undefined && link.end <= (link.start ?? 0)) {
+    warnings.push('Ignored the link\'s end time: it is not after the start')
+    link.end = undefined
+  }
+
+  const format = params.get('fmt')?.toLowerCase()
+  if (format && isOutputFormat(format)) link.format = format
+  else if (format) warnings.push(`Ignored fmt=${format} in the link: unknown format`)
+
+  return { link, warnings }
+}
+
+export function buildDeepLinkPath(link: DeepLink): string {
+  const params = new URLSearchParams()
+  if (link.start !== undefined) params.set('start', formatSeconds(link.start))
+  if (link.end !== undefined) params.set('end', formatSeconds(link.end))
+  if (link.format) params.set('fmt', link.format)
+  const query = params.toString()
+  return `/v/${encodeURIComponent(link.videoId)}${query ? `?${query}` : ''}`
+}
+
+// The YouTube link the loader understands, carrying the range as start=/end=
+export function deepLinkSourceUrl(link: DeepLink): string {
+  const params = new URLSearchParams({ v: link.videoId })
+  if (link.start !== undefined) params.set('start', formatSeconds(link.start))
+  if (link.end !== undefined) params.set('end', formatSeconds(link.end))
+  return `https://www.youtube.com/watch?${params}`
+}
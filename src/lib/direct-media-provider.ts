@@ -0,0 +1,59 @@
+import { parseHttpUrl, titleFromUrl, urlExtension, type MediaProvider } from './media-providers'
+import { readMediaDuration } from './video-info'
+
+interface DirectMediaProviderOptions {
+  fetch?: typeof fetch
+  // Defaults to reading metadata through a detached <video>
+  readDuration?: (url: string) => Promise<number | null>
+}
+
+export const DIRECT_MEDIA_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm', 'mkv', 'mp3', 'm4a', 'aac', 'ogg', 'oga', 'opus', 'wav', 'flac']
+
+// Size from a HEAD request; servers that refuse it just leave the size unknown
+const fetchContentLength = async (fetchImpl: typeof fetch, url: string, signal?: AbortSignal): Promise<number | undefined> => {
+  try {
+    const response = await fetchImpl(url, { method: 'HEAD', signal })
+    const length = Number(response.headers.get('content-length'))
+    return response.ok && length > 0 ? length : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Plain media files on any server that allows cross-origin reads
+export function createDirectMediaProvider(options: DirectMediaProviderOptions = {}): MediaProvider {
+  const { fetch: fetchImpl = fetch, readDuration = readMediaDuration } = options
+
+  return {
+    id: 'url',
+    label: 'Media URL',
+    matches: (request) => {
+      const url = request.kind === 'url' ? parseHttpUrl(request.url) : null
+      return url !== null && DIRECT_MEDIA_EXTENSIONS.includes(urlExtension(url))
+    },
+    resolve: async (request, signal) => {
+      const url = request.kind === 'url' ? parseHttpUrl(request.url) : null
+      if (!url) throw new Error('Invalid media URL')
+      const href = url.toString()
+
+      const [duration, size] = await Promise.all([
+        readDuration(href),
+        fetchContentLength(fetchImpl, href, signal)
+      ])
+      return {
+        source: 'url',
+        title: titleFromUrl(url),
+        duration,
+        thumbnail: '',
+        url: href,
+        mediaUrl: href,
+        size
+      }
+    },
+    buildPreview: info => ({ kind: 'video', url: info.url }),
+    fetchMedia: async (info) => {
+      if (!info.mediaUrl) throw new Error('No downloadable media source for this video')
+      return { source: info.mediaUrl }
+    }
+  }
+}
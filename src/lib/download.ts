@@ -0,0 +1,36 @@
+import type { OutputProfile } from './output-formats'
+
+// Hand a blob to the browser as a file download
+export function saveBlob(blob: Blob, filename: string) {
+  const downloadUrl = URL.createObjectURL(blob)
+  const downloadLink = document.createElement('a')
+  downloadLink.href = downloadUrl
+  downloadLink.download = filename
+  downloadLink.style.display = 'none'
+
+  // Add to DOM, click, and remove
+  document.body.appendChild(downloadLink)
+  downloadLink.click()
+  document.body.removeChild(downloadLink)
+
+  // Clean up the URL after a short delay
+  setTimeout(() => {
+    URL.revokeObjectURL(downloadUrl)
+  }, 1000)
+}
+
+// Keep titles filesystem-safe and reasonably short
+export function sanitizeFilename(title: string): string {
+  return title.replace(/[^a-zA-Z0-9\s]/g, '').replace(/\s+/g, '_').substring(0, 50)
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+// Join the title and descriptive parts; the profile supplies the extension
+export function buildExportFilename(title: string, parts: string[], profile: OutputProfile): string {
+  return `${[sanitizeFilename(title) || 'export', ...parts].join('_')}.${profile.extension}`
+}
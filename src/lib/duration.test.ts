@@ -0,0 +1,117 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createYouTubeDataApiProvider, parseIsoDuration, resolveDuration, type DurationProvider } from './duration'
+import type { VideoInfo } from './video-info'
+
+// Canned Data API answers, keyed by video id
+const RESPONSES: Record<string, { status: number; body: string }> = {
+  aaaaaaaaaaa: { status: 200, body: JSON.stringify({ items: [{ contentDetails: { duration: 'PT1H2M3S' } }] }) },
+  livestream0: { status: 200, body: JSON.stringify({ items: [{ contentDetails: { duration: 'P0D' } }] }) },
+  missing0000: { status: 200, body: JSON.stringify({ items: [] }) },
+  badduration: { status: 200, body: JSON.stringify({ items: [{ contentDetails: { duration: 'P1Y' } }] }) },
+  forbidden00: { status: 403, body: JSON.stringify({ error: { message: 'quotaExceeded' } }) },
+  servererror: { status: 500, body: 'oops' },
+  notjson0000: { status: 200, body: '<html>not json</html>' }
+}
+
+let server: Server
+let baseUrl: string
+const requests: URL[] = []
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    requests.push(url)
+    const canned = url.pathname === '/v3/videos' ? RESPONSES[url.searchParams.get('id') ?? ''] : undefined
+    response.writeHead(canned?.status ?? 404, { 'Content-Type': 'application/json' })
+    response.end(canned?.body ?? '{}')
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v3/`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+const youtube = (videoId: string): VideoInfo => ({
+  source: 'youtube',
+  title: 'Video',
+  duration: null,
+  thumbnail: '',
+  url: `https://www.youtube.com/embed/${videoId}`,
+  videoId
+})
+
+const provider = () => createYouTubeDataApiProvider({ apiKey: 'test-key', baseUrl })
+
+describe('createYouTubeDataApiProvider', () => {
+  it('reads the ISO-8601 duration from videos.list', async () => {
+    requests.length = 0
+    await expect(provider().getDuration(youtube('aaaaaaaaaaa'))).resolves.toBe(3723)
+    expect(requests).toHaveLength(1)
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({ part: 'contentDetails', id: 'aaaaaaaaaaa', key: 'test-key' })
+  })
+
+  it('has no answer for live streams or unknown videos', async () => {
+    await expect(provider().getDuration(youtube('livestream0'))).resolves.toBeNull()
+    await expect(provider().getDuration(youtube('missing0000'))).resolves.toBeNull()
+  })
+
+  it('skips sources that are not YouTube without a request', async () => {
+    requests.length = 0
+    await expect(provider().getDuration({ ...youtube('aaaaaaaaaaa'), source: 'url' })).resolves.toBeNull()
+    await expect(provider().getDuration({ ...youtube('aaaaaaaaaaa'), videoId: undefined })).resolves.toBeNull()
+    expect(requests).toHaveLength(0)
+  })
+
+  it.each([
+    ['forbidden00', /returned 403/],
+    ['servererror', /returned 500/]
+  ])('fails on a non-2xx answer for %s', async (videoId, message) => {
+    await expect(provider().getDuration(youtube(videoId))).rejects.toThrow(message)
+  })
+
+  it('fails on a body that is not JSON', async () => {
+    await expect(provider().getDuration(youtube('notjson0000'))).rejects.toThrow(SyntaxError)
+  })
+
+  it('fails on a duration it cannot convert', async () => {
+    await expect(provider().getDuration(youtube('badduration'))).rejects.toThrow(/Invalid ISO-8601 duration: P1Y/)
+  })
+})
+
+describe('resolveDuration', () => {
+  const fixed = (name: string, duration: number | null): DurationProvider => ({ name, getDuration: async () => duration })
+
+  it('falls through failing and empty providers to the first usable answer', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const providers = [provider(), fixed('empty', null), fixed('nan', Number.NaN), fixed('zero', 0), fixed('good', 42), fixed('later', 7)]
+    await expect(resolveDuration(providers, youtube('forbidden00'))).resolves.toBe(42)
+    expect(warn).toHaveBeenCalledWith('Duration provider youtube-data-api failed:', expect.any(Error))
+    warn.mockRestore()
+  })
+
+  it('returns null when nobody knows', async () => {
+    await expect(resolveDuration([fixed('empty', null)], youtube('missing0000'))).resolves.toBeNull()
+  })
+})
+
+describe('parseIsoDuration', () => {
+  it.each([
+    ['PT1H2M3S', 3723],
+    ['PT45S', 45],
+    ['PT1.5S', 1.5],
+    ['P1DT30M', 88200],
+    ['P1W', 604800],
+    ['pt2m', 120],
+    ['P0D', 0]
+  ])('reads %s', (input, seconds) => {
+    expect(parseIsoDuration(input)).toBe(seconds)
+  })
+
+  it.each(['', 'P', 'PT', 'P1Y', 'P1M', 'PT1H2', '1H'])('rejects %j', (input) => {
+    expect(() => parseIsoDuration(input)).toThrow(/Invalid ISO-8601 duration/)
+  })
+})
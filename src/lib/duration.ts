@@ -0,0 +1,107 @@
+import { readMediaDuration, type VideoInfo } from './video-info'
+import type { PlayerBridge } from './youtube-player'
+
+// A source of truth for media length; null means "this provider can't tell"
+export interface DurationProvider {
+  name: string
+  getDuration: (info: VideoInfo) => Promise<number | null>
+}
+
+const ISO_DURATION = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+
+// Parse an ISO-8601 duration such as PT1H2M3S or P1DT30M into seconds.
+// Years and months have no fixed length, so they are rejected.
+export function parseIsoDuration(value: string): number {
+  const normalized = value.trim().toUpperCase()
+  const match = normalized.match(ISO_DURATION)
+  // "P" and "PT" satisfy the pattern but carry no components
+  if (!match || normalized === 'P' || normalized.endsWith('T')) {
+    throw new Error(`Invalid ISO-8601 duration: ${value}`)
+  }
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => (part ? Number(part) : 0))
+  return weeks * 604800 + days * 86400 + hours * 3600 + minutes * 60 + seconds
+}
+
+interface YouTubeDataApiOptions {
+  apiKey: string
+  baseUrl?: string
+  fetch?: typeof fetch
+}
+
+// YouTube Data API v3 videos.list(part=contentDetails)
+export function createYouTubeDataApiProvider(options: YouTubeDataApiOptions): DurationProvider {
+  const { apiKey, baseUrl = 'https://www.googleapis.com/youtube/v3', fetch: fetchImpl = fetch } = options
+
+  return {
+    name: 'youtube-data-api',
+    getDuration: async (info) => {
+      if (info.source !== 'youtube' || !info.videoId) return null
+
+      const params = new URLSearchParams({ part: 'contentDetails', id: info.videoId, key: apiKey })
+      const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/videos?${params}`)
+      if (!response.ok) throw new Error(`YouTube Data API returned ${response.status}`)
+
+      const data = await response.json()
+      const isoDuration: unknown = data?.items?.[0]?.contentDetails?.duration
+      if (typeof isoDuration !== 'string') return null
+
+      // Live streams and premieres report P0D
+      const seconds = parseIsoDuration(isoDuration)
+      return seconds > 0 ? seconds : null
+    }
+  }
+}
+
+// Metadata of direct and local media, read through a <video> element
+export const mediaElementDurationProvider: DurationProvider = {
+  name: 'media-element',
+  getDuration: async (info) => (info.mediaUrl ? readMediaDuration(info.mediaUrl) : null)
+}
+
+// getDuration() of a mounted YouTube embed, once the player reports it
+export function createPlayerDurationProvider(player: PlayerBridge, timeoutMs = 15000): DurationProvider {
+  return {
+    name: 'youtube-player',
+    getDuration: (info) => new Promise((resolve) => {
+      if (info.source !== 'youtube') return resolve(null)
+
+      const known = player.getDuration()
+      if (known !== null) return resolve(known)
+
+      const timeout = window.setTimeout(() => {
+        unsubscribe()
+        resolve(null)
+      }, timeoutMs)
+      const unsubscribe = player.onDurationChange((seconds) => {
+        window.clearTimeout(timeout)
+        unsubscribe()
+        resolve(seconds)
+      })
+    })
+  }
+}
+
+// Ask each provider in turn and return the first usable answer
+export async function resolveDuration(providers: DurationProvider[], info: VideoInfo): Promise<number | null> {
+  for (const provider of providers) {
+    try {
+      const duration = await provider.getDuration(info)
+      if (duration !== null && Number.isFinite(duration) && duration > 0) return duration
+    } catch (error) {
+      console.warn(`Duration provider ${provider.name} failed:`, error)
+    }
+  }
+  return null
+}
+
+// Providers usable right after a source is resolved, before any player exists
+export function getDefaultDurationProviders(): DurationProvider[] {
+  const providers: DurationProvider[] = []
+  const apiKey = import.meta.env.VITE_YOUTUBE_API_KEY
+  if (apiKey) {
+    providers.push(createYouTubeDataApiProvider({ apiKey, baseUrl: import.meta.env.VITE_YOUTUBE_API_BASE_URL }))
+  }
+  providers.push(mediaElementDurationProvider)
+  return providers
+}
@@ -0,0 +1,305 @@
+import { z } from 'zod'
+import type { OutputProfile } from './output-formats'
+import { canStreamCopy, type SourceOption } from './source-formats'
+
+// Per-export encoding settings. The schema is the single source of truth for
+// valid ranges; the panel shows its messages inline and the export only ever
+// receives parsed settings.
+
+export const RESOLUTION_PRESETS = ['source', '1080', '720', '480', 'custom'] as const
+export const SAMPLE_RATES = [22050, 32000, 44100, 48000] as const
+export const AUDIO_BITRATES = [64, 96, 128, 160, 192, 256, 320] as const
+export const OUTPUT_FRAME_RATES = [10, 12, 15, 24, 25, 30, 50, 60] as const
+// Common upload caps in MB: Discord, Discord Nitro Basic, email, Slack/Discord boosted
+export const TARGET_SIZE_PRESETS = [8, 10, 25, 50] as const
+
+const even = (value: number) => value % 2 === 0
+
+// Free-form number fields read as NaN while empty
+const numberField = () => z.number({ error: 'Enter a number' }).int('Use a whole number')
+
+export const encodingSettingsSchema = z.object({
+  // Stream copy skips decoding: fast and lossless, but cuts snap to keyframes
+  mode: z.enum(['reencode', 'copy']),
+  resolution: z.enum(RESOLUTION_PRESETS),
+  customWidth: numberField().min(16, 'At least 16 px').max(7680, 'At most 7680 px').refine(even, 'Width must be even'),
+  customHeight: numberField().min(16, 'At least 16 px').max(4320, 'At most 4320 px').refine(even, 'Height must be even'),
+  frameRate: z.union([z.literal('source'), z.number().positive().max(120)]),
+  // 'size' encodes in two passes at whatever bitrate fits `targetSize`
+  videoRateControl: z.enum(['crf', 'bitrate', 'size']),
+  // libx264 scale; VP8 clamps it into its own 4-63 range
+  crf: numberField().min(0, 'CRF is 0-51').max(51, 'CRF is 0-51'),
+  videoBitrate: numberField().min(100, 'At least 100 kbps').max(50000, 'At most 50000 kbps'),
+  // MB (MiB, like the sizes shown everywhere else) for each exported file
+  targetSize: z.number({ error: 'Enter a number' }).min(1, 'At least 1 MB').max(4000, 'At most 4000 MB'),
+  audioBitrate: z.number().int().min(32, 'At least 32 kbps').max(320, 'At most 320 kbps'),
+  audioSampleRate: z.union([z.literal('source'), z.number().int().min(8000).max(96000)]),
+  audioChannels: z.union([z.literal('source'), z.literal(1), z.literal(2)]),
+  mp3Mode: z.enum(['cbr', 'vbr']),
+  // LAME -V scale: 0 is best, 9 is smallest
+  mp3VbrQuality: z.number().int().min(0).max(9)
+})
+
+export type EncodingSettings = z.infer<typeof encodingSettingsSchema>
+
+export type EncodingSettingsErrors = Partial<Record<keyof EncodingSettings, string>>
+
+export const DEFAULT_ENCODING_SETTINGS: EncodingSettings = {
+  mode: 'reencode',
+  resolution: 'source',
+  customWidth: 1280,
+  customHeight: 720,
+  frameRate: 'source',
+  videoRateControl: 'crf',
+  crf: 23,
+  videoBitrate: 2500,
+  targetSize: 25,
+  audioBitrate: 192,
+  audioSampleRate: 'source',
+  audioChannels: 'source',
+  mp3Mode: 'cbr',
+  mp3VbrQuality: 2
+}
+
+// Parse settings, collecting the first message per field
+export function validateEncodingSettings(input: unknown): { settings: EncodingSettings | null; errors: EncodingSettingsErrors } {
+  const result = encodingSettingsSchema.safeParse(input)
+  if (result.success) return { settings: result.data, errors: {} }
+
+  const errors: EncodingSettingsErrors = {}
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof EncodingSettings
+    errors[field] ??= issue.message
+  }
+  return { settings: null, errors }
+}
+
+// Stream copy is only offered for ffmpeg profiles, and only when the source's
+// codecs fit the container; everything else re-encodes
+export function effectiveMode(profile: OutputProfile, settings: EncodingSettings, source: SourceOption | null = null): EncodingSettings['mode'] {
+  return settings.mode === 'copy' && canStreamCopy(profile, source) ? 'copy' : 'reencode'
+}
+
+// The settings an export of `source` runs with: a copy the source can't
+// satisfy, such as one left over from another format, becomes a re-encode
+export function settingsForSource(profile: OutputProfile, settings: EncodingSettings, source: SourceOption | null = null): EncodingSettings {
+  const mode = effectiveMode(profile, settings, source)
+  return mode === settings.mode ? settings : { ...settings, mode }
+}
+
+// ffmpeg scale expression; -2 keeps the aspect ratio with an even dimension.
+// Presets only ever shrink the picture: smaller sources keep their height,
+// rounded down to even for yuv420p.
+export function scaleFilter(settings: EncodingSettings): string | null {
+  switch (settings.resolution) {
+    case 'source':
+      return null
+    case 'custom':
+      return `scale=${settings.customWidth}:${settings.customHeight}`
+    default:
+      return `scale=-2:'trunc(min(ih,${settings.resolution})/2)*2'`
+  }
+}
+
+const videoArguments = (profile: OutputProfile, settings: EncodingSettings, scale: boolean): string[] => {
+  const args: string[] = []
+  const filter = scale ? scaleFilter(settings) : null
+  if (filter) args.push('-vf', filter)
+  if (settings.frameRate !== 'source') args.push('-r', String(settings.frameRate))
+
+  if (profile.videoCodec === 'libx264') {
+    args.push('-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p')
+    if (settings.videoRateControl === 'crf') {
+      args.push('-crf', String(settings.crf))
+    } else if (settings.videoRateControl === 'size') {
+      // An average for the two passes to hit; peaks are fine as long as the total fits
+      args.push('-b:v', `${settings.videoBitrate}k`)
+    } else {
+      const rate = settings.videoBitrate
+      args.push('-b:v', `${rate}k`, '-maxrate', `${rate}k`, '-bufsize', `${rate * 2}k`)
+    }
+  } else if (profile.videoCodec === 'libvpx') {
+    // Realtime mode writes an empty first-pass log, which the second pass rejects
+    const twoPass = settings.videoRateControl === 'size'
+    args.push('-c:v', 'libvpx', '-deadline', twoPass ? 'good' : 'realtime', '-cpu-used', twoPass ? '4' : '8')
+    if (settings.videoRateControl === 'crf') {
+      // VP8 treats CRF as a floor under a bitrate ceiling
+      args.push('-crf', String(Math.min(Math.max(settings.crf, 4), 63)), '-b:v', '4M')
+    } else {
+      args.push('-b:v', `${settings.videoBitrate}k`)
+    }
+  }
+  return args
+}
+
+const audioArguments = (profile: OutputProfile, settings: EncodingSettings): string[] => {
+  const args = ['-c:a', profile.audioCodec ?? 'copy']
+
+  if (profile.audioCodec === 'libmp3lame' && settings.mp3Mode === 'vbr') {
+    args.push('-q:a', String(settings.mp3VbrQuality))
+  } else {
+    args.push('-b:a', `${settings.audioBitrate}k`)
+  }
+
+  if (profile.supports.sampleRate && settings.audioSampleRate !== 'source') args.push('-ar', String(settings.audioSampleRate))
+  if (profile.supports.channels && settings.audioChannels !== 'source') args.push('-ac', String(settings.audioChannels))
+  return args
+}
+
+// Codec arguments for an ffmpeg profile, replacing the profile's defaults.
+// Pass scale: false when the caller scales inside its own filter graph.
+export function buildEncodingArguments(profile: OutputProfile, settings: EncodingSettings, options: { scale?: boolean } = {}): string[] {
+  const { scale = true } = options
+  const args = effectiveMode(profile, settings) === 'copy'
+    ? [...(profile.audioOnly ? ['-vn', '-c:a'] : ['-c']), 'copy']
+    : [...(profile.audioOnly ? ['-vn'] : videoArguments(profile, settings, scale)), ...audioArguments(profile, settings)]
+
+  if (profile.container === 'mp4') args.push('-movflags', '+faststart')
+  return args
+}
+
+// Fit-to-size video exports run an analysis pass before the real encode
+export function isTwoPass(profile: OutputProfile, settings: EncodingSettings): boolean {
+  return profile.supports.videoQuality && !profile.audioOnly && settings.videoRateControl === 'size' && effectiveMode(profile, settings) === 'reencode'
+}
+
+// Share of the target left for the container and rate-control overshoot
+const SIZE_HEADROOM = 0.95
+// Audio never takes more than this share of the budget
+const MAX_AUDIO_SHARE = 0.15
+const MIN_AUDIO_KBPS = 32
+const MIN_VIDEO_KBPS = 40
+// Below this x264 smears the picture; a smaller frame looks better at the same bitrate
+const MIN_BITS_PER_PIXEL = 0.06
+// Heights to step down through, largest first
+const FIT_HEIGHTS = [2160, 1440, 1080, 720, 540, 480, 360, 240]
+
+const evenFloor = (value: number) => Math.max(Math.floor(value / 2) * 2, 2)
+
+// Turn a fit-to-size setting into concrete bitrates for `duration` seconds of
+// a `frame`-sized picture, stepping the resolution down when the bitrate would
+// be too low for it. Other settings pass through unchanged.
+export function resolveTargetSize(
+  profile: OutputProfile,
+  settings: EncodingSettings,
+  duration: number,
+  frame: { width: number; height: number }
+): EncodingSettings {
+  if (!isTwoPass(profile, settings) || !(duration > 0)) return settings
+
+  const totalKbps = (settings.targetSize * 1024 * 1024 * 8 * SIZE_HEADROOM) / duration / 1000
+  const audioBitrate = profile.audioCodec
+    ? Math.round(Math.min(settings.audioBitrate, Math.max(totalKbps * MAX_AUDIO_SHARE, MIN_AUDIO_KBPS)))
+    : 0
+  const videoBitrate = Math.floor(totalKbps - audioBitrate)
+  if (videoBitrate < MIN_VIDEO_KBPS) {
+    throw new Error(`${settings.targetSize} MB is too small for ${Math.round(duration)} s of video; raise the target or export shorter clips`)
+  }
+
+  // Start from the size the settings already ask for
+  const aspect = frame.width / frame.height
+  let height = settings.resolution === 'custom' ? settings.customHeight
+    : settings.resolution === 'source' ? frame.height
+    : Math.min(Number(settings.resolution), frame.height)
+  let width = settings.resolution === 'custom' ? settings.customWidth : evenFloor(height * aspect)
+  const fps = settings.frameRate === 'source' ? 30 : settings.frameRate
+  const fits = (w: number, h: number) => w * h * fps * MIN_BITS_PER_PIXEL <= videoBitrate * 1000
+
+  let lowered = false
+  for (const candidate of FIT_HEIGHTS) {
+    if (fits(width, height)) break
+    if (candidate >= height) continue
+    height = candidate
+    width = evenFloor(height * (settings.resolution === 'custom' ? settings.customWidth / settings.customHeight : aspect))
+    lowered = true
+  }
+
+  return {
+    ...settings,
+    videoBitrate,
+    audioBitrate: audioBitrate || settings.audioBitrate,
+    ...(lowered && { resolution: 'custom' as const, customWidth: width, customHeight: evenFloor(height) })
+  }
+}
+
+// GIFs default to 10 fps at 480px wide; explicit settings override either
+export function gifCaptureOptions(settings: EncodingSettings): { fps: number; maxWidth: number; maxHeight: number } {
+  const fps = settings.frameRate === 'source' ? 10 : settings.frameRate
+  switch (settings.resolution) {
+    case 'source':
+      return { fps, maxWidth: 480, maxHeight: Infinity }
+    case 'custom':
+      return { fps, maxWidth: settings.customWidth, maxHeight: settings.customHeight }
+    default:
+      return { fps, maxWidth: Infinity, maxHeight: Number(settings.resolution) }
+  }
+}
+
+// Rough x264 bitrates at CRF 23 for typical content
+const TYPICAL_VIDEO_KBPS: Record<string, number> = { '1080': 4500, '720': 2500, '480': 1000 }
+
+// LAME -V0..-V9 average bitrates
+const MP3_VBR_KBPS = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65]
+
+export interface SizeEstimate {
+  bytes: number
+  // Fixed-bitrate and PCM outputs are predictable; CRF, GIF and FLAC are guesses
+  approximate: boolean
+}
+
+export interface SourceStats {
+  duration?: number | null
+  size?: number
+}
+
+// Estimated output size for `duration` seconds of output
+export function estimateOutputSize(profile: OutputProfile, settings: EncodingSettings, duration: number, source: SourceStats = {}): SizeEstimate | null {
+  if (!(duration > 0)) return null
+
+  if (effectiveMode(profile, settings) === 'copy') {
+    // A copied clip is roughly its share of the source file
+    if (!source.size || !source.duration) return null
+    return { bytes: (source.size * duration) / source.duration, approximate: true }
+  }
+
+  const channels = settings.audioChannels === 'source' ? 2 : settings.audioChannels
+  const sampleRate = settings.audioSampleRate === 'source' ? 48000 : settings.audioSampleRate
+
+  switch (profile.encoder) {
+    case 'wav':
+      return { bytes: 44 + duration * sampleRate * channels * 2, approximate: false }
+    case 'flac':
+      return { bytes: duration * sampleRate * channels * 2 * 0.6, approximate: true }
+    case 'gif': {
+      // Assume 16:9; palettized frames LZW-compress to about a third of a byte per pixel
+      const { fps, maxWidth, maxHeight } = gifCaptureOptions(settings)
+      const width = Math.min(maxWidth, maxHeight * (16 / 9))
+      return { bytes: duration * fps * width * width * (9 / 16) * 0.35, approximate: true }
+    }
+  }
+
+  // The encode aims just under the target
+  if (isTwoPass(profile, settings)) return { bytes: settings.targetSize * 1024 * 1024, approximate: true }
+
+  let kbps = 0
+  let approximate = false
+  if (!profile.audioOnly) {
+    if (settings.videoRateControl === 'bitrate') {
+      kbps += settings.videoBitrate
+    } else {
+      const height = settings.resolution === 'custom' ? String(settings.customHeight) : settings.resolution
+      const base = TYPICAL_VIDEO_KBPS[height] ?? TYPICAL_VIDEO_KBPS['720']
+      // Every 6 CRF steps roughly halves or doubles the bitrate
+      kbps += base * 2 ** ((23 - settings.crf) / 6)
+      approximate = true
+    }
+  }
+  if (profile.audioCodec === 'libmp3lame' && settings.mp3Mode === 'vbr') {
+    kbps += MP3_VBR_KBPS[settings.mp3VbrQuality]
+    approximate = true
+  } else if (profile.audioCodec) {
+    kbps += settings.audioBitrate
+  }
+
+  return { bytes: (kbps * 1000 * duration) / 8, approximate }
+}
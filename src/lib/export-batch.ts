@@ -0,0 +1,42 @@
+import { isFinishedJob, type ExportBatch, type ExportJob } from './export-queue'
+import { createZip } from './zip'
+
+// Batches of queued exports that are delivered together as one ZIP
+
+export interface FinishedBatch {
+  batch: ExportBatch
+  jobs: ExportJob[]
+}
+
+let batchCounter = 0
+
+export function createExportBatch(name: string): ExportBatch {
+  batchCounter += 1
+  return { id: `batch-${Date.now().toString(36)}-${batchCounter}`, name }
+}
+
+// Batches whose jobs have all finished, in queue order
+export function finishedBatches(jobs: ExportJob[]): FinishedBatch[] {
+  const batches = new Map<string, FinishedBatch>()
+  for (const job of jobs) {
+    const batch = job.request.batch
+    if (!batch) continue
+    const entry = batches.get(batch.id) ?? { batch, jobs: [] }
+    entry.jobs.push(job)
+    batches.set(batch.id, entry)
+  }
+  return [...batches.values()].filter(entry => entry.jobs.every(isFinishedJob))
+}
+
+// One archive of the batch's successful exports and their sidecars; null when
+// none succeeded
+export async function zipBatchResults(jobs: ExportJob[]): Promise<Blob | null> {
+  const done = jobs.filter(job => job.status === 'done' && job.result)
+  if (done.length === 0) return null
+  const entries = await Promise.all(done.flatMap((job) => {
+    const modified = job.finishedAt !== null ? new Date(job.finishedAt) : undefined
+    const files = [{ filename: job.request.filename, data: job.result! }, ...(job.request.sidecars ?? [])]
+    return files.map(async ({ filename, data }) => ({ name: filename, data: new Uint8Array(await data.arrayBuffer()), modified }))
+  }))
+  return new Blob([createZip(entries)], { type: 'application/zip' })
+}
@@ -0,0 +1,241 @@
+import type { AudioEffect } from './audio-effects'
+import { renderAudioEffects } from './audio-effects-render'
+import { DEFAULT_ENCODING_SETTINGS, effectiveMode, gifCaptureOptions, isTwoPass, resolveTargetSize, type EncodingSettings } from './encoding-settings'
+import type { PictureEdits, TimeRange } from './ffmpeg'
+import { getOutputProfile, isFfmpegEncoder, type OutputFormat } from './output-formats'
+import { renderOverlayImages } from './overlay-render'
+import type { OverlaySpan } from './overlays'
+import { decodePcm, PCM_SAMPLE_RATE, pcmDuration, remixPcm, slicePcm, type PcmAudio } from './pcm'
+import { resolveCropPath, type Reframe } from './reframe'
+import { totalDuration } from './segments'
+import { captureClipFrames } from './thumbnails'
+import { readVideoSize } from './video-info'
+import { encodeWav } from './wav'
+import type { ExportWorkerRequest, ExportWorkerResponse } from '../workers/export.worker'
+
+export interface WorkerRunOptions {
+  // Aborting terminates the worker mid-encode and rejects with an AbortError
+  signal?: AbortSignal
+  onProgress?: (ratio: number) => void
+  onLog?: (line: string) => void
+}
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError')
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Run one request in a dedicated worker so encoding never blocks the UI
+function runInWorker(request: ExportWorkerRequest, transfer: Transferable[], options: WorkerRunOptions = {}): Promise<Blob> {
+  const { signal, onProgress, onLog } = options
+  if (signal?.aborted) return Promise.reject(abortError())
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/export.worker.ts', import.meta.url), { type: 'module' })
+
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+
+    // ffmpeg.js runs synchronously inside the worker, so terminating is the only way to stop it
+    const handleAbort = () => {
+      finish()
+      reject(abortError())
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      const message = event.data
+      if (message.type === 'log') {
+        onLog?.(message.line)
+        return
+      }
+      if (message.type === 'progress') {
+        onProgress?.(message.ratio)
+        return
+      }
+      finish()
+      if (message.type === 'done') {
+        resolve(new Blob([message.data], { type: message.mimeType }))
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Export worker crashed'))
+    }
+
+    worker.postMessage(request, transfer)
+  })
+}
+
+// A single source file, or separately fetched video-only and audio-only streams
+export type ExportSource = Blob | { video: Blob; audio: Blob }
+
+export interface ExportOptions extends WorkerRunOptions {
+  // Text to burn into ffmpeg video exports
+  overlays?: OverlaySpan[]
+  // Crop ffmpeg video exports to another aspect ratio
+  reframe?: Reframe
+  // Processing for audio-only exports
+  audioEffects?: AudioEffect[]
+}
+
+// Resolve the crop and render the spans at the cropped picture size; ffmpeg
+// scales afterwards. `frame` is the picture size going into the encoder.
+const preparePicture = async (video: Blob, spans: OverlaySpan[], reframe: Reframe | undefined): Promise<{ edits: PictureEdits; frame: { width: number; height: number } }> => {
+  const url = URL.createObjectURL(video)
+  try {
+    const size = await readVideoSize(url)
+    if (!size) throw new Error('This source has no picture to reframe, put text on or fit to a size')
+    const crop = reframe ? resolveCropPath(reframe, size.width, size.height) ?? undefined : undefined
+    const frame = crop ?? size
+    const overlays = spans.length > 0 ? await renderOverlayImages(spans, frame.width, frame.height) : []
+    return { edits: { crop, overlays }, frame: { width: frame.width, height: frame.height } }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Map a stage's 0..1 progress into its slice of the whole job
+const stage = (onProgress: ((ratio: number) => void) | undefined, from: number, to: number) => {
+  return (ratio: number) => onProgress?.(from + ratio * (to - from))
+}
+
+// The intermediate clip is AAC at the highest bitrate the encoder offers,
+// which is transparent; the export encodes it again anyway
+const CLIP_AUDIO_SETTINGS: EncodingSettings = { ...DEFAULT_ENCODING_SETTINGS, audioBitrate: 320 }
+
+// Decode only the audio of `ranges`, joined in order. ffmpeg cuts them out of
+// the source in a worker first, so a long source is never held in memory as
+// floats and the main thread only decodes the clip.
+export async function decodeClipAudio(
+  source: ExportSource,
+  ranges: TimeRange[],
+  sampleRate = PCM_SAMPLE_RATE,
+  options: WorkerRunOptions = {}
+): Promise<PcmAudio> {
+  const buffer = await (source instanceof Blob ? source : source.audio).arrayBuffer()
+  const clip = await runInWorker(
+    { kind: 'ffmpeg', input: new Uint8Array(buffer), ranges, format: 'm4a', settings: CLIP_AUDIO_SETTINGS, edits: {} },
+    [buffer],
+    options
+  )
+  // Encoder padding can leave a few extra samples at the end
+  return slicePcm(await decodePcm(clip, sampleRate), [{ start: 0, end: totalDuration(ranges) }])
+}
+
+// Decode the clip's audio and remix it as the settings ask
+const decodeClip = async (source: ExportSource, ranges: TimeRange[], settings: EncodingSettings, options: WorkerRunOptions): Promise<PcmAudio> => {
+  const sampleRate = settings.audioSampleRate === 'source' ? PCM_SAMPLE_RATE : settings.audioSampleRate
+  const decoded = await decodeClipAudio(source, ranges, sampleRate, options)
+  return settings.audioChannels === 'source' ? decoded : remixPcm(decoded, settings.audioChannels)
+}
+
+// Audio-only export through the effects chain: the clip is processed with Web
+// Audio here, then handed to the worker as PCM, or as a WAV for ffmpeg to encode
+const exportProcessedAudio = async (
+  source: ExportSource,
+  ranges: TimeRange[],
+  format: OutputFormat,
+  settings: EncodingSettings,
+  effects: AudioEffect[],
+  options: WorkerRunOptions
+): Promise<Blob> => {
+  const { signal, onProgress } = options
+  const profile = getOutputProfile(format)
+  if (effectiveMode(profile, settings) === 'copy') throw new Error('Audio effects need re-encoding; switch off stream copy')
+
+  const clip = await decodeClip(source, ranges, settings, { ...options, onProgress: stage(onProgress, 0, 0.3) })
+  const audio = await renderAudioEffects(clip, effects)
+  if (signal?.aborted) throw abortError()
+  onProgress?.(0.4)
+  const rest = { ...options, onProgress: stage(onProgress, 0.4, 1) }
+
+  if (isFfmpegEncoder(profile.encoder)) {
+    const wav = encodeWav(audio)
+    return runInWorker(
+      { kind: 'ffmpeg', input: wav, ranges: [{ start: 0, end: pcmDuration(audio) }], format, settings, edits: {} },
+      [wav.buffer],
+      rest
+    )
+  }
+  return runInWorker({ kind: 'pcm', audio, format }, audio.channels.map(channel => channel.buffer), rest)
+}
+
+// Cut `ranges` out of the source, join them in order and encode them with the
+// profile's encoder
+export async function exportInWorker(
+  source: ExportSource,
+  ranges: TimeRange[],
+  format: OutputFormat,
+  settings: EncodingSettings,
+  options: ExportOptions = {}
+): Promise<Blob> {
+  const { signal, onProgress } = options
+  const profile = getOutputProfile(format)
+
+  if (profile.audioOnly && options.audioEffects && options.audioEffects.length > 0) {
+    return exportProcessedAudio(source, ranges, format, settings, options.audioEffects, options)
+  }
+
+  if (isFfmpegEncoder(profile.encoder)) {
+    const spans = profile.audioOnly ? [] : options.overlays ?? []
+    const reframe = profile.audioOnly || options.reframe?.aspect === 'source' ? undefined : options.reframe
+    const twoPass = isTwoPass(profile, settings)
+    const picture = spans.length > 0 || reframe || twoPass
+      ? await preparePicture(source instanceof Blob ? source : source.video, spans, reframe)
+      : null
+    if (signal?.aborted) throw abortError()
+    const edits = picture?.edits ?? {}
+    // Every output gets the whole budget, however many parts it joins
+    const encode = twoPass && picture ? resolveTargetSize(profile, settings, totalDuration(ranges), picture.frame) : settings
+    const overlayBuffers = (edits.overlays ?? []).map(overlay => overlay.data.buffer)
+
+    if (source instanceof Blob) {
+      const buffer = await source.arrayBuffer()
+      return runInWorker({ kind: 'ffmpeg', input: new Uint8Array(buffer), ranges, format, settings: encode, edits }, [buffer, ...overlayBuffers], options)
+    }
+    const [video, audio] = await Promise.all([source.video.arrayBuffer(), source.audio.arrayBuffer()])
+    return runInWorker(
+      { kind: 'ffmpeg', input: { video: new Uint8Array(video), audio: new Uint8Array(audio) }, ranges, format, settings: encode, edits },
+      [video, audio, ...overlayBuffers],
+      options
+    )
+  }
+
+  // GIFs only need the picture and PCM formats only the sound
+  if (profile.encoder === 'gif') {
+    const url = URL.createObjectURL(source instanceof Blob ? source : source.video)
+    const { fps, maxWidth, maxHeight } = gifCaptureOptions(settings)
+    try {
+      const clip = await captureClipFrames(url, ranges, {
+        fps,
+        maxWidth,
+        maxHeight,
+        signal,
+        onProgress: stage(onProgress, 0, 0.6)
+      })
+      return await runInWorker(
+        { kind: 'gif', ...clip, fps },
+        clip.frames.map(frame => frame.buffer),
+        { ...options, onProgress: stage(onProgress, 0.6, 1) }
+      )
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  const audio = await decodeClip(source, ranges, settings, { ...options, onProgress: stage(onProgress, 0, 0.3) })
+  if (signal?.aborted) throw abortError()
+  onProgress?.(0.3)
+  return runInWorker(
+    { kind: 'pcm', audio, format },
+    audio.channels.map(channel => channel.buffer),
+    { ...options, onProgress: stage(onProgress, 0.3, 1) }
+  )
+}
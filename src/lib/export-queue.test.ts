@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_ENCODING_SETTINGS } from './encoding-settings'
+import { createExportQueue, type ExportJobRequest, type ExportRunContext } from './export-queue'
+
+const request = (label: string): ExportJobRequest => ({
+  label,
+  filename: `${label}.mp4`,
+  source: new Blob(),
+  ranges: [{ start: 0, end: 1 }],
+  format: 'mp4',
+  settings: DEFAULT_ENCODING_SETTINGS
+})
+
+// A runner whose runs are settled by hand, in any order
+const createManualRunner = () => {
+  const runs: { label: string; context: ExportRunContext; resolve: (blob: Blob) => void; reject: (error: Error) => void }[] = []
+  const run = (job: ExportJobRequest, context: ExportRunContext) => new Promise<Blob>((resolve, reject) => {
+    runs.push({ label: job.label, context, resolve, reject })
+  })
+  return { runs, run }
+}
+
+// Let promise callbacks and their finally handlers run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('createExportQueue', () => {
+  it('runs jobs up to the concurrency limit, oldest first', async () => {
+    const { runs, run } = createManualRunner()
+    const onSettled = vi.fn()
+    const queue = createExportQueue({ run, onSettled })
+    const first = queue.enqueue(request('a'))
+    queue.enqueue(request('b'))
+    expect(runs.map(entry => entry.label)).toEqual(['a'])
+
+    runs[0].context.onProgress(1.5)
+    expect(queue.getJobs()[0].progress).toBe(1)
+
+    runs[0].resolve(new Blob(['done']))
+    await settle()
+    expect(queue.getJobs().map(job => job.status)).toEqual(['done', 'running'])
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: first.id, status: 'done' }))
+    expect(runs.map(entry => entry.label)).toEqual(['a', 'b'])
+  })
+
+  it('reports failures with the error message', async () => {
+    const { runs, run } = createManualRunner()
+    const queue = createExportQueue({ run })
+    queue.enqueue(request('a'))
+    runs[0].reject(new Error('encoder exploded'))
+    await settle()
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'failed', error: 'encoder exploded' })
+  })
+
+  it('ignores a cancelled run that settles after its retry started', async () => {
+    const { runs, run } = createManualRunner()
+    const onSettled = vi.fn()
+    const queue = createExportQueue({ run, onSettled })
+    const job = queue.enqueue(request('a'))
+    queue.enqueue(request('b'))
+
+    queue.cancel(job.id)
+    // Cancelling frees the slot for b; retrying queues a behind it
+    queue.retry(job.id)
+    expect(runs.map(entry => entry.label)).toEqual(['a', 'b'])
+    queue.setConcurrency(2)
+    expect(runs.map(entry => entry.label)).toEqual(['a', 'b', 'a'])
+    const [stale, , retried] = runs
+    expect(stale.context.signal.aborted).toBe(true)
+
+    stale.reject(new Error('aborted'))
+    await settle()
+    // The stale run neither touched the retried job nor kept its controller
+    expect(queue.getJobs()[0].status).toBe('running')
+    expect(onSettled).not.toHaveBeenCalled()
+
+    retried.context.onProgress(0.5)
+    expect(queue.getJobs()[0].progress).toBe(0.5)
+    queue.cancel(job.id)
+    expect(retried.context.signal.aborted).toBe(true)
+  })
+
+  it('settles the retried run normally', async () => {
+    const { runs, run } = createManualRunner()
+    const onSettled = vi.fn()
+    const queue = createExportQueue({ run, onSettled })
+    const job = queue.enqueue(request('a'))
+    queue.cancel(job.id)
+    queue.retry(job.id)
+    const [stale, retried] = runs
+
+    retried.resolve(new Blob(['new']))
+    await settle()
+    stale.resolve(new Blob(['old']))
+    await settle()
+    expect(queue.getJobs()[0].status).toBe('done')
+    expect(await queue.getJobs()[0].result?.text()).toBe('new')
+    expect(onSettled).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses jobs without ranges', () => {
+    const queue = createExportQueue({ run: createManualRunner().run })
+    expect(() => queue.enqueue({ ...request('a'), ranges: [] })).toThrow(/no segments selected/)
+  })
+})
@@ -0,0 +1,230 @@
+import type { EncodingSettings } from './encoding-settings'
+import type { TimeRange } from './ffmpeg'
+import type { OutputFormat } from './output-formats'
+import type { AudioEffect } from './audio-effects'
+import type { CoverArt, MediaTags } from './media-tags'
+import type { OverlaySpan } from './overlays'
+import type { Reframe } from './reframe'
+
+// Framework-free export queue. Jobs are immutable snapshots: every change
+// replaces the job object and the jobs array, so the list can be fed straight
+// into useSyncExternalStore. The actual encoding is injected as `run`.
+
+export type ExportJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+// Jobs queued together and delivered as one ZIP instead of one file each
+export interface ExportBatch {
+  id: string
+  // Archive name without the .zip extension
+  name: string
+}
+
+// Small companion file saved next to the export, such as its captions
+export interface ExportSidecar {
+  filename: string
+  data: Blob
+}
+
+export interface ExportJobRequest {
+  label: string
+  filename: string
+  // Source bytes, or a URL that is fetched when the job starts
+  source: Blob | string
+  // Separate audio-only stream merged with a video-only `source`
+  audioSource?: Blob | string
+  // One range is a plain trim; several are joined into one file
+  ranges: TimeRange[]
+  format: OutputFormat
+  settings: EncodingSettings
+  batch?: ExportBatch
+  sidecars?: ExportSidecar[]
+  // Text burned into the picture, timed on the output
+  overlays?: OverlaySpan[]
+  // Crop to another aspect ratio, keyed on the source timeline
+  reframe?: Reframe
+  // Effects chain for audio-only exports
+  audioEffects?: AudioEffect[]
+  // Title, artist and cover written into the finished file
+  tags?: MediaTags
+  cover?: CoverArt
+}
+
+export interface ExportJob {
+  id: string
+  request: ExportJobRequest
+  status: ExportJobStatus
+  // 0..1
+  progress: number
+  error: string | null
+  result: Blob | null
+  createdAt: number
+  finishedAt: number | null
+}
+
+export interface ExportRunContext {
+  signal: AbortSignal
+  onProgress: (ratio: number) => void
+}
+
+export type ExportRunner = (request: ExportJobRequest, context: ExportRunContext) => Promise<Blob>
+
+export interface ExportQueueOptions {
+  run: ExportRunner
+  concurrency?: number
+  // Called once per job when it reaches done or failed; not for cancellations
+  onSettled?: (job: ExportJob) => void
+}
+
+export interface ExportQueue {
+  getJobs: () => ExportJob[]
+  subscribe: (listener: () => void) => () => void
+  enqueue: (request: ExportJobRequest) => ExportJob
+  cancel: (id: string) => void
+  retry: (id: string) => void
+  remove: (id: string) => void
+  clearFinished: () => void
+  getConcurrency: () => number
+  setConcurrency: (concurrency: number) => void
+}
+
+export const DEFAULT_EXPORT_CONCURRENCY = 1
+export const MAX_EXPORT_CONCURRENCY = 4
+
+const FINISHED_STATUSES: ExportJobStatus[] = ['done', 'failed', 'cancelled']
+
+export function isFinishedJob(job: ExportJob): boolean {
+  return FINISHED_STATUSES.includes(job.status)
+}
+
+let jobCounter = 0
+
+const createJobId = (): string => {
+  jobCounter += 1
+  return `job-${Date.now().toString(36)}-${jobCounter}`
+}
+
+const clampConcurrency = (concurrency: number): number => {
+  if (!Number.isFinite(concurrency)) return DEFAULT_EXPORT_CONCURRENCY
+  return Math.min(Math.max(Math.round(concurrency), 1), MAX_EXPORT_CONCURRENCY)
+}
+
+export function createExportQueue(options: ExportQueueOptions): ExportQueue {
+  const { run, onSettled } = options
+  let concurrency = clampConcurrency(options.concurrency ?? DEFAULT_EXPORT_CONCURRENCY)
+  let jobs: ExportJob[] = []
+  const controllers = new Map<string, AbortController>()
+  const listeners = new Set<() => void>()
+
+  const notify = () => listeners.forEach(listener => listener())
+
+  const findJob = (id: string) => jobs.find(job => job.id === id)
+
+  const updateJob = (id: string, changes: Partial<Omit<ExportJob, 'id'>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job))
+    notify()
+  }
+
+  const start = (job: ExportJob) => {
+    const controller = new AbortController()
+    controllers.set(job.id, controller)
+    updateJob(job.id, { status: 'running', progress: 0, error: null })
+
+    const context: ExportRunContext = {
+      signal: controller.signal,
+      onProgress: (ratio) => {
+        // Late progress from a job that was cancelled must not resurrect it
+        if (controller.signal.aborted) return
+        updateJob(job.id, { progress: Math.min(Math.max(ratio, 0), 1) })
+      }
+    }
+
+    run(job.request, context).then(
+      (result) => {
+        if (controller.signal.aborted) return
+        updateJob(job.id, { status: 'done', progress: 1, result, finishedAt: Date.now() })
+      },
+      (error: unknown) => {
+        if (controller.signal.aborted) return
+        const message = error instanceof Error ? error.message : String(error)
+        updateJob(job.id, { status: 'failed', error: message, finishedAt: Date.now() })
+      }
+    ).finally(() => {
+      // A cancelled run may settle after a retry started the job again; that
+      // newer run owns the controller slot and the follow-up work
+      if (controllers.get(job.id) !== controller) return
+      controllers.delete(job.id)
+      const settled = findJob(job.id)
+      if (settled && !controller.signal.aborted) onSettled?.(settled)
+      pump()
+    })
+  }
+
+  // Start queued jobs, oldest first, until the concurrency limit is reached
+  const pump = () => {
+    let running = jobs.filter(job => job.status === 'running').length
+    for (const job of jobs) {
+      if (running >= concurrency) break
+      if (job.status !== 'queued') continue
+      start(job)
+      running += 1
+    }
+  }
+
+  return {
+    getJobs: () => jobs,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    enqueue: (request) => {
+      if (request.ranges.length === 0) throw new Error('Nothing to export: no segments selected')
+      const job: ExportJob = {
+        id: createJobId(),
+        request,
+        status: 'queued',
+        progress: 0,
+        error: null,
+        result: null,
+        createdAt: Date.now(),
+        finishedAt: null
+      }
+      jobs = [...jobs, job]
+      notify()
+      pump()
+      return findJob(job.id) ?? job
+    },
+    cancel: (id) => {
+      const job = findJob(id)
+      if (!job || isFinishedJob(job)) return
+      controllers.get(id)?.abort()
+      controllers.delete(id)
+      updateJob(id, { status: 'cancelled', finishedAt: Date.now() })
+      pump()
+    },
+    retry: (id) => {
+      const job = findJob(id)
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return
+      updateJob(id, { status: 'queued', progress: 0, error: null, result: null, finishedAt: null })
+      pump()
+    },
+    remove: (id) => {
+      const job = findJob(id)
+      if (!job) return
+      controllers.get(id)?.abort()
+      controllers.delete(id)
+      jobs = jobs.filter(other => other.id !== id)
+      notify()
+      pump()
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(job => !isFinishedJob(job))
+      notify()
+    },
+    getConcurrency: () => concurrency,
+    setConcurrency: (next) => {
+      concurrency = clampConcurrency(next)
+      notify()
+      pump()
+    }
+  }
+}
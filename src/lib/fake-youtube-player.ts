@@ -0,0 +1,73 @@
+import { createListeners, PlayerState, type PlayerBridge, type PlayerStateValue } from './youtube-player'
+
+export interface FakePlayer extends PlayerBridge {
+  // Finish the simulated handshake
+  emitReady: () => void
+  // Move the clock forward as if the video had played for `seconds`
+  advance: (seconds: number) => void
+  setState: (state: PlayerStateValue) => void
+  readonly calls: string[]
+}
+
+// In-memory PlayerBridge for tests and offline development
+export function createFakePlayer(options: { duration?: number; ready?: boolean } = {}): FakePlayer {
+  let ready = options.ready ?? true
+  let state: PlayerStateValue = PlayerState.UNSTARTED
+  let currentTime = 0
+  const duration = options.duration ?? null
+  const calls: string[] = []
+
+  const readyListeners = createListeners<void>()
+  const stateListeners = createListeners<PlayerStateValue>()
+  const timeListeners = createListeners<number>()
+  const durationListeners = createListeners<number>()
+
+  const setState = (next: PlayerStateValue) => {
+    if (next === state) return
+    state = next
+    stateListeners.emit(state)
+  }
+
+  const setTime = (seconds: number) => {
+    currentTime = duration !== null ? Math.min(Math.max(seconds, 0), duration) : Math.max(seconds, 0)
+    timeListeners.emit(currentTime)
+    if (duration !== null && currentTime >= duration) setState(PlayerState.ENDED)
+  }
+
+  return {
+    calls,
+    play: () => {
+      calls.push('play')
+      setState(PlayerState.PLAYING)
+    },
+    pause: () => {
+      calls.push('pause')
+      setState(PlayerState.PAUSED)
+    },
+    seekTo: (seconds) => {
+      calls.push(`seekTo:${seconds}`)
+      setTime(seconds)
+    },
+    getCurrentTime: () => currentTime,
+    getDuration: () => (ready ? duration : null),
+    getState: () => state,
+    isReady: () => ready,
+    onReady: readyListeners.add,
+    onStateChange: stateListeners.add,
+    onTimeUpdate: timeListeners.add,
+    onDurationChange: durationListeners.add,
+    destroy: () => {
+      calls.push('destroy')
+    },
+    emitReady: () => {
+      if (ready) return
+      ready = true
+      readyListeners.emit()
+      if (duration !== null) durationListeners.emit(duration)
+    },
+    advance: (seconds) => {
+      if (state === PlayerState.PLAYING) setTime(currentTime + seconds)
+    },
+    setState
+  }
+}
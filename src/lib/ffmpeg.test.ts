@@ -0,0 +1,134 @@
+import { readFileSync } from 'node:fs'
+import ffmpeg from 'ffmpeg.js/ffmpeg-mp4.js'
+import ffmpegWebm from 'ffmpeg.js/ffmpeg-webm.js'
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_ENCODING_SETTINGS } from './encoding-settings'
+import { buildConcatList, concatMedia, parseProgressTime, trimMedia, type PictureEdits } from './ffmpeg'
+import { resolveCropPath } from './reframe'
+
+// 3.05 s, 64x64 at 10 fps, H.264 with AAC audio
+const SAMPLE = new Uint8Array(readFileSync(new URL('../../server/fixtures/sample.mp4', import.meta.url)))
+
+// ffmpeg.js runs the whole encoder in WebAssembly
+const ENCODE_TIMEOUT = 120_000
+
+// Duration, stream codecs and picture size as ffmpeg itself reads them back
+const probe = (data: Uint8Array, module = ffmpeg) => {
+  const log: string[] = []
+  module({ arguments: ['-hide_banner', '-i', 'probe'], MEMFS: [{ name: 'probe', data }], print: line => log.push(line), printErr: line => log.push(line) })
+  const duration = log.join('\n').match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/)
+  const streams = log.map(line => line.match(/Stream #\d+:\d+.*?: (Video|Audio): (\w+)/)).filter(match => match !== null)
+  const size = log.find(line => / Video: /.test(line))?.match(/, (\d+)x(\d+)/)
+  return {
+    duration: duration ? Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]) : null,
+    streams: streams.map(match => `${match[1].toLowerCase()}:${match[2]}`),
+    size: size ? `${size[1]}x${size[2]}` : null
+  }
+}
+
+// Audio encoders pad the stream with a frame or two of priming samples
+const expectDuration = (actual: number | null, expected: number) => {
+  expect(actual).not.toBeNull()
+  expect(Math.abs(actual! - expected)).toBeLessThan(0.15)
+}
+
+describe('trimMedia', () => {
+  it('re-encodes a range of the fixture to MP4', () => {
+    const progress: number[] = []
+    const result = trimMedia(ffmpeg, SAMPLE, { start: 0.5, end: 2.5, format: 'mp4', settings: DEFAULT_ENCODING_SETTINGS }, { onProgress: ratio => progress.push(ratio) })
+    expect(result.mimeType).toBe('video/mp4')
+    const { duration, streams } = probe(result.data)
+    expectDuration(duration, 2)
+    expect(streams).toEqual(['video:h264', 'audio:aac'])
+    expect(progress.length).toBeGreaterThan(0)
+    expect(progress).toEqual([...progress].sort((a, b) => a - b))
+    expect(progress.at(-1)).toBeLessThanOrEqual(1)
+  }, ENCODE_TIMEOUT)
+
+  it('scales down to a preset but never up', () => {
+    const trim = (settings: Partial<typeof DEFAULT_ENCODING_SETTINGS>, edits: PictureEdits = {}) => {
+      return probe(trimMedia(ffmpeg, SAMPLE, { start: 0, end: 0.5, format: 'mp4', settings: { ...DEFAULT_ENCODING_SETTINGS, ...settings }, ...edits }).data).size
+    }
+    expect(trim({ resolution: '480' })).toBe('64x64')
+    expect(trim({ resolution: 'custom', customWidth: 32, customHeight: 32 })).toBe('32x32')
+    // After a crop the preset applies to the cropped picture
+    expect(trim({ resolution: '480' }, { crop: { width: 32, height: 64, points: [{ time: 0, x: 16, y: 0 }] } })).toBe('32x64')
+  }, ENCODE_TIMEOUT)
+
+  it('pans a crop window between two keyframes', () => {
+    // 9:16 of the 64x64 fixture, panning from the left edge to the right one
+    const crop = resolveCropPath({ aspect: '9:16', keyframes: [{ id: 'a', time: 0.5, x: 0, y: 0.5 }, { id: 'b', time: 1.5, x: 1, y: 0.5 }] }, 64, 64)!
+    expect(crop.points).toEqual([{ time: 0.5, x: 0, y: 0 }, { time: 1.5, x: 28, y: 0 }])
+    const result = trimMedia(ffmpeg, SAMPLE, { start: 0, end: 2, format: 'mp4', settings: DEFAULT_ENCODING_SETTINGS, crop })
+    const { duration, size } = probe(result.data)
+    expectDuration(duration, 2)
+    expect(size).toBe('36x64')
+  }, ENCODE_TIMEOUT)
+
+  it.each([
+    ['mp4', ffmpeg, ['video:h264', 'audio:aac']],
+    ['webm', ffmpegWebm, ['video:vp8', 'audio:opus']]
+  ] as const)('fits %s to a size in two passes', (format, module, expected) => {
+    const settings = { ...DEFAULT_ENCODING_SETTINGS, videoRateControl: 'size' as const, videoBitrate: 100, audioBitrate: 32 }
+    const result = trimMedia(module, SAMPLE, { start: 0, end: 2, format, settings })
+    const { duration, streams } = probe(result.data, module)
+    expectDuration(duration, 2)
+    expect(streams).toEqual(expected)
+  }, ENCODE_TIMEOUT)
+
+  it('copies streams without re-encoding', () => {
+    const result = trimMedia(ffmpeg, SAMPLE, { start: 1, end: 2, format: 'mp4', settings: { ...DEFAULT_ENCODING_SETTINGS, mode: 'copy' } })
+    const { duration, streams } = probe(result.data)
+    // Stream copy can only cut at keyframes, so the length is approximate
+    expect(duration).toBeGreaterThan(0.5)
+    expect(duration).toBeLessThan(2.5)
+    expect(streams).toEqual(['video:h264', 'audio:aac'])
+  }, ENCODE_TIMEOUT)
+
+  it('keeps only the audio for MP3', () => {
+    const result = trimMedia(ffmpeg, SAMPLE, { start: 0, end: 1.5, format: 'mp3', settings: DEFAULT_ENCODING_SETTINGS })
+    expect(result.mimeType).toBe('audio/mpeg')
+    const { duration, streams } = probe(result.data)
+    expectDuration(duration, 1.5)
+    expect(streams).toEqual(['audio:mp3'])
+  }, ENCODE_TIMEOUT)
+
+  it('reports ffmpeg failures with the end of its log', () => {
+    expect(() => trimMedia(ffmpeg, Uint8Array.of(1, 2, 3), { start: 0, end: 1, format: 'mp4' })).toThrow(/ffmpeg failed with exit code 1/)
+  }, ENCODE_TIMEOUT)
+})
+
+describe('concatMedia', () => {
+  it('joins several ranges of the fixture in order', () => {
+    const progress: number[] = []
+    const ranges = [{ start: 0, end: 1 }, { start: 2, end: 3 }]
+    const result = concatMedia(ffmpeg, SAMPLE, ranges, 'mp4', DEFAULT_ENCODING_SETTINGS, { onProgress: ratio => progress.push(ratio) })
+    const { duration, streams } = probe(result.data)
+    expectDuration(duration, 2)
+    expect(streams).toEqual(['video:h264', 'audio:aac'])
+    expect(progress).toEqual([...progress].sort((a, b) => a - b))
+  }, ENCODE_TIMEOUT)
+
+  it('cuts only the audio of the ranges to M4A', () => {
+    const result = concatMedia(ffmpeg, SAMPLE, [{ start: 0.5, end: 1 }, { start: 2, end: 3 }], 'm4a', { ...DEFAULT_ENCODING_SETTINGS, audioBitrate: 320 })
+    expect(result.mimeType).toBe('audio/mp4')
+    const { duration, streams } = probe(result.data)
+    expectDuration(duration, 1.5)
+    expect(streams).toEqual(['audio:aac'])
+  }, ENCODE_TIMEOUT)
+
+  it('refuses an empty selection', () => {
+    expect(() => concatMedia(ffmpeg, SAMPLE, [], 'mp4')).toThrow(/no segments selected/)
+  })
+})
+
+describe('helpers', () => {
+  it('reads progress times from ffmpeg log lines', () => {
+    expect(parseProgressTime('frame=  20 fps=0.0 q=-1.0 size=  12kB time=00:01:02.50 bitrate= 1.2kbits/s')).toBeCloseTo(62.5)
+    expect(parseProgressTime('Stream mapping:')).toBeNull()
+  })
+
+  it('writes a concat demuxer playlist', () => {
+    expect(buildConcatList(['part0.mp4', 'part1.mp4'])).toBe("file 'part0.mp4'\nfile 'part1.mp4'\n")
+  })
+})
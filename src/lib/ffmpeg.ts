@@ -0,0 +1,307 @@
+import { buildEncodingArguments, DEFAULT_ENCODING_SETTINGS, effectiveMode, isTwoPass, scaleFilter, type EncodingSettings } from './encoding-settings'
+import { getOutputProfile, isFfmpegEncoder, type OutputFormat, type OutputProfile } from './output-formats'
+import { buildCropFilter, type CropPath } from './reframe'
+
+// Thin, environment-agnostic layer over the ffmpeg.js builds. Nothing in here
+// touches the DOM, so the same code runs inside the Web Worker and in Node.
+
+export interface MemfsFile {
+  name: string
+  data: Uint8Array
+}
+
+export interface FfmpegRunOptions {
+  arguments: string[]
+  MEMFS?: MemfsFile[]
+  print?: (line: string) => void
+  printErr?: (line: string) => void
+  onExit?: (code: number) => void
+}
+
+export interface FfmpegResult {
+  MEMFS: MemfsFile[]
+}
+
+// Signature shared by ffmpeg.js/ffmpeg-mp4.js and ffmpeg.js/ffmpeg-webm.js
+export type FfmpegModule = (options: FfmpegRunOptions) => FfmpegResult
+
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+// One file with every track, or a video-only and an audio-only stream to merge
+export type MediaInput = Uint8Array | { video: Uint8Array; audio: Uint8Array }
+
+// PNG laid over the picture between `start` and `end` of the output, with its
+// top-left corner at x, y in pixels of the (cropped, unscaled) frame
+export interface OverlayImage extends TimeRange {
+  x: number
+  y: number
+  data: Uint8Array
+}
+
+// Changes to the picture itself; ignored for audio-only formats
+export interface PictureEdits {
+  // Crop path on the source timeline, applied first
+  crop?: CropPath
+  // Burned in after cropping
+  overlays?: OverlayImage[]
+}
+
+export interface TrimOptions extends TimeRange, PictureEdits {
+  format: OutputFormat
+  // Profile defaults when omitted
+  settings?: EncodingSettings
+  // Which half of a two-pass encode to build; the first writes only the stats log
+  pass?: 1 | 2
+}
+
+export interface TrimResult {
+  data: Uint8Array
+  mimeType: string
+}
+
+export interface FfmpegCallbacks {
+  onLog?: (line: string) => void
+  // Fraction of the whole job that is done, 0..1
+  onProgress?: (ratio: number) => void
+}
+
+const INPUT_NAME = 'input'
+const AUDIO_INPUT_NAME = 'audio-input'
+// The first pass writes <name>-0.log (and x264's .mbtree) for the second to read
+const PASS_LOG_NAME = 'pass'
+
+const overlayInputName = (index: number) => `overlay${index}.png`
+
+// Matches the stats line ("time=00:01:02.50") as well as -progress output
+// ("out_time=00:01:02.500000"); the stats line may hold several \r-joined updates
+const PROGRESS_TIME = /time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g
+
+// Latest output timestamp reported on an ffmpeg log line, in seconds
+export function parseProgressTime(line: string): number | null {
+  let seconds: number | null = null
+  for (const match of line.matchAll(PROGRESS_TIME)) {
+    seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])
+  }
+  return seconds
+}
+
+// ffmpeg expects plain decimal seconds; trim float noise from slider values
+const formatSeconds = (seconds: number): string => {
+  return Number(seconds.toFixed(3)).toString()
+}
+
+const ffmpegProfile = (format: OutputFormat): OutputProfile => {
+  const profile = getOutputProfile(format)
+  if (!isFfmpegEncoder(profile.encoder)) throw new Error(`${profile.label} is not encoded with ffmpeg`)
+  return profile
+}
+
+// Crop the first input's picture, chain one overlay filter per image over it,
+// each enabled only for its stretch, then scale the result
+const buildPictureGraph = (edits: PictureEdits, start: number, firstOverlayInput: number, settings: EncodingSettings): string => {
+  const steps = edits.crop ? [`[0:v]${buildCropFilter(edits.crop, start)}[o0]`] : []
+  const base = edits.crop ? '[o0]' : '[0:v]'
+  const overlays = edits.overlays ?? []
+  overlays.forEach((overlay, index) => {
+    const enable = `between(t,${formatSeconds(overlay.start)},${formatSeconds(overlay.end)})`
+    steps.push(`${index === 0 ? base : `[o${index}]`}[${firstOverlayInput + index}:v]overlay=${overlay.x}:${overlay.y}:enable='${enable}'[o${index + 1}]`)
+  })
+  const last = overlays.length > 0 ? `[o${overlays.length}]` : base
+  steps.push(`${last}${scaleFilter(settings) ?? 'null'}[video]`)
+  return steps.join(';')
+}
+
+// Build the ffmpeg command line that cuts [start, end) and re-encodes it.
+// With `audioInputName` the video comes from the first input and the audio
+// from the second; overlay images follow as inputs named overlay<N>.png.
+export function buildTrimArguments(inputName: string, outputName: string, options: TrimOptions, audioInputName?: string): string[] {
+  const { start, end, format, settings = DEFAULT_ENCODING_SETTINGS } = options
+  const profile = ffmpegProfile(format)
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+    throw new Error(`Invalid trim range: ${start} - ${end}`)
+  }
+  const overlays = profile.audioOnly ? [] : options.overlays ?? []
+  const crop = profile.audioOnly ? undefined : options.crop
+  const editsPicture = overlays.length > 0 || crop !== undefined
+  if (editsPicture && effectiveMode(profile, settings) === 'copy') {
+    throw new Error('Reframing and burned-in text need re-encoding; switch off stream copy')
+  }
+
+  // Input seeking is fast and, when re-encoding, still frame accurate; with
+  // stream copy the cut snaps to the keyframe before `start`.
+  // -progress emits newline-terminated out_time= lines that reach us live,
+  // unlike the \r-refreshed stats line which is only flushed at exit.
+  const args = ['-hide_banner', '-nostdin', '-progress', '/dev/stderr', '-ss', formatSeconds(start), '-i', inputName]
+  if (audioInputName) args.push('-ss', formatSeconds(start), '-i', audioInputName)
+
+  if (editsPicture) {
+    // One still frame each; overlay keeps showing it until it is disabled
+    overlays.forEach((_, index) => args.push('-f', 'image2', '-i', overlayInputName(index)))
+    const graph = buildPictureGraph({ crop, overlays }, start, audioInputName ? 2 : 1, settings)
+    args.push('-filter_complex', graph, '-map', '[video]', '-map', audioInputName ? '1:a:0' : '0:a?')
+  } else if (audioInputName) {
+    args.push(...(profile.audioOnly ? [] : ['-map', '0:v:0']), '-map', '1:a:0')
+  }
+  args.push('-t', formatSeconds(end - start))
+
+  args.push(...buildEncodingArguments(profile, settings, { scale: !editsPicture }))
+  if (options.pass) args.push('-pass', String(options.pass), '-passlogfile', PASS_LOG_NAME)
+  if (options.pass === 1) {
+    // Analysis only: no audio and nothing written but the log
+    args.push('-an', '-f', 'null', '-y', '/dev/null')
+  } else {
+    args.push('-f', profile.container, '-y', outputName)
+  }
+  return args
+}
+
+// Concat demuxer playlist; names never contain quotes since we pick them
+export function buildConcatList(names: string[]): string {
+  return names.map(name => `file '${name}'\n`).join('')
+}
+
+// Run one ffmpeg invocation and return the files it wrote, failing on a
+// non-zero exit
+function runFfmpeg(
+  ffmpeg: FfmpegModule,
+  args: string[],
+  inputs: MemfsFile[],
+  onLog?: (line: string) => void
+): MemfsFile[] {
+  const log: string[] = []
+  const collect = (line: string) => {
+    log.push(line)
+    onLog?.(line)
+  }
+
+  let exitCode = 0
+  const result = ffmpeg({
+    arguments: args,
+    MEMFS: inputs,
+    print: collect,
+    printErr: collect,
+    onExit: (code) => {
+      exitCode = code
+    }
+  })
+
+  if (exitCode !== 0) throw ffmpegError(exitCode, log)
+  return result.MEMFS
+}
+
+const ffmpegError = (exitCode: number, log: string[]) => {
+  const details = log.slice(-5).join('\n')
+  return new Error(`ffmpeg failed with exit code ${exitCode}${details ? `:\n${details}` : ''}`)
+}
+
+// Run one ffmpeg invocation and pull `outputName` out of its MEMFS
+function runForOutput(
+  ffmpeg: FfmpegModule,
+  args: string[],
+  inputs: MemfsFile[],
+  outputName: string,
+  onLog?: (line: string) => void
+): Uint8Array {
+  const log: string[] = []
+  const output = runFfmpeg(ffmpeg, args, inputs, (line) => {
+    log.push(line)
+    onLog?.(line)
+  }).find(file => file.name === outputName)
+  if (!output || output.data.length === 0) throw ffmpegError(0, log)
+  return output.data
+}
+
+const inputFiles = (input: MediaInput, overlays: OverlayImage[] = []): MemfsFile[] => {
+  const media = input instanceof Uint8Array
+    ? [{ name: INPUT_NAME, data: input }]
+    : [{ name: INPUT_NAME, data: input.video }, { name: AUDIO_INPUT_NAME, data: input.audio }]
+  return [...media, ...overlays.map((overlay, index) => ({ name: overlayInputName(index), data: overlay.data }))]
+}
+
+// The overlays that fall inside [offset, offset + length) of the output, timed
+// from the start of that part
+const overlaysForPart = (overlays: OverlayImage[], offset: number, length: number): OverlayImage[] => {
+  return overlays
+    .filter(overlay => overlay.end > offset && overlay.start < offset + length)
+    .map(overlay => ({ ...overlay, start: Math.max(overlay.start - offset, 0), end: Math.min(overlay.end - offset, length) }))
+}
+
+// Run a trim synchronously against the given ffmpeg.js build
+export function trimMedia(
+  ffmpeg: FfmpegModule,
+  input: MediaInput,
+  options: TrimOptions,
+  callbacks: FfmpegCallbacks = {}
+): TrimResult {
+  const profile = ffmpegProfile(options.format)
+  const outputName = `output.${profile.extension}`
+  const audioInputName = input instanceof Uint8Array ? undefined : AUDIO_INPUT_NAME
+  const inputs = inputFiles(input, profile.audioOnly ? [] : options.overlays)
+  const length = options.end - options.start
+
+  // Progress over [from, to) of this trim
+  const logger = (from: number, to: number) => (line: string) => {
+    callbacks.onLog?.(line)
+    const time = parseProgressTime(line)
+    if (time !== null && callbacks.onProgress) callbacks.onProgress(from + Math.min(time / length, 1) * (to - from))
+  }
+
+  if (!isTwoPass(profile, options.settings ?? DEFAULT_ENCODING_SETTINGS)) {
+    const data = runForOutput(ffmpeg, buildTrimArguments(INPUT_NAME, outputName, options, audioInputName), inputs, outputName, logger(0, 1))
+    return { data, mimeType: profile.mimeType }
+  }
+
+  const stats = runFfmpeg(ffmpeg, buildTrimArguments(INPUT_NAME, outputName, { ...options, pass: 1 }, audioInputName), inputs, logger(0, 0.5))
+    .filter(file => file.name.startsWith(PASS_LOG_NAME))
+  const args = buildTrimArguments(INPUT_NAME, outputName, { ...options, pass: 2 }, audioInputName)
+  const data = runForOutput(ffmpeg, args, [...inputs, ...stats], outputName, logger(0.5, 1))
+  return { data, mimeType: profile.mimeType }
+}
+
+// Trim every range with identical settings, then join the parts losslessly
+// in the given order with the concat demuxer. Overlay times are on the joined
+// output's timeline, crop times on the source's.
+export function concatMedia(
+  ffmpeg: FfmpegModule,
+  input: MediaInput,
+  ranges: TimeRange[],
+  format: OutputFormat,
+  settings: EncodingSettings = DEFAULT_ENCODING_SETTINGS,
+  callbacks: FfmpegCallbacks = {},
+  edits: PictureEdits = {}
+): TrimResult {
+  if (ranges.length === 0) throw new Error('Nothing to export: no segments selected')
+  if (ranges.length === 1) return trimMedia(ffmpeg, input, { ...ranges[0], format, settings, ...edits }, callbacks)
+
+  const profile = ffmpegProfile(format)
+
+  // Weight each part's progress by its share of the total output length
+  const total = ranges.reduce((sum, range) => sum + (range.end - range.start), 0)
+  let completed = 0
+
+  const parts = ranges.map((range, index) => {
+    const length = range.end - range.start
+    const overlays = overlaysForPart(edits.overlays ?? [], completed, length)
+    const data = trimMedia(ffmpeg, input, { ...range, format, settings, crop: edits.crop, overlays }, {
+      onLog: callbacks.onLog,
+      onProgress: ratio => callbacks.onProgress?.((completed + ratio * length) / total)
+    }).data
+    completed += length
+    return { name: `part${index}.${profile.extension}`, data }
+  })
+
+  const outputName = `output.${profile.extension}`
+  const listName = 'parts.txt'
+  // auto_convert needs the h264_mp4toannexb filter, which ffmpeg.js does not ship
+  const args = ['-hide_banner', '-nostdin', '-f', 'concat', '-safe', '0', '-auto_convert', '0', '-i', listName, '-c', 'copy']
+  if (profile.container === 'mp4') args.push('-movflags', '+faststart')
+  args.push('-f', profile.container, '-y', outputName)
+
+  const list = { name: listName, data: new TextEncoder().encode(buildConcatList(parts.map(part => part.name))) }
+  const data = runForOutput(ffmpeg, args, [...parts, list], outputName, callbacks.onLog)
+  callbacks.onProgress?.(1)
+  return { data, mimeType: profile.mimeType }
+}
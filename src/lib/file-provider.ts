@@ -0,0 +1,18 @@
+import { fetchObjectUrlMedia, type MediaProvider } from './media-providers'
+import { loadFileVideoInfo } from './video-info'
+
+// Files picked from disk or dropped on the page; they never leave the device
+export function createFileProvider(): MediaProvider {
+  return {
+    id: 'file',
+    label: 'Local file',
+    matches: request => request.kind === 'file',
+    resolve: async (request) => {
+      if (request.kind !== 'file') throw new Error('Expected a file')
+      return loadFileVideoInfo(request.file)
+    },
+    buildPreview: info => ({ kind: 'video', url: info.url }),
+    fetchMedia: fetchObjectUrlMedia,
+    release: info => URL.revokeObjectURL(info.url)
+  }
+}
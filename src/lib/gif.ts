@@ -0,0 +1,270 @@
+// Animated GIF encoder. A single global palette is generated from every
+// frame of the clip (median cut over a 15-bit color histogram, like ffmpeg's
+// palettegen), then each frame is mapped to it and LZW compressed.
+
+export interface GifOptions {
+  width: number
+  height: number
+  fps: number
+  // 0 loops forever
+  loopCount?: number
+}
+
+const MAX_COLORS = 256
+
+// 5 bits per channel keeps the histogram at 32K buckets
+const toColorKey = (r: number, g: number, b: number): number => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+
+interface ColorBox {
+  keys: number[]
+}
+
+const channelOf = (key: number, channel: number): number => (key >> (10 - channel * 5)) & 31
+
+const boxRange = (box: ColorBox, channel: number): number => {
+  let min = 31
+  let max = 0
+  for (const key of box.keys) {
+    const value = channelOf(key, channel)
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  return max - min
+}
+
+// Build an RGB palette (3 bytes per entry) from RGBA frames
+export function generatePalette(frames: Uint8ClampedArray[], maxColors = MAX_COLORS): Uint8Array {
+  const counts = new Uint32Array(1 << 15)
+  for (const frame of frames) {
+    for (let i = 0; i < frame.length; i += 4) counts[toColorKey(frame[i], frame[i + 1], frame[i + 2])] += 1
+  }
+
+  const used: number[] = []
+  counts.forEach((count, key) => {
+    if (count > 0) used.push(key)
+  })
+  if (used.length === 0) used.push(0)
+
+  // Repeatedly split the most populous box along its widest channel at the weighted median
+  const boxes: ColorBox[] = [{ keys: used }]
+  const population = (box: ColorBox) => box.keys.reduce((sum, key) => sum + counts[key], 0)
+  while (boxes.length < maxColors) {
+    let target = -1
+    let targetScore = 0
+    boxes.forEach((box, index) => {
+      if (box.keys.length < 2) return
+      const score = population(box) * Math.max(boxRange(box, 0), boxRange(box, 1), boxRange(box, 2))
+      if (score > targetScore) {
+        target = index
+        targetScore = score
+      }
+    })
+    if (target === -1) break
+
+    const box = boxes[target]
+    const ranges = [0, 1, 2].map(channel => boxRange(box, channel))
+    const channel = ranges.indexOf(Math.max(...ranges))
+    const sorted = [...box.keys].sort((a, b) => channelOf(a, channel) - channelOf(b, channel))
+    const half = population(box) / 2
+    let running = 0
+    let split = 1
+    for (; split < sorted.length - 1; split += 1) {
+      running += counts[sorted[split - 1]]
+      if (running >= half) break
+    }
+    boxes.splice(target, 1, { keys: sorted.slice(0, split) }, { keys: sorted.slice(split) })
+  }
+
+  // Each palette entry is the population-weighted mean of its box
+  const palette = new Uint8Array(maxColors * 3)
+  boxes.forEach((box, index) => {
+    let total = 0
+    const sums = [0, 0, 0]
+    for (const key of box.keys) {
+      const weight = counts[key] || 1
+      total += weight
+      for (let channel = 0; channel < 3; channel += 1) sums[channel] += ((channelOf(key, channel) << 3) | 4) * weight
+    }
+    for (let channel = 0; channel < 3; channel += 1) palette[index * 3 + channel] = Math.round(sums[channel] / total)
+  })
+  return palette
+}
+
+// Map RGBA pixels to palette indices, caching the nearest entry per 15-bit color
+function createIndexer(palette: Uint8Array) {
+  const cache = new Int16Array(1 << 15).fill(-1)
+  const size = palette.length / 3
+
+  return (frame: Uint8ClampedArray): Uint8Array => {
+    const indices = new Uint8Array(frame.length / 4)
+    for (let pixel = 0; pixel < indices.length; pixel += 1) {
+      const r = frame[pixel * 4]
+      const g = frame[pixel * 4 + 1]
+      const b = frame[pixel * 4 + 2]
+      const key = toColorKey(r, g, b)
+      let index = cache[key]
+      if (index === -1) {
+        let bestDistance = Infinity
+        for (let entry = 0; entry < size; entry += 1) {
+          const dr = palette[entry * 3] - r
+          const dg = palette[entry * 3 + 1] - g
+          const db = palette[entry * 3 + 2] - b
+          const distance = dr * dr + dg * dg + db * db
+          if (distance < bestDistance) {
+            bestDistance = distance
+            index = entry
+          }
+        }
+        cache[key] = index
+      }
+      indices[pixel] = index
+    }
+    return indices
+  }
+}
+
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16)
+  length = 0
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2)
+      grown.set(this.bytes)
+      this.bytes = grown
+    }
+    this.bytes[this.length++] = value
+  }
+
+  short(value: number) {
+    this.byte(value & 0xff)
+    this.byte((value >> 8) & 0xff)
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i += 1) this.byte(text.charCodeAt(i))
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+// GIF flavoured LZW: variable code width, LSB-first packing, 255-byte sub-blocks
+function writeLzw(writer: ByteWriter, indices: Uint8Array, minCodeSize = 8) {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let nextCode = endCode + 1
+  let codeSize = minCodeSize + 1
+  let dictionary = new Map<number, number>()
+
+  const block: number[] = []
+  let buffer = 0
+  let bufferBits = 0
+  const emit = (code: number) => {
+    buffer |= code << bufferBits
+    bufferBits += codeSize
+    while (bufferBits >= 8) {
+      block.push(buffer & 0xff)
+      buffer >>= 8
+      bufferBits -= 8
+      if (block.length === 255) {
+        writer.byte(255)
+        block.forEach(byte => writer.byte(byte))
+        block.length = 0
+      }
+    }
+  }
+
+  writer.byte(minCodeSize)
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i += 1) {
+    const symbol = indices[i]
+    const key = (prefix << 8) | symbol
+    const existing = dictionary.get(key)
+    if (existing !== undefined) {
+      prefix = existing
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === 4096) {
+      // Table full: start over
+      emit(clearCode)
+      dictionary = new Map()
+      nextCode = endCode + 1
+      codeSize = minCodeSize + 1
+    } else {
+      dictionary.set(key, nextCode)
+      if (nextCode === 1 << codeSize) codeSize += 1
+      nextCode += 1
+    }
+    prefix = symbol
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bufferBits > 0) block.push(buffer & 0xff)
+  if (block.length > 0) {
+    writer.byte(block.length)
+    block.forEach(byte => writer.byte(byte))
+  }
+  writer.byte(0)
+}
+
+// Encode RGBA frames of identical size into a looping GIF89a
+export function encodeGif(frames: Uint8ClampedArray[], options: GifOptions, onProgress?: (ratio: number) => void): Uint8Array {
+  const { width, height, fps, loopCount = 0 } = options
+  if (frames.length === 0) throw new Error('No frames to encode')
+  if (!(fps > 0)) throw new Error(`Invalid frame rate: ${fps}`)
+  if (frames.some(frame => frame.length !== width * height * 4)) throw new Error('Frame size does not match the GIF dimensions')
+
+  const palette = generatePalette(frames)
+  const toIndices = createIndexer(palette)
+  const writer = new ByteWriter()
+
+  writer.ascii('GIF89a')
+  writer.short(width)
+  writer.short(height)
+  writer.byte(0xf7) // global color table of 256 entries
+  writer.byte(0)
+  writer.byte(0)
+  palette.forEach(byte => writer.byte(byte))
+
+  // NETSCAPE2.0 application extension for looping
+  writer.byte(0x21)
+  writer.byte(0xff)
+  writer.byte(11)
+  writer.ascii('NETSCAPE2.0')
+  writer.byte(3)
+  writer.byte(1)
+  writer.short(loopCount)
+  writer.byte(0)
+
+  frames.forEach((frame, index) => {
+    // Delays are whole centiseconds; spread the rounding so the total stays exact
+    const delay = Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps)
+
+    writer.byte(0x21)
+    writer.byte(0xf9)
+    writer.byte(4)
+    writer.byte(0)
+    writer.short(delay)
+    writer.byte(0)
+    writer.byte(0)
+
+    writer.byte(0x2c)
+    writer.short(0)
+    writer.short(0)
+    writer.short(width)
+    writer.short(height)
+    writer.byte(0)
+    writeLzw(writer, toIndices(frame))
+    onProgress?.((index + 1) / frames.length)
+  })
+
+  writer.byte(0x3b)
+  return writer.result()
+}
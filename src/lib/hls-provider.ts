@@ -0,0 +1,40 @@
+import { downloadHlsMedia } from './hls'
+import { fetchObjectUrlMedia, parseHttpUrl, titleFromUrl, urlExtension, type MediaProvider } from './media-providers'
+
+interface HlsProviderOptions {
+  fetch?: typeof fetch
+}
+
+// HLS playlists are downloaded whole when loaded, then handled like a local
+// file: most browsers can't play .m3u8 natively and ffmpeg.js can't read it
+export function createHlsProvider(options: HlsProviderOptions = {}): MediaProvider {
+  const { fetch: fetchImpl = fetch } = options
+
+  return {
+    id: 'hls',
+    label: 'HLS stream',
+    matches: (request) => {
+      const url = request.kind === 'url' ? parseHttpUrl(request.url) : null
+      return url !== null && urlExtension(url) === 'm3u8'
+    },
+    resolve: async (request, signal) => {
+      const url = request.kind === 'url' ? parseHttpUrl(request.url) : null
+      if (!url) throw new Error('Invalid HLS playlist URL')
+
+      const media = await downloadHlsMedia(url.toString(), { fetch: fetchImpl, signal })
+      const objectUrl = URL.createObjectURL(media.blob)
+      return {
+        source: 'hls',
+        title: titleFromUrl(url),
+        duration: media.duration > 0 ? media.duration : null,
+        thumbnail: '',
+        url: objectUrl,
+        mediaUrl: objectUrl,
+        size: media.blob.size
+      }
+    },
+    buildPreview: info => ({ kind: 'video', url: info.url }),
+    fetchMedia: fetchObjectUrlMedia,
+    release: info => URL.revokeObjectURL(info.url)
+  }
+}
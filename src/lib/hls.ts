@@ -0,0 +1,163 @@
+// Minimal HLS (RFC 8216) support: enough to turn a video-on-demand playlist
+// into one downloadable file. Segments are concatenated as-is, so only
+// formats whose segments join into a valid file are accepted: fragmented MP4
+// (an EXT-X-MAP init segment plus fragments) and MP3. MPEG-TS and raw AAC
+// segments would need demuxers the ffmpeg.js builds don't ship.
+
+export interface HlsVariant {
+  uri: string
+  // bits per second
+  bandwidth: number
+  width: number | null
+  height: number | null
+  codecs: string | null
+}
+
+export interface HlsSegment {
+  uri: string
+  duration: number
+}
+
+export type HlsPlaylist =
+  | { kind: 'master'; variants: HlsVariant[] }
+  | {
+      kind: 'media'
+      segments: HlsSegment[]
+      // EXT-X-MAP init segment of fragmented MP4 streams
+      initUri: string | null
+      // EXT-X-ENDLIST: every segment is listed, so the stream is not live
+      ended: boolean
+      encrypted: boolean
+      byteRanges: boolean
+    }
+
+export interface HlsMedia {
+  blob: Blob
+  duration: number
+}
+
+interface HlsDownloadOptions {
+  fetch?: typeof fetch
+  signal?: AbortSignal
+  onProgress?: (ratio: number) => void
+}
+
+// A master playlist points at media playlists, never at another master
+const MAX_PLAYLIST_DEPTH = 2
+
+// Split an attribute list such as BANDWIDTH=800000,CODECS="avc1.4d401f,mp4a.40.2"
+export function parseAttributeList(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of text.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '')
+  }
+  return attributes
+}
+
+// Parse playlist text; relative URIs are resolved against `baseUrl`
+export function parseHlsPlaylist(text: string, baseUrl: string): HlsPlaylist {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  if (lines[0] !== '#EXTM3U') throw new Error('Not an HLS playlist: missing #EXTM3U')
+  const resolve = (uri: string) => new URL(uri, baseUrl).toString()
+
+  if (lines.some(line => line.startsWith('#EXT-X-STREAM-INF:'))) {
+    const variants: HlsVariant[] = []
+    lines.forEach((line, index) => {
+      if (!line.startsWith('#EXT-X-STREAM-INF:')) return
+      const uri = lines[index + 1]
+      if (!uri || uri.startsWith('#')) return
+      const attributes = parseAttributeList(line.slice('#EXT-X-STREAM-INF:'.length))
+      const [width, height] = (attributes.RESOLUTION ?? '').split('x').map(Number)
+      variants.push({
+        uri: resolve(uri),
+        bandwidth: Number(attributes.BANDWIDTH) || 0,
+        width: width || null,
+        height: height || null,
+        codecs: attributes.CODECS ?? null
+      })
+    })
+    return { kind: 'master', variants }
+  }
+
+  const segments: HlsSegment[] = []
+  let initUri: string | null = null
+  let encrypted = false
+  let byteRanges = false
+  let pendingDuration: number | null = null
+
+  for (const line of lines) {
+    if (line.startsWith('#EXTINF:')) {
+      pendingDuration = Number.parseFloat(line.slice('#EXTINF:'.length))
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attributes = parseAttributeList(line.slice('#EXT-X-MAP:'.length))
+      if (attributes.URI) initUri = resolve(attributes.URI)
+      if (attributes.BYTERANGE) byteRanges = true
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      encrypted ||= parseAttributeList(line.slice('#EXT-X-KEY:'.length)).METHOD !== 'NONE'
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      byteRanges = true
+    } else if (!line.startsWith('#')) {
+      if (pendingDuration === null || !Number.isFinite(pendingDuration)) throw new Error(`Segment without #EXTINF: ${line}`)
+      segments.push({ uri: resolve(line), duration: pendingDuration })
+      pendingDuration = null
+    }
+  }
+
+  return { kind: 'media', segments, initUri, ended: lines.includes('#EXT-X-ENDLIST'), encrypted, byteRanges }
+}
+
+// Best variant to download: highest bandwidth, ties to the larger picture
+export function pickHlsVariant(variants: HlsVariant[]): HlsVariant | null {
+  return [...variants].sort((a, b) => b.bandwidth - a.bandwidth || (b.height ?? 0) - (a.height ?? 0))[0] ?? null
+}
+
+const segmentExtension = (uri: string) => new URL(uri).pathname.split('.').pop()?.toLowerCase() ?? ''
+
+// MIME type of the joined file, or an explanation of why it can't be joined
+const joinedMimeType = (playlist: Extract<HlsPlaylist, { kind: 'media' }>): string => {
+  if (playlist.initUri) return 'video/mp4'
+  const extensions = new Set(playlist.segments.map(segment => segmentExtension(segment.uri)))
+  if (extensions.size === 1 && extensions.has('mp3')) return 'audio/mpeg'
+  if (extensions.has('ts')) throw new Error('HLS streams with MPEG-TS segments are not supported; only fragmented MP4 and MP3 streams can be trimmed')
+  throw new Error(`Unsupported HLS segment format: ${[...extensions].join(', ') || 'unknown'}`)
+}
+
+const fetchOk = async (fetchImpl: typeof fetch, url: string, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetchImpl(url, { signal })
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  return response
+}
+
+// Download a VOD playlist (following a master playlist to its best variant)
+// and join its segments into one Blob
+export async function downloadHlsMedia(url: string, options: HlsDownloadOptions = {}): Promise<HlsMedia> {
+  const { fetch: fetchImpl = fetch, signal, onProgress } = options
+
+  let playlistUrl = url
+  let playlist = parseHlsPlaylist(await (await fetchOk(fetchImpl, playlistUrl, signal)).text(), playlistUrl)
+  for (let depth = 1; playlist.kind === 'master'; depth++) {
+    const variant = pickHlsVariant(playlist.variants)
+    if (!variant || depth >= MAX_PLAYLIST_DEPTH) throw new Error('HLS master playlist has no playable variant')
+    playlistUrl = variant.uri
+    playlist = parseHlsPlaylist(await (await fetchOk(fetchImpl, playlistUrl, signal)).text(), playlistUrl)
+  }
+
+  if (!playlist.ended) throw new Error('Live HLS streams are not supported; the playlist has no #EXT-X-ENDLIST')
+  if (playlist.encrypted) throw new Error('Encrypted HLS streams are not supported')
+  if (playlist.byteRanges) throw new Error('HLS byte-range playlists are not supported')
+  if (playlist.segments.length === 0) throw new Error('HLS playlist has no segments')
+  const mimeType = joinedMimeType(playlist)
+
+  const uris = [...(playlist.initUri ? [playlist.initUri] : []), ...playlist.segments.map(segment => segment.uri)]
+  const parts: ArrayBuffer[] = []
+  // Sequential on purpose: segments are small and order matters
+  for (const uri of uris) {
+    parts.push(await (await fetchOk(fetchImpl, uri, signal)).arrayBuffer())
+    onProgress?.(parts.length / uris.length)
+  }
+
+  return {
+    blob: new Blob(parts, { type: mimeType }),
+    duration: playlist.segments.reduce((sum, segment) => sum + segment.duration, 0)
+  }
+}
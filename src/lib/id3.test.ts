@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { buildId3Tag, commentFrame, id3TagLength, pictureFrame, readSynchsafe, replaceId3Tag, synchsafe, textFrame } from './id3'
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0))
+
+describe('synchsafe', () => {
+  it.each([
+    [0, [0, 0, 0, 0]],
+    [127, [0, 0, 0, 0x7f]],
+    [128, [0, 0, 1, 0]],
+    [257, [0, 0, 2, 1]],
+    [0x0fffffff, [0x7f, 0x7f, 0x7f, 0x7f]]
+  ])('encodes %d in seven bits per byte', (value, bytes) => {
+    expect(Array.from(synchsafe(value))).toEqual(bytes)
+    expect(readSynchsafe(Uint8Array.from(bytes), 0)).toBe(value)
+  })
+
+  it.each([-1, 1.5, 0x10000000])('rejects %d', (value) => {
+    expect(() => synchsafe(value)).toThrow(/too large/)
+  })
+})
+
+describe('frames', () => {
+  it('stores text as UTF-8 behind encoding byte 3', () => {
+    expect(Array.from(textFrame('TIT2', 'Hé').data)).toEqual([3, 0x48, 0xc3, 0xa9])
+  })
+
+  it('writes COMM with a language and an empty description', () => {
+    expect(Array.from(commentFrame('ok').data)).toEqual([3, ...ascii('eng'), 0, ...ascii('ok')])
+    expect(Array.from(commentFrame('ok', 'de').data.subarray(1, 4))).toEqual(ascii('de '))
+  })
+
+  it('writes APIC as a front cover with a Latin-1 MIME type', () => {
+    const frame = pictureFrame({ mimeType: 'image/png', data: Uint8Array.of(1, 2, 3) })
+    expect(frame.id).toBe('APIC')
+    expect(Array.from(frame.data)).toEqual([3, ...ascii('image/png'), 0, 3, 0, 1, 2, 3])
+  })
+})
+
+describe('buildId3Tag', () => {
+  it('writes a v2.4 header and frames with synchsafe sizes', () => {
+    const tag = buildId3Tag([textFrame('TIT2', 'Hé'), textFrame('TPE1', 'A')])
+    expect(Array.from(tag)).toEqual([
+      ...ascii('ID3'), 4, 0, 0, 0, 0, 0, 26,
+      ...ascii('TIT2'), 0, 0, 0, 4, 0, 0, 3, 0x48, 0xc3, 0xa9,
+      ...ascii('TPE1'), 0, 0, 0, 2, 0, 0, 3, 0x41
+    ])
+    expect(id3TagLength(tag)).toBe(tag.length)
+  })
+
+  it('uses synchsafe sizes for frames past 127 bytes', () => {
+    const picture = pictureFrame({ mimeType: 'image/jpeg', data: new Uint8Array(1000) })
+    const tag = buildId3Tag([picture])
+    // 1 + 10 + 1 + 1 + 1 + 1000 = 1014 = 7 * 128 + 118
+    expect(picture.data.length).toBe(1014)
+    expect(Array.from(tag.subarray(14, 18))).toEqual([0, 0, 7, 118])
+    expect(Array.from(tag.subarray(6, 10))).toEqual(Array.from(synchsafe(1024)))
+  })
+
+  it('rejects malformed frame ids', () => {
+    expect(() => buildId3Tag([textFrame('tit2', 'x')])).toThrow(/Invalid ID3 frame id/)
+  })
+})
+
+describe('replaceId3Tag', () => {
+  const audio = Uint8Array.of(0xff, 0xfb, 0x90, 0x00)
+
+  it('swaps the tag a file starts with', () => {
+    const old = buildId3Tag([textFrame('TSSE', 'Lavf')])
+    const tag = buildId3Tag([textFrame('TIT2', 'New')])
+    expect(Array.from(replaceId3Tag(Uint8Array.of(...old, ...audio), tag))).toEqual([...tag, ...audio])
+  })
+
+  it('drops a footer along with its tag', () => {
+    const old = buildId3Tag([textFrame('TIT2', 'x')])
+    old[5] = 0x10
+    const footer = Uint8Array.of(...ascii('3DI'), 4, 0, 0x10, ...old.subarray(6, 10))
+    expect(id3TagLength(Uint8Array.of(...old, ...footer, ...audio))).toBe(old.length + 10)
+  })
+
+  it('prepends a tag to a file without one', () => {
+    const tag = buildId3Tag([])
+    expect(id3TagLength(audio)).toBe(0)
+    expect(Array.from(replaceId3Tag(audio, tag))).toEqual([...tag, ...audio])
+  })
+})
@@ -0,0 +1,89 @@
+// ID3v2.4 tag writer for MP3 files. Text is stored as UTF-8 (encoding 3),
+// which v2.4 allows everywhere; sizes are synchsafe (7 bits per byte).
+
+export interface Id3Frame {
+  id: string
+  data: Uint8Array
+}
+
+export interface Id3Picture {
+  mimeType: string
+  data: Uint8Array
+  description?: string
+}
+
+const UTF8 = 3
+// APIC picture type for the front cover
+const FRONT_COVER = 3
+const HEADER_SIZE = 10
+// Largest size four synchsafe bytes can hold
+const MAX_SYNCHSAFE = 0x0fffffff
+
+const encoder = new TextEncoder()
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff)
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+export function synchsafe(value: number): Uint8Array {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_SYNCHSAFE) throw new Error('ID3 tag is too large')
+  return Uint8Array.of((value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f)
+}
+
+export function readSynchsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f)
+}
+
+// T??? frame, e.g. TIT2 (title) or TRCK (track)
+export function textFrame(id: string, text: string): Id3Frame {
+  return { id, data: concat([Uint8Array.of(UTF8), encoder.encode(text)]) }
+}
+
+// COMM frame with an empty description
+export function commentFrame(text: string, language = 'eng'): Id3Frame {
+  return { id: 'COMM', data: concat([Uint8Array.of(UTF8), latin1(language.padEnd(3, ' ').slice(0, 3)), Uint8Array.of(0), encoder.encode(text)]) }
+}
+
+// APIC frame holding the front cover
+export function pictureFrame(picture: Id3Picture): Id3Frame {
+  return {
+    id: 'APIC',
+    data: concat([
+      Uint8Array.of(UTF8),
+      latin1(picture.mimeType),
+      Uint8Array.of(0, FRONT_COVER),
+      encoder.encode(picture.description ?? ''),
+      Uint8Array.of(0),
+      picture.data
+    ])
+  }
+}
+
+// A whole tag: header, then every frame with its synchsafe size and no flags
+export function buildId3Tag(frames: Id3Frame[]): Uint8Array {
+  const body = concat(frames.map(frame => {
+    if (!/^[A-Z0-9]{4}$/.test(frame.id)) throw new Error(`Invalid ID3 frame id: ${frame.id}`)
+    return concat([latin1(frame.id), synchsafe(frame.data.length), Uint8Array.of(0, 0), frame.data])
+  }))
+  return concat([latin1('ID3'), Uint8Array.of(4, 0, 0), synchsafe(body.length), body])
+}
+
+// Length of the ID3v2 tag at the start of `bytes`, footer included; 0 without one
+export function id3TagLength(bytes: Uint8Array): number {
+  if (bytes.length < HEADER_SIZE || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0
+  const hasFooter = (bytes[5] & 0x10) !== 0
+  return Math.min(HEADER_SIZE + readSynchsafe(bytes, 6) + (hasFooter ? HEADER_SIZE : 0), bytes.length)
+}
+
+// Replace whatever ID3v2 tag the file starts with (ffmpeg writes its own) by `tag`
+export function replaceId3Tag(mp3: Uint8Array, tag: Uint8Array): Uint8Array {
+  return concat([tag, mp3.subarray(id3TagLength(mp3))])
+}
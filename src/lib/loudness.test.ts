@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { limitPeaks, measureLoudness, measurePeak, normalizeLoudness } from './loudness'
+import type { PcmAudio } from './pcm'
+
+const SAMPLE_RATE = 48000
+
+// A quiet 1 kHz tone with a full-scale click every half second: far too
+// little headroom for gain alone to reach a streaming target
+const peaky = (): PcmAudio => {
+  const samples = Float32Array.from({ length: SAMPLE_RATE * 4 }, (_, index) => {
+    if (index % (SAMPLE_RATE / 2) < 4) return 1
+    return 0.02 * Math.sin((2 * Math.PI * 1000 * index) / SAMPLE_RATE)
+  })
+  return { sampleRate: SAMPLE_RATE, channels: [samples, samples.slice()] }
+}
+
+describe('normalizeLoudness', () => {
+  it.each([
+    [-14, -1],
+    [-16, -1.5],
+    [-23, -1]
+  ])('reaches %s LUFS on a peaky signal with peaks under %s dBFS', (target, ceiling) => {
+    const audio = peaky()
+    expect(measureLoudness(audio)).toBeLessThan(-30)
+    const { audio: output, gain } = normalizeLoudness(audio, target, ceiling)
+    expect(Math.abs(measureLoudness(output) - target)).toBeLessThan(0.5)
+    expect(measurePeak(output)).toBeLessThanOrEqual(ceiling + 0.01)
+    expect(gain).toBeGreaterThan(target - measureLoudness(audio) - 0.01)
+  })
+
+  it('leaves silence alone', () => {
+    const silence = { sampleRate: SAMPLE_RATE, channels: [new Float32Array(SAMPLE_RATE)] }
+    expect(normalizeLoudness(silence, -14, -1)).toEqual({ audio: silence, gain: 0 })
+  })
+})
+
+describe('limitPeaks', () => {
+  it('only turns down the audio around the peaks', () => {
+    const output = limitPeaks(peaky(), 20, -1)
+    expect(measurePeak(output)).toBeLessThanOrEqual(-1 + 0.01)
+    // Just before the next click the tone is back to nearly the full 20 dB
+    const crest = SAMPLE_RATE * 0.45 + 12
+    expect(peaky().channels[0][crest]).toBeCloseTo(0.02)
+    expect(output.channels[0][crest]).toBeGreaterThan(0.19)
+  })
+})
@@ -0,0 +1,182 @@
+import type { PcmAudio } from './pcm'
+
+// Loudness measurement after ITU-R BS.1770 / EBU R128: K-weighted mean
+// square over 400 ms blocks, gated at -70 LUFS and then 10 LU below the
+// ungated mean. Pure arithmetic, so it runs anywhere.
+
+// Shorter clips are measured as a single block
+const BLOCK_SECONDS = 0.4
+const STEP_SECONDS = 0.1
+const ABSOLUTE_GATE = -70
+const RELATIVE_GATE = -10
+
+interface Biquad {
+  b0: number
+  b1: number
+  b2: number
+  a1: number
+  a2: number
+}
+
+// The two K-weighting stages, designed for any sample rate (libebur128's form)
+const kWeighting = (sampleRate: number): Biquad[] => {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate)
+  const q = 0.7071752369554196
+  const vh = 10 ** (3.999843853973347 / 20)
+  const vb = vh ** 0.4996667741545416
+  let a0 = 1 + k / q + k * k
+  const shelf = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0
+  }
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate)
+  const highpassQ = 0.5003270373238773
+  a0 = 1 + k / highpassQ + k * k
+  const highpass = { b0: 1, b1: -2, b2: 1, a1: (2 * (k * k - 1)) / a0, a2: (1 - k / highpassQ + k * k) / a0 }
+  return [shelf, highpass]
+}
+
+const filter = (samples: Float32Array, stages: Biquad[]): Float64Array => {
+  const output = Float64Array.from(samples)
+  for (const { b0, b1, b2, a1, a2 } of stages) {
+    let x1 = 0
+    let x2 = 0
+    let y1 = 0
+    let y2 = 0
+    for (let i = 0; i < output.length; i += 1) {
+      const x = output[i]
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2
+      x2 = x1
+      x1 = x
+      y2 = y1
+      y1 = y
+      output[i] = y
+    }
+  }
+  return output
+}
+
+const toLufs = (meanSquare: number) => (meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity)
+
+// Integrated loudness in LUFS; -Infinity for silence
+export function measureLoudness(audio: PcmAudio): number {
+  const length = audio.channels[0]?.length ?? 0
+  if (length === 0) return -Infinity
+  const stages = kWeighting(audio.sampleRate)
+  // Squared weighted samples summed across channels, all weighted 1.0 for mono and stereo
+  const power = new Float64Array(length)
+  for (const channel of audio.channels) {
+    const weighted = filter(channel, stages)
+    for (let i = 0; i < length; i += 1) power[i] += weighted[i] * weighted[i]
+  }
+
+  // Running sums make every block O(1)
+  const sums = new Float64Array(length + 1)
+  for (let i = 0; i < length; i += 1) sums[i + 1] = sums[i] + power[i]
+  const block = Math.min(Math.round(BLOCK_SECONDS * audio.sampleRate), length)
+  const step = Math.max(Math.round(STEP_SECONDS * audio.sampleRate), 1)
+  const blocks: number[] = []
+  for (let from = 0; from + block <= length; from += step) blocks.push((sums[from + block] - sums[from]) / block)
+
+  const audible = blocks.filter(meanSquare => toLufs(meanSquare) > ABSOLUTE_GATE)
+  if (audible.length === 0) return -Infinity
+  const threshold = toLufs(audible.reduce((sum, value) => sum + value, 0) / audible.length) + RELATIVE_GATE
+  const gated = audible.filter(meanSquare => toLufs(meanSquare) > threshold)
+  return toLufs(gated.reduce((sum, value) => sum + value, 0) / gated.length)
+}
+
+// Highest sample magnitude in dBFS; -Infinity for silence
+export function measurePeak(audio: PcmAudio): number {
+  let peak = 0
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i += 1) {
+      const value = Math.abs(channel[i])
+      if (value > peak) peak = value
+    }
+  }
+  return peak > 0 ? 20 * Math.log10(peak) : -Infinity
+}
+
+// Look-ahead that lets the limiter ease the gain down before a peak arrives,
+// and how long the gain takes to come back up after it
+const LIMITER_LOOKAHEAD_SECONDS = 0.005
+const LIMITER_RELEASE_SECONDS = 0.1
+// Top-up rounds to make up for the loudness the limiter takes off
+const NORMALIZE_ROUNDS = 4
+const NORMALIZE_TOLERANCE = 0.1
+
+// Lowest value in each window of `size` samples starting at that sample, with
+// a monotonic queue so long clips stay linear
+const windowMinimum = (values: Float64Array, size: number): Float64Array => {
+  const output = new Float64Array(values.length)
+  const queue = new Int32Array(values.length)
+  let head = 0
+  let tail = 0
+  for (let i = values.length - 1; i >= 0; i -= 1) {
+    while (tail > head && values[queue[tail - 1]] >= values[i]) tail -= 1
+    queue[tail++] = i
+    while (queue[head] > i + size - 1) head += 1
+    output[i] = values[queue[head]]
+  }
+  return output
+}
+
+// Apply `gain` dB and hold every sample at or under `ceiling` dBFS. The gain
+// reduction ramps in over the look-ahead, so it never falls short at a peak,
+// and releases smoothly after it.
+export function limitPeaks(audio: PcmAudio, gain: number, ceiling: number): PcmAudio {
+  const length = audio.channels[0]?.length ?? 0
+  const scale = 10 ** (gain / 20)
+  const limit = 10 ** (ceiling / 20)
+  const needed = new Float64Array(length).fill(1)
+  for (const channel of audio.channels) {
+    for (let i = 0; i < length; i += 1) {
+      const level = Math.abs(channel[i]) * scale
+      if (level > limit) needed[i] = Math.min(needed[i], limit / level)
+    }
+  }
+
+  // Averaging the look-ahead minimum over the look-ahead before each sample
+  // keeps every window that ends on a peak at or under what the peak needs
+  const lookahead = Math.max(Math.round(LIMITER_LOOKAHEAD_SECONDS * audio.sampleRate), 1)
+  const lowest = windowMinimum(needed, lookahead + 1)
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * audio.sampleRate))
+  const envelope = new Float64Array(length)
+  // Before the clip starts the gain is untouched
+  let sum = lookahead + 1
+  let previous = 1
+  for (let i = 0; i < length; i += 1) {
+    sum += lowest[i] - (i > lookahead ? lowest[i - lookahead - 1] : 1)
+    previous = Math.min(sum / (lookahead + 1), previous + (1 - previous) * release)
+    envelope[i] = previous
+  }
+
+  const channels = audio.channels.map(channel => {
+    const output = new Float32Array(length)
+    for (let i = 0; i < length; i += 1) output[i] = Math.max(-limit, Math.min(limit, channel[i] * scale * envelope[i]))
+    return output
+  })
+  return { sampleRate: audio.sampleRate, channels }
+}
+
+// Bring the audio to `target` LUFS with its peaks held under `ceiling` dBFS,
+// as ffmpeg's loudnorm does: the full gain goes on and a limiter catches the
+// peaks. Limiting takes some loudness off, so the gain is topped up until
+// the result lands on the target. Also returns the gain applied, in dB.
+export function normalizeLoudness(audio: PcmAudio, target: number, ceiling: number): { audio: PcmAudio; gain: number } {
+  const loudness = measureLoudness(audio)
+  if (!Number.isFinite(loudness)) return { audio, gain: 0 }
+  let gain = target - loudness
+  let output = limitPeaks(audio, gain, ceiling)
+  for (let round = 1; round < NORMALIZE_ROUNDS; round += 1) {
+    const shortfall = target - measureLoudness(output)
+    if (Math.abs(shortfall) < NORMALIZE_TOLERANCE) break
+    gain += shortfall
+    output = limitPeaks(audio, gain, ceiling)
+  }
+  return { audio: output, gain }
+}
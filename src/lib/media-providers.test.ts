@@ -0,0 +1,270 @@
+import { readFileSync } from 'node:fs'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { fileURLToPath } from 'node:url'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createSourceServer } from '../../server/app'
+import { createFixtureFetcher } from '../../server/fixture-fetcher'
+import { parseCaptions } from './captions'
+import { createDirectMediaProvider } from './direct-media-provider'
+import { createFileProvider } from './file-provider'
+import { createHlsProvider } from './hls-provider'
+import { findMediaProvider, titleFromUrl, type MediaProvider } from './media-providers'
+import { getOutputProfile } from './output-formats'
+import { createSourceApi } from './source-api'
+import { isMergedOption, listSourceOptions, pickSourceOption } from './source-formats'
+import { createYouTubeProvider } from './youtube-provider'
+
+const FIXTURES = fileURLToPath(new URL('../../server/fixtures/', import.meta.url))
+const fixture = (name: string) => new Uint8Array(readFileSync(`${FIXTURES}${name}`))
+
+const VIDEO_ID = 'dQw4w9WgXcQ'
+// oEmbed knows nothing about this one
+const UNLISTED_ID = 'unlisted000'
+
+// Pieces of a fragmented MP4 stream; the provider joins them byte for byte
+const HLS_FILES: Record<string, { type: string; body: string | Uint8Array }> = {
+  'master.m3u8': {
+    type: 'application/vnd.apple.mpegurl',
+    body: '#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=200000,RESOLUTION=32x32\nlow.m3u8\n#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=64x64\nhigh.m3u8\n'
+  },
+  'high.m3u8': {
+    type: 'application/vnd.apple.mpegurl',
+    body: '#EXTM3U\n#EXT-X-MAP:URI="init.mp4"\n#EXTINF:2.0,\nseg0.m4s\n#EXTINF:1.5,\nseg1.m4s\n#EXT-X-ENDLIST\n'
+  },
+  'live.m3u8': { type: 'application/vnd.apple.mpegurl', body: '#EXTM3U\n#EXTINF:2.0,\nseg0.m4s\n' },
+  'ts.m3u8': { type: 'application/vnd.apple.mpegurl', body: '#EXTM3U\n#EXTINF:2.0,\nseg0.ts\n#EXT-X-ENDLIST\n' },
+  'init.mp4': { type: 'video/mp4', body: Uint8Array.of(1, 1, 1) },
+  'seg0.m4s': { type: 'video/iso.segment', body: Uint8Array.of(2, 2) },
+  'seg1.m4s': { type: 'video/iso.segment', body: Uint8Array.of(3) }
+}
+
+let sourceServer: Server
+let originServer: Server
+// The fixture source server, as the app's source API would reach it
+let sourceBaseUrl: string
+// Everything else: oEmbed, plain media files and HLS playlists
+let originUrl: string
+
+const listen = async (server: Server) => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+beforeAll(async () => {
+  sourceServer = createSourceServer(createFixtureFetcher(FIXTURES))
+  originServer = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (url.pathname === '/oembed') {
+      const known = !url.searchParams.get('url')?.includes(UNLISTED_ID)
+      response.writeHead(known ? 200 : 404, { 'Content-Type': 'application/json' })
+      response.end(known ? JSON.stringify({ title: 'oEmbed title', author_name: 'Fixture Channel' }) : '{}')
+    } else if (url.pathname === '/media/Sample%20Clip.mp4') {
+      const data = fixture('sample.mp4')
+      response.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': String(data.length) })
+      response.end(request.method === 'HEAD' ? undefined : data)
+    } else if (url.pathname === '/media/no-head.webm') {
+      response.writeHead(request.method === 'HEAD' ? 405 : 200)
+      response.end()
+    } else if (url.pathname.startsWith('/hls/') && HLS_FILES[url.pathname.slice(5)]) {
+      const file = HLS_FILES[url.pathname.slice(5)]
+      response.writeHead(200, { 'Content-Type': file.type })
+      response.end(file.body)
+    } else {
+      response.writeHead(404)
+      response.end()
+    }
+  })
+  sourceBaseUrl = await listen(sourceServer)
+  originUrl = await listen(originServer)
+})
+
+afterAll(async () => {
+  await Promise.all([sourceServer, originServer].map(server => new Promise(resolve => server.close(resolve))))
+})
+
+const youtubeProvider = (baseUrl = sourceBaseUrl) => createYouTubeProvider({
+  sourceApi: createSourceApi({ baseUrl }),
+  oembedBaseUrl: originUrl,
+  durationProviders: () => []
+})
+
+const bytesOf = async (source: Blob | string | undefined) => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source
+  return new Uint8Array(await blob!.arrayBuffer())
+}
+
+describe('source API against the fixture server', () => {
+  const api = () => createSourceApi({ baseUrl: sourceBaseUrl })
+
+  it('lists the fixture formats with their sizes', async () => {
+    const info = await api().getInfo(VIDEO_ID)
+    expect(info).toMatchObject({ videoId: VIDEO_ID, title: 'Sample clip', duration: 3.05 })
+    expect(info.formats.map(format => [format.id, format.hasVideo, format.hasAudio, format.contentLength])).toEqual([
+      ['sample.mp4', true, true, fixture('sample.mp4').length],
+      ['sample-video.mp4', true, false, fixture('sample-video.mp4').length],
+      ['sample-audio.m4a', false, true, fixture('sample-audio.m4a').length]
+    ])
+  })
+
+  it('streams a chosen format', async () => {
+    const response = await fetch(api().mediaUrl(VIDEO_ID, 'sample-audio.m4a'))
+    expect(response.headers.get('x-source-format')).toBe('sample-audio.m4a')
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(fixture('sample-audio.m4a'))
+  })
+
+  it('lists the caption tracks and fetches each as caption text', async () => {
+    expect(await api().getCaptionTracks(VIDEO_ID)).toEqual([
+      { id: 'en', languageCode: 'en', name: 'English', autoGenerated: false },
+      { id: 'a.en', languageCode: 'en', name: 'English (auto-generated)', autoGenerated: true }
+    ])
+
+    const vtt = await api().getCaptions(VIDEO_ID, 'en')
+    expect(vtt).toBe(readFileSync(`${FIXTURES}sample.en.vtt`, 'utf8'))
+    expect(parseCaptions(vtt)[0]).toMatchObject({ id: 'intro', start: 0, end: 1.2, settings: 'align:start position:10%' })
+
+    // The track id has a dot, which has to survive the path
+    const srt = parseCaptions(await api().getCaptions(VIDEO_ID, 'a.en'))
+    expect(srt.map(cue => cue.text)).toEqual(['welcome to the', 'sample clip trimming keeps', 'the words thanks for watching'])
+    expect(srt.at(-1)?.end).toBeCloseTo(3.05)
+  })
+
+  it('reports a caption track the video does not have', async () => {
+    await expect(api().getCaptions(VIDEO_ID, 'fr')).rejects.toThrow(`No caption track fr for ${VIDEO_ID}`)
+  })
+
+  it('rejects malformed video ids with the server message', async () => {
+    await expect(api().getInfo('bad id')).rejects.toThrow('Invalid video id: bad id')
+  })
+
+  it.each([
+    '/api/sources/%E0%A4/formats',
+    '/api/sources/%E0%A4/media',
+    '/api/sources/%E0%A4/captions',
+    `/api/sources/${VIDEO_ID}/captions/%ZZ`,
+    '/api/playlists/%E0%A4'
+  ])('answers a broken escape in %s with a 400', async (path) => {
+    const response = await fetch(`${sourceBaseUrl}${path}`)
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: expect.stringMatching(/^Malformed path segment: /) })
+  })
+
+  it('only serves files named in the manifest', async () => {
+    const response = await fetch(api().mediaUrl(VIDEO_ID, '../fixtures.json'))
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: `Format ../fixtures.json is not available for ${VIDEO_ID}` })
+  })
+})
+
+describe('createYouTubeProvider', () => {
+  it('resolves a link through oEmbed and the source server', async () => {
+    const info = await youtubeProvider().resolve({ kind: 'url', url: `https://youtu.be/${VIDEO_ID}?t=1&end=2` })
+    expect(info).toMatchObject({
+      source: 'youtube',
+      title: 'oEmbed title',
+      author: 'Fixture Channel',
+      duration: 3.05,
+      thumbnail: `https://img.youtube.com/vi/${VIDEO_ID}/maxresdefault.jpg`,
+      url: `https://www.youtube.com/embed/${VIDEO_ID}?enablejsapi=1&start=1`,
+      videoId: VIDEO_ID,
+      mediaUrl: `${sourceBaseUrl}/api/sources/${VIDEO_ID}/media`,
+      requestedRange: { start: 1, end: 2 }
+    })
+    expect(info.formats).toHaveLength(3)
+  })
+
+  it('falls back to the source server title without oEmbed', async () => {
+    const info = await youtubeProvider().resolve({ kind: 'url', url: `https://www.youtube.com/watch?v=${UNLISTED_ID}` })
+    expect(info.title).toBe('Sample clip')
+    expect(info.author).toBeUndefined()
+  })
+
+  it('still previews when the source server is down, without an export source', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const info = await youtubeProvider('http://127.0.0.1:9').resolve({ kind: 'url', url: `https://youtu.be/${VIDEO_ID}` })
+    warn.mockRestore()
+    expect(info).toMatchObject({ title: 'oEmbed title', duration: null, mediaUrl: undefined, formats: undefined })
+    await expect(youtubeProvider().fetchMedia(info, null)).rejects.toThrow('No downloadable media source for this video')
+  })
+
+  it.each([
+    ['https://youtu.be/short', 'Invalid YouTube video id: short'],
+    ['https://www.youtube.com/playlist?list=PL1234567890', 'This YouTube link is a playlist, not a single video']
+  ])('rejects %s', async (url, message) => {
+    await expect(youtubeProvider().resolve({ kind: 'url', url })).rejects.toThrow(message)
+  })
+
+  it('fetches the picked stream, or a video and an audio stream to merge', async () => {
+    const provider = youtubeProvider()
+    const info = await provider.resolve({ kind: 'url', url: `https://youtu.be/${VIDEO_ID}` })
+    const profile = getOutputProfile('mp4')
+
+    const single = await provider.fetchMedia(info, pickSourceOption(info.formats!, profile))
+    expect(await bytesOf(single.source)).toEqual(fixture('sample.mp4'))
+    expect(single.audioSource).toBeUndefined()
+
+    const merged = await provider.fetchMedia(info, listSourceOptions(info.formats!, profile).find(isMergedOption)!)
+    expect(await bytesOf(merged.source)).toEqual(fixture('sample-video.mp4'))
+    expect(await bytesOf(merged.audioSource)).toEqual(fixture('sample-audio.m4a'))
+  })
+})
+
+describe('createDirectMediaProvider', () => {
+  const provider = createDirectMediaProvider({ readDuration: async () => 3.05 })
+
+  it('reads the size with a HEAD request', async () => {
+    const url = `${originUrl}/media/Sample%20Clip.mp4`
+    const info = await provider.resolve({ kind: 'url', url })
+    expect(info).toEqual({ source: 'url', title: 'Sample Clip', duration: 3.05, thumbnail: '', url, mediaUrl: url, size: fixture('sample.mp4').length })
+    expect(await bytesOf((await provider.fetchMedia(info, null)).source)).toEqual(fixture('sample.mp4'))
+  })
+
+  it('leaves the size unknown when HEAD is refused', async () => {
+    const info = await provider.resolve({ kind: 'url', url: `${originUrl}/media/no-head.webm` })
+    expect(info.size).toBeUndefined()
+  })
+})
+
+describe('createHlsProvider', () => {
+  const provider = createHlsProvider()
+
+  it('downloads the best variant and joins its segments', async () => {
+    const info = await provider.resolve({ kind: 'url', url: `${originUrl}/hls/master.m3u8` })
+    expect(info).toMatchObject({ source: 'hls', title: 'master', duration: 3.5, size: 6 })
+    expect(await bytesOf((await provider.fetchMedia(info, null)).source)).toEqual(Uint8Array.of(1, 1, 1, 2, 2, 3))
+    provider.release?.(info)
+  })
+
+  it.each([
+    ['live.m3u8', 'Live HLS streams are not supported'],
+    ['ts.m3u8', 'HLS streams with MPEG-TS segments are not supported'],
+    ['missing.m3u8', 'Failed to fetch']
+  ])('rejects %s', async (name, message) => {
+    await expect(provider.resolve({ kind: 'url', url: `${originUrl}/hls/${name}` })).rejects.toThrow(message)
+  })
+})
+
+describe('findMediaProvider', () => {
+  const providers: MediaProvider[] = [youtubeProvider(), createHlsProvider(), createDirectMediaProvider(), createFileProvider()]
+  const find = (url: string) => findMediaProvider(providers, { kind: 'url', url })?.id ?? null
+
+  it.each([
+    [`https://youtu.be/${VIDEO_ID}`, 'youtube'],
+    ['https://youtube.com/watch?v=bad', 'youtube'],
+    ['https://cdn.example.com/live/index.m3u8', 'hls'],
+    ['https://cdn.example.com/clip.MP4?token=1', 'url'],
+    ['https://cdn.example.com/song.flac', 'url'],
+    ['https://example.com/page.html', null],
+    ['ftp://example.com/clip.mp4', null]
+  ])('routes %s to %s', (url, id) => {
+    expect(find(url)).toBe(id)
+  })
+
+  it('routes picked files to the file provider', () => {
+    expect(findMediaProvider(providers, { kind: 'file', file: new File([], 'clip.mp4') })?.id).toBe('file')
+  })
+
+  it('titles URL sources after their file name', () => {
+    expect(titleFromUrl(new URL('https://example.com/media/My%20Clip.final.mp4'))).toBe('My Clip.final')
+  })
+})
@@ -0,0 +1,74 @@
+import type { SourceOption } from './source-formats'
+import type { VideoInfo, VideoSource } from './video-info'
+
+// Where media comes from. Each provider recognises its own inputs, turns them
+// into VideoInfo, says how to preview them and hands the export the bytes, so
+// the rest of the trimmer never checks which kind of source is loaded.
+
+export type MediaRequest =
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; file: File }
+
+// An iframe driven through the YouTube IFrame API, or a plain <video> element
+export type MediaPreview =
+  | { kind: 'embed'; url: string }
+  | { kind: 'video'; url: string }
+
+// Bytes, or URLs the export job fetches when it starts. `audioSource` is a
+// separate audio-only stream to merge with a video-only `source`.
+export interface FetchedMedia {
+  source: Blob | string
+  audioSource?: Blob | string
+}
+
+export interface MediaProvider {
+  id: VideoSource
+  label: string
+  matches: (request: MediaRequest) => boolean
+  resolve: (request: MediaRequest, signal?: AbortSignal) => Promise<VideoInfo>
+  buildPreview: (info: VideoInfo) => MediaPreview
+  // `stream` is the picked source stream for providers that list formats
+  fetchMedia: (info: VideoInfo, stream: SourceOption | null) => Promise<FetchedMedia>
+  // Frees what resolve allocated, such as object URLs
+  release?: (info: VideoInfo) => void
+}
+
+// First provider that claims the request; order providers from most to least specific
+export function findMediaProvider(providers: MediaProvider[], request: MediaRequest): MediaProvider | null {
+  return providers.find(provider => provider.matches(request)) ?? null
+}
+
+export function getMediaProvider(providers: MediaProvider[], id: VideoSource): MediaProvider {
+  const provider = providers.find(candidate => candidate.id === id)
+  if (!provider) throw new Error(`No media provider for ${id} sources`)
+  return provider
+}
+
+// Parsed http(s) URL, or null for anything else
+export function parseHttpUrl(value: string): URL | null {
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+// Lower-cased extension of the URL's last path segment
+export function urlExtension(url: URL): string {
+  const name = url.pathname.split('/').pop() ?? ''
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+}
+
+// Human-readable title from a URL's file name, e.g. /media/My%20Clip.mp4 -> My Clip
+export function titleFromUrl(url: URL): string {
+  const name = decodeURIComponent(url.pathname.split('/').pop() ?? '')
+  return name.replace(/\.[^.]+$/, '') || url.hostname
+}
+
+// Object-URL sources keep their bytes in the page; read them back for the export
+export async function fetchObjectUrlMedia(info: VideoInfo): Promise<FetchedMedia> {
+  if (!info.mediaUrl) throw new Error('No downloadable media source for this video')
+  const response = await fetch(info.mediaUrl)
+  return { source: await response.blob() }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { id3TagLength } from './id3'
+import { EMPTY_MEDIA_TAGS, detectCoverType, parseTrack, tagMedia } from './media-tags'
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+describe('tagMedia', () => {
+  it('writes an ID3v2.4 tag in front of MP3 audio', async () => {
+    const audio = Uint8Array.of(0xff, 0xfb, 0x90, 0x00)
+    const tags = { ...EMPTY_MEDIA_TAGS, title: ' Clip ', track: '03 / 12' }
+    const tagged = new Uint8Array(await (await tagMedia(new Blob([audio], { type: 'audio/mpeg' }), 'mp3', tags)).arrayBuffer())
+    const length = id3TagLength(tagged)
+    expect(Array.from(tagged.subarray(0, 4))).toEqual([0x49, 0x44, 0x33, 4])
+    expect(Array.from(tagged.subarray(length))).toEqual(Array.from(audio))
+    // Trimmed title, normalized track, encoder; blank fields are left out
+    expect(text(tagged.subarray(10, length))).toBe('TIT2\0\0\0\u0005\0\0\u0003ClipTRCK\0\0\0\u0005\0\0\u00033/12TSSE\0\0\0\u0016\0\0\u0003YouTube Video Trimmer')
+  })
+
+  it('passes formats without tag support through untouched', async () => {
+    const file = new Blob(['RIFF'], { type: 'audio/wav' })
+    expect(await tagMedia(file, 'wav', { ...EMPTY_MEDIA_TAGS, title: 'x' })).toBe(file)
+  })
+})
+
+describe('parseTrack', () => {
+  it.each([
+    ['3', { number: 3, total: null }],
+    [' 3 / 12 ', { number: 3, total: 12 }],
+    ['', null],
+    ['3/', null],
+    ['a', null]
+  ])('reads %j', (input, expected) => {
+    expect(parseTrack(input)).toEqual(expected)
+  })
+})
+
+describe('detectCoverType', () => {
+  it('recognizes JPEG and PNG signatures only', () => {
+    expect(detectCoverType(Uint8Array.of(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg')
+    expect(detectCoverType(Uint8Array.of(0x89, 0x50, 0x4e, 0x47))).toBe('image/png')
+    expect(detectCoverType(Uint8Array.of(0x47, 0x49, 0x46, 0x38))).toBeNull()
+  })
+})
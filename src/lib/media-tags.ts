@@ -0,0 +1,144 @@
+import { buildId3Tag, commentFrame, pictureFrame, replaceId3Tag, textFrame, type Id3Frame } from './id3'
+import { coverItem, textItem, trackItem, writeMp4Tags, type Mp4TagItem } from './mp4-tags'
+import type { OutputFormat } from './output-formats'
+
+// Title, artist and cover art written into finished exports: an ID3v2.4 tag
+// for MP3 and iTunes atoms for M4A/MP4. Tagging rewrites the container only,
+// so it works the same for re-encoded and stream-copied files.
+
+export interface MediaTags {
+  title: string
+  artist: string
+  album: string
+  year: string
+  genre: string
+  // "3" or "3/12"
+  track: string
+  comment: string
+}
+
+export interface CoverArt {
+  mimeType: 'image/jpeg' | 'image/png'
+  data: Uint8Array
+}
+
+// Which picture becomes the cover: the video's thumbnail, an image picked or
+// captured in the app, or none
+export type CoverSource = { kind: 'thumbnail' } | { kind: 'image'; name: string; art: CoverArt } | { kind: 'none' }
+
+export const EMPTY_MEDIA_TAGS: MediaTags = { title: '', artist: '', album: '', year: '', genre: '', track: '', comment: '' }
+
+const TAGGED_FORMATS: OutputFormat[] = ['mp3', 'm4a', 'mp4']
+
+export function canTagFormat(format: OutputFormat): boolean {
+  return TAGGED_FORMATS.includes(format)
+}
+
+export function hasMediaTags(tags: MediaTags): boolean {
+  return Object.values(tags).some(value => value.trim() !== '')
+}
+
+export const TRACK_PATTERN = /^\s*(\d{1,4})\s*(?:\/\s*(\d{1,4})\s*)?$/
+
+// Number and total, or null when the field is blank or not a track number
+export function parseTrack(track: string): { number: number; total: number | null } | null {
+  const match = TRACK_PATTERN.exec(track)
+  if (!match) return null
+  return { number: Number(match[1]), total: match[2] ? Number(match[2]) : null }
+}
+
+// Recognize JPEG and PNG by their signatures; anything else can't be cover art
+export function detectCoverType(data: Uint8Array): CoverArt['mimeType'] | null {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg'
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png'
+  return null
+}
+
+export const COVER_FILE_ACCEPT = 'image/jpeg,image/png'
+
+// Cover art from image bytes; only JPEG and PNG can be embedded
+export async function readCoverArt(image: Blob): Promise<CoverArt> {
+  const data = new Uint8Array(await image.arrayBuffer())
+  const mimeType = detectCoverType(data)
+  if (!mimeType) throw new Error('Cover art must be a JPEG or PNG image')
+  return { mimeType, data }
+}
+
+// The first of `urls` that loads as an image
+export async function fetchCoverArt(urls: string[], signal?: AbortSignal): Promise<CoverArt> {
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { signal })
+      if (response.ok) return await readCoverArt(await response.blob())
+    } catch (error) {
+      if (signal?.aborted) throw error
+    }
+  }
+  throw new Error('Could not download the thumbnail')
+}
+
+// The frame a <video> is showing, as a JPEG. Fails for media from another
+// origin, which taints the canvas.
+export async function captureCoverFrame(video: HTMLVideoElement): Promise<CoverArt> {
+  if (video.videoWidth === 0) throw new Error('There is no video frame to capture')
+  const canvas = document.createElement('canvas')
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  canvas.getContext('2d')?.drawImage(video, 0, 0)
+  const blob = await new Promise<Blob | null>((resolve, reject) => {
+    try {
+      canvas.toBlob(resolve, 'image/jpeg', 0.9)
+    } catch {
+      reject(new Error('This video does not allow capturing its frames'))
+    }
+  })
+  if (!blob) throw new Error('Could not capture the frame')
+  return readCoverArt(blob)
+}
+
+const id3Frames = (tags: MediaTags, cover: CoverArt | null): Id3Frame[] => {
+  const frames: Id3Frame[] = []
+  const text = (id: string, value: string) => {
+    if (value.trim()) frames.push(textFrame(id, value.trim()))
+  }
+  text('TIT2', tags.title)
+  text('TPE1', tags.artist)
+  text('TALB', tags.album)
+  text('TDRC', tags.year)
+  text('TCON', tags.genre)
+  const track = parseTrack(tags.track)
+  if (track) frames.push(textFrame('TRCK', track.total ? `${track.number}/${track.total}` : String(track.number)))
+  if (tags.comment.trim()) frames.push(commentFrame(tags.comment.trim()))
+  // Encoder settings, as ffmpeg would have written them
+  frames.push(textFrame('TSSE', 'YouTube Video Trimmer'))
+  if (cover) frames.push(pictureFrame(cover))
+  return frames
+}
+
+const mp4Items = (tags: MediaTags, cover: CoverArt | null): Mp4TagItem[] => {
+  const items: Mp4TagItem[] = []
+  const text = (type: string, value: string) => {
+    if (value.trim()) items.push(textItem(type, value.trim()))
+  }
+  text('©nam', tags.title)
+  text('©ART', tags.artist)
+  text('©alb', tags.album)
+  text('©day', tags.year)
+  text('©gen', tags.genre)
+  const track = parseTrack(tags.track)
+  if (track) items.push(trackItem(track.number, track.total ?? 0))
+  text('©cmt', tags.comment)
+  text('©too', 'YouTube Video Trimmer')
+  if (cover) items.push(coverItem(cover.mimeType, cover.data))
+  return items
+}
+
+// Write the tags into an exported file; formats without tag support pass through
+export async function tagMedia(file: Blob, format: OutputFormat, tags: MediaTags, cover: CoverArt | null = null): Promise<Blob> {
+  if (!canTagFormat(format)) return file
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const tagged = format === 'mp3'
+    ? replaceId3Tag(bytes, buildId3Tag(id3Frames(tags, cover)))
+    : writeMp4Tags(bytes, mp4Items(tags, cover))
+  return new Blob([tagged], { type: file.type })
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest'
+import { box, buildUdta, coverItem, readBoxes, textItem, trackItem, writeMp4Tags } from './mp4-tags'
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0) & 0xff)
+
+const uint32s = (...values: number[]) => {
+  const bytes = new Uint8Array(values.length * 4)
+  values.forEach((value, index) => new DataView(bytes.buffer).setUint32(index * 4, value))
+  return bytes
+}
+
+const uint64s = (...values: number[]) => {
+  const bytes = new Uint8Array(values.length * 8)
+  values.forEach((value, index) => new DataView(bytes.buffer).setBigUint64(index * 8, BigInt(value)))
+  return bytes
+}
+
+const stco = (offsets: number[]) => box('stco', uint32s(0, offsets.length, ...offsets))
+const co64 = (offsets: number[]) => box('co64', uint32s(0, offsets.length), uint64s(...offsets))
+const track = (table: Uint8Array) => box('trak', box('mdia', box('minf', box('stbl', table))))
+
+// ftyp, moov and mdat in either order, with one track's chunks in stco and
+// another's in co64, each chunk holding recognisable bytes
+const sampleFile = (moovFirst: boolean, udta = box('udta', box('free'))) => {
+  const ftyp = box('ftyp', Uint8Array.from(ascii('isom')), new Uint8Array(4))
+  const chunks = [Uint8Array.of(1, 1, 1, 1), Uint8Array.of(2, 2), Uint8Array.of(3, 3, 3)]
+  const mdat = box('mdat', ...chunks)
+  const moovFor = (offsets: number[]) => box('moov', box('mvhd', new Uint8Array(100)), track(stco(offsets.slice(0, 2))), track(co64(offsets.slice(2))), udta)
+
+  // The moov size doesn't depend on the offsets, so measure it first
+  const moovLength = moovFor([0, 0, 0]).length
+  const mdatStart = ftyp.length + (moovFirst ? moovLength : 0)
+  const offsets = chunks.map((_, index) => mdatStart + 8 + chunks.slice(0, index).reduce((sum, chunk) => sum + chunk.length, 0))
+  const moov = moovFor(offsets)
+  const file = moovFirst ? Uint8Array.of(...ftyp, ...moov, ...mdat) : Uint8Array.of(...ftyp, ...mdat, ...moov)
+  return { file, chunks, offsets }
+}
+
+// Chunk offsets in file order, from every stco and co64 box
+const chunkOffsets = (file: Uint8Array): number[] => {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+  const offsets: number[] = []
+  const visit = (from: number, to: number) => {
+    for (const child of readBoxes(file, from, to)) {
+      const body = child.start + child.headerSize
+      if (['moov', 'trak', 'mdia', 'minf', 'stbl'].includes(child.type)) visit(body, child.end)
+      const count = ['stco', 'co64'].includes(child.type) ? view.getUint32(body + 4) : 0
+      for (let i = 0; i < count; i += 1) {
+        offsets.push(child.type === 'stco' ? view.getUint32(body + 8 + i * 4) : Number(view.getBigUint64(body + 8 + i * 8)))
+      }
+    }
+  }
+  visit(0, file.length)
+  return offsets
+}
+
+const findBox = (file: Uint8Array, path: string[]) => {
+  let from = 0
+  let to = file.length
+  let found = null
+  for (const type of path) {
+    found = readBoxes(file, from, to).find(candidate => candidate.type === type)
+    if (!found) return null
+    // meta is a full box: four bytes of version and flags before its children
+    from = found.start + found.headerSize + (type === 'meta' ? 4 : 0)
+    to = found.end
+  }
+  return found
+}
+
+describe('box', () => {
+  it('writes a big-endian size and a Latin-1 type', () => {
+    expect(Array.from(box('©nam', Uint8Array.of(7)))).toEqual([0, 0, 0, 9, 0xa9, ...ascii('nam'), 7])
+  })
+
+  it('rejects types that are not four characters', () => {
+    expect(() => box('abc')).toThrow(/Invalid MP4 box type/)
+  })
+})
+
+describe('readBoxes', () => {
+  it('reads 64-bit sizes and boxes that run to the end', () => {
+    const large = Uint8Array.of(0, 0, 0, 1, ...ascii('free'), 0, 0, 0, 0, 0, 0, 0, 20, 9, 9, 9, 9)
+    const open = Uint8Array.of(0, 0, 0, 0, ...ascii('mdat'), 5, 5)
+    expect(readBoxes(Uint8Array.of(...large, ...open))).toEqual([
+      { type: 'free', start: 0, headerSize: 16, end: 20 },
+      { type: 'mdat', start: 20, headerSize: 8, end: 30 }
+    ])
+  })
+
+  it('rejects a box that runs past its parent', () => {
+    expect(() => readBoxes(Uint8Array.of(0, 0, 0, 50, ...ascii('moov')))).toThrow(/Corrupt MP4 file/)
+  })
+})
+
+describe('buildUdta', () => {
+  it('lays out udta > meta > hdlr + ilst with typed data atoms', () => {
+    const udta = buildUdta([textItem('©nam', 'Hé'), trackItem(3, 12), coverItem('image/png', Uint8Array.of(0x89))])
+    expect(Array.from(udta)).toEqual([
+      0, 0, 0, 145, ...ascii('udta'),
+      0, 0, 0, 137, ...ascii('meta'), 0, 0, 0, 0,
+      0, 0, 0, 33, ...ascii('hdlr'), 0, 0, 0, 0, 0, 0, 0, 0, ...ascii('mdir'), ...ascii('appl'), 0, 0, 0, 0, 0, 0, 0, 0, 0,
+      0, 0, 0, 92, ...ascii('ilst'),
+      0, 0, 0, 27, 0xa9, ...ascii('nam'), 0, 0, 0, 19, ...ascii('data'), 0, 0, 0, 1, 0, 0, 0, 0, 0x48, 0xc3, 0xa9,
+      0, 0, 0, 32, ...ascii('trkn'), 0, 0, 0, 24, ...ascii('data'), 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 3, 0, 12, 0, 0,
+      0, 0, 0, 25, ...ascii('covr'), 0, 0, 0, 17, ...ascii('data'), 0, 0, 0, 14, 0, 0, 0, 0, 0x89
+    ])
+  })
+
+  it('marks JPEG covers with data type 13', () => {
+    const udta = buildUdta([coverItem('image/jpeg', Uint8Array.of(0xff))])
+    const data = findBox(udta, ['udta', 'meta', 'ilst', 'covr'])!
+    expect(Array.from(udta.subarray(data.start + 16, data.start + 20))).toEqual([0, 0, 0, 13])
+  })
+})
+
+describe('writeMp4Tags', () => {
+  const items = [textItem('©nam', 'Title'), textItem('©ART', 'Artist'), coverItem('image/jpeg', new Uint8Array(500))]
+
+  it('shifts chunk offsets by exactly the bytes inserted before mdat', () => {
+    const { file, chunks, offsets } = sampleFile(true)
+    const tagged = writeMp4Tags(file, items)
+    const inserted = tagged.length - file.length
+    expect(inserted).toBe(buildUdta(items).length - box('udta', box('free')).length)
+    expect(chunkOffsets(tagged)).toEqual(offsets.map(offset => offset + inserted))
+    // Every offset still points at its own chunk
+    chunkOffsets(tagged).forEach((offset, index) => {
+      expect(Array.from(tagged.subarray(offset, offset + chunks[index].length))).toEqual(Array.from(chunks[index]))
+    })
+  })
+
+  it('shifts offsets down when the new metadata is smaller', () => {
+    const { file, offsets } = sampleFile(true, buildUdta(items))
+    const tagged = writeMp4Tags(file, [textItem('©nam', 'T')])
+    expect(tagged.length).toBeLessThan(file.length)
+    expect(chunkOffsets(tagged)).toEqual(offsets.map(offset => offset + tagged.length - file.length))
+  })
+
+  it('leaves offsets alone when moov comes after mdat', () => {
+    const { file, offsets } = sampleFile(false)
+    const tagged = writeMp4Tags(file, items)
+    expect(chunkOffsets(tagged)).toEqual(offsets)
+    // Everything before moov, media data included, is untouched
+    const moovStart = readBoxes(file).find(candidate => candidate.type === 'moov')!.start
+    expect(Array.from(tagged.subarray(0, moovStart))).toEqual(Array.from(file.subarray(0, moovStart)))
+  })
+
+  it('replaces the old udta instead of adding a second one', () => {
+    const tagged = writeMp4Tags(sampleFile(true).file, items)
+    const moov = readBoxes(tagged).find(candidate => candidate.type === 'moov')!
+    const children = readBoxes(tagged, moov.start + 8, moov.end).map(child => child.type)
+    expect(children).toEqual(['mvhd', 'trak', 'trak', 'udta'])
+    expect(findBox(tagged, ['moov', 'udta', 'meta', 'ilst'])).not.toBeNull()
+    expect(moov.end - moov.start).toBe(new DataView(tagged.buffer).getUint32(moov.start))
+  })
+
+  it('rejects files without a moov box', () => {
+    expect(() => writeMp4Tags(box('mdat', Uint8Array.of(1)), items)).toThrow(/no moov box/)
+  })
+})
@@ -0,0 +1,147 @@
+// iTunes-style metadata for MP4/M4A files: a moov/udta/meta/ilst box
+// replacing whatever udta ffmpeg wrote. When moov sits before mdat (as with
+// +faststart) the media data moves by however much moov grew, so every chunk
+// offset in the sample tables is shifted to match.
+
+export interface Mp4TagItem {
+  // Four characters; the iTunes text atoms start with the copyright sign
+  type: string
+  // Well-known data type: 0 implicit (binary), 1 UTF-8, 13 JPEG, 14 PNG
+  dataType: number
+  data: Uint8Array
+}
+
+interface Box {
+  type: string
+  start: number
+  headerSize: number
+  end: number
+}
+
+export const MP4_DATA_TYPES = { binary: 0, utf8: 1, jpeg: 13, png: 14 } as const
+
+// Boxes whose children hold the sample tables
+const CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl'])
+
+const encoder = new TextEncoder()
+
+// Box types are four bytes; "©nam" and friends are Latin-1, not UTF-8
+const typeBytes = (type: string) => {
+  if (type.length !== 4) throw new Error(`Invalid MP4 box type: ${type}`)
+  return Uint8Array.from(type, char => char.charCodeAt(0) & 0xff)
+}
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+export function box(type: string, ...children: Uint8Array[]): Uint8Array {
+  const body = concat(children)
+  const header = new Uint8Array(8)
+  new DataView(header.buffer).setUint32(0, 8 + body.length)
+  header.set(typeBytes(type), 4)
+  return concat([header, body])
+}
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4)
+  new DataView(bytes.buffer).setUint32(0, value)
+  return bytes
+}
+
+// Boxes laid end to end in bytes[from, to)
+export function readBoxes(bytes: Uint8Array, from = 0, to = bytes.length): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const boxes: Box[] = []
+  let offset = from
+  while (offset + 8 <= to) {
+    let size = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    let headerSize = 8
+    if (size === 1) {
+      if (offset + 16 > to) break
+      size = Number(view.getBigUint64(offset + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = to - offset
+    }
+    if (size < headerSize || offset + size > to) throw new Error(`Corrupt MP4 file: the ${type} box runs past its parent`)
+    boxes.push({ type, start: offset, headerSize, end: offset + size })
+    offset += size
+  }
+  return boxes
+}
+
+export function textItem(type: string, text: string): Mp4TagItem {
+  return { type, dataType: MP4_DATA_TYPES.utf8, data: encoder.encode(text) }
+}
+
+// trkn: track number and total, zero when unknown
+export function trackItem(track: number, total = 0): Mp4TagItem {
+  const data = new Uint8Array(8)
+  const view = new DataView(data.buffer)
+  view.setUint16(2, track)
+  view.setUint16(4, total)
+  return { type: 'trkn', dataType: MP4_DATA_TYPES.binary, data }
+}
+
+export function coverItem(mimeType: string, data: Uint8Array): Mp4TagItem {
+  return { type: 'covr', dataType: mimeType === 'image/png' ? MP4_DATA_TYPES.png : MP4_DATA_TYPES.jpeg, data }
+}
+
+// udta > meta > hdlr + ilst, as iTunes and ffmpeg write it
+export function buildUdta(items: Mp4TagItem[]): Uint8Array {
+  const hdlr = box('hdlr', new Uint8Array(8), typeBytes('mdir'), typeBytes('appl'), new Uint8Array(9))
+  const ilst = box('ilst', ...items.map(item => box(item.type, box('data', uint32(item.dataType), new Uint8Array(4), item.data))))
+  return box('udta', box('meta', new Uint8Array(4), hdlr, ilst))
+}
+
+// Add `delta` to every chunk offset past `after` in the stco/co64 boxes under `moov`
+const shiftChunkOffsets = (moov: Uint8Array, delta: number, after: number) => {
+  const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength)
+  const visit = (from: number, to: number) => {
+    for (const child of readBoxes(moov, from, to)) {
+      const body = child.start + child.headerSize
+      if (CONTAINERS.has(child.type)) {
+        visit(body, child.end)
+      } else if (child.type === 'stco') {
+        const count = view.getUint32(body + 4)
+        for (let i = 0; i < count; i += 1) {
+          const at = body + 8 + i * 4
+          const offset = view.getUint32(at)
+          if (offset <= after) continue
+          if (offset + delta > 0xffffffff) throw new Error('This file is too large to tag')
+          view.setUint32(at, offset + delta)
+        }
+      } else if (child.type === 'co64') {
+        const count = view.getUint32(body + 4)
+        for (let i = 0; i < count; i += 1) {
+          const at = body + 8 + i * 8
+          const offset = view.getBigUint64(at)
+          if (offset > BigInt(after)) view.setBigUint64(at, offset + BigInt(delta))
+        }
+      }
+    }
+  }
+  const header = readBoxes(moov)[0]
+  visit(header.start + header.headerSize, header.end)
+}
+
+// The file with its metadata replaced by `items`
+export function writeMp4Tags(file: Uint8Array, items: Mp4TagItem[]): Uint8Array {
+  const moov = readBoxes(file).find(candidate => candidate.type === 'moov')
+  if (!moov) throw new Error('Not an MP4 file: no moov box')
+
+  const children = readBoxes(file, moov.start + moov.headerSize, moov.end)
+    .filter(child => child.type !== 'udta')
+    .map(child => file.subarray(child.start, child.end))
+  const rebuilt = box('moov', ...children, buildUdta(items))
+  shiftChunkOffsets(rebuilt, rebuilt.length - (moov.end - moov.start), moov.start)
+  return concat([file.subarray(0, moov.start), rebuilt, file.subarray(moov.end)])
+}
@@ -0,0 +1,164 @@
+// Registry of export profiles. Adding a format means adding an entry here;
+// the format picker, filenames and the export pipeline all read from it.
+//
+// ffmpeg.js ships two builds with different encoders, so each ffmpeg profile
+// names the build it needs, and encoding-settings.ts turns the profile plus
+// the user's settings into codec arguments. GIF, WAV and FLAC have no encoder
+// in either build and are written by the in-browser encoders in gif.ts,
+// wav.ts and flac.ts.
+
+export type OutputFormat = 'mp4' | 'webm' | 'gif' | 'mp3' | 'm4a' | 'opus' | 'wav' | 'flac'
+
+export type OutputEncoder = 'ffmpeg-mp4' | 'ffmpeg-webm' | 'gif' | 'wav' | 'flac'
+
+// Which encoding settings make sense for a profile
+export interface OutputCapabilities {
+  videoQuality: boolean
+  audioBitrate: boolean
+  sampleRate: boolean
+  channels: boolean
+  frameRate: boolean
+  resolution: boolean
+  // Container accepts the source streams as-is, skipping the encode
+  streamCopy: boolean
+}
+
+export interface OutputProfile {
+  id: OutputFormat
+  label: string
+  description: string
+  extension: string
+  mimeType: string
+  // Muxer name; ffmpeg profiles pass it with -f since extensions like .m4a
+  // and .opus map to muxers the ffmpeg.js builds don't include
+  container: string
+  videoCodec: string | null
+  audioCodec: string | null
+  audioOnly: boolean
+  encoder: OutputEncoder
+  supports: OutputCapabilities
+}
+
+export const OUTPUT_PROFILES: Record<OutputFormat, OutputProfile> = {
+  mp4: {
+    id: 'mp4',
+    label: 'MP4',
+    description: 'H.264 video with AAC audio. Plays everywhere.',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    container: 'mp4',
+    videoCodec: 'libx264',
+    audioCodec: 'aac',
+    audioOnly: false,
+    encoder: 'ffmpeg-mp4',
+    supports: { videoQuality: true, audioBitrate: true, sampleRate: true, channels: true, frameRate: true, resolution: true, streamCopy: true }
+  },
+  webm: {
+    id: 'webm',
+    label: 'WebM',
+    description: 'VP8 video with Opus audio, an open format for the web.',
+    extension: 'webm',
+    mimeType: 'video/webm',
+    container: 'webm',
+    videoCodec: 'libvpx',
+    audioCodec: 'libopus',
+    audioOnly: false,
+    encoder: 'ffmpeg-webm',
+    supports: { videoQuality: true, audioBitrate: true, sampleRate: false, channels: true, frameRate: true, resolution: true, streamCopy: true }
+  },
+  gif: {
+    id: 'gif',
+    label: 'GIF',
+    description: 'Silent looping animation with a palette generated from the clip.',
+    extension: 'gif',
+    mimeType: 'image/gif',
+    container: 'gif',
+    videoCodec: 'gif',
+    audioCodec: null,
+    audioOnly: false,
+    encoder: 'gif',
+    supports: { videoQuality: false, audioBitrate: false, sampleRate: false, channels: false, frameRate: true, resolution: true, streamCopy: false }
+  },
+  mp3: {
+    id: 'mp3',
+    label: 'MP3',
+    description: 'Audio only, compatible with every player.',
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    container: 'mp3',
+    videoCodec: null,
+    audioCodec: 'libmp3lame',
+    audioOnly: true,
+    encoder: 'ffmpeg-mp4',
+    supports: { videoQuality: false, audioBitrate: true, sampleRate: true, channels: true, frameRate: false, resolution: false, streamCopy: false }
+  },
+  m4a: {
+    id: 'm4a',
+    label: 'M4A',
+    description: 'AAC audio in an MP4 container.',
+    extension: 'm4a',
+    mimeType: 'audio/mp4',
+    container: 'mp4',
+    videoCodec: null,
+    audioCodec: 'aac',
+    audioOnly: true,
+    encoder: 'ffmpeg-mp4',
+    supports: { videoQuality: false, audioBitrate: true, sampleRate: true, channels: true, frameRate: false, resolution: false, streamCopy: true }
+  },
+  opus: {
+    id: 'opus',
+    label: 'Opus',
+    description: 'Opus audio in an Ogg container, small files at high quality.',
+    extension: 'opus',
+    mimeType: 'audio/ogg',
+    container: 'ogg',
+    videoCodec: null,
+    audioCodec: 'libopus',
+    audioOnly: true,
+    encoder: 'ffmpeg-webm',
+    supports: { videoQuality: false, audioBitrate: true, sampleRate: false, channels: true, frameRate: false, resolution: false, streamCopy: true }
+  },
+  wav: {
+    id: 'wav',
+    label: 'WAV',
+    description: 'Uncompressed 16-bit PCM audio.',
+    extension: 'wav',
+    mimeType: 'audio/wav',
+    container: 'wav',
+    videoCodec: null,
+    audioCodec: 'pcm_s16le',
+    audioOnly: true,
+    encoder: 'wav',
+    supports: { videoQuality: false, audioBitrate: false, sampleRate: true, channels: true, frameRate: false, resolution: false, streamCopy: false }
+  },
+  flac: {
+    id: 'flac',
+    label: 'FLAC',
+    description: 'Lossless compressed 16-bit audio.',
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    container: 'flac',
+    videoCodec: null,
+    audioCodec: 'flac',
+    audioOnly: true,
+    encoder: 'flac',
+    supports: { videoQuality: false, audioBitrate: false, sampleRate: true, channels: true, frameRate: false, resolution: false, streamCopy: false }
+  }
+}
+
+// Display order for pickers: video formats first, then audio
+export const OUTPUT_FORMATS: OutputFormat[] = ['mp4', 'webm', 'gif', 'mp3', 'm4a', 'opus', 'wav', 'flac']
+
+export function getOutputProfile(format: OutputFormat): OutputProfile {
+  const profile = OUTPUT_PROFILES[format]
+  if (!profile) throw new Error(`Unknown output format: ${format}`)
+  return profile
+}
+
+export function isFfmpegEncoder(encoder: OutputEncoder): encoder is 'ffmpeg-mp4' | 'ffmpeg-webm' {
+  return encoder === 'ffmpeg-mp4' || encoder === 'ffmpeg-webm'
+}
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value)
+}
@@ -0,0 +1,150 @@
+import type { OverlayImage } from './ffmpeg'
+import type { OverlayItem, OverlaySpan } from './overlays'
+
+// Canvas drawing for overlay items, shared by the live preview and the export,
+// which turns every span into a PNG for ffmpeg's overlay filter.
+
+export interface PixelBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// ffmpeg.js gets one input per span; past this the encode runs out of memory
+export const MAX_OVERLAY_SPANS = 400
+
+const LINE_HEIGHT = 1.2
+// Room around the text for the background box, as a share of the font size
+const BOX_PADDING = 0.3
+// Text wraps before reaching this share of the frame width
+const MAX_LINE_WIDTH = 0.9
+
+const withAlpha = (hex: string, alpha: number) => {
+  const value = Number.parseInt(hex.replace('#', ''), 16)
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`
+}
+
+// Break explicit lines further at word boundaries to fit `maxWidth`
+const wrapLines = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  return text.split('\n').flatMap((paragraph) => {
+    const lines: string[] = []
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && context.measureText(candidate).width > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    return line ? [...lines, line] : lines
+  })
+}
+
+const unionBox = (a: PixelBox | null, b: PixelBox): PixelBox => {
+  if (!a) return b
+  const x = Math.min(a.x, b.x)
+  const y = Math.min(a.y, b.y)
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y }
+}
+
+// Draw the items onto a frame-sized canvas; returns the area drawn on, or null
+export function drawOverlayItems(context: CanvasRenderingContext2D, items: OverlayItem[], width: number, height: number): PixelBox | null {
+  let drawn: PixelBox | null = null
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+  context.lineJoin = 'round'
+
+  for (const { text, style, x, y, anchor } of items) {
+    const fontSize = (style.fontSize / 100) * height
+    context.font = `${style.bold ? 'bold ' : ''}${fontSize}px ${style.fontFamily}`
+    const lines = wrapLines(context, text, width * MAX_LINE_WIDTH)
+    const lineHeight = fontSize * LINE_HEIGHT
+    const blockHeight = lines.length * lineHeight
+    const anchorY = y * height
+    const top = anchor === 'top' ? anchorY : anchor === 'bottom' ? anchorY - blockHeight : anchorY - blockHeight / 2
+    const outline = (style.outlineWidth / 100) * fontSize
+    const padding = style.box ? fontSize * BOX_PADDING : 0
+
+    lines.forEach((line, index) => {
+      const lineWidth = context.measureText(line).width
+      // Keep the line inside the frame even when its centre is near an edge
+      const centreX = Math.min(Math.max(x * width, lineWidth / 2 + padding), width - lineWidth / 2 - padding)
+      const centreY = top + (index + 0.5) * lineHeight
+      const box = {
+        x: centreX - lineWidth / 2 - padding - outline,
+        y: centreY - lineHeight / 2 - padding / 2 - outline,
+        width: lineWidth + (padding + outline) * 2,
+        height: lineHeight + padding + outline * 2
+      }
+
+      if (style.box) {
+        context.fillStyle = withAlpha(style.boxColor, style.boxOpacity)
+        context.fillRect(box.x + outline, box.y + outline, box.width - outline * 2, box.height - outline * 2)
+      }
+      if (outline > 0) {
+        // The stroke is centred on the glyph edge, so double it for the visible width
+        context.strokeStyle = style.outlineColor
+        context.lineWidth = outline * 2
+        context.strokeText(line, centreX, centreY)
+      }
+      context.fillStyle = style.color
+      context.fillText(line, centreX, centreY)
+      drawn = unionBox(drawn, box)
+    })
+  }
+  return drawn
+}
+
+// Snap a drawn area outward to whole pixels inside the frame
+const clampBox = (box: PixelBox, width: number, height: number): PixelBox | null => {
+  const x = Math.max(Math.floor(box.x), 0)
+  const y = Math.max(Math.floor(box.y), 0)
+  const right = Math.min(Math.ceil(box.x + box.width), width)
+  const bottom = Math.min(Math.ceil(box.y + box.height), height)
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null
+}
+
+const canvasPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Could not render the text overlay'))
+        return
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject)
+    }, 'image/png')
+  })
+}
+
+// One PNG per span, cropped to the text so ffmpeg blends as little as possible
+export async function renderOverlayImages(spans: OverlaySpan[], width: number, height: number): Promise<OverlayImage[]> {
+  if (spans.length > MAX_OVERLAY_SPANS) {
+    throw new Error(`The burned-in text changes ${spans.length} times; export shorter clips (max ${MAX_OVERLAY_SPANS})`)
+  }
+
+  const frame = document.createElement('canvas')
+  frame.width = width
+  frame.height = height
+  const frameContext = frame.getContext('2d')
+  const crop = document.createElement('canvas')
+  const cropContext = crop.getContext('2d')
+  if (!frameContext || !cropContext) throw new Error('Canvas is not available')
+
+  const images: OverlayImage[] = []
+  for (const span of spans) {
+    frameContext.clearRect(0, 0, width, height)
+    const drawn = drawOverlayItems(frameContext, span.items, width, height)
+    const box = drawn && clampBox(drawn, width, height)
+    if (!box) continue
+
+    crop.width = box.width
+    crop.height = box.height
+    cropContext.clearRect(0, 0, box.width, box.height)
+    cropContext.drawImage(frame, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height)
+    images.push({ start: span.start, end: span.end, x: box.x, y: box.y, data: await canvasPng(crop) })
+  }
+  return images
+}
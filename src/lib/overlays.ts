@@ -0,0 +1,161 @@
+import { clipToRanges, plainCaptionText, type CaptionCue } from './captions'
+import type { TimeRange } from './ffmpeg'
+
+// Text drawn into the picture: burned-in captions and free-floating text
+// overlays. Sizes are relative to the frame height, so a style looks the same
+// in the preview and at any export resolution. Times are on the source's
+// timeline until overlaySpans lays them out on an export's.
+
+export interface TextStyle {
+  fontFamily: string
+  // Percent of the frame height
+  fontSize: number
+  bold: boolean
+  color: string
+  outlineColor: string
+  // Percent of the font size; 0 for none
+  outlineWidth: number
+  box: boolean
+  boxColor: string
+  // 0..1
+  boxOpacity: number
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom'
+
+export interface TextOverlay extends TimeRange {
+  id: string
+  text: string
+  // Centre of the text block as fractions of the frame, 0..1
+  x: number
+  y: number
+  style: TextStyle
+}
+
+export interface OverlaySettings {
+  burnCaptions: boolean
+  captionStyle: TextStyle
+  captionPosition: CaptionPosition
+  texts: TextOverlay[]
+}
+
+// One block of text to draw. `anchor` says which edge of the block sits at
+// `y`, so bottom captions grow upwards as lines are added.
+export interface OverlayItem {
+  text: string
+  style: TextStyle
+  x: number
+  y: number
+  anchor: 'top' | 'middle' | 'bottom'
+}
+
+// Stretch of an export's timeline during which the overlaid picture doesn't change
+export interface OverlaySpan extends TimeRange {
+  items: OverlayItem[]
+}
+
+export const OVERLAY_FONTS: { value: string; label: string }[] = [
+  { value: 'Arial, Helvetica, sans-serif', label: 'Sans-serif' },
+  { value: 'Georgia, "Times New Roman", serif', label: 'Serif' },
+  { value: '"Courier New", monospace', label: 'Monospace' },
+  { value: 'Impact, "Arial Black", sans-serif', label: 'Impact' },
+  { value: '"Comic Sans MS", "Comic Sans", cursive', label: 'Comic' }
+]
+
+export const DEFAULT_CAPTION_STYLE: TextStyle = {
+  fontFamily: OVERLAY_FONTS[0].value,
+  fontSize: 5,
+  bold: false,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  outlineWidth: 8,
+  box: false,
+  boxColor: '#000000',
+  boxOpacity: 0.6
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  ...DEFAULT_CAPTION_STYLE,
+  fontFamily: OVERLAY_FONTS[3].value,
+  fontSize: 8,
+  outlineWidth: 10
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  burnCaptions: false,
+  captionStyle: DEFAULT_CAPTION_STYLE,
+  captionPosition: 'bottom',
+  texts: []
+}
+
+// Keep captions off the very edge, where players put their controls
+const CAPTION_Y: Record<CaptionPosition, number> = { top: 0.06, middle: 0.5, bottom: 0.94 }
+
+const DEFAULT_TEXT_LENGTH = 3
+
+let overlayCounter = 0
+
+export function createTextOverlay(time: number, duration: number): TextOverlay {
+  overlayCounter += 1
+  const start = Math.round(Math.min(time, Math.max(duration - DEFAULT_TEXT_LENGTH, 0)) * 1000) / 1000
+  return {
+    id: `text-${Date.now().toString(36)}-${overlayCounter}`,
+    text: 'Your text',
+    start,
+    end: Math.min(start + DEFAULT_TEXT_LENGTH, duration),
+    x: 0.5,
+    y: 0.15,
+    style: DEFAULT_TEXT_STYLE
+  }
+}
+
+export function hasOverlays(settings: OverlaySettings, cues: CaptionCue[]): boolean {
+  return (settings.burnCaptions && cues.length > 0) || settings.texts.some(text => text.text.trim() !== '')
+}
+
+// Simultaneous captions share one block, in cue order
+const layoutItems = (settings: OverlaySettings, cues: CaptionCue[], texts: TextOverlay[]): OverlayItem[] => {
+  const items: OverlayItem[] = []
+  const captionText = cues.map(cue => plainCaptionText(cue.text)).filter(Boolean).join('\n')
+  if (captionText) {
+    items.push({ text: captionText, style: settings.captionStyle, x: 0.5, y: CAPTION_Y[settings.captionPosition], anchor: settings.captionPosition })
+  }
+  for (const text of texts) {
+    if (text.text.trim()) items.push({ text: text.text, style: text.style, x: text.x, y: text.y, anchor: 'middle' })
+  }
+  return items
+}
+
+const isShowing = (item: TimeRange, time: number) => item.start <= time && time < item.end
+
+// What shows at `time` on the source timeline, for the preview
+export function overlayItemsAt(settings: OverlaySettings, cues: CaptionCue[], time: number): OverlayItem[] {
+  const captions = settings.burnCaptions ? cues.filter(cue => isShowing(cue, time)) : []
+  return layoutItems(settings, captions, settings.texts.filter(text => isShowing(text, time)))
+}
+
+// What to draw over an export of `ranges`: the output timeline cut wherever a
+// caption or text comes or goes, keeping only the stretches with something on screen
+export function overlaySpans(settings: OverlaySettings, cues: CaptionCue[], ranges: TimeRange[]): OverlaySpan[] {
+  const captions = settings.burnCaptions ? clipToRanges(cues, ranges) : []
+  const texts = clipToRanges(settings.texts, ranges)
+  const times = [...new Set([...captions, ...texts].flatMap(item => [item.start, item.end]))].sort((a, b) => a - b)
+
+  const spans: OverlaySpan[] = []
+  for (let index = 0; index < times.length - 1; index += 1) {
+    const start = times[index]
+    const end = times[index + 1]
+    const covers = (item: TimeRange) => item.start <= start && item.end >= end
+    const items = layoutItems(settings, captions.filter(covers), texts.filter(covers))
+    if (items.length === 0) continue
+
+    // A cue that continues across a range boundary reappears unchanged; one span is enough
+    const previous = spans[spans.length - 1]
+    if (previous && previous.end === start && JSON.stringify(previous.items) === JSON.stringify(items)) {
+      previous.end = end
+    } else {
+      spans.push({ start, end, items })
+    }
+  }
+  return spans
+}
@@ -0,0 +1,74 @@
+import type { TimeRange } from './ffmpeg'
+
+// Raw audio handed to the in-browser WAV and FLAC encoders
+
+export interface PcmAudio {
+  sampleRate: number
+  // One buffer per channel, samples in -1..1
+  channels: Float32Array[]
+}
+
+// Rate the export path decodes at; Web Audio resamples the source to it
+export const PCM_SAMPLE_RATE = 48000
+
+export function pcmDuration(audio: PcmAudio): number {
+  return (audio.channels[0]?.length ?? 0) / audio.sampleRate
+}
+
+// Cut `ranges` out of the audio and join them in order
+export function slicePcm(audio: PcmAudio, ranges: TimeRange[]): PcmAudio {
+  const length = audio.channels[0]?.length ?? 0
+  const bounds = ranges.map(range => ({
+    from: Math.min(Math.max(Math.round(range.start * audio.sampleRate), 0), length),
+    to: Math.min(Math.max(Math.round(range.end * audio.sampleRate), 0), length)
+  }))
+  const total = bounds.reduce((sum, { from, to }) => sum + Math.max(to - from, 0), 0)
+
+  const channels = audio.channels.map(channel => {
+    const output = new Float32Array(total)
+    let offset = 0
+    for (const { from, to } of bounds) {
+      if (to <= from) continue
+      output.set(channel.subarray(from, to), offset)
+      offset += to - from
+    }
+    return output
+  })
+  return { sampleRate: audio.sampleRate, channels }
+}
+
+// Mix down to mono or duplicate mono to stereo
+export function remixPcm(audio: PcmAudio, channelCount: number): PcmAudio {
+  const { channels } = audio
+  if (channels.length === channelCount || channels.length === 0) return audio
+
+  if (channelCount === 1) {
+    const mono = new Float32Array(channels[0].length)
+    for (const channel of channels) {
+      for (let i = 0; i < mono.length; i += 1) mono[i] += channel[i] / channels.length
+    }
+    return { sampleRate: audio.sampleRate, channels: [mono] }
+  }
+  return { sampleRate: audio.sampleRate, channels: Array.from({ length: channelCount }, (_, index) => channels[index] ?? channels[0].slice()) }
+}
+
+// Clamp and scale a float sample to signed 16-bit
+export function toInt16(sample: number): number {
+  const clamped = Math.max(-1, Math.min(1, sample))
+  return clamped < 0 ? Math.round(clamped * 0x8000) : Math.round(clamped * 0x7fff)
+}
+
+// Decode a media blob's audio track with Web Audio. Main thread only: workers
+// have no OfflineAudioContext.
+export async function decodePcm(source: Blob, sampleRate = PCM_SAMPLE_RATE): Promise<PcmAudio> {
+  const buffer = await source.arrayBuffer()
+  const context = new OfflineAudioContext(1, 1, sampleRate)
+  let audio: AudioBuffer
+  try {
+    audio = await context.decodeAudioData(buffer)
+  } catch {
+    throw new Error('Could not decode the audio track of this source')
+  }
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, index) => audio.getChannelData(index))
+  return { sampleRate: audio.sampleRate, channels }
+}
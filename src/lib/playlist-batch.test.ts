@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_ENCODING_SETTINGS } from './encoding-settings'
+import { buildPlaylistRequests, playlistItemRange, type PlaylistItem, type PlaylistRule } from './playlist-batch'
+import type { PlaylistEntry, PlaylistInfo, SourceApi, SourceFormat, SourceInfo } from './source-api'
+
+const FULL: PlaylistRule = { kind: 'full' }
+const FIRST_30: PlaylistRule = { kind: 'first', seconds: 30 }
+
+describe('playlistItemRange', () => {
+  it.each([
+    ['the whole video', 120, FULL, undefined, { start: 0, end: 120 }],
+    ['the first seconds', 120, FIRST_30, undefined, { start: 0, end: 30 }],
+    ['the first seconds of a shorter video', 20, FIRST_30, undefined, { start: 0, end: 20 }],
+    ['the first seconds of a video of unknown length', null, FIRST_30, undefined, { start: 0, end: 30 }],
+    ['nothing for the whole of a video of unknown length', null, FULL, undefined, null],
+    ['the entry\'s own range over the whole video', 120, FULL, { start: 10, end: 50 }, { start: 10, end: 50 }],
+    ['the entry\'s own range over the first seconds', 120, FIRST_30, { start: 40, end: 50 }, { start: 40, end: 50 }],
+    ['the entry\'s own range, clamped to the video', 45, FIRST_30, { start: 40, end: 50 }, { start: 40, end: 45 }],
+    ['the entry\'s own range of a video of unknown length', null, FULL, { start: 40, end: 50 }, { start: 40, end: 50 }]
+  ] as const)('gives %s', (_, duration, rule, range, expected) => {
+    expect(playlistItemRange(duration, rule, range)).toEqual(expected)
+  })
+})
+
+describe('buildPlaylistRequests', () => {
+  const mp4: SourceFormat = {
+    id: '18', mimeType: 'video/mp4', container: 'mp4', hasVideo: true, hasAudio: true, videoCodec: 'avc1.42001E', audioCodec: 'mp4a.40.2',
+    width: 640, height: 360, fps: 30, qualityLabel: '360p', bitrate: 500_000, audioBitrate: 96_000, contentLength: null
+  }
+  const entry = (index: number, videoId: string, duration: number | null = 60): PlaylistEntry => ({ videoId, title: `Video ${index}`, duration, index })
+
+  const entries = [
+    entry(1, 'video000001'),
+    entry(2, 'video000002'),
+    // The server doesn't know these lengths either
+    entry(3, 'unknown0003', null),
+    entry(4, 'video000004'),
+    entry(5, 'missing0005'),
+    entry(6, 'webmonly006')
+  ]
+  const playlist: PlaylistInfo = { playlistId: 'PLfixture', title: 'Mix', entries: [...entries, ...Array.from({ length: 6 }, (_, index) => entry(index + 7, `filler00${index + 10}`))] }
+
+  // Entry durations stand in for what the server reports
+  const sourceApi: SourceApi = {
+    getInfo: async (videoId) => {
+      if (videoId === 'missing0005') throw new Error('Video unavailable')
+      const formats = videoId === 'webmonly006' ? [{ ...mp4, id: '248', container: 'webm', videoCodec: 'vp9', hasAudio: false, audioCodec: null }] : [mp4]
+      const info: SourceInfo = { videoId, title: videoId, duration: entries.find(candidate => candidate.videoId === videoId)?.duration ?? null, formats }
+      return info
+    },
+    getPlaylist: async () => playlist,
+    getCaptionTracks: async () => [],
+    getCaptions: async () => '',
+    mediaUrl: (videoId, formatId) => `/media/${videoId}/${formatId}`
+  }
+
+  const build = (items: PlaylistItem[], rule: PlaylistRule) => buildPlaylistRequests(playlist, items, {
+    sourceApi, rule, format: 'mp4', settings: DEFAULT_ENCODING_SETTINGS, batch: { id: 'batch-1', name: 'Mix' }
+  })
+
+  it('applies the shared rule unless an entry has its own range, and reports what it skips', async () => {
+    const { requests, skipped } = await build([
+      { entry: entries[0] },
+      { entry: entries[1], range: { start: 50, end: 90 } },
+      { entry: entries[2] },
+      { entry: entries[3], range: { start: 70, end: 80 } },
+      { entry: entries[4] },
+      { entry: entries[5] }
+    ], FULL)
+
+    expect(requests.map(request => ({ source: request.source, ranges: request.ranges }))).toEqual([
+      { source: '/media/video000001/18', ranges: [{ start: 0, end: 60 }] },
+      { source: '/media/video000002/18', ranges: [{ start: 50, end: 60 }] }
+    ])
+    expect(skipped.map(skip => [skip.entry.index, skip.reason])).toEqual([
+      [3, 'Duration unknown'],
+      // Clamped to the 60 s video, the range is empty
+      [4, 'Empty range'],
+      [5, 'Video unavailable'],
+      [6, 'No stream can be exported as MP4']
+    ])
+  })
+
+  it('names files by zero-padded playlist position and labels jobs with the playlist', async () => {
+    const { requests } = await build([{ entry: entries[0] }], FIRST_30)
+    expect(requests[0]).toMatchObject({ label: 'Mix - Video 1', ranges: [{ start: 0, end: 30 }], format: 'mp4', batch: { id: 'batch-1' } })
+    expect(requests[0].filename).toBe('01_Video_1_00h00m00s000-00h00m30s000.mp4')
+    expect(requests[0].audioSource).toBeUndefined()
+  })
+
+  it('exports the whole of a video whose length only the server knows', async () => {
+    const { requests } = await build([{ entry: { ...entries[0], duration: null } }], FULL)
+    expect(requests[0].ranges).toEqual([{ start: 0, end: 60 }])
+  })
+})
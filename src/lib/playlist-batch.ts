@@ -0,0 +1,95 @@
+import { buildExportFilename } from './download'
+import { settingsForSource, type EncodingSettings } from './encoding-settings'
+import type { ExportBatch, ExportJobRequest } from './export-queue'
+import type { TimeRange } from './ffmpeg'
+import { getOutputProfile, type OutputFormat } from './output-formats'
+import type { PlaylistEntry, PlaylistInfo, SourceApi, SourceInfo } from './source-api'
+import { pickSourceOption } from './source-formats'
+import { formatFilenameTime } from './timecode'
+
+// Turning the ticked entries of a playlist into one export job each. Every
+// entry gets the shared rule unless it has a range of its own.
+
+export type PlaylistRule = { kind: 'full' } | { kind: 'first'; seconds: number }
+
+export interface PlaylistItem {
+  entry: PlaylistEntry
+  // Overrides the shared rule for this entry
+  range?: TimeRange
+}
+
+export interface PlaylistSkip {
+  entry: PlaylistEntry
+  reason: string
+}
+
+interface PlaylistRequestOptions {
+  sourceApi: SourceApi
+  rule: PlaylistRule
+  format: OutputFormat
+  settings: EncodingSettings
+  batch: ExportBatch
+  signal?: AbortSignal
+}
+
+// The range to export from a video of this length; null when it can't be
+// known yet, i.e. the whole of a video whose duration is unknown
+export function playlistItemRange(duration: number | null, rule: PlaylistRule, range?: TimeRange): TimeRange | null {
+  const clamp = (seconds: number) => (duration !== null ? Math.min(seconds, duration) : seconds)
+  if (range) return { start: clamp(range.start), end: clamp(range.end) }
+  if (rule.kind === 'first') return { start: 0, end: clamp(rule.seconds) }
+  return duration !== null ? { start: 0, end: duration } : null
+}
+
+// Look up each entry's streams on the source server and build its job.
+// Entries that can't be exported are reported instead of failing the batch.
+export async function buildPlaylistRequests(
+  playlist: PlaylistInfo,
+  items: PlaylistItem[],
+  options: PlaylistRequestOptions
+): Promise<{ requests: ExportJobRequest[]; skipped: PlaylistSkip[] }> {
+  const { sourceApi, rule, format, settings, batch, signal } = options
+  const profile = getOutputProfile(format)
+  const requests: ExportJobRequest[] = []
+  const skipped: PlaylistSkip[] = []
+  const indexWidth = String(playlist.entries.length).length
+
+  // One at a time to stay gentle on the source server
+  for (const { entry, range } of items) {
+    let info: SourceInfo
+    try {
+      info = await sourceApi.getInfo(entry.videoId, signal)
+    } catch (error) {
+      if (signal?.aborted) throw error
+      skipped.push({ entry, reason: error instanceof Error ? error.message : 'Source server error' })
+      continue
+    }
+
+    const duration = info.duration ?? entry.duration
+    const itemRange = playlistItemRange(duration, rule, range)
+    if (!itemRange || itemRange.end <= itemRange.start) {
+      skipped.push({ entry, reason: itemRange ? 'Empty range' : 'Duration unknown' })
+      continue
+    }
+    const option = pickSourceOption(info.formats, profile, duration)
+    if (!option) {
+      skipped.push({ entry, reason: `No stream can be exported as ${profile.label}` })
+      continue
+    }
+
+    const primary = option.video ?? option.audio!
+    const position = String(entry.index).padStart(indexWidth, '0')
+    requests.push({
+      label: `${playlist.title} - ${entry.title}`,
+      filename: buildExportFilename(`${position} ${entry.title}`, [`${formatFilenameTime(itemRange.start)}-${formatFilenameTime(itemRange.end)}`], profile),
+      source: sourceApi.mediaUrl(entry.videoId, primary.id),
+      audioSource: option.audio && option.audio !== primary ? sourceApi.mediaUrl(entry.videoId, option.audio.id) : undefined,
+      ranges: [itemRange],
+      format,
+      settings: settingsForSource(profile, settings, option),
+      batch
+    })
+  }
+
+  return { requests, skipped }
+}
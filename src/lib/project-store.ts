@@ -0,0 +1,118 @@
+import { parseProject, summarizeProject, type Project, type ProjectSummary } from './project'
+
+// IndexedDB persistence for projects. Records are read back through
+// parseProject, so projects saved by older versions are upgraded on load and
+// damaged ones are reported instead of crashing the app.
+
+export interface ProjectStore {
+  // Newest first; records that can't be read are skipped
+  list: () => Promise<ProjectSummary[]>
+  get: (id: string) => Promise<Project>
+  put: (project: Project) => Promise<void>
+  remove: (id: string) => Promise<void>
+}
+
+interface ProjectStoreOptions {
+  indexedDB?: IDBFactory
+  databaseName?: string
+  // Oldest projects beyond this are pruned on save
+  maxProjects?: number
+}
+
+const STORE_NAME = 'projects'
+const DATABASE_VERSION = 1
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+})
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve()
+  transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+  transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+})
+
+export function createProjectStore(options: ProjectStoreOptions = {}): ProjectStore {
+  const { databaseName = 'youtube-video-trimmer', maxProjects = 20 } = options
+  let database: Promise<IDBDatabase> | null = null
+
+  // Opened on first use, so creating the store never touches IndexedDB
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const factory = options.indexedDB ?? globalThis.indexedDB
+      if (!factory) {
+        reject(new Error('This browser cannot store projects (IndexedDB is unavailable)'))
+        return
+      }
+      const request = factory.open(databaseName, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('updatedAt', 'updatedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Could not open the project database'))
+      request.onblocked = () => reject(new Error('The project database is in use by another tab'))
+    })
+    // Let a later call retry after a failure
+    database.catch(() => {
+      database = null
+    })
+    return database
+  }
+
+  const readAll = async (): Promise<unknown[]> => {
+    const db = await open()
+    return requestResult(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll())
+  }
+
+  return {
+    list: async () => {
+      const summaries: ProjectSummary[] = []
+      for (const record of await readAll()) {
+        try {
+          summaries.push(summarizeProject(parseProject(record)))
+        } catch (error) {
+          console.warn('Skipping unreadable project:', error)
+        }
+      }
+      return summaries.sort((a, b) => b.updatedAt - a.updatedAt)
+    },
+    get: async (id) => {
+      const db = await open()
+      const record = await requestResult(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id))
+      if (record === undefined) throw new Error('Project not found; it may have been deleted')
+      return parseProject(record)
+    },
+    put: async (project) => {
+      const db = await open()
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      const done = transactionDone(transaction)
+      const store = transaction.objectStore(STORE_NAME)
+      store.put(project)
+
+      // Keep the newest `maxProjects`, walking the index from oldest to newest
+      const count = await requestResult(store.count())
+      let excess = count - maxProjects
+      if (excess > 0) {
+        const cursorRequest = store.index('updatedAt').openCursor()
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result
+          if (!cursor || excess <= 0) return
+          if (cursor.primaryKey !== project.id) {
+            cursor.delete()
+            excess -= 1
+          }
+          cursor.continue()
+        }
+      }
+      await done
+    },
+    remove: async (id) => {
+      const db = await open()
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).delete(id)
+      await transactionDone(transaction)
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { createAudioEffect } from './audio-effects'
+import { DEFAULT_ENCODING_SETTINGS } from './encoding-settings'
+import { EMPTY_MEDIA_TAGS } from './media-tags'
+import { DEFAULT_OVERLAY_SETTINGS, createTextOverlay } from './overlays'
+import {
+  fromProjectCover,
+  parseProject,
+  parseProjectFile,
+  PROJECT_TYPE,
+  PROJECT_VERSION,
+  serializeProject,
+  toProjectCover,
+  type Project
+} from './project'
+
+const project = (): Project => ({
+  type: PROJECT_TYPE,
+  version: PROJECT_VERSION,
+  id: 'project-1',
+  name: 'Clip',
+  createdAt: 1,
+  updatedAt: 2,
+  source: { kind: 'url', url: 'https://youtu.be/dQw4w9WgXcQ' },
+  video: { source: 'youtube', title: 'Video', author: 'Channel', duration: 60, thumbnail: 'https://img.example/t.jpg', url: 'https://www.youtube.com/embed/dQw4w9WgXcQ', videoId: 'dQw4w9WgXcQ' },
+  segments: [{ id: 'segment-1', start: 1, end: 5, label: 'Intro', color: '#ff0000' }],
+  activeSegmentId: 'segment-1',
+  export: { format: 'mp3', settings: DEFAULT_ENCODING_SETTINGS, mode: 'separate', sourceChoice: 'auto' },
+  overlays: { ...DEFAULT_OVERLAY_SETTINGS, burnCaptions: true, captionPosition: 'top', texts: [{ ...createTextOverlay(2, 60), text: 'Hello' }] },
+  reframe: { aspect: '9:16', keyframes: [{ id: 'key-1', time: 3, x: 0.25, y: 0.5 }] },
+  audioEffects: [createAudioEffect('fade-in'), createAudioEffect('gain')],
+  tags: { ...EMPTY_MEDIA_TAGS, title: 'Song', artist: 'Band', track: '3/12' },
+  cover: toProjectCover({ kind: 'image', name: 'cover.png', art: { mimeType: 'image/png', data: Uint8Array.of(0x89, 0x50, 0, 255) } }),
+  display: { timeDisplayMode: 'clock', frameRate: 30 },
+  notes: ''
+})
+
+// What an older app version wrote: no overlays, reframing, effects or tags
+const versionTwo = () => {
+  const document: Record<string, unknown> = { ...project(), version: 2 }
+  for (const key of ['overlays', 'reframe', 'audioEffects', 'tags', 'cover']) delete document[key]
+  return document
+}
+
+describe('parseProject', () => {
+  it('keeps overlays, reframing, audio effects, tags and the cover through a file', () => {
+    const saved = project()
+    expect(parseProjectFile(serializeProject(saved))).toEqual(saved)
+  })
+
+  it('gives older projects the defaults of a freshly loaded source', () => {
+    expect(parseProject(versionTwo())).toMatchObject({
+      version: PROJECT_VERSION,
+      overlays: DEFAULT_OVERLAY_SETTINGS,
+      reframe: { aspect: 'source', keyframes: [] },
+      audioEffects: [],
+      tags: { ...EMPTY_MEDIA_TAGS, title: 'Video', artist: 'Channel' },
+      cover: { kind: 'thumbnail' }
+    })
+  })
+
+  it('upgrades version 1 through every migration', () => {
+    const saved = project()
+    const settings: Record<string, unknown> = { ...saved.export.settings }
+    delete settings.targetSize
+    const upgraded = parseProject({ ...versionTwo(), version: 1, video: { ...saved.video, thumbnail: '' }, export: { ...saved.export, settings } })
+    expect(upgraded.export.settings.targetSize).toEqual(DEFAULT_ENCODING_SETTINGS.targetSize)
+    expect(upgraded.cover).toEqual({ kind: 'none' })
+  })
+
+  it.each([
+    ['overlays.texts.0.x', (document: Project) => ({ ...document, overlays: { ...document.overlays, texts: [{ ...document.overlays.texts[0], x: 2 }] } })],
+    ['reframe.aspect', (document: Project) => ({ ...document, reframe: { ...document.reframe, aspect: '3:2' } })],
+    ['audioEffects.1.gain', (document: Project) => ({ ...document, audioEffects: [document.audioEffects[0], { kind: 'gain', id: 'gain-1', gain: 99 }] })],
+    ['cover.data', (document: Project) => ({ ...document, cover: { kind: 'image', name: 'x.png', mimeType: 'image/png', data: 'not base64!' } })]
+  ])('reports a damaged %s', (path, damage) => {
+    expect(() => parseProject(damage(project()))).toThrow(`Project file is corrupt (${path}: `)
+  })
+})
+
+describe('project covers', () => {
+  it('round-trips picked image bytes through base64', () => {
+    const data = Uint8Array.from({ length: 70_000 }, (_, index) => index % 256)
+    const cover = toProjectCover({ kind: 'image', name: 'big.jpg', art: { mimeType: 'image/jpeg', data } })
+    expect(cover).toMatchObject({ kind: 'image', name: 'big.jpg', mimeType: 'image/jpeg' })
+    expect(fromProjectCover(cover)).toEqual({ kind: 'image', name: 'big.jpg', art: { mimeType: 'image/jpeg', data } })
+  })
+
+  it('passes thumbnail and no cover through', () => {
+    expect(toProjectCover({ kind: 'thumbnail' })).toEqual({ kind: 'thumbnail' })
+    expect(fromProjectCover({ kind: 'none' })).toEqual({ kind: 'none' })
+  })
+})
@@ -0,0 +1,303 @@
+import { z } from 'zod'
+import { audioEffectSchema, type AudioEffect } from './audio-effects'
+import { DEFAULT_ENCODING_SETTINGS, encodingSettingsSchema, type EncodingSettings } from './encoding-settings'
+import { EMPTY_MEDIA_TAGS, type CoverArt, type CoverSource, type MediaTags } from './media-tags'
+import { OUTPUT_FORMATS, type OutputFormat } from './output-formats'
+import { DEFAULT_OVERLAY_SETTINGS, type OverlaySettings } from './overlays'
+import { ASPECT_PRESETS, DEFAULT_REFRAME, type AspectPreset, type Reframe } from './reframe'
+import type { Segment } from './segments'
+import type { TimecodeDisplayMode } from './timecode'
+import type { VideoInfo } from './video-info'
+
+// A trimming session as one document: where the media came from, the clips,
+// what is drawn over and done to them, and the export settings. Autosaved to
+// IndexedDB and exported as a .trimproj.json file. Every stored or imported
+// document goes through parseProject, which upgrades older versions and
+// explains what's wrong with anything it can't read.
+
+export const PROJECT_TYPE = 'trimproj'
+export const PROJECT_VERSION = 3
+export const PROJECT_FILE_EXTENSION = '.trimproj.json'
+
+// How to get the media back: URLs are resolved again, local files have to be picked again
+export type ProjectSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; name: string; size: number; type: string }
+
+export interface ProjectExportSettings {
+  format: OutputFormat
+  settings: EncodingSettings
+  mode: 'separate' | 'concat'
+  sourceChoice: string
+}
+
+// The cover choice with a picked image's bytes as base64, so it survives JSON
+export type ProjectCover =
+  | { kind: 'thumbnail' }
+  | { kind: 'none' }
+  | { kind: 'image'; name: string; mimeType: CoverArt['mimeType']; data: string }
+
+export interface Project {
+  type: typeof PROJECT_TYPE
+  version: typeof PROJECT_VERSION
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  source: ProjectSource
+  // Snapshot from when the project was saved; object URLs in it are stale
+  video: VideoInfo
+  segments: Segment[]
+  activeSegmentId: string | null
+  export: ProjectExportSettings
+  overlays: OverlaySettings
+  reframe: Reframe
+  audioEffects: AudioEffect[]
+  tags: MediaTags
+  cover: ProjectCover
+  display: { timeDisplayMode: TimecodeDisplayMode; frameRate: number }
+  notes: string
+}
+
+// What the recent projects list shows without loading the whole document
+export interface ProjectSummary {
+  id: string
+  name: string
+  updatedAt: number
+  source: ProjectSource
+  duration: number | null
+  segmentCount: number
+}
+
+const finite = () => z.number().refine(Number.isFinite, 'Expected a finite number')
+
+const sourceFormatSchema = z.object({
+  id: z.string(),
+  mimeType: z.string(),
+  container: z.string(),
+  hasVideo: z.boolean(),
+  hasAudio: z.boolean(),
+  videoCodec: z.string().nullable(),
+  audioCodec: z.string().nullable(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  fps: z.number().nullable(),
+  qualityLabel: z.string().nullable(),
+  bitrate: z.number().nullable(),
+  audioBitrate: z.number().nullable(),
+  contentLength: z.number().nullable()
+})
+
+const videoInfoSchema = z.object({
+  source: z.enum(['youtube', 'url', 'hls', 'file']),
+  title: z.string(),
+  author: z.string().optional(),
+  duration: finite().nonnegative().nullable(),
+  thumbnail: z.string(),
+  url: z.string(),
+  videoId: z.string().optional(),
+  mediaUrl: z.string().optional(),
+  size: z.number().optional(),
+  formats: z.array(sourceFormatSchema).optional(),
+  requestedRange: z.object({ start: finite(), end: finite().nullable() }).optional()
+})
+
+const segmentSchema = z.object({
+  id: z.string().min(1),
+  start: finite().nonnegative(),
+  end: finite(),
+  label: z.string(),
+  color: z.string()
+}).refine(segment => segment.end > segment.start, 'Clip ends before it starts')
+
+const fraction = () => finite().min(0).max(1)
+
+const textStyleSchema = z.object({
+  fontFamily: z.string(),
+  fontSize: finite().positive(),
+  bold: z.boolean(),
+  color: z.string(),
+  outlineColor: z.string(),
+  outlineWidth: finite().nonnegative(),
+  box: z.boolean(),
+  boxColor: z.string(),
+  boxOpacity: fraction()
+})
+
+const overlaySettingsSchema = z.object({
+  burnCaptions: z.boolean(),
+  captionStyle: textStyleSchema,
+  captionPosition: z.enum(['top', 'middle', 'bottom']),
+  texts: z.array(z.object({
+    id: z.string().min(1),
+    start: finite().nonnegative(),
+    end: finite(),
+    text: z.string(),
+    x: fraction(),
+    y: fraction(),
+    style: textStyleSchema
+  }))
+})
+
+const reframeSchema = z.object({
+  aspect: z.enum(ASPECT_PRESETS.map(preset => preset.value) as [AspectPreset, ...AspectPreset[]]),
+  keyframes: z.array(z.object({ id: z.string().min(1), time: finite().nonnegative(), x: fraction(), y: fraction() }))
+})
+
+const mediaTagsSchema = z.object({
+  title: z.string(),
+  artist: z.string(),
+  album: z.string(),
+  year: z.string(),
+  genre: z.string(),
+  track: z.string(),
+  comment: z.string()
+})
+
+const coverSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('thumbnail') }),
+  z.object({ kind: z.literal('none') }),
+  z.object({ kind: z.literal('image'), name: z.string(), mimeType: z.enum(['image/jpeg', 'image/png']), data: z.base64() })
+])
+
+const projectSchema = z.object({
+  type: z.literal(PROJECT_TYPE),
+  version: z.literal(PROJECT_VERSION),
+  id: z.string().min(1),
+  name: z.string(),
+  createdAt: finite(),
+  updatedAt: finite(),
+  source: z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('url'), url: z.string().min(1) }),
+    z.object({ kind: z.literal('file'), name: z.string(), size: z.number().nonnegative(), type: z.string() })
+  ]),
+  video: videoInfoSchema,
+  segments: z.array(segmentSchema),
+  activeSegmentId: z.string().nullable(),
+  export: z.object({
+    format: z.enum(OUTPUT_FORMATS as [OutputFormat, ...OutputFormat[]]),
+    settings: encodingSettingsSchema,
+    mode: z.enum(['separate', 'concat']),
+    sourceChoice: z.string()
+  }),
+  overlays: overlaySettingsSchema,
+  reframe: reframeSchema,
+  audioEffects: z.array(audioEffectSchema),
+  tags: mediaTagsSchema,
+  cover: coverSchema,
+  display: z.object({
+    timeDisplayMode: z.enum(['clock', 'precise', 'smpte', 'frames', 'seconds']),
+    frameRate: finite().positive()
+  }),
+  notes: z.string()
+})
+
+// Upgrades from each older version to the next, keyed by the version they
+// upgrade from. A schema change bumps PROJECT_VERSION and adds an entry here
+// so projects saved before it keep opening.
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 2 added the fit-to-size target to the encoding settings
+  1: (document) => {
+    const exported = isRecord(document.export) ? document.export : {}
+    const settings = isRecord(exported.settings) ? exported.settings : {}
+    return { ...document, export: { ...exported, settings: { targetSize: DEFAULT_ENCODING_SETTINGS.targetSize, ...settings } } }
+  },
+  // Version 3 saved overlays, reframing, audio effects and tags; older
+  // projects get what a freshly loaded source starts with
+  2: (document) => {
+    const video = isRecord(document.video) ? document.video : {}
+    return {
+      ...document,
+      overlays: DEFAULT_OVERLAY_SETTINGS,
+      reframe: DEFAULT_REFRAME,
+      audioEffects: [],
+      tags: { ...EMPTY_MEDIA_TAGS, title: video.title ?? '', artist: video.author ?? '' },
+      cover: video.thumbnail ? { kind: 'thumbnail' } : { kind: 'none' }
+    }
+  }
+}
+
+const OLDEST_VERSION = PROJECT_VERSION - Object.keys(MIGRATIONS).length
+
+// Validate a stored or imported document, upgrading older versions first
+export function parseProject(input: unknown): Project {
+  if (!isRecord(input) || input.type !== PROJECT_TYPE) throw new Error('Not a trimmer project file')
+
+  const version = input.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Project file has no valid version number')
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (project version ${version}, supported up to ${PROJECT_VERSION}); update the app to open it`)
+  }
+  if (version < OLDEST_VERSION) {
+    throw new Error(`Project version ${version} is too old to open; the oldest supported version is ${OLDEST_VERSION}`)
+  }
+
+  let document = input
+  for (let from = version; from < PROJECT_VERSION; from += 1) document = { ...MIGRATIONS[from](document), version: from + 1 }
+
+  const result = projectSchema.safeParse(document)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''
+    throw new Error(`Project file is corrupt (${path}${issue.message})`)
+  }
+  return result.data
+}
+
+// Read a .trimproj.json file's text
+export function parseProjectFile(text: string): Project {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Project file is corrupt: it is not valid JSON')
+  }
+  return parseProject(data)
+}
+
+const toBase64 = (data: Uint8Array): string => {
+  let binary = ''
+  // Chunked so large images don't overflow the argument list
+  for (let offset = 0; offset < data.length; offset += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0))
+
+export function toProjectCover(cover: CoverSource): ProjectCover {
+  if (cover.kind !== 'image') return cover
+  return { kind: 'image', name: cover.name, mimeType: cover.art.mimeType, data: toBase64(cover.art.data) }
+}
+
+export function fromProjectCover(cover: ProjectCover): CoverSource {
+  if (cover.kind !== 'image') return cover
+  return { kind: 'image', name: cover.name, art: { mimeType: cover.mimeType, data: fromBase64(cover.data) } }
+}
+
+export function serializeProject(project: Project): string {
+  return JSON.stringify(project, null, 2)
+}
+
+export function summarizeProject(project: Project): ProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    updatedAt: project.updatedAt,
+    source: project.source,
+    duration: project.video.duration,
+    segmentCount: project.segments.length
+  }
+}
+
+let projectCounter = 0
+
+export function createProjectId(): string {
+  projectCounter += 1
+  return `project-${Date.now().toString(36)}-${projectCounter}`
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { buildCropFilter, cropCentreAt, resolveCropPath, type AspectPreset, type CropKeyframe, type Reframe } from './reframe'
+
+const key = (time: number, x: number, y = 0.5): CropKeyframe => ({ id: `key-${time}`, time, x, y })
+
+describe('cropCentreAt', () => {
+  const keyframes = [key(1, 0.2, 0.4), key(3, 0.8, 0.6)]
+
+  it.each([
+    ['keeps the window centred without keyframes', [], 2, { x: 0.5, y: 0.5 }],
+    ['holds the first keyframe before it', keyframes, 0, { x: 0.2, y: 0.4 }],
+    ['holds the last keyframe after it', keyframes, 10, { x: 0.8, y: 0.6 }],
+    ['lands on a keyframe at its time', keyframes, 3, { x: 0.8, y: 0.6 }],
+    ['is halfway at the midpoint', keyframes, 2, { x: 0.5, y: 0.5 }]
+  ])('%s', (_, keyframes, time, expected) => {
+    const centre = cropCentreAt(keyframes, time)
+    expect(centre.x).toBeCloseTo(expected.x)
+    expect(centre.y).toBeCloseTo(expected.y)
+  })
+
+  it('eases in and out instead of moving at constant speed', () => {
+    // A quarter of the way in time is less than a quarter of the way across
+    expect(cropCentreAt(keyframes, 1.5).x).toBeCloseTo(0.2 + 0.6 * 0.15625)
+    expect(cropCentreAt(keyframes, 2.5).x).toBeCloseTo(0.2 + 0.6 * 0.84375)
+  })
+})
+
+describe('resolveCropPath', () => {
+  const reframe = (aspect: AspectPreset, keyframes: CropKeyframe[] = []): Reframe => ({ aspect, keyframes })
+
+  it.each([
+    ['9:16', 1920, 1080, 606, 1080],
+    ['1:1', 1920, 1080, 1080, 1080],
+    ['16:9', 1080, 1920, 1080, 606],
+    ['4:5', 640, 360, 288, 360],
+    // Odd sizes round down to even ones
+    ['1:1', 101, 57, 56, 56],
+    ['9:16', 64, 64, 36, 64],
+    // Never below 2 x 2
+    ['9:16', 3, 3, 2, 2]
+  ] as const)('crops %s from %sx%s to %sx%s', (aspect, width, height, cropWidth, cropHeight) => {
+    const path = resolveCropPath(reframe(aspect), width, height)!
+    expect(path).toMatchObject({ width: cropWidth, height: cropHeight })
+    expect(path.width % 2).toBe(0)
+    expect(path.height % 2).toBe(0)
+  })
+
+  it('keeps the original frame', () => {
+    expect(resolveCropPath(reframe('source', [key(0, 0)]), 1920, 1080)).toBeNull()
+  })
+
+  it('centres the window without keyframes', () => {
+    expect(resolveCropPath(reframe('9:16'), 1920, 1080)?.points).toEqual([{ time: 0, x: 657, y: 0 }])
+  })
+
+  it('clamps the window to the frame edges', () => {
+    const path = resolveCropPath(reframe('9:16', [key(0, 0), key(1, 0.01), key(2, 0.5), key(3, 0.99), key(4, 1)]), 1920, 1080)!
+    expect(path.points.map(point => point.x)).toEqual([0, 0, 657, 1314, 1314])
+    expect(path.points.every(point => point.y === 0)).toBe(true)
+  })
+
+  it('clamps vertically for landscape windows', () => {
+    const path = resolveCropPath(reframe('16:9', [key(0, 0.5, 0), key(1, 0.5, 1)]), 1080, 1920)!
+    expect(path.points).toEqual([{ time: 0, x: 0, y: 0 }, { time: 1, x: 0, y: 1314 }])
+  })
+})
+
+describe('buildCropFilter', () => {
+  it('writes a fixed window as constants', () => {
+    expect(buildCropFilter({ width: 606, height: 1080, points: [{ time: 0, x: 657, y: 0 }] }, 0)).toBe("crop=606:1080:x='657':y='0'")
+  })
+
+  it('pans between keyframes on the source clock', () => {
+    const filter = buildCropFilter({ width: 36, height: 64, points: [{ time: 1, x: 0, y: 0 }, { time: 2, x: 28, y: 0 }] }, 0.5)
+    expect(filter).toBe(
+      "crop=36:64:x='if(lt((t+0.5),1),0,if(lt((t+0.5),2),0+28*clip(((t+0.5)-1)/1,0,1)*clip(((t+0.5)-1)/1,0,1)*(3-2*clip(((t+0.5)-1)/1,0,1)),28))':y='0'"
+    )
+  })
+})
@@ -0,0 +1,154 @@
+// Reframing to another aspect ratio: the largest window of the target shape
+// that fits the source, panning between keyframes. Keyframe positions are the
+// window's centre as fractions of the source frame and times are on the
+// source's timeline; resolveCropPath turns them into pixels for ffmpeg's crop
+// filter once the frame size is known.
+
+export type AspectPreset = 'source' | '16:9' | '9:16' | '1:1' | '4:5'
+
+export interface CropKeyframe {
+  id: string
+  time: number
+  // Window centre, 0..1 across and down the source frame
+  x: number
+  y: number
+}
+
+export interface Reframe {
+  aspect: AspectPreset
+  // Sorted by time; none keeps the window centred
+  keyframes: CropKeyframe[]
+}
+
+// Fractions of the source frame
+export interface FrameBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Pixel crop for one source: a fixed window size and its top-left corner at
+// each keyframe time
+export interface CropPath {
+  width: number
+  height: number
+  points: { time: number; x: number; y: number }[]
+}
+
+export const ASPECT_PRESETS: { value: AspectPreset; label: string; ratio: number | null }[] = [
+  { value: 'source', label: 'Original', ratio: null },
+  { value: '16:9', label: '16:9 Landscape', ratio: 16 / 9 },
+  { value: '9:16', label: '9:16 Vertical', ratio: 9 / 16 },
+  { value: '1:1', label: '1:1 Square', ratio: 1 },
+  { value: '4:5', label: '4:5 Portrait', ratio: 4 / 5 }
+]
+
+export const DEFAULT_REFRAME: Reframe = { aspect: 'source', keyframes: [] }
+
+const CENTRE = { x: 0.5, y: 0.5 }
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+// Ease in and out of every keyframe instead of moving at constant speed
+const smoothstep = (u: number) => u * u * (3 - 2 * u)
+
+// ffmpeg expressions want plain decimals
+const formatNumber = (value: number) => String(Number(value.toFixed(3)))
+
+export function aspectRatio(preset: AspectPreset): number | null {
+  return ASPECT_PRESETS.find(candidate => candidate.value === preset)?.ratio ?? null
+}
+
+// Size of the crop window as fractions of a frame `sourceAspect` wide per unit of height
+export function cropWindowSize(sourceAspect: number, ratio: number): { width: number; height: number } {
+  return ratio < sourceAspect ? { width: ratio / sourceAspect, height: 1 } : { width: 1, height: sourceAspect / ratio }
+}
+
+// Window centre at `time`, eased between the keyframes around it and held
+// before the first and after the last
+export function cropCentreAt(keyframes: CropKeyframe[], time: number): { x: number; y: number } {
+  if (keyframes.length === 0) return CENTRE
+  const first = keyframes[0]
+  const last = keyframes[keyframes.length - 1]
+  if (time <= first.time) return first
+  if (time >= last.time) return last
+
+  const index = keyframes.findIndex(keyframe => keyframe.time > time) - 1
+  const from = keyframes[index]
+  const to = keyframes[index + 1]
+  const eased = smoothstep((time - from.time) / (to.time - from.time))
+  return { x: from.x + (to.x - from.x) * eased, y: from.y + (to.y - from.y) * eased }
+}
+
+// The window at `time` as a box inside the frame
+export function cropBoxAt(reframe: Reframe, sourceAspect: number, time: number): FrameBox | null {
+  const ratio = aspectRatio(reframe.aspect)
+  if (ratio === null) return null
+  const { width, height } = cropWindowSize(sourceAspect, ratio)
+  const centre = cropCentreAt(reframe.keyframes, time)
+  return {
+    x: clamp(centre.x - width / 2, 0, 1 - width),
+    y: clamp(centre.y - height / 2, 0, 1 - height),
+    width,
+    height
+  }
+}
+
+let keyframeCounter = 0
+
+// Place a keyframe at `time`, moving the one already within `tolerance` seconds
+export function setKeyframe(keyframes: CropKeyframe[], time: number, centre: { x: number; y: number }, tolerance: number): CropKeyframe[] {
+  const existing = keyframes.find(keyframe => Math.abs(keyframe.time - time) <= tolerance)
+  if (existing) return keyframes.map(keyframe => (keyframe === existing ? { ...keyframe, ...centre } : keyframe))
+  keyframeCounter += 1
+  const keyframe = { id: `key-${Date.now().toString(36)}-${keyframeCounter}`, time, ...centre }
+  return [...keyframes, keyframe].sort((a, b) => a.time - b.time)
+}
+
+// Pixel window for a `width` x `height` source; null when keeping the original frame
+export function resolveCropPath(reframe: Reframe, width: number, height: number): CropPath | null {
+  const ratio = aspectRatio(reframe.aspect)
+  if (ratio === null) return null
+  const size = cropWindowSize(width / height, ratio)
+  // Even dimensions keep yuv420p encoders happy
+  const cropWidth = Math.max(Math.floor((width * size.width) / 2) * 2, 2)
+  const cropHeight = Math.max(Math.floor((height * size.height) / 2) * 2, 2)
+
+  const keyframes = reframe.keyframes.length > 0 ? reframe.keyframes : [{ time: 0, ...CENTRE }]
+  return {
+    width: cropWidth,
+    height: cropHeight,
+    points: keyframes.map(keyframe => ({
+      time: keyframe.time,
+      x: Math.round(clamp(keyframe.x * width - cropWidth / 2, 0, width - cropWidth)),
+      y: Math.round(clamp(keyframe.y * height - cropHeight / 2, 0, height - cropHeight))
+    }))
+  }
+}
+
+// One axis of the path as an ffmpeg expression of `time`: constant outside the
+// keyframes, smoothstep between each pair, as in cropCentreAt
+const pathExpression = (points: { time: number; value: number }[], time: string): string => {
+  if (points.every(point => point.value === points[0].value)) return formatNumber(points[0].value)
+
+  let expression = formatNumber(points[points.length - 1].value)
+  for (let index = points.length - 2; index >= 0; index -= 1) {
+    const from = points[index]
+    const to = points[index + 1]
+    if (to.time <= from.time) continue
+    const u = `clip((${time}-${formatNumber(from.time)})/${formatNumber(to.time - from.time)},0,1)`
+    const eased = `${u}*${u}*(3-2*${u})`
+    expression = `if(lt(${time},${formatNumber(to.time)}),${formatNumber(from.value)}+${formatNumber(to.value - from.value)}*${eased},${expression})`
+  }
+  return `if(lt(${time},${formatNumber(points[0].time)}),${formatNumber(points[0].value)},${expression})`
+}
+
+// ffmpeg crop filter following the path. A trimmed input's clock restarts at
+// zero, so `offset` is the source time of its first frame.
+export function buildCropFilter(path: CropPath, offset: number): string {
+  const time = `(t+${formatNumber(offset)})`
+  const x = pathExpression(path.points.map(point => ({ time: point.time, value: point.x })), time)
+  const y = pathExpression(path.points.map(point => ({ time: point.time, value: point.y })), time)
+  return `crop=${path.width}:${path.height}:x='${x}':y='${y}'`
+}
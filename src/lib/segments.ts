@@ -0,0 +1,104 @@
+import type { TimeRange } from './ffmpeg'
+
+// Clip list model. Every helper is pure and returns a new array, so the
+// list can live in React state as-is.
+
+export interface Segment {
+  id: string
+  start: number
+  end: number
+  label: string
+  color: string
+}
+
+export const SEGMENT_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#f59e0b', '#a855f7', '#14b8a6', '#ec4899', '#64748b']
+
+// Shortest clip the split and edit helpers will produce
+export const MIN_SEGMENT_LENGTH = 0.1
+
+let segmentCounter = 0
+
+const createSegmentId = (): string => {
+  segmentCounter += 1
+  return `seg-${Date.now().toString(36)}-${segmentCounter}`
+}
+
+// Pick the first palette color not already in use
+const nextColor = (segments: Segment[]): string => {
+  const used = new Set(segments.map(segment => segment.color))
+  return SEGMENT_COLORS.find(color => !used.has(color)) ?? SEGMENT_COLORS[segments.length % SEGMENT_COLORS.length]
+}
+
+const nextLabel = (segments: Segment[]): string => {
+  const labels = new Set(segments.map(segment => segment.label))
+  let index = segments.length + 1
+  while (labels.has(`Clip ${index}`)) index += 1
+  return `Clip ${index}`
+}
+
+export function createSegment(segments: Segment[], range: TimeRange, label?: string): Segment {
+  return {
+    id: createSegmentId(),
+    start: Math.min(range.start, range.end),
+    end: Math.max(range.start, range.end),
+    label: label ?? nextLabel(segments),
+    color: nextColor(segments)
+  }
+}
+
+export function addSegment(segments: Segment[], range: TimeRange): Segment[] {
+  return [...segments, createSegment(segments, range)]
+}
+
+export function updateSegment(segments: Segment[], id: string, changes: Partial<Omit<Segment, 'id'>>): Segment[] {
+  return segments.map(segment => (segment.id === id ? { ...segment, ...changes } : segment))
+}
+
+export function deleteSegment(segments: Segment[], id: string): Segment[] {
+  return segments.filter(segment => segment.id !== id)
+}
+
+// Insert a copy right after the original
+export function duplicateSegment(segments: Segment[], id: string): Segment[] {
+  const index = segments.findIndex(segment => segment.id === id)
+  if (index === -1) return segments
+
+  const original = segments[index]
+  const copy = { ...createSegment(segments, original), label: `${original.label} copy` }
+  return [...segments.slice(0, index + 1), copy, ...segments.slice(index + 1)]
+}
+
+// Cut a segment in two at `time`; no-op when either half would be too short
+export function splitSegment(segments: Segment[], id: string, time: number): Segment[] {
+  const index = segments.findIndex(segment => segment.id === id)
+  if (index === -1) return segments
+
+  const original = segments[index]
+  if (time - original.start < MIN_SEGMENT_LENGTH || original.end - time < MIN_SEGMENT_LENGTH) {
+    return segments
+  }
+
+  const head = { ...original, end: time }
+  const tail = { ...createSegment(segments, { start: time, end: original.end }), label: `${original.label} (2)` }
+  return [...segments.slice(0, index), head, tail, ...segments.slice(index + 1)]
+}
+
+// Move the segment `activeId` into the position currently held by `overId`
+export function reorderSegments(segments: Segment[], activeId: string, overId: string): Segment[] {
+  const from = segments.findIndex(segment => segment.id === activeId)
+  const to = segments.findIndex(segment => segment.id === overId)
+  if (from === -1 || to === -1 || from === to) return segments
+
+  const reordered = [...segments]
+  const [moved] = reordered.splice(from, 1)
+  reordered.splice(to, 0, moved)
+  return reordered
+}
+
+export function segmentDuration(segment: TimeRange): number {
+  return Math.max(segment.end - segment.start, 0)
+}
+
+export function totalDuration(segments: TimeRange[]): number {
+  return segments.reduce((sum, segment) => sum + segmentDuration(segment), 0)
+}
@@ -0,0 +1,92 @@
+// Client for the source server in server/, which fetches YouTube media so the
+// browser can trim real bytes instead of the embed. Shapes mirror
+// server/source-fetcher.ts.
+
+export interface SourceFormat {
+  id: string
+  mimeType: string
+  container: string
+  hasVideo: boolean
+  hasAudio: boolean
+  videoCodec: string | null
+  audioCodec: string | null
+  width: number | null
+  height: number | null
+  fps: number | null
+  qualityLabel: string | null
+  bitrate: number | null
+  audioBitrate: number | null
+  contentLength: number | null
+}
+
+export interface SourceInfo {
+  videoId: string
+  title: string
+  duration: number | null
+  formats: SourceFormat[]
+}
+
+export interface PlaylistEntry {
+  videoId: string
+  title: string
+  duration: number | null
+  // 1-based position in the playlist
+  index: number
+}
+
+export interface PlaylistInfo {
+  playlistId: string
+  title: string
+  entries: PlaylistEntry[]
+}
+
+export interface CaptionTrack {
+  id: string
+  languageCode: string
+  name: string
+  autoGenerated: boolean
+}
+
+export interface SourceApi {
+  getInfo: (videoId: string, signal?: AbortSignal) => Promise<SourceInfo>
+  getPlaylist: (playlistId: string, signal?: AbortSignal) => Promise<PlaylistInfo>
+  getCaptionTracks: (videoId: string, signal?: AbortSignal) => Promise<CaptionTrack[]>
+  // Caption file text (WebVTT or SRT) for one of the video's tracks
+  getCaptions: (videoId: string, trackId: string, signal?: AbortSignal) => Promise<string>
+  // Without a formatId the server picks its best file with video and audio
+  mediaUrl: (videoId: string, formatId?: string) => string
+}
+
+interface SourceApiOptions {
+  // Empty means same origin, which the Vite dev server proxies to the backend
+  baseUrl?: string
+  fetch?: typeof fetch
+}
+
+export function createSourceApi(options: SourceApiOptions = {}): SourceApi {
+  const { fetch: fetchImpl = fetch } = options
+  const baseUrl = (options.baseUrl ?? '').replace(/\/$/, '')
+  const sourceUrl = (videoId: string, path: string) => `${baseUrl}/api/sources/${encodeURIComponent(videoId)}/${path}`
+
+  const request = async (url: string, signal?: AbortSignal) => {
+    const response = await fetchImpl(url, { signal })
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      throw new Error(body?.error ?? `Source server returned ${response.status}`)
+    }
+    return response
+  }
+
+  const getJson = async (url: string, signal?: AbortSignal) => (await request(url, signal)).json()
+
+  return {
+    getInfo: (videoId, signal) => getJson(sourceUrl(videoId, 'formats'), signal),
+    getPlaylist: (playlistId, signal) => getJson(`${baseUrl}/api/playlists/${encodeURIComponent(playlistId)}`, signal),
+    getCaptionTracks: (videoId, signal) => getJson(sourceUrl(videoId, 'captions'), signal),
+    getCaptions: async (videoId, trackId, signal) => (await request(sourceUrl(videoId, `captions/${encodeURIComponent(trackId)}`), signal)).text(),
+    mediaUrl: (videoId, formatId) => {
+      const url = sourceUrl(videoId, 'media')
+      return formatId ? `${url}?${new URLSearchParams({ format: formatId })}` : url
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_ENCODING_SETTINGS, effectiveMode, settingsForSource } from './encoding-settings'
+import { getOutputProfile, type OutputFormat } from './output-formats'
+import type { SourceFormat } from './source-api'
+import { AUTO_SOURCE, canStreamCopy, listSourceOptions, pickSourceOption, resolveSourceOption, type SourceOption } from './source-formats'
+
+const format = (id: string, changes: Partial<SourceFormat>): SourceFormat => ({
+  id,
+  mimeType: 'video/mp4',
+  container: 'mp4',
+  hasVideo: false,
+  hasAudio: false,
+  videoCodec: null,
+  audioCodec: null,
+  width: null,
+  height: null,
+  fps: null,
+  qualityLabel: null,
+  bitrate: null,
+  audioBitrate: null,
+  contentLength: null,
+  ...changes
+})
+
+const video = (id: string, height: number, codec = 'avc1.4d401f', changes: Partial<SourceFormat> = {}) =>
+  format(id, { hasVideo: true, videoCodec: codec, height, width: Math.round((height * 16) / 9), fps: 30, ...changes })
+const audio = (id: string, codec: string, kbps: number, container = 'mp4') =>
+  format(id, { mimeType: `audio/${container}`, container, hasAudio: true, audioCodec: codec, audioBitrate: kbps * 1000 })
+const muxed = (id: string, height: number) => video(id, height, 'avc1.42001E', { hasAudio: true, audioCodec: 'mp4a.40.2', audioBitrate: 96000 })
+
+// A typical YouTube listing
+const FORMATS = [
+  muxed('18', 360),
+  video('137', 1080),
+  video('248', 1080, 'vp9', { mimeType: 'video/webm', container: 'webm' }),
+  video('136', 720),
+  audio('140', 'mp4a.40.2', 128),
+  audio('251', 'opus', 160, 'webm'),
+  // Dolby audio that ffmpeg.js can't decode but a browser might
+  audio('328', 'ec-3', 384)
+]
+
+const option = (format: OutputFormat, id: string): SourceOption => listSourceOptions(FORMATS, getOutputProfile(format)).find(candidate => candidate.id === id)!
+
+const ids = (options: SourceOption[]) => options.map(option => option.id)
+
+describe('listSourceOptions', () => {
+  it.each([
+    // Single files first, then each video-only stream merged with the best audio
+    ['mp4', ['18', '137+140', '136+140']],
+    ['webm', ['18', '137+251', '136+251']],
+    // Audio-only streams by codec fit, then bitrate, then single files
+    ['m4a', ['140', '251', '18']],
+    ['mp3', ['251', '140', '18']],
+    // The browser decodes for these, so nothing is filtered out
+    ['wav', ['328', '251', '140', '18']],
+    ['gif', ['137', '248', '136', '18']]
+  ] as const)('offers %s %j', (output, expected) => {
+    expect(ids(listSourceOptions(FORMATS, getOutputProfile(output)))).toEqual(expected)
+  })
+
+  it('drops merges when there is no audio-only stream to pair with', () => {
+    expect(ids(listSourceOptions([muxed('18', 360), video('137', 1080)], getOutputProfile('mp4')))).toEqual(['18'])
+  })
+
+  it('labels merges and adds up their sizes', () => {
+    const sized = [video('137', 1080, 'avc1.640028', { contentLength: 3000 }), { ...audio('140', 'mp4a.40.2', 128), contentLength: 500 }]
+    expect(listSourceOptions(sized, getOutputProfile('mp4'))).toEqual([
+      expect.objectContaining({ id: '137+140', label: '1080p · 30 fps · MP4 (avc1) + 128 kbps audio · MP4 (mp4a)', size: 3500 })
+    ])
+  })
+})
+
+describe('pickSourceOption', () => {
+  it.each([
+    ['mp4', '137+140'],
+    ['webm', '137+251'],
+    ['m4a', '140'],
+    ['mp3', '251'],
+    ['opus', '251'],
+    ['wav', '328'],
+    ['gif', '137']
+  ] as const)('picks %s from %s', (output, expected) => {
+    expect(pickSourceOption(FORMATS, getOutputProfile(output))?.id).toBe(expected)
+  })
+
+  it('prefers the single file when a merge only matches it', () => {
+    const formats = [video('136', 720), muxed('22', 720), audio('140', 'mp4a.40.2', 128)]
+    expect(pickSourceOption(formats, getOutputProfile('mp4'))?.id).toBe('22')
+  })
+
+  it('merges for a higher frame rate at the same resolution', () => {
+    const formats = [muxed('22', 720), video('298', 720, 'avc1.4d4020', { fps: 60 }), audio('140', 'mp4a.40.2', 128)]
+    expect(pickSourceOption(formats, getOutputProfile('mp4'))?.id).toBe('298+140')
+  })
+
+  it('finds nothing when every format needs a codec ffmpeg.js lacks', () => {
+    expect(pickSourceOption([video('248', 1080, 'vp9'), audio('328', 'ec-3', 384)], getOutputProfile('mp4'))).toBeNull()
+  })
+})
+
+describe('resolveSourceOption', () => {
+  it.each([
+    ['keeps a choice that fits', 'mp4', '136+140', '136+140'],
+    ['picks automatically', 'mp4', AUTO_SOURCE, '137+140'],
+    // Chosen for WebM, then the user switched to MP4
+    ['falls back from a merge the profile no longer offers', 'mp4', '137+251', '137+140'],
+    ['falls back from a format the source no longer lists', 'm4a', '999', '140']
+  ] as const)('%s', (_, output, choice, expected) => {
+    expect(resolveSourceOption(FORMATS, getOutputProfile(output), choice)?.id).toBe(expected)
+  })
+})
+
+describe('canStreamCopy', () => {
+  it.each([
+    ['mp4', '18', true],
+    ['mp4', '137+140', true],
+    ['m4a', '140', true],
+    ['opus', '251', true],
+    // H.264 doesn't go into WebM, and no source serves MP3
+    ['webm', '18', false],
+    ['m4a', '251', false],
+    ['opus', '140', false],
+    ['mp3', '140', false]
+  ] as const)('%s from %s: %s', (output, id, expected) => {
+    const profile = getOutputProfile(output)
+    expect(canStreamCopy(profile, listSourceOptions(FORMATS, profile).find(candidate => candidate.id === id) ?? null)).toBe(expected)
+  })
+
+  it('trusts sources that list no formats, except for profiles that never copy', () => {
+    expect(canStreamCopy(getOutputProfile('mp4'))).toBe(true)
+    expect(canStreamCopy(getOutputProfile('mp3'))).toBe(false)
+    expect(canStreamCopy(getOutputProfile('gif'))).toBe(false)
+  })
+})
+
+describe('effectiveMode', () => {
+  const copy = { ...DEFAULT_ENCODING_SETTINGS, mode: 'copy' as const }
+
+  it('refuses a copy the source can\'t satisfy', () => {
+    expect(effectiveMode(getOutputProfile('mp4'), copy, option('mp4', '137+140'))).toBe('copy')
+    expect(effectiveMode(getOutputProfile('webm'), copy, option('webm', '18'))).toBe('reencode')
+    expect(settingsForSource(getOutputProfile('webm'), copy, option('webm', '18')).mode).toBe('reencode')
+  })
+
+  it('drops a copy left over from another format', () => {
+    // Chosen for MP4, then the user switched to MP3
+    expect(settingsForSource(getOutputProfile('mp3'), copy, pickSourceOption(FORMATS, getOutputProfile('mp3')))).toEqual(DEFAULT_ENCODING_SETTINGS)
+  })
+})
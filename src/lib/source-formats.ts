@@ -0,0 +1,167 @@
+import { isFfmpegEncoder, type OutputProfile } from './output-formats'
+import type { SourceFormat } from './source-api'
+
+// Choosing which of the source's streams an export reads from. YouTube only
+// serves low resolutions as single files with both tracks; higher ones come as
+// a video-only stream that has to be merged with a separate audio-only one.
+
+export type SourceStreamKind = 'muxed' | 'video' | 'audio'
+
+// What to fetch for an export: one file, or a video-only plus an audio-only stream
+export interface SourceOption {
+  // A format id, or "<video id>+<audio id>" for a merge
+  id: string
+  label: string
+  video: SourceFormat | null
+  audio: SourceFormat | null
+  // Bytes to download, when the server reported them
+  size: number | null
+}
+
+export const AUTO_SOURCE = 'auto'
+
+export function isMergedOption(option: SourceOption): boolean {
+  return option.video !== null && option.audio !== null && option.video !== option.audio
+}
+
+// Codec families the ffmpeg.js builds can decode, keyed by codec string prefix
+const FFMPEG_VIDEO_CODECS = ['avc1', 'h264', 'vp8']
+const FFMPEG_AUDIO_CODECS = ['mp4a', 'mp3', 'opus', 'vorbis']
+
+const hasPrefix = (codec: string, prefixes: string[]) => prefixes.some(prefix => codec.toLowerCase().startsWith(prefix))
+
+export function sourceStreamKind(format: SourceFormat): SourceStreamKind {
+  if (format.hasVideo && format.hasAudio) return 'muxed'
+  return format.hasVideo ? 'video' : 'audio'
+}
+
+// Whether ffmpeg.js can decode the format's tracks; unknown codecs get the benefit of the doubt
+export function isFfmpegDecodable(format: SourceFormat): boolean {
+  if (format.hasVideo && format.videoCodec && !hasPrefix(format.videoCodec, FFMPEG_VIDEO_CODECS)) return false
+  if (format.hasAudio && format.audioCodec && !hasPrefix(format.audioCodec, FFMPEG_AUDIO_CODECS)) return false
+  return true
+}
+
+// Short codec name without the profile suffix, e.g. avc1.64001F -> avc1
+const codecName = (codec: string | null) => codec?.split('.')[0] ?? null
+
+export function describeSourceFormat(format: SourceFormat): string {
+  const parts: string[] = []
+  if (format.hasVideo) {
+    parts.push(format.qualityLabel ?? (format.height ? `${format.height}p` : 'Video'))
+    if (format.fps && !format.qualityLabel?.includes(String(format.fps))) parts.push(`${format.fps} fps`)
+  }
+  if (format.hasAudio && format.audioBitrate) parts.push(`${Math.round(format.audioBitrate / 1000)} kbps audio`)
+  const codecs = [format.hasVideo && codecName(format.videoCodec), format.hasAudio && codecName(format.audioCodec)].filter(Boolean)
+  parts.push(`${format.container.toUpperCase()}${codecs.length > 0 ? ` (${codecs.join(', ')})` : ''}`)
+  return parts.join(' · ')
+}
+
+// contentLength when known, otherwise estimated from the bitrate
+export function approximateFormatSize(format: SourceFormat, duration: number | null): number | null {
+  if (format.contentLength !== null) return format.contentLength
+  if (format.bitrate === null || !duration) return null
+  return (format.bitrate * duration) / 8
+}
+
+const sumSizes = (formats: SourceFormat[], duration: number | null): number | null => {
+  const sizes = formats.map(format => approximateFormatSize(format, duration))
+  return sizes.every(size => size !== null) ? sizes.reduce<number>((sum, size) => sum + size!, 0) : null
+}
+
+const singleOption = (format: SourceFormat, duration: number | null): SourceOption => ({
+  id: format.id,
+  label: describeSourceFormat(format),
+  video: format.hasVideo ? format : null,
+  audio: format.hasAudio ? format : null,
+  size: approximateFormatSize(format, duration)
+})
+
+const mergedOption = (video: SourceFormat, audio: SourceFormat, duration: number | null): SourceOption => ({
+  id: `${video.id}+${audio.id}`,
+  label: `${describeSourceFormat(video)} + ${describeSourceFormat(audio)}`,
+  video,
+  audio,
+  size: sumSizes([video, audio], duration)
+})
+
+// Codec prefix matching the profile's encoder
+const PREFERRED_CODECS: Record<string, string> = { libx264: 'avc1', libvpx: 'vp8', aac: 'mp4a', libmp3lame: 'mp3', libopus: 'opus' }
+
+const prefers = (codec: string | null, encoder: string | null) => {
+  const preferred = encoder ? PREFERRED_CODECS[encoder] : undefined
+  return preferred && codec && codec.toLowerCase().startsWith(preferred) ? 1 : 0
+}
+
+// Whether the option's streams fit the profile's container as they are, so
+// stream copy can work. Options without codec details get the benefit of the
+// doubt, and no option at all means a source that doesn't list its formats.
+export function canStreamCopy(profile: OutputProfile, option: SourceOption | null = null): boolean {
+  if (!profile.supports.streamCopy) return false
+  if (!option) return true
+  const fits = (codec: string | null | undefined, encoder: string | null) => !encoder || !codec || prefers(codec, encoder) === 1
+  const videoFits = profile.audioOnly || fits(option.video?.videoCodec, profile.videoCodec)
+  return videoFits && fits(option.audio?.audioCodec, profile.audioCodec)
+}
+
+const byVideoQuality = (profile: OutputProfile) => (a: SourceFormat, b: SourceFormat) =>
+  (b.height ?? 0) - (a.height ?? 0) ||
+  (b.fps ?? 0) - (a.fps ?? 0) ||
+  prefers(b.videoCodec, profile.videoCodec) - prefers(a.videoCodec, profile.videoCodec) ||
+  (b.bitrate ?? 0) - (a.bitrate ?? 0)
+
+// Audio in the profile's own codec comes first: it can be stream copied, and
+// re-encoding from it costs one generation less
+const byAudioQuality = (profile: OutputProfile) => (a: SourceFormat, b: SourceFormat) =>
+  prefers(b.audioCodec, profile.audioCodec) - prefers(a.audioCodec, profile.audioCodec) ||
+  (b.audioBitrate ?? 0) - (a.audioBitrate ?? 0)
+
+// Formats an export with this profile can read: ffmpeg profiles need codecs
+// ffmpeg.js decodes, the others go through the browser's own decoders
+const usableFormats = (formats: SourceFormat[], profile: OutputProfile) => {
+  return isFfmpegEncoder(profile.encoder) ? formats.filter(isFfmpegDecodable) : formats
+}
+
+// Every choice offered for the profile: single files first, then merges of
+// each video-only stream with the best audio-only one
+export function listSourceOptions(formats: SourceFormat[], profile: OutputProfile, duration: number | null = null): SourceOption[] {
+  const usable = usableFormats(formats, profile)
+  const muxed = usable.filter(format => sourceStreamKind(format) === 'muxed').sort(byVideoQuality(profile))
+  const videoOnly = usable.filter(format => sourceStreamKind(format) === 'video').sort(byVideoQuality(profile))
+  const audioOnly = usable.filter(format => sourceStreamKind(format) === 'audio').sort(byAudioQuality(profile))
+
+  if (profile.audioOnly) return [...audioOnly, ...muxed].map(format => singleOption(format, duration))
+  // GIFs are silent, so a video-only stream is enough
+  if (!profile.audioCodec) return [...muxed, ...videoOnly].sort(byVideoQuality(profile)).map(format => singleOption(format, duration))
+
+  const bestAudio = audioOnly[0]
+  return [
+    ...muxed.map(format => singleOption(format, duration)),
+    ...(bestAudio ? videoOnly.map(video => mergedOption(video, bestAudio, duration)) : [])
+  ]
+}
+
+// Best choice for the profile: the best audio-only stream for audio exports,
+// otherwise the highest resolution, merging streams when a video-only one
+// beats every single file
+export function pickSourceOption(formats: SourceFormat[], profile: OutputProfile, duration: number | null = null): SourceOption | null {
+  const options = listSourceOptions(formats, profile, duration)
+  if (profile.audioOnly || options.length === 0) return options[0] ?? null
+
+  // Stable sort: at equal resolution the single file, listed first, wins over a merge
+  return [...options].sort((a, b) => (b.video?.height ?? 0) - (a.video?.height ?? 0) || (b.video?.fps ?? 0) - (a.video?.fps ?? 0))[0]
+}
+
+// Resolve the picker's value; a choice that no longer fits the profile falls back to automatic
+export function resolveSourceOption(
+  formats: SourceFormat[],
+  profile: OutputProfile,
+  choice: string,
+  duration: number | null = null
+): SourceOption | null {
+  if (choice !== AUTO_SOURCE) {
+    const chosen = listSourceOptions(formats, profile, duration).find(option => option.id === choice)
+    if (chosen) return chosen
+  }
+  return pickSourceOption(formats, profile, duration)
+}
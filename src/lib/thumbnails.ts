@@ -0,0 +1,172 @@
+import type { TimeRange } from './ffmpeg'
+
+// Still frames for the timeline filmstrip and for GIF export
+
+export interface TimelineFrame {
+  time: number
+  image: CanvasImageSource
+  width: number
+  height: number
+}
+
+export const FILMSTRIP_HEIGHT = 48
+
+const once = (target: HTMLMediaElement, event: string, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const handleError = () => {
+      cleanup()
+      reject(new Error('Could not read video frames'))
+    }
+    const handleAbort = () => {
+      cleanup()
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    const handleEvent = () => {
+      cleanup()
+      resolve()
+    }
+    const cleanup = () => {
+      target.removeEventListener(event, handleEvent)
+      target.removeEventListener('error', handleError)
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    target.addEventListener(event, handleEvent)
+    target.addEventListener('error', handleError)
+    signal?.addEventListener('abort', handleAbort)
+  })
+}
+
+// Seek a detached <video> through evenly spaced times and copy each frame.
+// Audio-only sources resolve to an empty list.
+export async function captureVideoFrames(url: string, duration: number, count: number, signal?: AbortSignal): Promise<TimelineFrame[]> {
+  const video = document.createElement('video')
+  video.muted = true
+  video.preload = 'auto'
+  video.playsInline = true
+
+  const loaded = once(video, 'loadeddata', signal)
+  video.src = url
+
+  try {
+    await loaded
+    if (video.videoWidth === 0 || video.videoHeight === 0) return []
+
+    const height = FILMSTRIP_HEIGHT * 2 // 2x for high-DPI screens
+    const width = Math.round((video.videoWidth / video.videoHeight) * height)
+    const frames: TimelineFrame[] = []
+
+    for (let index = 0; index < count; index += 1) {
+      const time = ((index + 0.5) / count) * duration
+      const seeked = once(video, 'seeked', signal)
+      video.currentTime = time
+      await seeked
+
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      canvas.getContext('2d')?.drawImage(video, 0, 0, width, height)
+      frames.push({ time, image: canvas, width, height })
+    }
+    return frames
+  } finally {
+    video.removeAttribute('src')
+    video.load()
+  }
+}
+
+export interface ClipFrames {
+  width: number
+  height: number
+  // RGBA pixels, one buffer per frame
+  frames: Uint8ClampedArray[]
+}
+
+export interface ClipFrameOptions {
+  fps: number
+  // Frames are scaled down to fit this box, keeping the aspect ratio
+  maxWidth: number
+  maxHeight?: number
+  signal?: AbortSignal
+  onProgress?: (ratio: number) => void
+}
+
+// Past this a GIF gets unreasonably large and the frames no longer fit in memory
+export const MAX_CLIP_FRAMES = 900
+
+// Sample `ranges` at a fixed frame rate by seeking a detached <video>
+export async function captureClipFrames(url: string, ranges: TimeRange[], options: ClipFrameOptions): Promise<ClipFrames> {
+  const { fps, maxWidth, maxHeight = Infinity, signal, onProgress } = options
+  const times = ranges.flatMap(range => {
+    const count = Math.max(Math.round((range.end - range.start) * fps), 1)
+    return Array.from({ length: count }, (_, index) => range.start + index / fps)
+  })
+  if (times.length > MAX_CLIP_FRAMES) {
+    throw new Error(`That is ${times.length} frames; shorten the clips or lower the frame rate (max ${MAX_CLIP_FRAMES})`)
+  }
+
+  const video = document.createElement('video')
+  video.muted = true
+  video.preload = 'auto'
+  video.playsInline = true
+
+  const loaded = once(video, 'loadeddata', signal)
+  video.src = url
+
+  try {
+    await loaded
+    if (video.videoWidth === 0 || video.videoHeight === 0) throw new Error('This source has no video track')
+
+    // Even dimensions keep scalers and players happy
+    const scale = Math.min(1, maxWidth / video.videoWidth, maxHeight / video.videoHeight)
+    const width = Math.max(Math.round(video.videoWidth * scale) & ~1, 2)
+    const height = Math.max(Math.round(video.videoHeight * scale) & ~1, 2)
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (!context) throw new Error('Canvas is not available')
+
+    const frames: Uint8ClampedArray[] = []
+    for (const [index, time] of times.entries()) {
+      const seeked = once(video, 'seeked', signal)
+      video.currentTime = time
+      await seeked
+      context.drawImage(video, 0, 0, width, height)
+      frames.push(context.getImageData(0, 0, width, height).data)
+      onProgress?.((index + 1) / times.length)
+    }
+    return { width, height, frames }
+  } finally {
+    video.removeAttribute('src')
+    video.load()
+  }
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error(`Could not load ${src}`))
+    image.src = src
+  })
+}
+
+// YouTube publishes auto-generated stills at 25%, 50% and 75% of every video.
+// Cross-origin images taint the canvas, which is fine since we only draw.
+export async function loadYouTubeFrames(videoId: string, duration: number): Promise<TimelineFrame[]> {
+  const stills = [1, 2, 3].map(async (index) => {
+    const image = await loadImage(`https://i.ytimg.com/vi/${videoId}/${index}.jpg`)
+    return { time: (index / 4) * duration, image, width: image.naturalWidth, height: image.naturalHeight }
+  })
+  const results = await Promise.allSettled(stills)
+  return results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []))
+}
+
+// Frame closest to `time`, for filling one filmstrip tile
+export function nearestFrame(frames: TimelineFrame[], time: number): TimelineFrame | null {
+  let best: TimelineFrame | null = null
+  for (const frame of frames) {
+    if (!best || Math.abs(frame.time - time) < Math.abs(best.time - time)) best = frame
+  }
+  return best
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { formatFilenameTime, formatSmpte, formatTimecode, parseTimecode, secondsToFrames, type TimecodeDisplayMode } from './timecode'
+
+const NTSC = 30000 / 1001
+
+describe('parseTimecode', () => {
+  it.each([
+    ['0', 0],
+    ['90', 90],
+    ['90.5', 90.5],
+    ['1,5', 1.5],
+    ['1:30', 90],
+    ['90:00', 5400],
+    ['01:02:03', 3723],
+    ['01:02:03.250', 3723.25],
+    ['00:00:01,500', 1.5],
+    ['  1:30  ', 90]
+  ])('reads the clock form %j', (input, seconds) => {
+    expect(parseTimecode(input)).toBeCloseTo(seconds, 9)
+  })
+
+  it.each([
+    ['1h2m3s', 3723],
+    ['1h 2m 3.5s', 3723.5],
+    ['90s', 90],
+    ['2m', 120],
+    ['250ms', 0.25],
+    ['1m250ms', 60.25],
+    ['1H', 3600]
+  ])('reads the unit form %j', (input, seconds) => {
+    expect(parseTimecode(input)).toBeCloseTo(seconds, 9)
+  })
+
+  it.each([
+    ['30f', 30, 1],
+    ['f45', 30, 1.5],
+    ['48f', 24, 2],
+    ['0f', 25, 0]
+  ])('reads the frame number %j at %d fps', (input, fps, seconds) => {
+    expect(parseTimecode(input, { fps })).toBeCloseTo(seconds, 9)
+  })
+
+  it('counts NTSC frames at the exact rate', () => {
+    expect(parseTimecode('30f', { fps: 29.97 })).toBeCloseTo(30 / NTSC, 9)
+  })
+
+  it.each([
+    ['00:00:01:15', 30, 1.5],
+    ['01:00:00:00', 25, 3600],
+    ['00:00:00:23', 24, 23 / 24]
+  ])('reads the SMPTE form %j at %d fps', (input, fps, seconds) => {
+    expect(parseTimecode(input, { fps })).toBeCloseTo(seconds, 9)
+  })
+
+  it('skips the dropped frame numbers in drop-frame timecode', () => {
+    // 00:01:00;02 is the 1800th frame: numbers ;00 and ;01 don't exist in minute one
+    expect(parseTimecode('00:01:00;02', { fps: 29.97 })).toBeCloseTo(1800 / NTSC, 9)
+    // Every tenth minute keeps all its frame numbers
+    expect(parseTimecode('00:10:00;00', { fps: 29.97 })).toBeCloseTo(17982 / NTSC, 9)
+    expect(() => parseTimecode('00:01:00;00', { fps: 29.97 })).toThrow(/dropped frame number/)
+  })
+
+  it.each([
+    ['', /Enter a time/],
+    ['   ', /Enter a time/],
+    ['-5', /cannot be negative/],
+    ['1:60', /Invalid time/],
+    ['1:60:00', /Invalid time/],
+    ['abc', /Unrecognized time format/],
+    ['1:2:3:4:5', /Unrecognized time format/],
+    ['00:61:00:00', /Invalid SMPTE timecode/],
+    ['00:00:01:30', /Frame 30 is out of range/],
+    ['00:00:01;00', /Drop-frame timecode needs 29.97 or 59.94 fps/]
+  ])('rejects %j', (input, message) => {
+    expect(() => parseTimecode(input)).toThrow(message)
+  })
+
+  it('rejects an invalid frame rate', () => {
+    expect(() => parseTimecode('10', { fps: 0 })).toThrow(/Invalid frame rate/)
+  })
+})
+
+describe('formatTimecode', () => {
+  it.each<[number, TimecodeDisplayMode, string]>([
+    [0, 'clock', '00:00'],
+    [59.999, 'clock', '00:59'],
+    [90.4, 'clock', '01:30'],
+    [3723.9, 'clock', '1:02:03'],
+    [-3, 'clock', '00:00'],
+    [3723.25, 'precise', '01:02:03.250'],
+    [59.9996, 'precise', '00:01:00.000'],
+    [1.5, 'smpte', '00:00:01:15'],
+    [2, 'frames', '60f'],
+    [12.3456, 'seconds', '12.346s'],
+    [5, 'seconds', '5s']
+  ])('formats %d in %s mode as %j', (seconds, mode, expected) => {
+    expect(formatTimecode(seconds, mode)).toBe(expected)
+  })
+
+  it('formats drop-frame SMPTE with the skipped numbers re-inserted', () => {
+    expect(formatSmpte(1800 / NTSC, { fps: 29.97, dropFrame: true })).toBe('00:01:00;02')
+    expect(formatSmpte(17982 / NTSC, { fps: 29.97, dropFrame: true })).toBe('00:10:00;00')
+  })
+
+  it('names files without separators that filesystems reject', () => {
+    expect(formatFilenameTime(3723.25)).toBe('01h02m03s250')
+  })
+
+  it('rounds seconds to the nearest frame', () => {
+    expect(secondsToFrames(1.49, 10)).toBe(15)
+    expect(secondsToFrames(-1, 10)).toBe(0)
+  })
+})
+
+describe('round trips', () => {
+  it.each([0, 0.25, 1.5, 59.999, 61.001, 3599.5, 3723.25, 86399.999])('precise mode keeps %d to the millisecond', (seconds) => {
+    expect(parseTimecode(formatTimecode(seconds, 'precise'))).toBeCloseTo(seconds, 3)
+  })
+
+  it.each([0, 1.5, 12.3456, 3723.25])('seconds mode keeps %d to the millisecond', (seconds) => {
+    expect(parseTimecode(formatTimecode(seconds, 'seconds'))).toBeCloseTo(seconds, 3)
+  })
+
+  it.each([
+    [24, 0],
+    [25, 123],
+    [30, 4567],
+    [60, 215999]
+  ])('SMPTE at %d fps keeps frame %d exactly', (fps, frame) => {
+    const seconds = frame / fps
+    expect(secondsToFrames(parseTimecode(formatTimecode(seconds, 'smpte', { fps }), { fps }), fps)).toBe(frame)
+  })
+
+  it.each([0, 1, 1799, 1800, 17981, 17982, 107891])('drop-frame SMPTE at 29.97 fps keeps frame %d exactly', (frame) => {
+    const options = { fps: 29.97, dropFrame: true }
+    const text = formatSmpte(frame / NTSC, options)
+    expect(secondsToFrames(parseTimecode(text, options), 29.97)).toBe(frame)
+  })
+
+  it.each([0, 7, 1800])('frames mode keeps frame %d exactly', (frame) => {
+    const options = { fps: 25 }
+    expect(secondsToFrames(parseTimecode(formatTimecode(frame / 25, 'frames', options), options), 25)).toBe(frame)
+  })
+})
@@ -0,0 +1,185 @@
+// Timecode parsing and formatting shared by every time field, label and
+// filename in the app. Internally everything is seconds (float).
+//
+// Accepted input shapes:
+//   90 | 90.5 | 1:30 | 01:02:03.250 | 00:00:01,500   clock, "," or "." decimals
+//   1h2m3s | 1h 2m 3.5s | 90s | 2m | 250ms            unit suffixes
+//   1234f | f1234                                    frame number at `fps`
+//   01:02:03:12 | 01:02:03;12                        SMPTE, ";" = drop-frame
+
+export type TimecodeDisplayMode = 'clock' | 'precise' | 'smpte' | 'frames' | 'seconds'
+
+export interface TimecodeOptions {
+  fps?: number
+  // Drop-frame counting, only meaningful at 29.97 and 59.94 fps
+  dropFrame?: boolean
+}
+
+export const DEFAULT_FPS = 30
+
+export const FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60]
+
+export const DISPLAY_MODES: { value: TimecodeDisplayMode; label: string }[] = [
+  { value: 'clock', label: 'MM:SS' },
+  { value: 'precise', label: 'HH:MM:SS.mmm' },
+  { value: 'smpte', label: 'SMPTE (HH:MM:SS:FF)' },
+  { value: 'frames', label: 'Frames' },
+  { value: 'seconds', label: 'Seconds' }
+]
+
+// NTSC rates are quoted rounded; the real rate is N * 1000 / 1001
+const exactFps = (fps: number): number => {
+  const nominal = Math.round(fps)
+  return Math.abs(fps - (nominal * 1000) / 1001) < 0.01 ? (nominal * 1000) / 1001 : fps
+}
+
+const isDropFrameRate = (fps: number): boolean => {
+  return Math.abs(fps - 29.97) < 0.01 || Math.abs(fps - 59.94) < 0.01
+}
+
+const resolveFps = (options: TimecodeOptions): number => {
+  const fps = options.fps ?? DEFAULT_FPS
+  if (!Number.isFinite(fps) || fps <= 0) throw new Error(`Invalid frame rate: ${fps}`)
+  return fps
+}
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)'
+const CLOCK = /^(?:(\d+):)?(?:(\d+):)?(\d+(?:[.,]\d+)?)$/
+const SMPTE = /^(\d+):(\d{1,2}):(\d{1,2})([:;])(\d{1,3})$/
+const FRAMES = /^(?:(\d+)f|f(\d+))$/
+const UNITS = new RegExp(`^(?:${NUMBER}h)?(?:${NUMBER}m(?!s))?(?:${NUMBER}s)?(?:${NUMBER}ms)?$`)
+
+const toNumber = (value: string | undefined): number => {
+  return value ? Number(value.replace(',', '.')) : 0
+}
+
+function smpteToFrames(hours: number, minutes: number, seconds: number, frames: number, fps: number, dropFrame: boolean): number {
+  const timebase = Math.round(fps)
+  if (frames >= timebase) throw new Error(`Frame ${frames} is out of range at ${fps} fps`)
+
+  let total = ((hours * 60 + minutes) * 60 + seconds) * timebase + frames
+  if (dropFrame) {
+    // Frame numbers 0 and 1 (0-3 at 59.94) are skipped every minute except every tenth
+    const dropped = Math.round(timebase / 15)
+    const totalMinutes = hours * 60 + minutes
+    if (seconds === 0 && frames < dropped && totalMinutes % 10 !== 0) {
+      throw new Error(`${frames} is a dropped frame number`)
+    }
+    total -= dropped * (totalMinutes - Math.floor(totalMinutes / 10))
+  }
+  return total
+}
+
+// Parse any supported timecode into seconds; throws with a readable message
+export function parseTimecode(input: string, options: TimecodeOptions = {}): number {
+  const fps = resolveFps(options)
+  const value = input.trim().toLowerCase().replace(/\s+/g, '')
+  if (!value) throw new Error('Enter a time')
+  if (value.startsWith('-')) throw new Error('Time cannot be negative')
+
+  const frameMatch = value.match(FRAMES)
+  if (frameMatch) {
+    return Number(frameMatch[1] ?? frameMatch[2]) / exactFps(fps)
+  }
+
+  const smpteMatch = value.match(SMPTE)
+  if (smpteMatch) {
+    const [, hours, minutes, seconds, separator, frames] = smpteMatch
+    if (Number(minutes) > 59 || Number(seconds) > 59) throw new Error(`Invalid SMPTE timecode: ${input.trim()}`)
+    const dropFrame = separator === ';' || (options.dropFrame === true && isDropFrameRate(fps))
+    if (dropFrame && !isDropFrameRate(fps)) throw new Error(`Drop-frame timecode needs 29.97 or 59.94 fps, not ${fps}`)
+    const frameNumber = smpteToFrames(Number(hours), Number(minutes), Number(seconds), Number(frames), fps, dropFrame)
+    return frameNumber / exactFps(fps)
+  }
+
+  const clockMatch = value.match(CLOCK)
+  if (clockMatch) {
+    const [, first, second, last] = clockMatch
+    // With a single colon the leading field is minutes, which may exceed 59
+    const hours = second !== undefined ? toNumber(first) : 0
+    const minutes = second !== undefined ? toNumber(second) : toNumber(first)
+    const seconds = toNumber(last)
+    if ((first !== undefined && seconds >= 60) || (second !== undefined && minutes >= 60)) {
+      throw new Error(`Invalid time: ${input.trim()}`)
+    }
+    return hours * 3600 + minutes * 60 + seconds
+  }
+
+  const unitMatch = value.match(UNITS)
+  if (unitMatch && unitMatch.slice(1).some(part => part !== undefined)) {
+    const [, hours, minutes, seconds, millis] = unitMatch
+    return toNumber(hours) * 3600 + toNumber(minutes) * 60 + toNumber(seconds) + toNumber(millis) / 1000
+  }
+
+  throw new Error(`Unrecognized time format: ${input.trim()}`)
+}
+
+const pad = (value: number, length = 2): string => value.toString().padStart(length, '0')
+
+// Split whole milliseconds so rounding never produces "00:60"
+const splitMillis = (seconds: number) => {
+  const totalMillis = Math.round(Math.max(seconds, 0) * 1000)
+  return {
+    hours: Math.floor(totalMillis / 3600000),
+    minutes: Math.floor(totalMillis / 60000) % 60,
+    seconds: Math.floor(totalMillis / 1000) % 60,
+    millis: totalMillis % 1000
+  }
+}
+
+export function secondsToFrames(seconds: number, fps: number = DEFAULT_FPS): number {
+  return Math.round(Math.max(seconds, 0) * exactFps(fps))
+}
+
+export function formatSmpte(seconds: number, options: TimecodeOptions = {}): string {
+  const fps = resolveFps(options)
+  const timebase = Math.round(fps)
+  let frame = secondsToFrames(seconds, fps)
+  const dropFrame = options.dropFrame === true && isDropFrameRate(fps)
+
+  if (dropFrame) {
+    // Re-insert the skipped frame numbers so the display counts like a clock
+    const dropped = Math.round(timebase / 15)
+    const framesPerMinute = timebase * 60 - dropped
+    const framesPerTenMinutes = framesPerMinute * 10 + dropped
+    const tens = Math.floor(frame / framesPerTenMinutes)
+    const remainder = frame % framesPerTenMinutes
+    frame += dropped * 9 * tens
+    if (remainder > dropped) frame += dropped * Math.floor((remainder - dropped) / framesPerMinute)
+  }
+
+  const frames = frame % timebase
+  const totalSeconds = Math.floor(frame / timebase)
+  const separator = dropFrame ? ';' : ':'
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${separator}${pad(frames)}`
+}
+
+// Format seconds for display in the chosen mode
+export function formatTimecode(seconds: number, mode: TimecodeDisplayMode = 'clock', options: TimecodeOptions = {}): string {
+  const parts = splitMillis(seconds)
+
+  switch (mode) {
+    case 'precise':
+      return `${pad(parts.hours)}:${pad(parts.minutes)}:${pad(parts.seconds)}.${pad(parts.millis, 3)}`
+    case 'smpte':
+      return formatSmpte(seconds, options)
+    case 'frames':
+      return `${secondsToFrames(seconds, resolveFps(options))}f`
+    case 'seconds':
+      return `${Number((Math.round(Math.max(seconds, 0) * 1000) / 1000).toFixed(3))}s`
+    case 'clock':
+    default: {
+      // Whole seconds, truncated like a player clock
+      const whole = Math.floor(Math.max(seconds, 0) + 1e-9)
+      const hours = Math.floor(whole / 3600)
+      const mmss = `${pad(Math.floor(whole / 60) % 60)}:${pad(whole % 60)}`
+      return hours > 0 ? `${hours}:${mmss}` : mmss
+    }
+  }
+}
+
+// Filesystem-safe variant for generated filenames, e.g. 00h01m02s250
+export function formatFilenameTime(seconds: number): string {
+  const parts = splitMillis(seconds)
+  return `${pad(parts.hours)}h${pad(parts.minutes)}m${pad(parts.seconds)}s${pad(parts.millis, 3)}`
+}
@@ -0,0 +1,93 @@
+// Viewport math and snapping for the timeline editor. A viewport is the
+// window of source time, in seconds, currently stretched across the lanes.
+
+export interface TimelineViewport {
+  start: number
+  end: number
+}
+
+// Deepest zoom: this many seconds across the full width
+export const MIN_VISIBLE_DURATION = 1
+
+const TICK_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200]
+
+export function fullViewport(duration: number): TimelineViewport {
+  return { start: 0, end: Math.max(duration, 0) }
+}
+
+// Keep the window inside [0, duration] without changing its length if possible
+export function clampViewport(viewport: TimelineViewport, duration: number): TimelineViewport {
+  const length = Math.min(Math.max(viewport.end - viewport.start, Math.min(MIN_VISIBLE_DURATION, duration)), duration)
+  const start = Math.min(Math.max(viewport.start, 0), duration - length)
+  return { start, end: start + length }
+}
+
+// factor < 1 zooms in, > 1 zooms out; `anchor` stays under the cursor
+export function zoomViewport(viewport: TimelineViewport, factor: number, anchor: number, duration: number): TimelineViewport {
+  const length = viewport.end - viewport.start
+  const nextLength = Math.min(Math.max(length * factor, Math.min(MIN_VISIBLE_DURATION, duration)), duration)
+  const ratio = length > 0 ? (anchor - viewport.start) / length : 0
+  const start = anchor - ratio * nextLength
+  return clampViewport({ start, end: start + nextLength }, duration)
+}
+
+export function panViewport(viewport: TimelineViewport, deltaSeconds: number, duration: number): TimelineViewport {
+  return clampViewport({ start: viewport.start + deltaSeconds, end: viewport.end + deltaSeconds }, duration)
+}
+
+// Center the window on `time`, e.g. to follow the playhead
+export function centerViewport(viewport: TimelineViewport, time: number, duration: number): TimelineViewport {
+  const half = (viewport.end - viewport.start) / 2
+  return clampViewport({ start: time - half, end: time + half }, duration)
+}
+
+export function timeToX(time: number, viewport: TimelineViewport, width: number): number {
+  const length = viewport.end - viewport.start
+  return length > 0 ? ((time - viewport.start) / length) * width : 0
+}
+
+export function xToTime(x: number, viewport: TimelineViewport, width: number): number {
+  return width > 0 ? viewport.start + (x / width) * (viewport.end - viewport.start) : viewport.start
+}
+
+// Largest-readable ruler step that keeps labels at least `minSpacing` px apart
+export function chooseTickStep(visibleDuration: number, width: number, minSpacing = 80): number {
+  const minStep = (visibleDuration / Math.max(width, 1)) * minSpacing
+  return TICK_STEPS.find(step => step >= minStep) ?? TICK_STEPS[TICK_STEPS.length - 1]
+}
+
+export function tickTimes(viewport: TimelineViewport, step: number): number[] {
+  const ticks: number[] = []
+  const first = Math.ceil(viewport.start / step) * step
+  for (let time = first; time <= viewport.end + 1e-9; time += step) {
+    ticks.push(Number(time.toFixed(3)))
+  }
+  return ticks
+}
+
+export interface SnapOptions {
+  // Exact times to snap to: playhead, other segment edges, ...
+  targets: number[]
+  // Maximum distance, in seconds, a value may jump
+  threshold: number
+  snapToSeconds?: boolean
+}
+
+// Pull `time` onto the closest target within `threshold`, preferring the
+// explicit targets over whole-second boundaries
+export function snapTime(time: number, options: SnapOptions): number {
+  let best = time
+  let bestDistance = options.threshold
+
+  for (const target of options.targets) {
+    const distance = Math.abs(target - time)
+    if (distance <= bestDistance) {
+      best = target
+      bestDistance = distance
+    }
+  }
+  if (best !== time || !options.snapToSeconds) return best
+
+  const second = Math.round(time)
+  return Math.abs(second - time) <= options.threshold ? second : time
+}
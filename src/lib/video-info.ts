@@ -0,0 +1,94 @@
+import type { SourceFormat } from './source-api'
+
+// Id of the media provider that resolved the source
+export type VideoSource = 'youtube' | 'url' | 'hls' | 'file'
+
+export interface VideoInfo {
+  source: VideoSource
+  title: string
+  // Channel or uploader name, when the source reports one
+  author?: string
+  // null while the length is unknown; never guessed
+  duration: number | null
+  thumbnail: string
+  // Embed URL for YouTube, otherwise a URL a <video> element can play
+  url: string
+  videoId?: string
+  // Fetchable URL of the source media bytes, when one is available
+  mediaUrl?: string
+  // Source size in bytes, when known up front
+  size?: number
+  // Streams the source server can fetch; absent for local files
+  formats?: SourceFormat[]
+  // Trim range carried by the link itself, e.g. ?t=90 or ?start=10&end=20;
+  // a null end runs to the end of the media
+  requestedRange?: { start: number; end: number | null }
+}
+
+// What a detached <video> reports once the URL's metadata has loaded. The
+// element lets go of the URL before this resolves.
+const readMetadata = (url: string): Promise<{ duration: number; width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const media = document.createElement('video')
+    media.preload = 'metadata'
+    media.muted = true
+
+    const cleanup = () => {
+      media.removeAttribute('src')
+      media.load()
+    }
+
+    media.onloadedmetadata = () => {
+      const { duration, videoWidth: width, videoHeight: height } = media
+      cleanup()
+      resolve({ duration, width, height })
+    }
+    media.onerror = () => {
+      cleanup()
+      reject(new Error('Unsupported or corrupt media file'))
+    }
+
+    media.src = url
+  })
+}
+
+// Real duration of a playable media URL. Resolves null for streams that don't
+// advertise a finite length.
+export async function readMediaDuration(url: string): Promise<number | null> {
+  const { duration } = await readMetadata(url)
+  return Number.isFinite(duration) && duration > 0 ? duration : null
+}
+
+// Picture size of a playable media URL; null for audio-only sources
+export async function readVideoSize(url: string): Promise<{ width: number; height: number } | null> {
+  const { width, height } = await readMetadata(url)
+  return width > 0 && height > 0 ? { width, height } : null
+}
+
+export const isMediaFile = (file: File): boolean => {
+  return file.type.startsWith('video/') || file.type.startsWith('audio/')
+}
+
+// Build VideoInfo for a file picked from disk; the caller owns the object URL
+export async function loadFileVideoInfo(file: File): Promise<VideoInfo> {
+  if (!isMediaFile(file)) {
+    throw new Error(`${file.name} is not a video or audio file`)
+  }
+
+  const objectUrl = URL.createObjectURL(file)
+  try {
+    const duration = await readMediaDuration(objectUrl)
+    return {
+      source: 'file',
+      title: file.name.replace(/\.[^.]+$/, '') || file.name,
+      duration,
+      thumbnail: '',
+      url: objectUrl,
+      mediaUrl: objectUrl,
+      size: file.size
+    }
+  } catch (error) {
+    URL.revokeObjectURL(objectUrl)
+    throw error
+  }
+}
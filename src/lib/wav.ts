@@ -0,0 +1,41 @@
+import { toInt16, type PcmAudio } from './pcm'
+
+// 16-bit PCM RIFF/WAVE writer
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i += 1) view.setUint8(offset + i, text.charCodeAt(i))
+}
+
+export function encodeWav(audio: PcmAudio): Uint8Array {
+  const channelCount = audio.channels.length
+  if (channelCount === 0) throw new Error('No audio to encode')
+
+  const frames = audio.channels[0].length
+  const blockAlign = channelCount * 2
+  const dataSize = frames * blockAlign
+  const view = new DataView(new ArrayBuffer(44 + dataSize))
+
+  writeAscii(view, 0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeAscii(view, 8, 'WAVE')
+  writeAscii(view, 12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, channelCount, true)
+  view.setUint32(24, audio.sampleRate, true)
+  view.setUint32(28, audio.sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, 16, true)
+  writeAscii(view, 36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  // Interleave channels frame by frame
+  let offset = 44
+  for (let frame = 0; frame < frames; frame += 1) {
+    for (const channel of audio.channels) {
+      view.setInt16(offset, toInt16(channel[frame]), true)
+      offset += 2
+    }
+  }
+  return new Uint8Array(view.buffer)
+}
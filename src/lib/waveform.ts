@@ -0,0 +1,54 @@
+// Audio peak extraction for the timeline's waveform lane
+
+export interface WaveformData {
+  peaksPerSecond: number
+  // Max absolute amplitude (0..1) per bucket, mixed down across channels
+  peaks: Float32Array
+}
+
+// Enough resolution to stay legible when zoomed to a few seconds
+export const WAVEFORM_PEAKS_PER_SECOND = 100
+
+// Decoding at a low rate keeps hour-long sources small in memory
+const DECODE_SAMPLE_RATE = 8000
+
+export function computePeaks(channels: Float32Array[], sampleRate: number, peaksPerSecond = WAVEFORM_PEAKS_PER_SECOND): WaveformData {
+  const length = channels[0]?.length ?? 0
+  const samplesPerPeak = Math.max(Math.floor(sampleRate / peaksPerSecond), 1)
+  const peaks = new Float32Array(Math.ceil(length / samplesPerPeak))
+
+  for (let bucket = 0; bucket < peaks.length; bucket += 1) {
+    const from = bucket * samplesPerPeak
+    const to = Math.min(from + samplesPerPeak, length)
+    let peak = 0
+    for (const channel of channels) {
+      for (let i = from; i < to; i += 1) {
+        const value = Math.abs(channel[i])
+        if (value > peak) peak = value
+      }
+    }
+    peaks[bucket] = Math.min(peak, 1)
+  }
+
+  return { peaksPerSecond: sampleRate / samplesPerPeak, peaks }
+}
+
+// Highest peak between two times, for drawing one pixel column
+export function peakBetween(waveform: WaveformData, start: number, end: number): number {
+  const from = Math.max(Math.floor(start * waveform.peaksPerSecond), 0)
+  const to = Math.min(Math.max(Math.ceil(end * waveform.peaksPerSecond), from + 1), waveform.peaks.length)
+  let peak = 0
+  for (let i = from; i < to; i += 1) {
+    if (waveform.peaks[i] > peak) peak = waveform.peaks[i]
+  }
+  return peak
+}
+
+// Decode a media blob's audio track with Web Audio and reduce it to peaks
+export async function decodeWaveform(source: Blob): Promise<WaveformData> {
+  const buffer = await source.arrayBuffer()
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE)
+  const audio = await context.decodeAudioData(buffer)
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, index) => audio.getChannelData(index))
+  return computePeaks(channels, audio.sampleRate)
+}
@@ -0,0 +1,158 @@
+// Typed bridge to an embedded YouTube player. Embeds loaded with
+// enablejsapi=1 speak a JSON postMessage protocol: we send "listening" and
+// "command" messages, the player answers with onReady, onStateChange and
+// infoDelivery events.
+
+export const PlayerState = {
+  UNSTARTED: -1,
+  ENDED: 0,
+  PLAYING: 1,
+  PAUSED: 2,
+  BUFFERING: 3,
+  CUED: 5
+} as const
+
+export type PlayerStateValue = typeof PlayerState[keyof typeof PlayerState]
+
+type Unsubscribe = () => void
+
+export interface PlayerBridge {
+  play: () => void
+  pause: () => void
+  seekTo: (seconds: number) => void
+  getCurrentTime: () => number
+  getDuration: () => number | null
+  getState: () => PlayerStateValue
+  isReady: () => boolean
+  onReady: (listener: () => void) => Unsubscribe
+  onStateChange: (listener: (state: PlayerStateValue) => void) => Unsubscribe
+  onTimeUpdate: (listener: (seconds: number) => void) => Unsubscribe
+  onDurationChange: (listener: (seconds: number) => void) => Unsubscribe
+  destroy: () => void
+}
+
+export const YOUTUBE_ORIGINS = ['https://www.youtube.com', 'https://www.youtube-nocookie.com']
+
+// Minimal typed event emitter shared by the real and fake players
+export function createListeners<T>() {
+  const listeners = new Set<(value: T) => void>()
+  return {
+    add: (listener: (value: T) => void): Unsubscribe => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    emit: (value: T) => listeners.forEach(listener => listener(value))
+  }
+}
+
+const isPlayerState = (value: unknown): value is PlayerStateValue => {
+  return Object.values(PlayerState).includes(value as PlayerStateValue)
+}
+
+// Attach to an embed <iframe>; the iframe may still be loading
+export function createIframePlayerBridge(iframe: HTMLIFrameElement): PlayerBridge {
+  const targetOrigin = new URL(iframe.src, window.location.href).origin
+
+  let ready = false
+  let state: PlayerStateValue = PlayerState.UNSTARTED
+  let currentTime = 0
+  let duration: number | null = null
+
+  const readyListeners = createListeners<void>()
+  const stateListeners = createListeners<PlayerStateValue>()
+  const timeListeners = createListeners<number>()
+  const durationListeners = createListeners<number>()
+
+  const post = (message: Record<string, unknown>) => {
+    iframe.contentWindow?.postMessage(JSON.stringify({ ...message, id: 1, channel: 'widget' }), targetOrigin)
+  }
+
+  const command = (func: string, args: unknown[] = []) => {
+    post({ event: 'command', func, args })
+  }
+
+  const updateState = (next: unknown) => {
+    if (!isPlayerState(next) || next === state) return
+    state = next
+    stateListeners.emit(state)
+  }
+
+  const updateTime = (next: unknown) => {
+    if (typeof next !== 'number' || next === currentTime) return
+    currentTime = next
+    timeListeners.emit(currentTime)
+  }
+
+  const updateDuration = (next: unknown) => {
+    if (typeof next !== 'number' || next <= 0 || next === duration) return
+    duration = next
+    durationListeners.emit(duration)
+  }
+
+  const markReady = () => {
+    if (ready) return
+    ready = true
+    window.clearInterval(handshake)
+    readyListeners.emit()
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== iframe.contentWindow || !YOUTUBE_ORIGINS.includes(event.origin)) return
+
+    let data: { event?: string; info?: unknown }
+    try {
+      data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data
+    } catch {
+      return
+    }
+
+    switch (data?.event) {
+      case 'onReady':
+        markReady()
+        break
+      case 'onStateChange':
+        updateState(data.info)
+        break
+      case 'initialDelivery':
+      case 'infoDelivery': {
+        // Any delivery proves the handshake worked
+        markReady()
+        const info = (data.info ?? {}) as Record<string, unknown>
+        updateDuration(info.duration)
+        updateTime(info.currentTime)
+        updateState(info.playerState)
+        break
+      }
+    }
+  }
+
+  // The player ignores the handshake until it has loaded, so repeat it
+  const sendHandshake = () => post({ event: 'listening' })
+
+  window.addEventListener('message', handleMessage)
+  iframe.addEventListener('load', sendHandshake)
+  const handshake = window.setInterval(sendHandshake, 250)
+  sendHandshake()
+
+  return {
+    play: () => command('playVideo'),
+    pause: () => command('pauseVideo'),
+    seekTo: (seconds) => {
+      command('seekTo', [seconds, true])
+      updateTime(seconds)
+    },
+    getCurrentTime: () => currentTime,
+    getDuration: () => duration,
+    getState: () => state,
+    isReady: () => ready,
+    onReady: readyListeners.add,
+    onStateChange: stateListeners.add,
+    onTimeUpdate: timeListeners.add,
+    onDurationChange: durationListeners.add,
+    destroy: () => {
+      window.removeEventListener('message', handleMessage)
+      iframe.removeEventListener('load', sendHandshake)
+      window.clearInterval(handshake)
+    }
+  }
+}
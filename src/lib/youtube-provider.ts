@@ -0,0 +1,90 @@
+import { getDefaultDurationProviders, resolveDuration, type DurationProvider } from './duration'
+import type { MediaProvider } from './media-providers'
+import { createSourceApi, type SourceApi, type SourceInfo } from './source-api'
+import type { VideoInfo } from './video-info'
+import { isYouTubeUrl, parseYouTubeUrl } from './youtube-url'
+
+interface YouTubeProviderOptions {
+  sourceApi?: SourceApi
+  fetch?: typeof fetch
+  // Overrides https://www.youtube.com, e.g. for a local fixture server
+  oembedBaseUrl?: string
+  durationProviders?: () => DurationProvider[]
+}
+
+// YouTube videos preview through the embed and export through the source server
+export function createYouTubeProvider(options: YouTubeProviderOptions = {}): MediaProvider {
+  const {
+    sourceApi = createSourceApi({ baseUrl: import.meta.env.VITE_SOURCE_API_BASE_URL }),
+    fetch: fetchImpl = fetch,
+    oembedBaseUrl = 'https://www.youtube.com',
+    durationProviders = getDefaultDurationProviders
+  } = options
+
+  // Title and channel name from oEmbed, each null when missing
+  const fetchOEmbed = async (videoId: string, signal?: AbortSignal): Promise<{ title: string | null; author: string | null } | null> => {
+    try {
+      const params = new URLSearchParams({ url: `https://www.youtube.com/watch?v=${videoId}`, format: 'json' })
+      const response = await fetchImpl(`${oembedBaseUrl.replace(/\/$/, '')}/oembed?${params}`, { signal })
+      if (!response.ok) return null
+      const data = await response.json()
+      const text = (value: unknown) => typeof value === 'string' && value ? value : null
+      return { title: text(data?.title), author: text(data?.author_name) }
+    } catch {
+      console.log('Could not fetch video title, using default')
+      return null
+    }
+  }
+
+  return {
+    id: 'youtube',
+    label: 'YouTube',
+    // Any YouTube-looking link, so resolve can explain what's wrong with a bad one
+    matches: request => request.kind === 'url' && isYouTubeUrl(request.url),
+    resolve: async (request, signal) => {
+      const link = request.kind === 'url' ? parseYouTubeUrl(request.url) : null
+      if (!link) throw new Error('Invalid YouTube URL')
+      const { videoId, startSeconds, endSeconds } = link
+      if (!videoId) throw new Error('This YouTube link is a playlist, not a single video')
+
+      // Exports need the real bytes, which only the source server can fetch
+      let sourceInfo: SourceInfo | null = null
+      try {
+        sourceInfo = await sourceApi.getInfo(videoId, signal)
+      } catch (error) {
+        console.warn('Source server unavailable:', error)
+      }
+
+      const oembed = await fetchOEmbed(videoId, signal)
+      const info: VideoInfo = {
+        source: 'youtube',
+        title: oembed?.title ?? sourceInfo?.title ?? 'YouTube Video',
+        author: oembed?.author ?? undefined,
+        duration: sourceInfo?.duration ?? null,
+        thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
+        // Cue the preview at the link's timestamp
+        url: `https://www.youtube.com/embed/${videoId}?enablejsapi=1${startSeconds ? `&start=${Math.floor(startSeconds)}` : ''}`,
+        videoId,
+        mediaUrl: sourceInfo ? sourceApi.mediaUrl(videoId) : undefined,
+        formats: sourceInfo?.formats,
+        requestedRange: startSeconds !== undefined || endSeconds !== undefined
+          ? { start: startSeconds ?? 0, end: endSeconds ?? null }
+          : undefined
+      }
+
+      // Without the source server or a Data API key this stays unknown until the embed reports it
+      info.duration ??= await resolveDuration(durationProviders(), info)
+      return info
+    },
+    buildPreview: info => ({ kind: 'embed', url: info.url }),
+    fetchMedia: async (info, stream) => {
+      if (!info.videoId || !info.formats) throw new Error('No downloadable media source for this video')
+      if (!stream) throw new Error('No source stream can be exported in this format')
+      const primary = stream.video ?? stream.audio!
+      return {
+        source: sourceApi.mediaUrl(info.videoId, primary.id),
+        audioSource: stream.audio && stream.audio !== primary ? sourceApi.mediaUrl(info.videoId, stream.audio.id) : undefined
+      }
+    }
+  }
+}
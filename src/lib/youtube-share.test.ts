@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { buildEmbedSnippet, buildEmbedUrl, buildShortLink, buildTimestampList, DEFAULT_EMBED_OPTIONS } from './youtube-share'
+
+const VIDEO_ID = 'dQw4w9WgXcQ'
+
+describe('buildShortLink', () => {
+  it.each([
+    [0, 'https://youtu.be/dQw4w9WgXcQ'],
+    [0.9, 'https://youtu.be/dQw4w9WgXcQ'],
+    [-3, 'https://youtu.be/dQw4w9WgXcQ'],
+    [61.99, 'https://youtu.be/dQw4w9WgXcQ?t=61']
+  ])('starts at %s seconds', (start, expected) => {
+    expect(buildShortLink(VIDEO_ID, start)).toBe(expected)
+  })
+})
+
+describe('buildEmbedUrl', () => {
+  it.each([
+    ['rounds the start down and the end up', { start: 12.7, end: 20.2 }, {}, 'https://www.youtube.com/embed/dQw4w9WgXcQ?start=12&end=21'],
+    ['leaves out a start of zero', { start: 0.4, end: 5 }, {}, 'https://www.youtube.com/embed/dQw4w9WgXcQ?end=5'],
+    ['lists the video as its own playlist to loop', { start: 1, end: 2 }, { loop: true }, 'https://www.youtube.com/embed/dQw4w9WgXcQ?start=1&end=2&loop=1&playlist=dQw4w9WgXcQ'],
+    ['plays muted without controls', { start: 1, end: 2 }, { autoplay: true, mute: true, controls: false }, 'https://www.youtube.com/embed/dQw4w9WgXcQ?start=1&end=2&autoplay=1&mute=1&controls=0'],
+    ['uses the no-cookie host', { start: 1, end: 2 }, { nocookie: true }, 'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?start=1&end=2']
+  ])('%s', (_, range, options, expected) => {
+    expect(buildEmbedUrl(VIDEO_ID, range, { ...DEFAULT_EMBED_OPTIONS, ...options })).toBe(expected)
+  })
+})
+
+describe('buildEmbedSnippet', () => {
+  it('escapes the URL and the title for an attribute', () => {
+    const snippet = buildEmbedSnippet(VIDEO_ID, { start: 1, end: 2 }, { ...DEFAULT_EMBED_OPTIONS, loop: true }, 'Tom & Jerry <"live">')
+    expect(snippet).toContain(' src="https://www.youtube.com/embed/dQw4w9WgXcQ?start=1&amp;end=2&amp;loop=1&amp;playlist=dQw4w9WgXcQ"')
+    expect(snippet).toContain(' title="Tom &amp; Jerry &lt;&quot;live&quot;&gt;"')
+    expect(snippet).toMatch(/^<iframe .*><\/iframe>$/)
+  })
+})
+
+describe('buildTimestampList', () => {
+  const items = [
+    { start: 0, end: 5.2, label: 'Intro [live]' },
+    { start: 65.5, end: 70, label: 'A <b>bold</b> & "quoted" \\ take' }
+  ]
+
+  it('writes Markdown links with brackets and backslashes escaped', () => {
+    expect(buildTimestampList(VIDEO_ID, items, 'markdown')).toBe([
+      '- [00:00 - 00:05](https://youtu.be/dQw4w9WgXcQ) Intro \\[live\\]',
+      '- [01:05 - 01:10](https://youtu.be/dQw4w9WgXcQ?t=65) A <b>bold</b> & "quoted" \\\\ take'
+    ].join('\n'))
+  })
+
+  it('writes an HTML list with the labels escaped', () => {
+    expect(buildTimestampList(VIDEO_ID, items, 'html')).toBe([
+      '<ul>',
+      '  <li><a href="https://youtu.be/dQw4w9WgXcQ">00:00 - 00:05</a> Intro [live]</li>',
+      '  <li><a href="https://youtu.be/dQw4w9WgXcQ?t=65">01:05 - 01:10</a> A &lt;b&gt;bold&lt;/b&gt; &amp; &quot;quoted&quot; \\ take</li>',
+      '</ul>'
+    ].join('\n'))
+  })
+
+  it('writes nothing for no clips', () => {
+    expect(buildTimestampList(VIDEO_ID, [], 'markdown')).toBe('')
+  })
+})
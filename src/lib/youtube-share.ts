@@ -0,0 +1,90 @@
+import type { TimeRange } from './ffmpeg'
+import { formatTimecode } from './timecode'
+
+// Pointing someone at a moment instead of producing a file: youtu.be links,
+// embed URLs and <iframe> snippets for a range, and timestamp lists for a
+// whole clip list. YouTube only takes whole seconds, so starts round down and
+// ends round up to keep the clip inside the range.
+
+export interface EmbedOptions {
+  autoplay: boolean
+  // Browsers only autoplay muted embeds
+  mute: boolean
+  // Replays the range; YouTube needs the video listed as its own playlist for this
+  loop: boolean
+  controls: boolean
+  // youtube-nocookie.com: no cookies until the viewer plays the video
+  nocookie: boolean
+}
+
+export type TimestampListFormat = 'markdown' | 'html'
+
+export interface TimestampItem extends TimeRange {
+  label: string
+}
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  autoplay: false,
+  mute: false,
+  loop: false,
+  controls: true,
+  nocookie: false
+}
+
+const EMBED_ALLOW = 'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share'
+
+const wholeStart = (seconds: number) => Math.max(Math.floor(seconds), 0)
+const wholeEnd = (seconds: number) => Math.ceil(seconds)
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// Brackets in a label would read as link syntax
+const escapeMarkdown = (text: string) => text.replace(/([[\]\\])/g, '\\$1')
+
+// youtu.be link that starts playing at `start`
+export function buildShortLink(videoId: string, start = 0): string {
+  const seconds = wholeStart(start)
+  return `https://youtu.be/${videoId}${seconds > 0 ? `?t=${seconds}` : ''}`
+}
+
+export function buildEmbedUrl(videoId: string, range: TimeRange, options: EmbedOptions = DEFAULT_EMBED_OPTIONS): string {
+  const host = options.nocookie ? 'https://www.youtube-nocookie.com' : 'https://www.youtube.com'
+  const params = new URLSearchParams()
+  if (wholeStart(range.start) > 0) params.set('start', String(wholeStart(range.start)))
+  params.set('end', String(wholeEnd(range.end)))
+  if (options.autoplay) params.set('autoplay', '1')
+  if (options.mute) params.set('mute', '1')
+  if (options.loop) {
+    params.set('loop', '1')
+    params.set('playlist', videoId)
+  }
+  if (!options.controls) params.set('controls', '0')
+  return `${host}/embed/${videoId}?${params}`
+}
+
+export function buildEmbedSnippet(videoId: string, range: TimeRange, options: EmbedOptions, title: string): string {
+  return [
+    '<iframe width="560" height="315"',
+    ` src="${escapeHtml(buildEmbedUrl(videoId, range, options))}"`,
+    ` title="${escapeHtml(title)}"`,
+    ' frameborder="0"',
+    ` allow="${EMBED_ALLOW}"`,
+    ' referrerpolicy="strict-origin-when-cross-origin" allowfullscreen></iframe>'
+  ].join('')
+}
+
+// One linked line per clip, in list order
+export function buildTimestampList(videoId: string, items: TimestampItem[], format: TimestampListFormat): string {
+  const lines = items.map((item) => {
+    const times = `${formatTimecode(item.start)} - ${formatTimecode(item.end)}`
+    const url = buildShortLink(videoId, item.start)
+    return format === 'markdown'
+      ? `- [${times}](${url}) ${escapeMarkdown(item.label)}`
+      : `  <li><a href="${escapeHtml(url)}">${times}</a> ${escapeHtml(item.label)}</li>`
+  })
+  return format === 'markdown' ? lines.join('\n') : ['<ul>', ...lines, '</ul>'].join('\n')
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { isYouTubeUrl, parseYouTubeTime, parseYouTubeUrl, type YouTubeUrl } from './youtube-url'
+
+const ID = 'dQw4w9WgXcQ'
+
+const ACCEPTED: [string, YouTubeUrl][] = [
+  [ID, { videoId: ID }],
+  [`  ${ID}  `, { videoId: ID }],
+  [`https://www.youtube.com/watch?v=${ID}`, { videoId: ID }],
+  [`http://youtube.com/watch?v=${ID}`, { videoId: ID }],
+  [`youtube.com/watch?v=${ID}`, { videoId: ID }],
+  [`https://m.youtube.com/watch?v=${ID}`, { videoId: ID }],
+  [`https://music.youtube.com/watch?v=${ID}`, { videoId: ID }],
+  [`https://www.youtube.com/watch?feature=share&v=${ID}`, { videoId: ID }],
+  [`https://youtu.be/${ID}`, { videoId: ID }],
+  [`youtu.be/${ID}?si=abc`, { videoId: ID }],
+  [`https://www.youtube.com/shorts/${ID}`, { videoId: ID }],
+  [`https://www.youtube.com/live/${ID}?feature=share`, { videoId: ID }],
+  [`https://www.youtube.com/embed/${ID}`, { videoId: ID }],
+  [`https://www.youtube.com/v/${ID}`, { videoId: ID }],
+  [`https://www.youtube.com/e/${ID}`, { videoId: ID }],
+  [`https://www.youtube-nocookie.com/embed/${ID}`, { videoId: ID }],
+  [`https://www.youtube.com/attribution_link?u=%2Fwatch%3Fv%3D${ID}%26feature%3Dshare`, { videoId: ID }],
+  [`https://youtu.be/${ID}?t=90`, { videoId: ID, startSeconds: 90 }],
+  [`https://youtu.be/${ID}?t=1m30s`, { videoId: ID, startSeconds: 90 }],
+  [`https://www.youtube.com/watch?v=${ID}&t=1h2m3s`, { videoId: ID, startSeconds: 3723 }],
+  [`https://www.youtube.com/watch?v=${ID}#t=45`, { videoId: ID, startSeconds: 45 }],
+  [`https://www.youtube.com/watch?v=${ID}&t=10#t=20`, { videoId: ID, startSeconds: 20 }],
+  [`https://www.youtube.com/embed/${ID}?start=10&end=20`, { videoId: ID, startSeconds: 10, endSeconds: 20 }],
+  [`https://www.youtube.com/watch?v=${ID}&time_continue=5`, { videoId: ID, startSeconds: 5 }],
+  // An end before the start is dropped
+  [`https://www.youtube.com/embed/${ID}?start=30&end=20`, { videoId: ID, startSeconds: 30 }],
+  // t=0 is the same as no timestamp
+  [`https://youtu.be/${ID}?t=0`, { videoId: ID }],
+  [`https://www.youtube.com/watch?v=${ID}&list=PL1234567890&index=3`, { videoId: ID, playlistId: 'PL1234567890', index: 3 }],
+  [`https://www.youtube.com/watch?v=${ID}&list=PL1234567890&index=0`, { videoId: ID, playlistId: 'PL1234567890' }],
+  ['https://www.youtube.com/playlist?list=PL1234567890', { videoId: null, playlistId: 'PL1234567890' }]
+]
+
+// Input that isn't YouTube at all
+const NOT_YOUTUBE = [
+  '',
+  'not a url',
+  'dQw4w9WgXc',
+  'https://vimeo.com/123456',
+  'https://example.com/watch?v=dQw4w9WgXcQ',
+  'https://youtube.com.evil.example/watch?v=dQw4w9WgXcQ',
+  'ftp://youtube.com/watch?v=dQw4w9WgXcQ'
+]
+
+// YouTube links that can't be trimmed, with the reason given
+const REJECTED: [string, RegExp][] = [
+  ['https://www.youtube.com/watch?v=tooShort', /Invalid YouTube video id: tooShort/],
+  [`https://youtu.be/${ID}x`, /Invalid YouTube video id/],
+  ['https://www.youtube.com/watch', /does not point at a video/],
+  ['https://www.youtube.com/channel/UC1234567890', /does not point at a video/],
+  ['https://www.youtube.com/playlist?list=!', /does not point at a video/],
+  ['https://www.youtube.com/clip/UgkxAbCdEf', /clip links are not supported/]
+]
+
+describe('parseYouTubeUrl', () => {
+  it.each(ACCEPTED)('parses %s', (input, expected) => {
+    expect(parseYouTubeUrl(input)).toEqual(expected)
+  })
+
+  it.each(NOT_YOUTUBE)('returns null for %j', (input) => {
+    expect(parseYouTubeUrl(input)).toBeNull()
+    expect(isYouTubeUrl(input)).toBe(false)
+  })
+
+  it.each(REJECTED)('rejects %s', (input, message) => {
+    expect(isYouTubeUrl(input)).toBe(true)
+    expect(() => parseYouTubeUrl(input)).toThrow(message)
+  })
+})
+
+describe('parseYouTubeTime', () => {
+  it.each([
+    ['90', 90],
+    ['90s', 90],
+    ['1m30s', 90],
+    ['1h', 3600],
+    ['1h2m3s', 3723],
+    ['2.5', 2.5],
+    [' 10S ', 10]
+  ])('reads %j as %d seconds', (input, seconds) => {
+    expect(parseYouTubeTime(input)).toBe(seconds)
+  })
+
+  it.each(['', 'abc', '1:30', '-5', '1x'])('rejects %j', (input) => {
+    expect(parseYouTubeTime(input)).toBeNull()
+  })
+})
@@ -0,0 +1,127 @@
+// Parser for the many shapes a YouTube link comes in:
+//
+//   youtube.com/watch?v=ID        m.youtube.com, music.youtube.com, www. variants
+//   youtu.be/ID                   youtube.com/shorts/ID, /live/ID, /embed/ID, /v/ID, /e/ID
+//   youtube-nocookie.com/embed/ID youtube.com/attribution_link?u=/watch%3Fv%3DID
+//   youtube.com/playlist?list=ID  (no video id; the list= of any link is kept too)
+//
+// plus the bare 11-character id. Timestamps come from t=, start= and end= in
+// the query or the #fragment, in seconds ("90", "90s") or units ("1h2m3s").
+//
+// Clip links (youtube.com/clip/ID) are rejected: their id names the clip, and
+// only the clip page knows which video and range it covers.
+
+export interface YouTubeUrl {
+  // null for playlist links such as youtube.com/playlist?list=ID
+  videoId: string | null
+  startSeconds?: number
+  endSeconds?: number
+  playlistId?: string
+  // 1-based position in the playlist
+  index?: number
+}
+
+const VIDEO_ID = /^[A-Za-z0-9_-]{11}$/
+const PLAYLIST_ID = /^[A-Za-z0-9_-]{2,64}$/
+const TIME_UNITS = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s?)?$/
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'gaming.youtube.com']
+const NOCOOKIE_HOSTS = ['youtube-nocookie.com', 'www.youtube-nocookie.com']
+const SHORT_HOSTS = ['youtu.be', 'www.youtu.be']
+
+// Path prefixes followed directly by the video id
+const ID_PATH_PREFIXES = ['shorts', 'live', 'embed', 'v', 'e']
+
+export function isYouTubeVideoId(value: string): boolean {
+  return VIDEO_ID.test(value)
+}
+
+// Seconds from "90", "90s", "1m30s" or "1h2m3s"; null when unreadable
+export function parseYouTubeTime(value: string): number | null {
+  const normalized = value.trim().toLowerCase()
+  const match = normalized.match(TIME_UNITS)
+  if (!normalized || !match) return null
+  const [, hours, minutes, seconds] = match.map(part => (part ? Number(part) : 0))
+  return hours * 3600 + minutes * 60 + seconds
+}
+
+// Accept links pasted without a scheme, such as youtu.be/ID
+const toUrl = (input: string): URL | null => {
+  const trimmed = input.trim()
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+  } catch {
+    return null
+  }
+}
+
+const hostKind = (url: URL): 'youtube' | 'nocookie' | 'short' | null => {
+  const host = url.hostname.toLowerCase()
+  if (YOUTUBE_HOSTS.includes(host)) return 'youtube'
+  if (NOCOOKIE_HOSTS.includes(host)) return 'nocookie'
+  if (SHORT_HOSTS.includes(host)) return 'short'
+  return null
+}
+
+// Whether the input points at YouTube at all, valid or not
+export function isYouTubeUrl(input: string): boolean {
+  if (isYouTubeVideoId(input.trim())) return true
+  const url = toUrl(input)
+  return url !== null && (url.protocol === 'https:' || url.protocol === 'http:') && hostKind(url) !== null
+}
+
+// The id, before validation, wherever this URL shape keeps it
+const rawVideoId = (url: URL): string | null => {
+  const kind = hostKind(url)
+  const segments = url.pathname.split('/').filter(Boolean)
+
+  if (kind === 'short') return segments[0] ?? null
+  if (segments.length === 0 || segments[0] === 'watch') return url.searchParams.get('v')
+  if (ID_PATH_PREFIXES.includes(segments[0])) return segments[1] ?? null
+  if (segments[0] === 'attribution_link') {
+    const target = url.searchParams.get('u')
+    return target ? new URL(target, 'https://www.youtube.com').searchParams.get('v') : null
+  }
+  if (segments[0] === 'clip') throw new Error('YouTube clip links are not supported; open the clip and copy the video link instead')
+  return null
+}
+
+// Timestamp parameters, with the #fragment overriding the query like YouTube does
+const timeParam = (url: URL, fragment: URLSearchParams, ...names: string[]): number | undefined => {
+  for (const source of [fragment, url.searchParams]) {
+    for (const name of names) {
+      const value = source.get(name)
+      const seconds = value === null ? null : parseYouTubeTime(value)
+      if (seconds !== null) return seconds
+    }
+  }
+  return undefined
+}
+
+// Parse a YouTube link. Returns null for input that isn't YouTube at all and
+// throws with a specific message for YouTube links that can't be used.
+export function parseYouTubeUrl(input: string): YouTubeUrl | null {
+  const trimmed = input.trim()
+  if (isYouTubeVideoId(trimmed)) return { videoId: trimmed }
+  if (!isYouTubeUrl(trimmed)) return null
+
+  const url = toUrl(trimmed)!
+  const videoId = rawVideoId(url)
+  const playlistId = url.searchParams.get('list')
+  if (videoId && !isYouTubeVideoId(videoId)) throw new Error(`Invalid YouTube video id: ${videoId}`)
+  if (!videoId && !(playlistId && PLAYLIST_ID.test(playlistId))) throw new Error('This YouTube link does not point at a video')
+
+  const result: YouTubeUrl = { videoId }
+  const fragment = new URLSearchParams(url.hash.slice(1))
+
+  const start = timeParam(url, fragment, 't', 'start', 'time_continue')
+  if (start !== undefined && start > 0) result.startSeconds = start
+  const end = timeParam(url, fragment, 'end')
+  if (end !== undefined && end > (result.startSeconds ?? 0)) result.endSeconds = end
+
+  if (playlistId && PLAYLIST_ID.test(playlistId)) result.playlistId = playlistId
+  const index = Number(url.searchParams.get('index'))
+  if (result.playlistId && Number.isInteger(index) && index > 0) result.index = index
+
+  return result
+}
@@ -0,0 +1,101 @@
+// Store-only ZIP writer. Exported media is already compressed, so entries are
+// stored as-is; that keeps the writer small and the archive quick to build.
+// Sizes and offsets are 32-bit, so archives stop at 4 GiB (no ZIP64).
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+  modified?: Date
+}
+
+const CRC32_TABLE = new Uint32Array(256)
+for (let i = 0; i < 256; i += 1) {
+  let crc = i
+  for (let bit = 0; bit < 8; bit += 1) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1
+  CRC32_TABLE[i] = crc >>> 0
+}
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i += 1) crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, which is all the base format stores
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+})
+
+// Make names unique by appending " (2)", " (3)", ... before the extension
+export function uniqueZipNames(names: string[]): string[] {
+  const seen = new Set<string>()
+  return names.map((name) => {
+    let candidate = name
+    for (let copy = 2; seen.has(candidate.toLowerCase()); copy += 1) {
+      const dot = name.lastIndexOf('.')
+      candidate = dot > 0 ? `${name.slice(0, dot)} (${copy})${name.slice(dot)}` : `${name} (${copy})`
+    }
+    seen.add(candidate.toLowerCase())
+    return candidate
+  })
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const names = uniqueZipNames(entries.map(entry => entry.name)).map(name => encoder.encode(name))
+
+  const localSize = entries.reduce((sum, entry, index) => sum + 30 + names[index].length + entry.data.length, 0)
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0)
+  const totalSize = localSize + centralSize + 22
+  if (totalSize > 0xffffffff || entries.length > 0xffff) throw new Error('Archive too large for a ZIP without ZIP64')
+
+  const output = new Uint8Array(totalSize)
+  const view = new DataView(output.buffer)
+  const central: { offset: number; crc: number; stamp: { time: number; date: number } }[] = []
+
+  // Version 2.0, UTF-8 names (bit 11), method 0 (stored)
+  const writeCommon = (offset: number, index: number, crc: number, stamp: { time: number; date: number }) => {
+    view.setUint16(offset, 20, true)
+    view.setUint16(offset + 2, 0x0800, true)
+    view.setUint16(offset + 4, 0, true)
+    view.setUint16(offset + 6, stamp.time, true)
+    view.setUint16(offset + 8, stamp.date, true)
+    view.setUint32(offset + 10, crc, true)
+    view.setUint32(offset + 14, entries[index].data.length, true)
+    view.setUint32(offset + 18, entries[index].data.length, true)
+    view.setUint16(offset + 22, names[index].length, true)
+    view.setUint16(offset + 24, 0, true)
+  }
+
+  let offset = 0
+  entries.forEach((entry, index) => {
+    const crc = crc32(entry.data)
+    const stamp = dosDateTime(entry.modified ?? new Date())
+    central.push({ offset, crc, stamp })
+
+    view.setUint32(offset, 0x04034b50, true)
+    writeCommon(offset + 4, index, crc, stamp)
+    output.set(names[index], offset + 30)
+    output.set(entry.data, offset + 30 + names[index].length)
+    offset += 30 + names[index].length + entry.data.length
+  })
+
+  const centralOffset = offset
+  entries.forEach((_, index) => {
+    view.setUint32(offset, 0x02014b50, true)
+    view.setUint16(offset + 4, 20, true) // made by
+    writeCommon(offset + 6, index, central[index].crc, central[index].stamp)
+    // comment length, disk number, internal and external attributes stay 0
+    view.setUint32(offset + 42, central[index].offset, true)
+    output.set(names[index], offset + 46)
+    offset += 46 + names[index].length
+  })
+
+  view.setUint32(offset, 0x06054b50, true)
+  view.setUint16(offset + 8, entries.length, true)
+  view.setUint16(offset + 10, entries.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, centralOffset, true)
+  return output
+}
@@ -1,5 +1,6 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter, Route, Routes } from 'react-router-dom'
 import { Toaster } from 'sonner'
 import App from './App'
 import './index.css'
@@ -7,6 +8,12 @@ import './index.css'
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <Toaster position="top-right" />
-    <App />
+    <BrowserRouter>
+      <Routes>
+        {/* One route for every path keeps the app mounted while the address
+            bar follows the edit; App reads /v/:videoId links itself */}
+        <Route path="*" element={<App />} />
+      </Routes>
+    </BrowserRouter>
   </React.StrictMode>,
 ) 
\ No newline at end of file
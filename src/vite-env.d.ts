@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Enables exact durations from the YouTube Data API v3
+  readonly VITE_YOUTUBE_API_KEY?: string
+  // Overrides https://www.googleapis.com/youtube/v3, e.g. for a local mock server
+  readonly VITE_YOUTUBE_API_BASE_URL?: string
+  // Origin of the source server (npm run server); defaults to the proxied /api
+  readonly VITE_SOURCE_API_BASE_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -0,0 +1,66 @@
+import type { EncodingSettings } from '../lib/encoding-settings'
+import { concatMedia, type FfmpegModule, type MediaInput, type PictureEdits, type TimeRange } from '../lib/ffmpeg'
+import { encodeFlac } from '../lib/flac'
+import { encodeGif } from '../lib/gif'
+import { getOutputProfile, type OutputFormat } from '../lib/output-formats'
+import type { PcmAudio } from '../lib/pcm'
+import { encodeWav } from '../lib/wav'
+
+// ffmpeg profiles get the source bytes; the in-browser encoders get audio or
+// frames the main thread already decoded, since only it has Web Audio and <video>
+export type ExportWorkerRequest =
+  | { kind: 'ffmpeg'; input: MediaInput; ranges: TimeRange[]; format: OutputFormat; settings: EncodingSettings; edits: PictureEdits }
+  | { kind: 'pcm'; audio: PcmAudio; format: OutputFormat }
+  | { kind: 'gif'; frames: Uint8ClampedArray[]; width: number; height: number; fps: number }
+
+export type ExportWorkerResponse =
+  | { type: 'log'; line: string }
+  | { type: 'progress'; ratio: number }
+  | { type: 'done'; data: Uint8Array; mimeType: string }
+  | { type: 'error'; message: string }
+
+const reply = (message: ExportWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer })
+}
+
+const onProgress = (ratio: number) => reply({ type: 'progress', ratio })
+
+// Each build is ~10 MB, so only load the one the profile needs
+const loadFfmpeg = async (format: OutputFormat): Promise<FfmpegModule> => {
+  const { encoder } = getOutputProfile(format)
+  const module = encoder === 'ffmpeg-webm'
+    ? await import('ffmpeg.js/ffmpeg-webm.js')
+    : await import('ffmpeg.js/ffmpeg-mp4.js')
+  return module.default
+}
+
+const run = async (request: ExportWorkerRequest): Promise<{ data: Uint8Array; mimeType: string }> => {
+  switch (request.kind) {
+    case 'ffmpeg': {
+      const ffmpeg = await loadFfmpeg(request.format)
+      return concatMedia(ffmpeg, request.input, request.ranges, request.format, request.settings, {
+        onLog: line => reply({ type: 'log', line }),
+        onProgress
+      }, request.edits)
+    }
+    case 'pcm': {
+      const profile = getOutputProfile(request.format)
+      if (profile.encoder === 'wav') return { data: encodeWav(request.audio), mimeType: profile.mimeType }
+      if (profile.encoder === 'flac') return { data: encodeFlac(request.audio, onProgress), mimeType: profile.mimeType }
+      throw new Error(`${profile.label} is not a PCM format`)
+    }
+    case 'gif': {
+      const { frames, width, height, fps } = request
+      return { data: encodeGif(frames, { width, height, fps }, onProgress), mimeType: getOutputProfile('gif').mimeType }
+    }
+  }
+}
+
+self.onmessage = async (event: MessageEvent<ExportWorkerRequest>) => {
+  try {
+    const result = await run(event.data)
+    reply({ type: 'done', data: result.data, mimeType: result.mimeType }, [result.data.buffer])
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
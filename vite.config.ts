@@ -9,10 +9,18 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  // The export worker lazy-loads one ffmpeg.js build, which needs ES module workers
+  worker: {
+    format: 'es',
+  },
   server: {
     port: 3000,
     strictPort: true,
     host: true,
     allowedHosts: true,
+    // The source server (npm run server) fetches YouTube media for the browser
+    proxy: {
+      '/api': 'http://localhost:3001',
+    },
   }
 });
\ No newline at end of file